@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ticket_waitlist_entry" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "ticketId" UUID NOT NULL,
+    "memberId" UUID,
+    "externalCustomerEmail" TEXT,
+    "externalCustomerCode" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ticket_waitlist_entry_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "ticket_waitlist_entry" ADD CONSTRAINT "ticket_waitlist_entry_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "ticket"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "ticket_waitlist_entry" ADD CONSTRAINT "ticket_waitlist_entry_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
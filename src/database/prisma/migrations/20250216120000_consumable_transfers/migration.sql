@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "consumable_transfer" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "consumableId" UUID NOT NULL,
+    "fromMemberId" UUID NOT NULL,
+    "toMemberId" UUID,
+    "toExternalEmail" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "accepted_at" TIMESTAMPTZ(6),
+    "declined_at" TIMESTAMPTZ(6),
+    "cancelled_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "consumable_transfer_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "consumable_transfer" ADD CONSTRAINT "consumable_transfer_consumableId_fkey" FOREIGN KEY ("consumableId") REFERENCES "consumable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "consumable_transfer" ADD CONSTRAINT "consumable_transfer_fromMemberId_fkey" FOREIGN KEY ("fromMemberId") REFERENCES "members"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "consumable_transfer" ADD CONSTRAINT "consumable_transfer_toMemberId_fkey" FOREIGN KEY ("toMemberId") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
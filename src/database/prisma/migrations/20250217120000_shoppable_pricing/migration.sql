@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "consumable" ADD COLUMN     "discount_code_id" UUID;
+
+-- CreateTable
+CREATE TABLE "shoppable_price_tier" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shoppableId" UUID NOT NULL,
+    "role" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shoppable_price_tier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shoppable_discount_code" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shoppableId" UUID NOT NULL,
+    "code" TEXT NOT NULL,
+    "discount_percentage" INTEGER,
+    "discount_amount" INTEGER,
+    "max_uses" INTEGER,
+    "valid_from" TIMESTAMPTZ(6),
+    "valid_to" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shoppable_discount_code_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shoppable_price_tier_shoppableId_role_key" ON "shoppable_price_tier"("shoppableId", "role");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shoppable_discount_code_shoppableId_code_key" ON "shoppable_discount_code"("shoppableId", "code");
+
+-- AddForeignKey
+ALTER TABLE "consumable" ADD CONSTRAINT "consumable_discount_code_id_fkey" FOREIGN KEY ("discount_code_id") REFERENCES "shoppable_discount_code"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "shoppable_price_tier" ADD CONSTRAINT "shoppable_price_tier_shoppableId_fkey" FOREIGN KEY ("shoppableId") REFERENCES "shoppable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "shoppable_discount_code" ADD CONSTRAINT "shoppable_discount_code_shoppableId_fkey" FOREIGN KEY ("shoppableId") REFERENCES "shoppable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "shoppable" ADD COLUMN     "addon_to_id" UUID;
+
+-- AlterTable
+ALTER TABLE "consumable" ADD COLUMN     "parent_id" UUID,
+ADD COLUMN     "is_bundle_item" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "shoppable_bundle_item" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "bundleId" UUID NOT NULL,
+    "shoppableId" UUID NOT NULL,
+
+    CONSTRAINT "shoppable_bundle_item_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shoppable_bundle_item_bundleId_shoppableId_key" ON "shoppable_bundle_item"("bundleId", "shoppableId");
+
+-- AddForeignKey
+ALTER TABLE "shoppable" ADD CONSTRAINT "shoppable_addon_to_id_fkey" FOREIGN KEY ("addon_to_id") REFERENCES "shoppable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "consumable" ADD CONSTRAINT "consumable_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "consumable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "shoppable_bundle_item" ADD CONSTRAINT "shoppable_bundle_item_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "shoppable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "shoppable_bundle_item" ADD CONSTRAINT "shoppable_bundle_item_shoppableId_fkey" FOREIGN KEY ("shoppableId") REFERENCES "shoppable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "shoppable" ADD COLUMN     "reservation_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lottery_participant_count" INTEGER,
+ADD COLUMN     "lottery_winner_count" INTEGER;
+
+-- AlterTable
+ALTER TABLE "consumable" ADD COLUMN     "from_reservation" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "consumable_refund" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shoppableId" UUID NOT NULL,
+    "memberId" UUID,
+    "externalCustomerEmail" TEXT,
+    "amount" INTEGER NOT NULL,
+    "purchased_at" TIMESTAMPTZ(6) NOT NULL,
+    "refunded_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "consumable_refund_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "consumable_refund" ADD CONSTRAINT "consumable_refund_shoppableId_fkey" FOREIGN KEY ("shoppableId") REFERENCES "shoppable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "consumable_refund" ADD CONSTRAINT "consumable_refund_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
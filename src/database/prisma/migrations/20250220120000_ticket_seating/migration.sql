@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "ticket" ADD COLUMN     "sit_with_question_id" UUID,
+ADD COLUMN     "seating_published_at" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "seating_table" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "ticket_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "seat_count" INTEGER NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "seating_table_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "seat_assignment" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "table_id" UUID NOT NULL,
+    "seat_number" INTEGER NOT NULL,
+    "consumable_id" UUID NOT NULL,
+
+    CONSTRAINT "seat_assignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seat_assignment_consumable_id_key" ON "seat_assignment"("consumable_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seat_assignment_table_id_seat_number_key" ON "seat_assignment"("table_id", "seat_number");
+
+-- AddForeignKey
+ALTER TABLE "ticket" ADD CONSTRAINT "ticket_sit_with_question_id_fkey" FOREIGN KEY ("sit_with_question_id") REFERENCES "item_question"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "seating_table" ADD CONSTRAINT "seating_table_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "ticket"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "seat_assignment" ADD CONSTRAINT "seat_assignment_table_id_fkey" FOREIGN KEY ("table_id") REFERENCES "seating_table"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "seat_assignment" ADD CONSTRAINT "seat_assignment_consumable_id_fkey" FOREIGN KEY ("consumable_id") REFERENCES "consumable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
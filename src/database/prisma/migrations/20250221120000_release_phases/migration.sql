@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "shoppable_release_phase" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shoppableId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "name_en" TEXT,
+    "role" VARCHAR(255),
+    "starts_at" TIMESTAMPTZ(6) NOT NULL,
+    "stock" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shoppable_release_phase_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "shoppable_release_phase" ADD CONSTRAINT "shoppable_release_phase_shoppableId_fkey" FOREIGN KEY ("shoppableId") REFERENCES "shoppable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "RefundPolicy" AS ENUM ('FULL_UNTIL_DEADLINE', 'ONLY_IF_RESOLD');
+
+-- AlterTable
+ALTER TABLE "shoppable" ADD COLUMN     "refund_deadline" TIMESTAMPTZ(6),
+ADD COLUMN     "refund_percentage_after_deadline" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "refund_policy" "RefundPolicy" NOT NULL DEFAULT 'FULL_UNTIL_DEADLINE';
+
+-- CreateTable
+CREATE TABLE "consumable_refund_request" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "consumableId" UUID,
+    "shoppableId" UUID NOT NULL,
+    "memberId" UUID NOT NULL,
+    "reason" TEXT NOT NULL,
+    "percentage" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "approved_at" TIMESTAMPTZ(6),
+    "denied_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "consumable_refund_request_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "consumable_refund_request" ADD CONSTRAINT "consumable_refund_request_consumableId_fkey" FOREIGN KEY ("consumableId") REFERENCES "consumable"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "consumable_refund_request" ADD CONSTRAINT "consumable_refund_request_shoppableId_fkey" FOREIGN KEY ("shoppableId") REFERENCES "shoppable"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "consumable_refund_request" ADD CONSTRAINT "consumable_refund_request_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
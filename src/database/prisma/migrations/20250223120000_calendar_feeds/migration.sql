@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "calendar_feed" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "member_id" UUID NOT NULL,
+    "token" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "language" VARCHAR(2) NOT NULL DEFAULT 'sv',
+    "include_going" BOOLEAN NOT NULL DEFAULT true,
+    "include_interested" BOOLEAN NOT NULL DEFAULT true,
+    "include_subscribed_tags" BOOLEAN NOT NULL DEFAULT false,
+    "include_bookings" BOOLEAN NOT NULL DEFAULT false,
+    "include_tickets" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_fetched_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "calendar_feed_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feed_token_key" ON "calendar_feed"("token");
+
+-- AddForeignKey
+ALTER TABLE "calendar_feed" ADD CONSTRAINT "calendar_feed_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
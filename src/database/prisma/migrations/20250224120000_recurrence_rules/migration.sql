@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "RecurringEvent" ADD COLUMN     "by_set_position" INTEGER,
+ADD COLUMN     "by_weekday" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "exception_dates" TIMESTAMPTZ(6)[] DEFAULT ARRAY[]::TIMESTAMPTZ(6)[],
+ADD COLUMN     "skip_exam_weeks" BOOLEAN NOT NULL DEFAULT false;
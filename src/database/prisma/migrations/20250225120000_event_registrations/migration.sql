@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "capacity" INTEGER,
+ADD COLUMN     "registration_deadline" TIMESTAMPTZ(6),
+ADD COLUMN     "registration_enabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "event_registration" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "event_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "is_waitlisted" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_registration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_registration_question" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "event_id" UUID NOT NULL,
+    "title" TEXT NOT NULL,
+    "title_en" TEXT,
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "removed_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "event_registration_question_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_registration_answer" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "registration_id" UUID NOT NULL,
+    "question_id" UUID NOT NULL,
+    "answer" TEXT NOT NULL,
+
+    CONSTRAINT "event_registration_answer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_registration_event_id_member_id_key" ON "event_registration"("event_id", "member_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_registration_answer_registration_id_question_id_key" ON "event_registration_answer"("registration_id", "question_id");
+
+-- AddForeignKey
+ALTER TABLE "event_registration" ADD CONSTRAINT "event_registration_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_registration" ADD CONSTRAINT "event_registration_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_registration_question" ADD CONSTRAINT "event_registration_question_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_registration_answer" ADD CONSTRAINT "event_registration_answer_registration_id_fkey" FOREIGN KEY ("registration_id") REFERENCES "event_registration"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_registration_answer" ADD CONSTRAINT "event_registration_answer_question_id_fkey" FOREIGN KEY ("question_id") REFERENCES "event_registration_question"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "subscription_settings" ADD COLUMN     "lead_time_hours" INTEGER;
+
+-- CreateTable
+CREATE TABLE "event_reminder" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "event_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "start_datetime" TIMESTAMPTZ(6) NOT NULL,
+    "sent_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_reminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_reminder_event_id_member_id_key" ON "event_reminder"("event_id", "member_id");
+
+-- AddForeignKey
+ALTER TABLE "event_reminder" ADD CONSTRAINT "event_reminder_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_reminder" ADD CONSTRAINT "event_reminder_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
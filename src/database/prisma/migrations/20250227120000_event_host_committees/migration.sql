@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "_event_hosts" (
+    "A" UUID NOT NULL,
+    "B" UUID NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_event_hosts_AB_unique" ON "_event_hosts"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_event_hosts_B_index" ON "_event_hosts"("B");
+
+-- AddForeignKey
+ALTER TABLE "_event_hosts" ADD CONSTRAINT "_event_hosts_A_fkey" FOREIGN KEY ("A") REFERENCES "committees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_event_hosts" ADD CONSTRAINT "_event_hosts_B_fkey" FOREIGN KEY ("B") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate the free text organizers which match a committee's name or short name
+INSERT INTO "_event_hosts" ("A", "B")
+SELECT DISTINCT "committees"."id", "events"."id"
+FROM "events"
+JOIN "committees" ON lower(trim("events"."organizer")) IN (
+    lower("committees"."name"),
+    lower("committees"."name_en"),
+    lower("committees"."short_name")
+);
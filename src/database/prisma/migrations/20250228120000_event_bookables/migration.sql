@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "_event_bookables" (
+    "A" UUID NOT NULL,
+    "B" UUID NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_event_bookables_AB_unique" ON "_event_bookables"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_event_bookables_B_index" ON "_event_bookables"("B");
+
+-- AddForeignKey
+ALTER TABLE "_event_bookables" ADD CONSTRAINT "_event_bookables_A_fkey" FOREIGN KEY ("A") REFERENCES "bookables"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_event_bookables" ADD CONSTRAINT "_event_bookables_B_fkey" FOREIGN KEY ("B") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
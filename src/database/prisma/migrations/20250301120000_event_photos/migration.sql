@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "event_photo" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "event_id" UUID NOT NULL,
+    "url" TEXT NOT NULL,
+    "thumbnail_url" TEXT NOT NULL,
+    "uploader_id" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_photo_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_photo_tag" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "photo_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "tagger_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_photo_tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_photo_removal_request" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "photo_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "reason" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "event_photo_removal_request_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_photo_tag_photo_id_member_id_key" ON "event_photo_tag"("photo_id", "member_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_photo_removal_request_photo_id_member_id_key" ON "event_photo_removal_request"("photo_id", "member_id");
+
+-- AddForeignKey
+ALTER TABLE "event_photo" ADD CONSTRAINT "event_photo_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_photo" ADD CONSTRAINT "event_photo_uploader_id_fkey" FOREIGN KEY ("uploader_id") REFERENCES "members"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_photo_tag" ADD CONSTRAINT "event_photo_tag_photo_id_fkey" FOREIGN KEY ("photo_id") REFERENCES "event_photo"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_photo_tag" ADD CONSTRAINT "event_photo_tag_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_photo_tag" ADD CONSTRAINT "event_photo_tag_tagger_id_fkey" FOREIGN KEY ("tagger_id") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_photo_removal_request" ADD CONSTRAINT "event_photo_removal_request_photo_id_fkey" FOREIGN KEY ("photo_id") REFERENCES "event_photo"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_photo_removal_request" ADD CONSTRAINT "event_photo_removal_request_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
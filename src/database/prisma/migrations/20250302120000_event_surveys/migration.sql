@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "event_survey" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "event_id" UUID NOT NULL,
+    "anonymous" BOOLEAN NOT NULL DEFAULT false,
+    "sent_at" TIMESTAMPTZ(6),
+    "recipient_count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_survey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_survey_question" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "survey_id" UUID NOT NULL,
+    "type" VARCHAR(255) NOT NULL,
+    "title" TEXT NOT NULL,
+    "title_en" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "event_survey_question_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_survey_response" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "survey_id" UUID NOT NULL,
+    "member_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_survey_response_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_survey_answer" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "response_id" UUID NOT NULL,
+    "question_id" UUID NOT NULL,
+    "rating" INTEGER,
+    "text" TEXT,
+
+    CONSTRAINT "event_survey_answer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_event_survey_respondents" (
+    "A" UUID NOT NULL,
+    "B" UUID NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_survey_event_id_key" ON "event_survey"("event_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_event_survey_respondents_AB_unique" ON "_event_survey_respondents"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_event_survey_respondents_B_index" ON "_event_survey_respondents"("B");
+
+-- AddForeignKey
+ALTER TABLE "event_survey" ADD CONSTRAINT "event_survey_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_survey_question" ADD CONSTRAINT "event_survey_question_survey_id_fkey" FOREIGN KEY ("survey_id") REFERENCES "event_survey"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_survey_response" ADD CONSTRAINT "event_survey_response_survey_id_fkey" FOREIGN KEY ("survey_id") REFERENCES "event_survey"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_survey_response" ADD CONSTRAINT "event_survey_response_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_survey_answer" ADD CONSTRAINT "event_survey_answer_response_id_fkey" FOREIGN KEY ("response_id") REFERENCES "event_survey_response"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_survey_answer" ADD CONSTRAINT "event_survey_answer_question_id_fkey" FOREIGN KEY ("question_id") REFERENCES "event_survey_question"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "_event_survey_respondents" ADD CONSTRAINT "_event_survey_respondents_A_fkey" FOREIGN KEY ("A") REFERENCES "event_survey"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_event_survey_respondents" ADD CONSTRAINT "_event_survey_respondents_B_fkey" FOREIGN KEY ("B") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
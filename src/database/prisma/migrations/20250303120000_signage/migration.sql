@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "members" ADD COLUMN "birthday" DATE;
+
+-- CreateTable
+CREATE TABLE "signage_screen" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "slug" VARCHAR(255) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "signage_screen_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "signage_slide" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "screen_id" UUID NOT NULL,
+    "type" VARCHAR(255) NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "duration_seconds" INTEGER NOT NULL DEFAULT 15,
+    "title" VARCHAR(255),
+    "tag_id" UUID,
+    "image_url" TEXT,
+
+    CONSTRAINT "signage_slide_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signage_screen_slug_key" ON "signage_screen"("slug");
+
+-- AddForeignKey
+ALTER TABLE "signage_slide" ADD CONSTRAINT "signage_slide_screen_id_fkey" FOREIGN KEY ("screen_id") REFERENCES "signage_screen"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "signage_slide" ADD CONSTRAINT "signage_slide_tag_id_fkey" FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "import_source_id" UUID,
+ADD COLUMN "import_uid" VARCHAR(255),
+ADD COLUMN "import_fingerprint" VARCHAR(64);
+
+-- CreateTable
+CREATE TABLE "event_calendar_source" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" VARCHAR(255) NOT NULL,
+    "url" TEXT NOT NULL,
+    "organizer" VARCHAR(255) NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "author_id" UUID NOT NULL,
+    "last_imported_at" TIMESTAMPTZ(6),
+    "last_error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_calendar_source_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_calendar_tag_rule" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "source_id" UUID NOT NULL,
+    "keyword" VARCHAR(255) NOT NULL,
+    "tag_id" UUID NOT NULL,
+
+    CONSTRAINT "event_calendar_tag_rule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "events_import_source_id_import_uid_key" ON "events"("import_source_id", "import_uid");
+
+-- AddForeignKey
+ALTER TABLE "events" ADD CONSTRAINT "events_import_source_id_fkey" FOREIGN KEY ("import_source_id") REFERENCES "event_calendar_source"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_calendar_source" ADD CONSTRAINT "event_calendar_source_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_calendar_tag_rule" ADD CONSTRAINT "event_calendar_tag_rule_source_id_fkey" FOREIGN KEY ("source_id") REFERENCES "event_calendar_source"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_calendar_tag_rule" ADD CONSTRAINT "event_calendar_tag_rule_tag_id_fkey" FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
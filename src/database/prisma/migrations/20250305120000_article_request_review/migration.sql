@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "article_requests" ADD COLUMN "changes_requested_datetime" TIMESTAMPTZ(6),
+ADD COLUMN "requested_changes" TEXT,
+ADD COLUMN "submitted_datetime" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP;
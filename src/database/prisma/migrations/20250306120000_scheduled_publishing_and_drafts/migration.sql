@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "articles" ADD COLUMN "notify_on_publish" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "notification_text" VARCHAR(255),
+ADD COLUMN "notification_sent_at" TIMESTAMPTZ(6);
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "published_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "notify_on_publish" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "notification_text" VARCHAR(255),
+ADD COLUMN "notification_sent_at" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "drafts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "member_id" UUID NOT NULL,
+    "type" VARCHAR(16) NOT NULL,
+    "target_id" UUID,
+    "title" VARCHAR(255) NOT NULL,
+    "data" JSONB NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "drafts_member_id_idx" ON "drafts"("member_id");
+
+-- AddForeignKey
+ALTER TABLE "drafts" ADD CONSTRAINT "drafts_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "article_revisions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "article_id" UUID NOT NULL,
+    "header" VARCHAR(255) NOT NULL,
+    "header_en" VARCHAR(255),
+    "body" TEXT NOT NULL,
+    "body_en" TEXT,
+    "editor_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "article_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "markdown_revisions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" VARCHAR(255) NOT NULL,
+    "markdown" TEXT NOT NULL,
+    "markdown_en" TEXT,
+    "editor_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "markdown_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "article_revisions_article_id_idx" ON "article_revisions"("article_id");
+
+-- CreateIndex
+CREATE INDEX "markdown_revisions_name_idx" ON "markdown_revisions"("name");
+
+-- AddForeignKey
+ALTER TABLE "article_revisions" ADD CONSTRAINT "article_revisions_article_id_fkey" FOREIGN KEY ("article_id") REFERENCES "articles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "article_revisions" ADD CONSTRAINT "article_revisions_editor_id_fkey" FOREIGN KEY ("editor_id") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "markdown_revisions" ADD CONSTRAINT "markdown_revisions_name_fkey" FOREIGN KEY ("name") REFERENCES "markdowns"("name") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "markdown_revisions" ADD CONSTRAINT "markdown_revisions_editor_id_fkey" FOREIGN KEY ("editor_id") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- The current text is the first revision, whose editor isn't known
+INSERT INTO "article_revisions" ("article_id", "header", "header_en", "body", "body_en", "created_at")
+SELECT "id", "header", "header_en", "body", "body_en", COALESCE("latest_edit_datetime", "created_datetime")
+FROM "articles";
+
+INSERT INTO "markdown_revisions" ("name", "markdown", "markdown_en")
+SELECT "name", "markdown", "markdown_en"
+FROM "markdowns";
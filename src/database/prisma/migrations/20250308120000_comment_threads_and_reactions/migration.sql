@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "article_comments" ADD COLUMN "edited_at" TIMESTAMPTZ(6),
+ADD COLUMN "parent_id" UUID,
+ALTER COLUMN "content" SET DATA TYPE TEXT;
+
+-- AlterTable
+ALTER TABLE "event_comments" ADD COLUMN "edited_at" TIMESTAMPTZ(6),
+ADD COLUMN "parent_id" UUID;
+
+-- CreateTable
+CREATE TABLE "article_comment_reactions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "comment_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "emoji" VARCHAR(16) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "article_comment_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_comment_reactions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "comment_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "emoji" VARCHAR(16) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_comment_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "article_comments_parent_id_idx" ON "article_comments"("parent_id");
+
+-- CreateIndex
+CREATE INDEX "event_comments_parent_id_idx" ON "event_comments"("parent_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "article_comment_reactions_comment_id_member_id_emoji_key" ON "article_comment_reactions"("comment_id", "member_id", "emoji");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_comment_reactions_comment_id_member_id_emoji_key" ON "event_comment_reactions"("comment_id", "member_id", "emoji");
+
+-- AddForeignKey
+ALTER TABLE "article_comments" ADD CONSTRAINT "article_comments_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "article_comments"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_comments" ADD CONSTRAINT "event_comments_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "event_comments"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "article_comment_reactions" ADD CONSTRAINT "article_comment_reactions_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "article_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "article_comment_reactions" ADD CONSTRAINT "article_comment_reactions_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_comment_reactions" ADD CONSTRAINT "event_comment_reactions_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "event_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_comment_reactions" ADD CONSTRAINT "event_comment_reactions_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
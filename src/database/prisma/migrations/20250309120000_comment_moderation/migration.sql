@@ -0,0 +1,69 @@
+-- AlterTable
+ALTER TABLE "article_comments" ADD COLUMN "hidden_at" TIMESTAMPTZ(6),
+ADD COLUMN "hidden_by_id" UUID;
+
+-- AlterTable
+ALTER TABLE "event_comments" ADD COLUMN "hidden_at" TIMESTAMPTZ(6),
+ADD COLUMN "hidden_by_id" UUID;
+
+-- CreateTable
+CREATE TABLE "comment_reports" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "article_comment_id" UUID,
+    "event_comment_id" UUID,
+    "reporter_id" UUID NOT NULL,
+    "reason" VARCHAR(500) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMPTZ(6),
+    "resolved_by_id" UUID,
+
+    CONSTRAINT "comment_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "comment_mutes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "member_id" UUID NOT NULL,
+    "reason" VARCHAR(255),
+    "until" TIMESTAMPTZ(6) NOT NULL,
+    "muted_by_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "comment_mutes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "comment_reports_resolved_at_idx" ON "comment_reports"("resolved_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "comment_reports_article_comment_id_reporter_id_key" ON "comment_reports"("article_comment_id", "reporter_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "comment_reports_event_comment_id_reporter_id_key" ON "comment_reports"("event_comment_id", "reporter_id");
+
+-- CreateIndex
+CREATE INDEX "comment_mutes_member_id_until_idx" ON "comment_mutes"("member_id", "until");
+
+-- AddForeignKey
+ALTER TABLE "article_comments" ADD CONSTRAINT "article_comments_hidden_by_id_fkey" FOREIGN KEY ("hidden_by_id") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_comments" ADD CONSTRAINT "event_comments_hidden_by_id_fkey" FOREIGN KEY ("hidden_by_id") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_reports" ADD CONSTRAINT "comment_reports_article_comment_id_fkey" FOREIGN KEY ("article_comment_id") REFERENCES "article_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_reports" ADD CONSTRAINT "comment_reports_event_comment_id_fkey" FOREIGN KEY ("event_comment_id") REFERENCES "event_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_reports" ADD CONSTRAINT "comment_reports_reporter_id_fkey" FOREIGN KEY ("reporter_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_reports" ADD CONSTRAINT "comment_reports_resolved_by_id_fkey" FOREIGN KEY ("resolved_by_id") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_mutes" ADD CONSTRAINT "comment_mutes_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_mutes" ADD CONSTRAINT "comment_mutes_muted_by_id_fkey" FOREIGN KEY ("muted_by_id") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+-- earlier refunds didn't save what was paid, so what was paid back is the best guess for them
+ALTER TABLE "consumable_refund" ADD COLUMN "paid_amount" INTEGER;
+UPDATE "consumable_refund" SET "paid_amount" = "amount";
+ALTER TABLE "consumable_refund" ALTER COLUMN "paid_amount" SET NOT NULL;
@@ -0,0 +1,33 @@
+-- discount codes are compared exactly from now on, so they are saved in upper case like what customers enter is
+-- codes which only differ in case from an older code of the same shoppable get a suffix, e.g. "ABC-2", so that none are lost
+DROP INDEX "shoppable_discount_code_shoppableId_code_key";
+
+WITH "ranked" AS (
+    SELECT
+        "id",
+        upper("code") AS "upper_code",
+        row_number() OVER (PARTITION BY "shoppableId", upper("code") ORDER BY "created_at", "id") AS "position"
+    FROM "shoppable_discount_code"
+)
+UPDATE "shoppable_discount_code" AS "dc"
+SET "code" = CASE
+    WHEN "ranked"."position" = 1 THEN "ranked"."upper_code"
+    ELSE "ranked"."upper_code" || '-' || "ranked"."position"
+END
+FROM "ranked"
+WHERE "ranked"."id" = "dc"."id";
+
+-- a suffixed code can still be taken by another code of the shoppable, which has to be renamed by hand
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM "shoppable_discount_code"
+        GROUP BY "shoppableId", "code"
+        HAVING count(*) > 1
+    ) THEN
+        RAISE EXCEPTION 'Discount codes which only differed in case could not be given unique names, rename them by hand and run the migration again';
+    END IF;
+END $$;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shoppable_discount_code_shoppableId_code_key" ON "shoppable_discount_code"("shoppableId", "code");
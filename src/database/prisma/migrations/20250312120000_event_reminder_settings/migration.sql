@@ -0,0 +1,10 @@
+-- Add EVENT_REMINDER notification setting to all members (who do not already have it),
+-- since only new members got it when it was added
+INSERT INTO subscription_settings (member_id, type, push_notification)
+SELECT
+	members.id,
+	'EVENT_REMINDER',
+	TRUE
+FROM
+	members
+ON CONFLICT (member_id, type) DO NOTHING;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "consumable_transfer" ADD COLUMN "accept_token" TEXT;
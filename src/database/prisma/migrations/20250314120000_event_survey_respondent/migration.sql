@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "event_survey_respondent" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "survey_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_survey_respondent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_survey_respondent_survey_id_member_id_key" ON "event_survey_respondent"("survey_id", "member_id");
+
+-- AddForeignKey
+ALTER TABLE "event_survey_respondent" ADD CONSTRAINT "event_survey_respondent_survey_id_fkey" FOREIGN KEY ("survey_id") REFERENCES "event_survey"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "event_survey_respondent" ADD CONSTRAINT "event_survey_respondent_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- Move the existing respondents, "A" is the survey and "B" the member
+INSERT INTO "event_survey_respondent" ("survey_id", "member_id")
+SELECT "A", "B" FROM "_event_survey_respondents";
+
+-- DropTable
+DROP TABLE "_event_survey_respondents";
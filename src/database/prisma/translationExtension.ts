@@ -68,6 +68,9 @@ const translatedModelFields: ModelFields = {
   itemQuestionOption: {
     answer: "answerEn",
   },
+  shoppableReleasePhase: {
+    name: "nameEn",
+  },
 };
 
 /**
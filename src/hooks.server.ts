@@ -26,6 +26,12 @@ import translatedExtension from "./database/prisma/translationExtension";
 import { getAccessPolicies } from "./hooks.server.helpers";
 import { getDerivedRoles } from "$lib/utils/authorization";
 import meilisearchSync from "$lib/search/sync";
+import { sendEventReminders } from "$lib/events/server/reminders";
+import { sendDueEventNotifications } from "$lib/events/server/notifications";
+import { sendDueArticleNotifications } from "$lib/news/server/notifications";
+import { sendEventSurveys } from "$lib/events/server/surveys";
+import { importEventCalendars } from "$lib/server/ics/importCalendars";
+import { handleStartedReleasePhases } from "$lib/server/shop/addToCart/reservations";
 import {
   PrismaClientKnownRequestError,
   PrismaClientValidationError,
@@ -227,6 +233,17 @@ const themeHandle: Handle = async ({ event, resolve }) => {
 // run a keycloak sync every day at midnight
 schedule.scheduleJob("0 0 * * *", () => keycloak.sync(authorizedPrismaClient));
 schedule.scheduleJob("0 0 * * *", meilisearchSync);
+// send event reminders which are due every five minutes
+schedule.scheduleJob("*/5 * * * *", () => sendEventReminders());
+// send the surveys of events which have ended
+schedule.scheduleJob("*/5 * * * *", () => sendEventSurveys());
+// import the events of external calendars every hour
+schedule.scheduleJob("0 * * * *", () => importEventCalendars());
+// notify subscribers about scheduled articles and events as they go live
+schedule.scheduleJob("* * * * *", () => sendDueArticleNotifications());
+schedule.scheduleJob("* * * * *", () => sendDueEventNotifications());
+// give the tickets of release phases which have started to the queue and the lottery
+schedule.scheduleJob("* * * * *", () => handleStartedReleasePhases());
 
 export const handleError: HandleServerError = ({ error }) => {
   if (error instanceof PrismaClientKnownRequestError) {
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { draftLink, reviveDraftData, toDraftData } from "./drafts";
+
+describe("drafts", () => {
+  it("leaves files out of the saved data", () => {
+    expect(
+      toDraftData({
+        title: "Sittning",
+        image: new File([], "image.png"),
+        draftId: "1",
+        tags: [],
+      }),
+    ).toEqual({ title: "Sittning", tags: [] });
+  });
+
+  it("gets the dates back after being stored as JSON", () => {
+    const data = {
+      title: "Sittning",
+      startDatetime: new Date(2025, 2, 7, 18),
+      registrationDeadline: null,
+      exceptionDates: [new Date(2025, 2, 14)],
+      author: { member: { firstName: "Anna" } },
+    };
+    expect(reviveDraftData(JSON.parse(JSON.stringify(data)))).toEqual(data);
+  });
+
+  it("keeps strings which only look a bit like dates", () => {
+    expect(reviveDraftData({ title: "2025-03-07" })).toEqual({
+      title: "2025-03-07",
+    });
+  });
+
+  it("links to the page the draft was written on", () => {
+    expect(draftLink({ id: "d", type: "ARTICLE" })).toBe(
+      "/news/create?draft=d",
+    );
+    expect(draftLink({ id: "d", type: "EVENT" }, "sittning")).toBe(
+      "/events/sittning/edit?draft=d",
+    );
+  });
+});
@@ -0,0 +1,55 @@
+/*
+While an article or event is being written, the form is saved as a draft a moment after each change, see
+DraftAutosave.svelte. A draft belongs to the member writing it, and is removed once the article or event is saved.
+Drafts are opened again by adding ?draft=<id> to the page they were written on.
+*/
+
+// we cannot use an enum, since the type is stored as a string
+export const draftTypes = ["ARTICLE", "EVENT"] as const;
+export type DraftType = (typeof draftTypes)[number];
+
+// how long after the last change the draft is saved
+export const DRAFT_AUTOSAVE_DELAY_MS = 2000;
+
+// the format of JSON.stringify
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * The form data which can be saved in a draft. Files can't be stored as JSON, so they are left out.
+ */
+export const toDraftData = (data: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(data).filter(
+      ([key, value]) => key !== "draftId" && !(value instanceof File),
+    ),
+  );
+
+/**
+ * Drafts are stored as JSON, which turns dates into strings. This turns them back, also inside arrays and objects.
+ */
+export const reviveDraftData = (value: unknown): unknown => {
+  if (typeof value === "string" && ISO_DATE.test(value)) return new Date(value);
+  if (Array.isArray(value)) return value.map(reviveDraftData);
+  if (value !== null && typeof value === "object")
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [
+        key,
+        reviveDraftData(inner),
+      ]),
+    );
+  return value;
+};
+
+/**
+ * The page a draft was written on, where it can be continued.
+ * @param targetSlug the slug of the article or event being edited, if any
+ */
+export const draftLink = (
+  draft: { id: string; type: string },
+  targetSlug: string | null = null,
+) => {
+  const base = draft.type === "EVENT" ? "/events" : "/news";
+  return targetSlug
+    ? `${base}/${targetSlug}/edit?draft=${draft.id}`
+    : `${base}/create?draft=${draft.id}`;
+};
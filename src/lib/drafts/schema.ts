@@ -0,0 +1,16 @@
+import { draftTypes } from "$lib/drafts/drafts";
+import { z } from "zod";
+
+export const saveDraftSchema = z.object({
+  // null for a draft which hasn't been saved yet
+  id: z.string().uuid().nullable().default(null),
+  type: z.enum(draftTypes),
+  targetId: z.string().uuid().nullable().default(null),
+  title: z.string().default(""),
+  data: z.record(z.string(), z.unknown()),
+});
+export type SaveDraftSchema = z.infer<typeof saveDraftSchema>;
+
+export const discardDraftSchema = z.object({
+  draftId: z.string().uuid(),
+});
@@ -0,0 +1,63 @@
+import { reviveDraftData, type DraftType } from "$lib/drafts/drafts";
+import type { SaveDraftSchema } from "$lib/drafts/schema";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+
+/**
+ * Saves a draft, and returns its id. Returns null if the draft is gone, i.e. it has been discarded or
+ * what it was a draft of has been saved, in which case the next change starts a new draft.
+ */
+export const saveDraft = async (
+  prisma: PrismaClient,
+  memberId: string,
+  { id, type, targetId, title, data }: SaveDraftSchema,
+) => {
+  const draftData = {
+    type,
+    targetId,
+    title: title.slice(0, 255),
+    data: data as Prisma.InputJsonObject,
+  };
+  if (id) {
+    const { count } = await prisma.draft.updateMany({
+      where: { id },
+      data: draftData,
+    });
+    return count > 0 ? id : null;
+  }
+  const draft = await prisma.draft.create({
+    data: { ...draftData, memberId },
+  });
+  return draft.id;
+};
+
+/**
+ * Removes the draft once what it was a draft of has been saved.
+ */
+export const discardDraft = async (
+  prisma: PrismaClient,
+  draftId: string | null | undefined,
+) => {
+  if (!draftId) return;
+  await prisma.draft.deleteMany({ where: { id: draftId } });
+};
+
+/**
+ * The form data of one of the member's drafts, for filling in the form again.
+ */
+export const getDraftData = async (
+  prisma: PrismaClient,
+  draftId: string | null,
+  type: DraftType,
+) => {
+  // the id comes from the url
+  if (!draftId || !z.string().uuid().safeParse(draftId).success) return null;
+  const draft = await prisma.draft.findFirst({
+    where: { id: draftId, type },
+  });
+  if (!draft) return null;
+  return {
+    ...(reviveDraftData(draft.data) as Record<string, unknown>),
+    draftId: draft.id,
+  };
+};
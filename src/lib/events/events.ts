@@ -23,5 +23,7 @@ export const BASIC_EVENT_FILTER = (
             },
           }
       : undefined,
+  // scheduled events are hidden until they are published
+  publishedAt: { lte: new Date() },
   OR: [{ removedAt: { gt: new Date() } }, { removedAt: null }],
 });
@@ -14,11 +14,17 @@ const include = {
   comments: {
     include: {
       member: true,
+      reactions: {
+        select: { emoji: true, memberId: true },
+      },
     },
   },
   going: true,
   interested: true,
   tags: true,
+  hostCommittees: {
+    select: { id: true, name: true, nameEn: true, shortName: true },
+  },
 };
 
 export const getAllEvents = async (
@@ -139,3 +145,52 @@ export const getEvent = async (prisma: PrismaClient, slug: string) => {
 export type EventWithIncludes = NonNullable<
   Awaited<ReturnType<typeof getEvent>>
 >;
+
+/**
+ * Events which have reserved bookables and haven't ended, for warning about clashes with bookings.
+ */
+export const getEventReservations = async (
+  prisma: PrismaClient,
+  from = new Date(),
+) =>
+  prisma.event.findMany({
+    where: {
+      AND: [
+        // scheduled events reserve their bookables too
+        { OR: [{ removedAt: { gt: new Date() } }, { removedAt: null }] },
+        { OR: [{ isCancelled: false }, { isCancelled: null }] },
+      ],
+      reservedBookables: { some: {} },
+      endDatetime: { gte: from },
+    },
+    orderBy: { startDatetime: "asc" },
+    select: {
+      id: true,
+      slug: true,
+      title: true,
+      startDatetime: true,
+      endDatetime: true,
+      reservedBookables: { select: { id: true, name: true } },
+    },
+  });
+
+/**
+ * What the event editor needs to reserve bookables and show clashes before saving.
+ * Members who can't see bookings or bookables get empty lists.
+ */
+export const getReservationOptions = async (prisma: PrismaClient) => {
+  const now = new Date();
+  const [bookables, bookingRequests, eventReservations] = await Promise.all([
+    prisma.bookable.findMany({
+      where: { isDisabled: false },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true },
+    }),
+    prisma.bookingRequest.findMany({
+      where: { end: { gte: now }, status: { not: "DENIED" } },
+      include: { bookables: { select: { id: true, name: true } } },
+    }),
+    getEventReservations(prisma, now),
+  ]);
+  return { bookables, bookingRequests, eventReservations };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  getMissingAnswers,
+  getPromotableCount,
+  getSpotsLeft,
+  isRegistrationOpen,
+} from "./registration";
+
+const event = {
+  registrationEnabled: true,
+  capacity: 10,
+  registrationDeadline: null,
+  startDatetime: new Date(2025, 2, 1, 18),
+};
+
+describe("event registration", () => {
+  it("is open until the event starts without a deadline", () => {
+    expect(isRegistrationOpen(event, new Date(2025, 2, 1, 17))).toBe(true);
+    expect(isRegistrationOpen(event, new Date(2025, 2, 1, 18))).toBe(false);
+  });
+
+  it("closes at the deadline", () =>
+    expect(
+      isRegistrationOpen(
+        { ...event, registrationDeadline: new Date(2025, 1, 20) },
+        new Date(2025, 1, 21),
+      ),
+    ).toBe(false));
+
+  it("is closed when registration isn't enabled", () =>
+    expect(
+      isRegistrationOpen(
+        { ...event, registrationEnabled: false },
+        new Date(2025, 1, 1),
+      ),
+    ).toBe(false));
+
+  it("counts the spots left", () => {
+    expect(getSpotsLeft(event, 4)).toBe(6);
+    expect(getSpotsLeft(event, 12)).toBe(0);
+    expect(getSpotsLeft({ capacity: null }, 100)).toBeNull();
+  });
+
+  it("promotes as many as there are spots for", () => {
+    expect(getPromotableCount(event, 9, 3)).toBe(1);
+    expect(getPromotableCount(event, 10, 3)).toBe(0);
+    expect(getPromotableCount({ capacity: null }, 10, 3)).toBe(3);
+  });
+
+  it("finds unanswered required questions", () => {
+    const questions = [
+      { id: "a", required: true, removedAt: null },
+      { id: "b", required: false, removedAt: null },
+      { id: "c", required: true, removedAt: new Date() },
+      { id: "d", required: true, removedAt: null },
+    ];
+    expect(
+      getMissingAnswers(questions, { a: "yes", d: "  " }).map((q) => q.id),
+    ).toEqual(["d"]);
+  });
+});
@@ -0,0 +1,58 @@
+import type { Event, EventRegistrationQuestion } from "@prisma/client";
+
+/*
+Events can have a free registration instead of tickets, for things like study visits which need a headcount but no payment.
+Registered members are added to the event's "going" list, so registering is done with the same button.
+When the event is full new registrations end up on a waitlist, and the first one on it gets the spot when someone cancels.
+*/
+
+type RegistrationSettings = Pick<
+  Event,
+  "registrationEnabled" | "capacity" | "registrationDeadline" | "startDatetime"
+>;
+
+/**
+ * Registration closes at the deadline, or when the event starts if it has none.
+ */
+export const isRegistrationOpen = (
+  event: RegistrationSettings,
+  now = new Date(),
+) =>
+  event.registrationEnabled &&
+  now < (event.registrationDeadline ?? event.startDatetime);
+
+/**
+ * How many more can get a spot, or null if there is no limit.
+ */
+export const getSpotsLeft = (
+  event: Pick<Event, "capacity">,
+  registeredCount: number,
+) =>
+  event.capacity === null
+    ? null
+    : Math.max(0, event.capacity - registeredCount);
+
+/**
+ * How many from the start of the waitlist should get a spot, e.g. after a cancellation or if the capacity is increased.
+ */
+export const getPromotableCount = (
+  event: Pick<Event, "capacity">,
+  registeredCount: number,
+  waitlistCount: number,
+) => Math.min(waitlistCount, getSpotsLeft(event, registeredCount) ?? Infinity);
+
+/**
+ * The required questions which are left unanswered.
+ */
+export const getMissingAnswers = (
+  questions: Array<
+    Pick<EventRegistrationQuestion, "id" | "required" | "removedAt">
+  >,
+  answers: Record<string, string>,
+) =>
+  questions.filter(
+    (question) =>
+      question.required &&
+      question.removedAt === null &&
+      !answers[question.id]?.trim(),
+  );
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { getEventChange, isReminderDue } from "./reminders";
+
+const event = {
+  startDatetime: new Date(2025, 2, 1, 18),
+  endDatetime: new Date(2025, 2, 1, 22),
+  isCancelled: false,
+};
+
+describe("event reminders", () => {
+  it("is due within the lead time", () => {
+    expect(isReminderDue(event, 24, undefined, new Date(2025, 1, 28, 17))).toBe(
+      false,
+    );
+    expect(isReminderDue(event, 24, undefined, new Date(2025, 1, 28, 18))).toBe(
+      true,
+    );
+    expect(isReminderDue(event, 24, undefined, new Date(2025, 2, 1, 18))).toBe(
+      false,
+    );
+  });
+
+  it("isn't sent twice for the same start", () =>
+    expect(
+      isReminderDue(
+        event,
+        24,
+        new Date(2025, 2, 1, 18),
+        new Date(2025, 2, 1, 12),
+      ),
+    ).toBe(false));
+
+  it("is sent again when the event has moved", () =>
+    expect(
+      isReminderDue(
+        event,
+        24,
+        new Date(2025, 2, 1, 17),
+        new Date(2025, 2, 1, 12),
+      ),
+    ).toBe(true));
+});
+
+describe("event changes", () => {
+  it("notices cancellations", () =>
+    expect(getEventChange(event, { ...event, isCancelled: true })).toBe(
+      "CANCELLED",
+    ));
+
+  it("notices new times", () =>
+    expect(
+      getEventChange(event, {
+        ...event,
+        endDatetime: new Date(2025, 2, 1, 23),
+      }),
+    ).toBe("TIME_CHANGED"));
+
+  it("ignores other changes", () => {
+    expect(getEventChange(event, { ...event })).toBeNull();
+    expect(
+      getEventChange(
+        { ...event, isCancelled: true },
+        { ...event, isCancelled: true },
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import type { Event } from "@prisma/client";
+import dayjs from "dayjs";
+
+/*
+Members going to an event are reminded a number of hours before it starts, which they choose in their notification settings.
+Going and interested members are also notified right away when an event is cancelled or moved.
+*/
+
+/**
+ * Whether it is time for a reminder, i.e. the event starts within the lead time but hasn't started yet.
+ * @param remindedStart the start of the event when the member was last reminded, if they have been
+ */
+export const isReminderDue = (
+  event: Pick<Event, "startDatetime">,
+  leadTimeHours: number,
+  remindedStart: Date | undefined,
+  now = new Date(),
+) =>
+  remindedStart?.getTime() !== event.startDatetime.getTime() &&
+  now < event.startDatetime &&
+  !dayjs(now).isBefore(
+    dayjs(event.startDatetime).subtract(leadTimeHours, "hour"),
+  );
+
+export type EventChange = "CANCELLED" | "TIME_CHANGED";
+
+/**
+ * How an edit changed the event in a way the members going to it should know about, if at all.
+ */
+export const getEventChange = (
+  before: Pick<Event, "startDatetime" | "endDatetime" | "isCancelled">,
+  after: Pick<Event, "startDatetime" | "endDatetime" | "isCancelled">,
+): EventChange | null => {
+  if (after.isCancelled && !before.isCancelled) return "CANCELLED";
+  if (
+    before.startDatetime.getTime() !== after.startDatetime.getTime() ||
+    before.endDatetime.getTime() !== after.endDatetime.getTime()
+  )
+    return "TIME_CHANGED";
+  return null;
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  getClashingBookings,
+  getClashingEvents,
+  getSharedBookableNames,
+} from "./reservations";
+
+const idet = { id: "idet", name: "iDét" };
+const grill = { id: "grill", name: "Grillen" };
+
+const pub = {
+  id: "pub",
+  slug: "pub",
+  title: "Pub",
+  startDatetime: new Date(2025, 2, 7, 17),
+  endDatetime: new Date(2025, 2, 7, 23),
+  reservedBookables: [idet],
+};
+
+const booking = (
+  start: Date,
+  end: Date,
+  status: "ACCEPTED" | "PENDING" | "DENIED" = "ACCEPTED",
+) => ({ start, end, status, bookables: [idet] });
+
+describe("event reservations", () => {
+  it("clashes when the times overlap", () => {
+    expect(
+      getClashingEvents(
+        {
+          start: new Date(2025, 2, 7, 22),
+          end: new Date(2025, 2, 8, 1),
+          bookableIds: [idet.id],
+        },
+        [pub],
+      ),
+    ).toEqual([pub]);
+  });
+
+  it("doesn't clash with the event right before or after", () => {
+    expect(
+      getClashingEvents(
+        {
+          start: new Date(2025, 2, 7, 23),
+          end: new Date(2025, 2, 8, 1),
+          bookableIds: [idet.id],
+        },
+        [pub],
+      ),
+    ).toEqual([]);
+    expect(
+      getClashingEvents(
+        {
+          start: new Date(2025, 2, 7, 15),
+          end: new Date(2025, 2, 7, 17),
+          bookableIds: [idet.id],
+        },
+        [pub],
+      ),
+    ).toEqual([]);
+  });
+
+  it("only clashes on the same bookables", () =>
+    expect(
+      getClashingEvents(
+        {
+          start: new Date(2025, 2, 7, 18),
+          end: new Date(2025, 2, 7, 20),
+          bookableIds: [grill.id],
+        },
+        [pub],
+      ),
+    ).toEqual([]));
+
+  it("accepts times from datetime inputs", () =>
+    expect(
+      getClashingEvents(
+        {
+          start: "2025-03-07T18:00",
+          end: "2025-03-07T20:00",
+          bookableIds: [idet.id],
+        },
+        [pub],
+      ),
+    ).toEqual([pub]));
+
+  it("ignores denied bookings and bookings without times", () => {
+    const event = {
+      start: pub.startDatetime,
+      end: pub.endDatetime,
+      bookableIds: [idet.id],
+    };
+    const accepted = booking(
+      new Date(2025, 2, 7, 12),
+      new Date(2025, 2, 7, 18),
+    );
+    const pending = booking(
+      new Date(2025, 2, 7, 20),
+      new Date(2025, 2, 7, 21),
+      "PENDING",
+    );
+    expect(
+      getClashingBookings(event, [
+        accepted,
+        pending,
+        booking(new Date(2025, 2, 7, 18), new Date(2025, 2, 7, 19), "DENIED"),
+        { ...accepted, start: null },
+      ]),
+    ).toEqual([accepted, pending]);
+  });
+
+  it("names the shared bookables", () =>
+    expect(getSharedBookableNames([idet.id], [idet, grill])).toBe("iDét"));
+});
@@ -0,0 +1,75 @@
+import type { Bookable, BookingRequest, Event } from "@prisma/client";
+
+/*
+Events can reserve bookables, e.g. the iDét for a pub, so that they aren't booked for something else at the same time.
+Bookings and events are kept apart, so clashes are only warned about and never prevented.
+*/
+
+export type EventReservation = Pick<
+  Event,
+  "id" | "slug" | "title" | "startDatetime" | "endDatetime"
+> & { reservedBookables: Array<Pick<Bookable, "id" | "name">> };
+
+type BookingReservation = Pick<BookingRequest, "start" | "end" | "status"> & {
+  bookables: Array<Pick<Bookable, "id">>;
+};
+
+type Reservation = {
+  start: Date | string | null;
+  end: Date | string | null;
+  bookableIds: string[];
+};
+
+const overlaps = (a: Reservation, b: Reservation) =>
+  a.start !== null &&
+  a.end !== null &&
+  b.start !== null &&
+  b.end !== null &&
+  new Date(a.start) < new Date(b.end) &&
+  new Date(b.start) < new Date(a.end) &&
+  a.bookableIds.some((id) => b.bookableIds.includes(id));
+
+const fromEvent = (event: EventReservation): Reservation => ({
+  start: event.startDatetime,
+  end: event.endDatetime,
+  bookableIds: event.reservedBookables.map((bookable) => bookable.id),
+});
+
+/**
+ * The events which have reserved any of the bookables at the same time.
+ * @param reservation the times can be strings from a datetime input
+ */
+export const getClashingEvents = <T extends EventReservation>(
+  reservation: Reservation,
+  events: T[],
+) => events.filter((event) => overlaps(reservation, fromEvent(event)));
+
+/**
+ * The bookings of any of the bookables at the same time, except denied ones.
+ * @param reservation the times can be strings from a datetime input
+ */
+export const getClashingBookings = <T extends BookingReservation>(
+  reservation: Reservation,
+  bookings: T[],
+) =>
+  bookings.filter(
+    (booking) =>
+      booking.status !== "DENIED" &&
+      overlaps(reservation, {
+        start: booking.start,
+        end: booking.end,
+        bookableIds: booking.bookables.map((bookable) => bookable.id),
+      }),
+  );
+
+/**
+ * The names of the bookables which are in both.
+ */
+export const getSharedBookableNames = (
+  bookableIds: string[],
+  bookables: Array<Pick<Bookable, "id" | "name">>,
+) =>
+  bookables
+    .filter((bookable) => bookableIds.includes(bookable.id))
+    .map((bookable) => bookable.name)
+    .join(", ");
@@ -4,6 +4,16 @@ import * as m from "$paraglide/messages";
 import type { Infer } from "sveltekit-superforms";
 import { isFileImage } from "$lib/files/utils";
 import { recurringTypesList, recurringTypeValues } from "$lib/utils/events"; // we cannot use the enum from @prisma/client due to vite not supporting enums in client code
+import { weekdays } from "$lib/utils/recurrence";
+import { RATING_SCALE, surveyQuestionTypes } from "$lib/events/surveys";
+
+export const registrationQuestionSchema = z.object({
+  id: z.string().uuid().optional(),
+  title: z.string().min(1),
+  titleEn: z.string().nullable().default(null),
+  required: z.boolean().default(false),
+});
+export type RegistrationQuestion = z.infer<typeof registrationQuestionSchema>;
 
 export const eventSchema = z
   .object({
@@ -17,6 +27,8 @@ export const eventSchema = z
     link: z.string().nullable().default(null),
     location: z.string().nullable().default(null),
     organizer: z.string().default(""),
+    hostCommitteeIds: z.array(z.string().uuid()).default([]),
+    reservedBookableIds: z.array(z.string().uuid()).default([]),
 
     startDatetime: z.date().default(() => new Date()),
     endDatetime: z
@@ -49,9 +61,25 @@ export const eventSchema = z
       .enum([recurringTypesList[0]!, ...recurringTypesList.slice(1)]) // type is [string, ...string[]]
       .default(recurringTypeValues.WEEKLY),
     separationCount: z.number().default(0),
+    // see utils/recurrence.ts
+    byWeekday: z.array(z.enum(weekdays)).default([]),
+    bySetPosition: z.number().int().min(-5).max(5).nullable().default(null),
+    exceptionDates: z.array(z.date()).default([]),
+    skipExamWeeks: z.boolean().default(false),
     recurringEndDatetime: z
       .date()
       .default(() => new Date(new Date().getTime() + 7 * 24 * 60 * 60 * 1000)), // one week later
+    // see events/registration.ts
+    registrationEnabled: z.boolean().default(false),
+    capacity: z.number().int().positive().nullable().default(null),
+    registrationDeadline: z.date().nullable().default(null),
+    registrationQuestions: z.array(registrationQuestionSchema).default([]),
+    // empty to publish right away, see utils/scheduledPublishing.ts
+    publishAt: z.date().nullable().default(null),
+    notifyOnPublish: z.boolean().default(false),
+    notificationText: z.string().max(255).nullable().default(null),
+    // the autosaved draft, see drafts/drafts.ts
+    draftId: z.string().uuid().nullable().default(null),
   })
   .refine((data) => data.startDatetime < data.endDatetime, {
     message: m.events_errors_endAfterStart(),
@@ -64,9 +92,85 @@ export const eventSchema = z
       message: m.events_errors_endAfterStart(),
       path: ["recurringEndDatetime"],
     },
+  )
+  .refine(
+    (data) =>
+      !data.registrationDeadline ||
+      data.registrationDeadline <= data.startDatetime,
+    {
+      message: m.events_errors_deadlineBeforeStart(),
+      path: ["registrationDeadline"],
+    },
   );
 export type EventSchema = Infer<typeof eventSchema>;
 
+export const registrationSchema = z.object({
+  // by question id
+  answers: z.record(z.string(), z.string().max(1000)).default({}),
+});
+export type RegistrationSchema = Infer<typeof registrationSchema>;
+
+export const messageRegistrantsSchema = z.object({
+  message: z.string().min(1).max(1000),
+  includeWaitlist: z.boolean().default(false),
+});
+export type MessageRegistrantsSchema = Infer<typeof messageRegistrantsSchema>;
+
+export const uploadPhotosSchema = z.object({
+  photos: z
+    .array(
+      z
+        .instanceof(File, { message: "Please upload a file" })
+        .refine((file) => isFileImage(file), {
+          message: "Måste vara en bild",
+        }),
+    )
+    .min(1),
+});
+export type UploadPhotosSchema = Infer<typeof uploadPhotosSchema>;
+
+export const photoSchema = z.object({
+  photoId: z.string().uuid(),
+});
+export const photoTagSchema = photoSchema.extend({
+  memberId: z.string().uuid(),
+});
+export type PhotoTagSchema = Infer<typeof photoTagSchema>;
+export const photoRemovalRequestSchema = photoSchema.extend({
+  reason: z.string().max(1000).nullable().default(null),
+});
+export type PhotoRemovalRequestSchema = Infer<typeof photoRemovalRequestSchema>;
+export const photoRemovalResolutionSchema = z.object({
+  requestId: z.string().uuid(),
+  removePhoto: z.boolean().default(false),
+});
+
+// see events/surveys.ts
+export const surveyQuestionSchema = z.object({
+  id: z.string().uuid().optional(),
+  type: z.enum(surveyQuestionTypes).default("RATING"),
+  title: z.string().min(1),
+  titleEn: z.string().nullable().default(null),
+});
+export const surveySchema = z.object({
+  anonymous: z.boolean().default(false),
+  questions: z.array(surveyQuestionSchema).min(1),
+});
+export type SurveySchema = Infer<typeof surveySchema>;
+export const surveyResponseSchema = z.object({
+  // by question id
+  ratings: z.record(
+    z.string(),
+    z
+      .number()
+      .int()
+      .min(RATING_SCALE[0])
+      .max(RATING_SCALE[RATING_SCALE.length - 1]!),
+  ),
+  texts: z.record(z.string(), z.string().max(2000)),
+});
+export type SurveyResponseSchema = Infer<typeof surveyResponseSchema>;
+
 export const interestedGoingSchema = z.object({
   eventId: z.string(),
 });
@@ -2,20 +2,32 @@ import { PUBLIC_BUCKETS_FILES } from "$env/static/public";
 import { actionType, eventSchema } from "$lib/events/schema";
 import { uploadFile } from "$lib/files/uploadFiles";
 import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import { isRecurringType, type RecurringType } from "$lib/utils/events";
 import {
-  getIncrementType,
-  isRecurringType,
-  type RecurringType,
-} from "$lib/utils/events";
+  addSectionDays,
+  getOccurrences,
+  sectionDayDiff,
+  shiftWeekdays,
+  startOfSectionDay,
+} from "$lib/utils/recurrence";
+import { getEventChange } from "$lib/events/reminders";
+import { notifyEventChange } from "$lib/events/server/reminders";
+import { sendDueEventNotifications } from "$lib/events/server/notifications";
+import { discardDraft } from "$lib/drafts/server/drafts";
+import { publishingStatus } from "$lib/utils/scheduledPublishing";
+import {
+  fillOpenSpots,
+  setRegistrationQuestions,
+} from "$lib/events/server/registrations";
 import { z } from "zod";
 import { redirect } from "$lib/utils/redirect";
 import { slugify, slugWithCount } from "$lib/utils/slugify";
 import * as m from "$paraglide/messages";
-import { error, type Action } from "@sveltejs/kit";
+import { error, type Action, type RequestEvent } from "@sveltejs/kit";
 import type { AuthUser } from "@zenstackhq/runtime";
 import dayjs from "dayjs";
 import DOMPurify from "isomorphic-dompurify";
-import { fail, superValidate } from "sveltekit-superforms";
+import { fail, setError, superValidate } from "sveltekit-superforms";
 import { zod } from "sveltekit-superforms/adapters";
 
 const uploadImage = async (user: AuthUser, image: File, slug: string) => {
@@ -34,6 +46,16 @@ const uploadImage = async (user: AuthUser, image: File, slug: string) => {
   return imageUrl;
 };
 
+const redirectScheduled = (event: RequestEvent) =>
+  redirect(
+    "/drafts",
+    {
+      message: "Evenemang schemalagt",
+      type: "success",
+    },
+    event,
+  );
+
 export const createEvent: Action = async (event) => {
   const { request, locals } = event;
   const { prisma, user } = locals;
@@ -44,11 +66,22 @@ export const createEvent: Action = async (event) => {
     image,
     recurringType,
     separationCount,
+    byWeekday,
+    bySetPosition,
+    exceptionDates,
+    skipExamWeeks,
     isRecurring,
     recurringEndDatetime,
+    registrationQuestions,
+    hostCommitteeIds,
+    reservedBookableIds,
+    publishAt,
+    notifyOnPublish,
+    draftId,
     ...eventData
   } = form.data;
   const slug = slugify(form.data.title);
+  const publishedAt = publishAt ?? new Date();
   // has to be authorized to count all slugs
   let slugCount = await authorizedPrismaClient.event.count({
     where: {
@@ -70,6 +103,14 @@ export const createEvent: Action = async (event) => {
   eventData.descriptionEn = eventData.descriptionEn
     ? DOMPurify.sanitize(eventData.descriptionEn)
     : eventData.descriptionEn;
+  const questionData = registrationQuestions.map(
+    ({ title, titleEn, required }, i) => ({
+      title,
+      titleEn,
+      required,
+      order: i,
+    }),
+  );
 
   if (isRecurring) {
     let recurType: RecurringType;
@@ -78,52 +119,88 @@ export const createEvent: Action = async (event) => {
     } else {
       throw error(500);
     }
+    const rule = {
+      recurringType: recurType,
+      separationCount,
+      byWeekday,
+      // only months have positions among their matching days
+      bySetPosition:
+        recurType === "MONTHLY" || recurType === "YEARLY"
+          ? bySetPosition
+          : null,
+      exceptionDates,
+      skipExamWeeks,
+    };
+    const dates = getOccurrences(
+      rule,
+      eventData.startDatetime,
+      recurringEndDatetime,
+    );
+    if (dates.length === 0)
+      return setError(
+        form,
+        "recurringEndDatetime",
+        m.events_errors_noOccurrences(),
+      );
+    const startEndDiff = dayjs(eventData.endDatetime).diff(
+      eventData.startDatetime,
+    );
+    // each event gets a deadline as long before it as the first one
+    const startDeadlineDiff = eventData.registrationDeadline
+      ? dayjs(eventData.registrationDeadline).diff(eventData.startDatetime)
+      : null;
+
     const recurringEventParent = await prisma.recurringEvent.create({
       data: {
-        startDatetime: eventData.startDatetime,
-        recurringType: recurType,
+        ...rule,
+        startDatetime: dates[0]!,
         endDatetime: recurringEndDatetime,
         author: {
           connect: {
             studentId: user?.studentId,
           },
         },
-        separationCount: separationCount,
       },
     });
 
-    const incrementType: dayjs.ManipulateType = getIncrementType(recurType);
-    const dates: Date[] = [];
-    const dayjsEndDate = dayjs(form.data.recurringEndDatetime);
-    let date = dayjs(form.data.startDatetime);
-    const startEndDiff = dayjs(form.data.endDatetime).diff(date);
-    while (
-      date.isBefore(dayjsEndDate, "day") ||
-      date.isSame(dayjsEndDate, "day")
-    ) {
-      dates.push(date.toDate());
-      date = date.add(form.data.separationCount + 1, incrementType);
-    }
-
     await prisma.$transaction(async (tx) => {
       for (const date of dates) {
         await tx.event.create({
           data: {
             ...eventData,
+            publishedAt,
+            // one notification is enough for the whole series
+            notifyOnPublish: notifyOnPublish && date === dates[0],
             recurringParentId: recurringEventParent.id,
             startDatetime: date,
             isDetatched: false,
             authorId: user?.memberId ?? error(500, "No user"),
             endDatetime: dayjs(date).add(startEndDiff).toDate(),
+            registrationDeadline:
+              startDeadlineDiff !== null
+                ? dayjs(date).add(startDeadlineDiff).toDate()
+                : null,
             slug: slugWithCount(slug, slugCount),
             tags: {
               connect: tagIds,
             },
+            hostCommittees: {
+              connect: hostCommitteeIds.map((id) => ({ id })),
+            },
+            reservedBookables: {
+              connect: reservedBookableIds.map((id) => ({ id })),
+            },
+            registrationQuestions: {
+              create: questionData,
+            },
           },
         });
         slugCount += 1;
       }
     });
+    await discardDraft(prisma, draftId);
+    if (publishingStatus(publishedAt) === "scheduled") redirectScheduled(event);
+    await sendDueEventNotifications();
 
     redirect(
       `/events/${slugWithCount(slug, slugCount - dates.length)}`, // first one created
@@ -138,6 +215,8 @@ export const createEvent: Action = async (event) => {
       data: {
         slug: slugWithCount(slug, slugCount),
         ...eventData,
+        publishedAt,
+        notifyOnPublish,
         author: {
           connect: {
             studentId: user?.studentId,
@@ -146,8 +225,20 @@ export const createEvent: Action = async (event) => {
         tags: {
           connect: tagIds,
         },
+        hostCommittees: {
+          connect: hostCommitteeIds.map((id) => ({ id })),
+        },
+        reservedBookables: {
+          connect: reservedBookableIds.map((id) => ({ id })),
+        },
+        registrationQuestions: {
+          create: questionData,
+        },
       },
     });
+    await discardDraft(prisma, draftId);
+    if (publishingStatus(publishedAt) === "scheduled") redirectScheduled(event);
+    await sendDueEventNotifications();
 
     throw redirect(
       `/events/${result.slug}`,
@@ -184,9 +275,32 @@ export const updateEvent: Action<{ slug: string }> = async (event) => {
      * To avoid lint complaining about unused vars
      **/
     separationCount,
+    /* eslint-disable-next-line @typescript-eslint/no-unused-vars --
+     * The rule can't be changed after creation, except by moving the events
+     **/
+    byWeekday,
+    /* eslint-disable-next-line @typescript-eslint/no-unused-vars --
+     * To avoid lint complaining about unused vars
+     **/
+    bySetPosition,
+    /* eslint-disable-next-line @typescript-eslint/no-unused-vars --
+     * To avoid lint complaining about unused vars
+     **/
+    exceptionDates,
+    /* eslint-disable-next-line @typescript-eslint/no-unused-vars --
+     * To avoid lint complaining about unused vars
+     **/
+    skipExamWeeks,
+    registrationQuestions,
+    hostCommitteeIds,
+    reservedBookableIds,
     tags,
     image,
     editType,
+    publishAt,
+    notifyOnPublish,
+    notificationText,
+    draftId,
     ...eventData
   } = recurringEventData;
 
@@ -203,69 +317,203 @@ export const updateEvent: Action<{ slug: string }> = async (event) => {
       recurringParentId: true,
       startDatetime: true,
       endDatetime: true,
+      isCancelled: true,
+      publishedAt: true,
     },
   });
   if (!existingEvent) {
     throw error(404, m.events_errors_eventNotFound());
   }
+  // events which are live stay live
+  const publishedAt =
+    publishingStatus(existingEvent.publishedAt) === "scheduled"
+      ? (publishAt ?? new Date())
+      : undefined;
 
   if (image) eventData.imageUrl = await uploadImage(user, image, slug);
 
   if (!isRecurring || editType === "THIS") {
-    await prisma.event.update({
+    const updatedEvent = await prisma.event.update({
       where: {
         id: existingEvent.id,
       },
       data: {
         ...eventData,
+        publishedAt,
+        notifyOnPublish,
+        notificationText,
+        // the event no longer follows its series, so later edits of the series leave it alone
+        isDetatched: existingEvent.recurringParentId !== null,
+        // calendar apps only pick up changes with a higher sequence number
+        numberOfUpdates: getEventChange(existingEvent, eventData)
+          ? { increment: 1 }
+          : undefined,
         author: undefined,
         tags: {
           set: tags.map(({ id }) => ({ id })),
         },
+        hostCommittees: {
+          set: hostCommitteeIds.map((id) => ({ id })),
+        },
+        reservedBookables: {
+          set: reservedBookableIds.map((id) => ({ id })),
+        },
       },
     });
-  } else if (editType === "FUTURE" || editType === "ALL") {
-    const eventsToBeUpdated = await prisma.event.findMany({
-      where: {
-        recurringParentId: existingEvent.recurringParentId,
-        startDatetime:
-          editType === "FUTURE"
-            ? { gte: existingEvent.startDatetime }
-            : undefined,
-      },
-    });
-
+    await setRegistrationQuestions(
+      prisma,
+      existingEvent.id,
+      registrationQuestions,
+      true,
+    );
+    await fillOpenSpots(existingEvent.id);
+    await notifyEventChange(existingEvent, updatedEvent);
+  } else if (
+    (editType === "FUTURE" || editType === "ALL") &&
+    existingEvent.recurringParentId
+  ) {
     const startTimeDiff = dayjs(eventData.startDatetime).diff(
       dayjs(existingEvent.startDatetime),
     );
     const endTimeDiff = dayjs(eventData.endDatetime).diff(
       dayjs(existingEvent.endDatetime),
     );
+    const dayDiff = sectionDayDiff(
+      eventData.startDatetime,
+      existingEvent.startDatetime,
+    );
+    const startDeadlineDiff = eventData.registrationDeadline
+      ? dayjs(eventData.registrationDeadline).diff(eventData.startDatetime)
+      : null;
 
-    await Promise.all(
-      eventsToBeUpdated.map((e) => {
-        const { startDatetime, endDatetime, id, ...oldData } = e;
-        const newData = {
-          ...oldData,
-          ...eventData,
-          startDatetime: dayjs(startDatetime).add(startTimeDiff, "ms").format(),
-          endDatetime: dayjs(endDatetime).add(endTimeDiff, "ms").format(),
-          author: undefined,
-          tags: {
-            set: tags.map(({ id }) => ({ id })),
+    const updatedEvents = await prisma.$transaction(async (tx) => {
+      let parent = await tx.recurringEvent.findUniqueOrThrow({
+        where: { id: existingEvent.recurringParentId! },
+      });
+      const hasEarlierEvents =
+        (await tx.event.count({
+          where: {
+            recurringParentId: parent.id,
+            startDatetime: { lt: existingEvent.startDatetime },
+          },
+        })) > 0;
+      if (editType === "FUTURE" && hasEarlierEvents) {
+        // "this and following" splits the series in two, like RFC 5545 does,
+        // so that the earlier events keep their rule
+        const {
+          id: oldParentId,
+          exceptionDates: oldExceptions,
+          ...rule
+        } = parent;
+        const splitDay = startOfSectionDay(existingEvent.startDatetime);
+        parent = await tx.recurringEvent.create({
+          data: {
+            ...rule,
+            startDatetime: existingEvent.startDatetime,
+            exceptionDates: oldExceptions.filter(
+              (date) => !dayjs(date).isBefore(splitDay),
+            ),
+          },
+        });
+        await tx.recurringEvent.update({
+          where: { id: oldParentId },
+          data: {
+            endDatetime: addSectionDays(splitDay, -1),
+            exceptionDates: oldExceptions.filter((date) =>
+              dayjs(date).isBefore(splitDay),
+            ),
           },
-        };
-        return prisma.event.update({
+        });
+        await tx.event.updateMany({
+          where: {
+            recurringParentId: oldParentId,
+            startDatetime: { gte: existingEvent.startDatetime },
+          },
+          data: { recurringParentId: parent.id },
+        });
+      }
+
+      // the rule moves along with its events
+      await tx.recurringEvent.update({
+        where: { id: parent.id },
+        data: {
+          startDatetime: dayjs(parent.startDatetime)
+            .add(startTimeDiff, "ms")
+            .toDate(),
+          byWeekday: shiftWeekdays(parent.byWeekday, dayDiff),
+          exceptionDates: parent.exceptionDates.map((date) =>
+            addSectionDays(date, dayDiff),
+          ),
+        },
+      });
+
+      // detached events have been edited on their own and are left as they are
+      const eventsToBeUpdated = await tx.event.findMany({
+        where: {
+          recurringParentId: parent.id,
+          isDetatched: false,
+        },
+      });
+      const updated = [];
+      for (const e of eventsToBeUpdated) {
+        const { startDatetime, endDatetime, id, ...oldData } = e;
+        const newStart = dayjs(startDatetime).add(startTimeDiff, "ms");
+        const newEnd = dayjs(endDatetime).add(endTimeDiff, "ms");
+        const isChanged = getEventChange(e, {
+          startDatetime: newStart.toDate(),
+          endDatetime: newEnd.toDate(),
+          isCancelled: eventData.isCancelled,
+        });
+        const updatedEvent = await tx.event.update({
           where: {
             id: id,
           },
           data: {
-            ...newData,
+            ...oldData,
+            ...eventData,
+            publishedAt: publishedAt ?? oldData.publishedAt,
+            startDatetime: newStart.toDate(),
+            endDatetime: newEnd.toDate(),
+            numberOfUpdates: isChanged
+              ? (oldData.numberOfUpdates ?? 0) + 1
+              : oldData.numberOfUpdates,
+            registrationDeadline:
+              startDeadlineDiff !== null
+                ? newStart.add(startDeadlineDiff, "ms").toDate()
+                : null,
+            author: undefined,
+            tags: {
+              set: tags.map(({ id }) => ({ id })),
+            },
+            hostCommittees: {
+              set: hostCommitteeIds.map((id) => ({ id })),
+            },
+            reservedBookables: {
+              set: reservedBookableIds.map((id) => ({ id })),
+            },
           },
         });
-      }),
-    );
+        await setRegistrationQuestions(
+          tx,
+          id,
+          registrationQuestions,
+          id === existingEvent.id,
+        );
+        updated.push({ before: e, after: updatedEvent });
+      }
+      return updated;
+    });
+    for (const { before, after } of updatedEvents) {
+      // the capacity might have been increased
+      await fillOpenSpots(after.id);
+      await notifyEventChange(before, after);
+    }
   }
+  await discardDraft(prisma, draftId);
+  if (publishedAt && publishingStatus(publishedAt) === "scheduled")
+    redirectScheduled(event);
+  // e.g. if it was rescheduled to now
+  await sendDueEventNotifications();
 
   throw redirect(
     `/events/${slug}`,
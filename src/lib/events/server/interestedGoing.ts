@@ -5,7 +5,67 @@ import { NotificationType } from "$lib/utils/notifications/types";
 import { eventLink } from "$lib/utils/redirect";
 import { fail, type RequestEvent } from "@sveltejs/kit";
 import { zod } from "sveltekit-superforms/adapters";
-import { message, superValidate } from "sveltekit-superforms/server";
+import {
+  message,
+  superValidate,
+  type SuperValidated,
+} from "sveltekit-superforms/server";
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import { cancelRegistration, registerForEvent } from "./registrations";
+import * as m from "$paraglide/messages";
+import type { InterestedGoingSchema } from "$lib/events/schema";
+
+/**
+ * Going to an event with registration registers the member, so that the capacity and deadline are respected.
+ * Registering this way only works if there are no required questions, otherwise the form on the event page is used.
+ */
+const registrationAction = async (
+  form: SuperValidated<InterestedGoingSchema>,
+  eventId: string,
+  memberId: string,
+  { isInterested, isGoing }: { isInterested: boolean; isGoing: boolean },
+) => {
+  const registration =
+    await authorizedPrismaClient.eventRegistration.findUnique({
+      where: { eventId_memberId: { eventId, memberId } },
+    });
+  try {
+    if (isGoing && !registration) {
+      const created = await registerForEvent(eventId, memberId, {});
+      return message(form, {
+        message: created.isWaitlisted
+          ? m.events_registration_waitlisted()
+          : m.events_registration_registered(),
+        type: "success",
+      });
+    }
+    if (!isGoing && registration) await cancelRegistration(eventId, memberId);
+  } catch (e) {
+    return message(
+      form,
+      {
+        message: e instanceof Error ? e.message : String(e),
+        type: "error",
+      },
+      { status: 400 },
+    );
+  }
+  await authorizedPrismaClient.event.update({
+    where: { id: eventId },
+    data: {
+      interested: {
+        [isInterested ? "connect" : "disconnect"]: { id: memberId },
+      },
+    },
+  });
+  const cancelled = !isGoing && registration;
+  return message(form, {
+    message: cancelled
+      ? m.events_registration_cancelled()
+      : "intresserad av event",
+    type: cancelled ? "success" : "hidden",
+  });
+};
 
 export const interestedAction =
   (isInterested: boolean, isGoing: boolean) =>
@@ -14,6 +74,16 @@ export const interestedAction =
     const form = await superValidate(request, zod(interestedGoingSchema));
     if (!form.valid) return fail(400, { form });
 
+    const registrationEvent = await prisma.event.findUnique({
+      where: { id: form.data.eventId, registrationEnabled: true },
+      select: { id: true },
+    });
+    if (registrationEvent && member)
+      return registrationAction(form, registrationEvent.id, member.id, {
+        isInterested,
+        isGoing,
+      });
+
     const event = await prisma.event.update({
       where: { id: form.data.eventId },
       data: {
@@ -0,0 +1,54 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import sendNotification from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import { eventLink } from "$lib/utils/redirect";
+import { DUE_PUBLISH_NOTIFICATION_FILTER } from "$lib/utils/scheduledPublishing";
+import type { Event, Tag } from "@prisma/client";
+import { markdownToTxt } from "markdown-to-txt";
+
+export const sendNewEventNotification = async (
+  event: Event & { tags: Array<Pick<Tag, "id">> },
+) => {
+  const subscribedMembers = await authorizedPrismaClient.member.findMany({
+    where: {
+      subscribedTags: {
+        some: { id: { in: event.tags.map(({ id }) => id) } },
+      },
+    },
+    select: { id: true },
+  });
+  await sendNotification({
+    title: event.title,
+    message:
+      event.notificationText ||
+      event.shortDescription ||
+      markdownToTxt(event.description).slice(0, 254),
+    type: NotificationType.NEW_EVENT,
+    link: eventLink(event),
+    memberIds: subscribedMembers.map(({ id }) => id),
+  });
+};
+
+/**
+ * Sends the notifications of the events which have gone live, see utils/scheduledPublishing.ts.
+ * Runs every minute, see hooks.server.ts, and right after an event is published.
+ */
+export const sendDueEventNotifications = async (now = new Date()) => {
+  const events = await authorizedPrismaClient.event.findMany({
+    where: DUE_PUBLISH_NOTIFICATION_FILTER(now),
+    include: { tags: { select: { id: true } } },
+  });
+  for (const event of events) {
+    try {
+      // claimed before sending, so that it isn't sent twice if this runs twice at the same time
+      const { count } = await authorizedPrismaClient.event.updateMany({
+        where: { id: event.id, notificationSentAt: null },
+        data: { notificationSentAt: now },
+      });
+      if (count === 0) continue;
+      await sendNewEventNotification(event);
+    } catch (e) {
+      console.warn(`Failed to send notification for event ${event.id}`, e);
+    }
+  }
+};
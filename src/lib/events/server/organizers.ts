@@ -0,0 +1,40 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import apiNames from "$lib/utils/apiNames";
+import { isAuthorized } from "$lib/utils/authorization";
+import * as m from "$paraglide/messages";
+import type { Event } from "@prisma/client";
+import { error } from "@sveltejs/kit";
+import type { AuthUser } from "@zenstackhq/runtime";
+
+/**
+ * Organizers are the author of the event, the current mandate holders of its host committees and anyone who can update events.
+ * Matches the update policy of events in the schema.
+ */
+export const isEventOrganizer = async (
+  user: AuthUser,
+  event: Pick<Event, "id" | "authorId">,
+) => {
+  if (isAuthorized(apiNames.EVENT.UPDATE, user)) return true;
+  if (!user.memberId) return false;
+  if (event.authorId === user.memberId) return true;
+  const now = new Date();
+  const mandate = await authorizedPrismaClient.mandate.findFirst({
+    where: {
+      memberId: user.memberId,
+      startDate: { lte: now },
+      endDate: { gte: now },
+      position: {
+        committee: { hostedEvents: { some: { id: event.id } } },
+      },
+    },
+  });
+  return mandate !== null;
+};
+
+export const authorizeEventOrganizer = async (
+  user: AuthUser,
+  event: Pick<Event, "id" | "authorId">,
+) => {
+  if (!(await isEventOrganizer(user, event)))
+    throw error(403, m.events_errors_notOrganizer());
+};
@@ -0,0 +1,190 @@
+import { PUBLIC_BUCKETS_FILES } from "$env/static/public";
+import { MINIO_BASE_URL } from "$lib/files/client";
+import { removeFilesWithoutAccessCheck } from "$lib/files/fileHandler";
+import { uploadFile } from "$lib/files/uploadFiles";
+import apiNames from "$lib/utils/apiNames";
+import { authorize, isAuthorized } from "$lib/utils/authorization";
+import { getFullName } from "$lib/utils/client/member";
+import sendNotification from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import { eventLink } from "$lib/utils/redirect";
+import * as m from "$paraglide/messages";
+import type { Event, PrismaClient } from "@prisma/client";
+import { error } from "@sveltejs/kit";
+import type { AuthUser } from "@zenstackhq/runtime";
+import { v4 as uuid } from "uuid";
+
+/*
+Photos are stored in the files bucket next to the event's header image, both as a large version and as a square thumbnail.
+Access follows the bucket's policies: seeing the gallery needs read, uploading needs create and removing someone else's photos needs delete.
+*/
+
+const bucketPolicies = () => apiNames.FILES.BUCKET(PUBLIC_BUCKETS_FILES);
+
+export const canSeeEventPhotos = (user: AuthUser) =>
+  isAuthorized(bucketPolicies().READ, user);
+
+export const canUploadEventPhotos = (user: AuthUser) =>
+  isAuthorized(bucketPolicies().CREATE, user);
+
+const photoLink = (event: Pick<Event, "id" | "slug">, photoId: string) =>
+  `${eventLink(event)}?photo=${photoId}`;
+
+/**
+ * Uploads the photos one at a time, since every photo is compressed twice.
+ */
+export const uploadEventPhotos = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  event: Pick<Event, "id" | "slug">,
+  photos: File[],
+) => {
+  authorize(bucketPolicies().CREATE, user);
+  if (!user.memberId) throw error(401, m.members_errors_notLoggedIn());
+  const prefix = `public/events/${event.slug ?? event.id}/photos`;
+  const uploaded = [];
+  for (const photo of photos) {
+    const name = uuid();
+    const url = await uploadFile(
+      user,
+      photo,
+      prefix,
+      PUBLIC_BUCKETS_FILES,
+      name,
+      { resize: { width: 1920 } },
+    );
+    const thumbnailUrl = await uploadFile(
+      user,
+      photo,
+      prefix,
+      PUBLIC_BUCKETS_FILES,
+      `${name}-thumbnail`,
+      { resize: { width: 400, height: 400 } },
+    );
+    uploaded.push({
+      eventId: event.id,
+      url,
+      thumbnailUrl,
+      uploaderId: user.memberId,
+    });
+  }
+  await prisma.eventPhoto.createMany({ data: uploaded });
+  return uploaded.length;
+};
+
+/**
+ * Removes the photo and its files. The uploader can always remove their own photos.
+ */
+export const removeEventPhoto = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  photoId: string,
+) => {
+  const photo = await prisma.eventPhoto.findUnique({ where: { id: photoId } });
+  if (!photo) throw error(404, m.events_errors_photoNotFound());
+  if (photo.uploaderId !== user.memberId)
+    authorize(bucketPolicies().DELETE, user);
+  const bucketUrl = `${MINIO_BASE_URL}${PUBLIC_BUCKETS_FILES}/`;
+  await removeFilesWithoutAccessCheck(
+    user,
+    PUBLIC_BUCKETS_FILES,
+    [photo.url, photo.thumbnailUrl]
+      .filter((url) => url.startsWith(bucketUrl))
+      .map((url) => url.slice(bucketUrl.length)),
+  );
+  await prisma.eventPhoto.delete({ where: { id: photoId } });
+};
+
+/**
+ * Tags a member in a photo and lets them know, unless they tagged themselves.
+ */
+export const tagMemberInPhoto = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  photoId: string,
+  memberId: string,
+) => {
+  if (!user.memberId) throw error(401, m.members_errors_notLoggedIn());
+  const existing = await prisma.eventPhotoTag.findUnique({
+    where: { photoId_memberId: { photoId, memberId } },
+  });
+  if (existing) return;
+  const tag = await prisma.eventPhotoTag.create({
+    data: { photoId, memberId, taggerId: user.memberId },
+    include: {
+      photo: {
+        select: { event: { select: { id: true, slug: true, title: true } } },
+      },
+    },
+  });
+  if (memberId === user.memberId) return;
+  const event = tag.photo.event;
+  await sendNotification({
+    title: event.title,
+    message: "Du har taggats i en bild från evenemanget.",
+    type: NotificationType.EVENT_PHOTO_TAG,
+    link: photoLink(event, photoId),
+    memberIds: [memberId],
+    fromMemberId: user.memberId,
+  });
+};
+
+export const untagMemberInPhoto = async (
+  prisma: PrismaClient,
+  photoId: string,
+  memberId: string,
+) =>
+  prisma.eventPhotoTag.delete({
+    where: { photoId_memberId: { photoId, memberId } },
+  });
+
+/**
+ * Asks for a photo the member is in to be taken down. The uploader is notified and handles it on the event's photo page.
+ * Asking again reopens a dismissed request.
+ */
+export const requestPhotoRemoval = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  photoId: string,
+  reason: string | null,
+) => {
+  if (!user.memberId) throw error(401, m.members_errors_notLoggedIn());
+  const request = await prisma.eventPhotoRemovalRequest.upsert({
+    where: { photoId_memberId: { photoId, memberId: user.memberId } },
+    create: { photoId, memberId: user.memberId, reason },
+    update: { reason, resolvedAt: null },
+    include: {
+      member: true,
+      photo: {
+        select: {
+          uploaderId: true,
+          event: { select: { id: true, slug: true, title: true } },
+        },
+      },
+    },
+  });
+  await sendNotification({
+    title: request.photo.event.title,
+    message: `${getFullName(request.member)} vill bli borttagen från en bild du har laddat upp.`,
+    type: NotificationType.EVENT_PHOTO_REMOVAL_REQUEST,
+    link: `${eventLink(request.photo.event)}/photos`,
+    memberIds: [request.photo.uploaderId],
+    fromMemberId: user.memberId,
+  });
+};
+
+/**
+ * Closes a removal request, either by removing the photo or by dismissing the request.
+ */
+export const resolvePhotoRemovalRequest = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  requestId: string,
+  removePhoto: boolean,
+) => {
+  const request = await prisma.eventPhotoRemovalRequest.update({
+    where: { id: requestId },
+    data: { resolvedAt: new Date() },
+  });
+  if (removePhoto) await removeEventPhoto(prisma, user, request.photoId);
+};
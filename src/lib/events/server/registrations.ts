@@ -0,0 +1,284 @@
+import {
+  getMissingAnswers,
+  getPromotableCount,
+  getSpotsLeft,
+  isRegistrationOpen,
+} from "$lib/events/registration";
+import type { RegistrationQuestion } from "$lib/events/schema";
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import sendNotification from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import { eventLink } from "$lib/utils/redirect";
+import * as m from "$paraglide/messages";
+import type { Event, EventRegistration, Prisma } from "@prisma/client";
+
+/*
+Registrations can't be changed by members directly, since the capacity has to be checked in the same transaction.
+The transactions lock the event's row before counting, so that two registrations at the same time can't both take the last spot.
+Everything here is done with the authorized prisma client, so the caller has to make sure the member can see the event.
+*/
+
+const lockEvent = (tx: Prisma.TransactionClient, eventId: string) =>
+  tx.$queryRaw`SELECT id FROM events WHERE id = ${eventId}::uuid FOR UPDATE`;
+
+/**
+ * Registers the member, or puts them on the waitlist if the event is full.
+ * @param answers answers to the event's questions by question id
+ */
+export const registerForEvent = async (
+  eventId: string,
+  memberId: string,
+  answers: Record<string, string>,
+) =>
+  authorizedPrismaClient.$transaction(async (tx) => {
+    await lockEvent(tx, eventId);
+    const event = await tx.event.findUniqueOrThrow({
+      where: { id: eventId },
+      include: {
+        registrationQuestions: { where: { removedAt: null } },
+        registrations: { where: { memberId } },
+      },
+    });
+    // scheduled events can be seen by their organizers, but not registered to before they are published
+    if (!isRegistrationOpen(event) || event.publishedAt > new Date())
+      throw new Error(m.events_registration_errors_closed());
+    if (event.registrations.length > 0)
+      throw new Error(m.events_registration_errors_alreadyRegistered());
+    if (getMissingAnswers(event.registrationQuestions, answers).length > 0)
+      throw new Error(m.events_registration_errors_missingAnswers());
+
+    const registeredCount = await tx.eventRegistration.count({
+      where: { eventId, isWaitlisted: false },
+    });
+    const isWaitlisted = getSpotsLeft(event, registeredCount) === 0;
+    const registration = await tx.eventRegistration.create({
+      data: {
+        eventId,
+        memberId,
+        isWaitlisted,
+        answers: {
+          create: event.registrationQuestions
+            .filter((question) => answers[question.id]?.trim())
+            .map((question) => ({
+              questionId: question.id,
+              answer: answers[question.id]!.trim(),
+            })),
+        },
+      },
+    });
+    if (!isWaitlisted)
+      await tx.event.update({
+        where: { id: eventId },
+        data: {
+          going: { connect: { id: memberId } },
+          interested: { disconnect: { id: memberId } },
+        },
+      });
+    return registration;
+  });
+
+/**
+ * Gives the open spots to the first ones on the waitlist.
+ */
+const promoteFromWaitlist = async (
+  tx: Prisma.TransactionClient,
+  eventId: string,
+) => {
+  await lockEvent(tx, eventId);
+  const event = await tx.event.findUniqueOrThrow({ where: { id: eventId } });
+  const registeredCount = await tx.eventRegistration.count({
+    where: { eventId, isWaitlisted: false },
+  });
+  const waitlist = await tx.eventRegistration.findMany({
+    where: { eventId, isWaitlisted: true },
+    orderBy: { createdAt: "asc" },
+  });
+  const promoted = waitlist.slice(
+    0,
+    getPromotableCount(event, registeredCount, waitlist.length),
+  );
+  if (promoted.length > 0) {
+    await tx.eventRegistration.updateMany({
+      where: { id: { in: promoted.map((r) => r.id) } },
+      data: { isWaitlisted: false },
+    });
+    await tx.event.update({
+      where: { id: eventId },
+      data: {
+        going: { connect: promoted.map((r) => ({ id: r.memberId })) },
+      },
+    });
+  }
+  return { event, promoted };
+};
+
+const notifyPromoted = async (
+  event: Pick<Event, "id" | "slug" | "title">,
+  promoted: EventRegistration[],
+) => {
+  if (promoted.length === 0) return;
+  await sendNotification({
+    title: event.title,
+    message: "Du har fått en plats från väntelistan.",
+    type: NotificationType.EVENT_REGISTRATION,
+    link: eventLink(event),
+    memberIds: promoted.map((r) => r.memberId),
+  });
+};
+
+/**
+ * Gives open spots to the waitlist, e.g. after the capacity of the event has been increased.
+ */
+export const fillOpenSpots = async (eventId: string) => {
+  const { event, promoted } = await authorizedPrismaClient.$transaction((tx) =>
+    promoteFromWaitlist(tx, eventId),
+  );
+  await notifyPromoted(event, promoted);
+};
+
+/**
+ * Removes the member's registration, and gives their spot to the first one on the waitlist.
+ */
+export const cancelRegistration = async (eventId: string, memberId: string) => {
+  const result = await authorizedPrismaClient.$transaction(async (tx) => {
+    await lockEvent(tx, eventId);
+    const registration = await tx.eventRegistration.findUnique({
+      where: { eventId_memberId: { eventId, memberId } },
+    });
+    if (!registration)
+      throw new Error(m.events_registration_errors_notRegistered());
+    await tx.eventRegistration.delete({ where: { id: registration.id } });
+    await tx.event.update({
+      where: { id: eventId },
+      data: { going: { disconnect: { id: memberId } } },
+    });
+    return promoteFromWaitlist(tx, eventId);
+  });
+  await notifyPromoted(result.event, result.promoted);
+};
+
+/**
+ * Counts and the member's own registration, shown on the event page.
+ */
+export const getRegistrationStatus = async (
+  eventId: string,
+  memberId: string | undefined,
+) => {
+  const [registeredCount, waitlistCount, registration, questions] =
+    await Promise.all([
+      authorizedPrismaClient.eventRegistration.count({
+        where: { eventId, isWaitlisted: false },
+      }),
+      authorizedPrismaClient.eventRegistration.count({
+        where: { eventId, isWaitlisted: true },
+      }),
+      memberId
+        ? authorizedPrismaClient.eventRegistration.findUnique({
+            where: { eventId_memberId: { eventId, memberId } },
+            include: { answers: true },
+          })
+        : null,
+      authorizedPrismaClient.eventRegistrationQuestion.findMany({
+        where: { eventId, removedAt: null },
+        orderBy: { order: "asc" },
+      }),
+    ]);
+  const waitlistPosition = registration?.isWaitlisted
+    ? (await authorizedPrismaClient.eventRegistration.count({
+        where: {
+          eventId,
+          isWaitlisted: true,
+          createdAt: { lt: registration.createdAt },
+        },
+      })) + 1
+    : null;
+  return {
+    registeredCount,
+    waitlistCount,
+    registration,
+    waitlistPosition,
+    questions,
+  };
+};
+
+/**
+ * Sends a notification from an organizer to everyone registered to the event.
+ */
+export const messageRegistrants = async (
+  event: Pick<Event, "id" | "slug" | "title">,
+  fromMemberId: string,
+  message: string,
+  includeWaitlist: boolean,
+) => {
+  const registrations = await authorizedPrismaClient.eventRegistration.findMany(
+    {
+      where: {
+        eventId: event.id,
+        isWaitlisted: includeWaitlist ? undefined : false,
+      },
+      select: { memberId: true },
+    },
+  );
+  if (registrations.length === 0) return 0;
+  await sendNotification({
+    title: event.title,
+    message,
+    type: NotificationType.EVENT_REGISTRATION,
+    link: eventLink(event),
+    memberIds: registrations.map((r) => r.memberId),
+    fromMemberId,
+  });
+  return registrations.length;
+};
+
+/**
+ * Replaces the questions of an event with the ones from the event form.
+ * Questions are matched by id for the edited event, and by position for the other events in a series,
+ * since each event has its own questions. Removed questions which have answers are kept, but marked as removed.
+ */
+export const setRegistrationQuestions = async (
+  prisma: Prisma.TransactionClient,
+  eventId: string,
+  questions: RegistrationQuestion[],
+  matchById: boolean,
+) => {
+  const existing = await prisma.eventRegistrationQuestion.findMany({
+    where: { eventId, removedAt: null },
+    orderBy: { order: "asc" },
+    include: { _count: { select: { answers: true } } },
+  });
+  const matched = questions.map((question, i) =>
+    matchById
+      ? existing.find((e) => question.id !== undefined && e.id === question.id)
+      : existing[i],
+  );
+  for (const [i, question] of questions.entries()) {
+    const data = {
+      title: question.title,
+      titleEn: question.titleEn,
+      required: question.required,
+      order: i,
+    };
+    const match = matched[i];
+    if (match)
+      await prisma.eventRegistrationQuestion.update({
+        where: { id: match.id },
+        data,
+      });
+    else
+      await prisma.eventRegistrationQuestion.create({
+        data: { ...data, eventId },
+      });
+  }
+  for (const question of existing.filter((e) => !matched.includes(e))) {
+    if (question._count.answers > 0)
+      await prisma.eventRegistrationQuestion.update({
+        where: { id: question.id },
+        data: { removedAt: new Date() },
+      });
+    else
+      await prisma.eventRegistrationQuestion.delete({
+        where: { id: question.id },
+      });
+  }
+};
@@ -0,0 +1,130 @@
+import { getEventChange, isReminderDue } from "$lib/events/reminders";
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import sendNotification from "$lib/utils/notifications";
+import {
+  DEFAULT_LEAD_TIME_HOURS,
+  LEAD_TIME_HOURS_OPTIONS,
+  NotificationSettingType,
+  NotificationType,
+} from "$lib/utils/notifications/types";
+import { eventLink } from "$lib/utils/redirect";
+import type { Event } from "@prisma/client";
+import dayjs from "dayjs";
+
+const formatStart = (event: Pick<Event, "startDatetime">) =>
+  dayjs(event.startDatetime).format("D/M HH:mm");
+
+/**
+ * Sends the reminders which are due to members going to upcoming events.
+ * Runs every few minutes, see hooks.server.ts. Sent reminders are saved, so running it again doesn't send them twice.
+ */
+export const sendEventReminders = async (now = new Date()) => {
+  const events = await authorizedPrismaClient.event.findMany({
+    where: {
+      startDatetime: {
+        gt: now,
+        lte: dayjs(now)
+          .add(Math.max(...LEAD_TIME_HOURS_OPTIONS), "hour")
+          .toDate(),
+      },
+      removedAt: null,
+      // scheduled events aren't shown until they are published
+      publishedAt: { lte: now },
+      OR: [{ isCancelled: false }, { isCancelled: null }],
+    },
+    select: {
+      id: true,
+      slug: true,
+      title: true,
+      location: true,
+      startDatetime: true,
+      going: {
+        select: {
+          id: true,
+          subscriptionSettings: {
+            where: { type: NotificationSettingType.EVENT_REMINDER },
+            select: { leadTimeHours: true },
+          },
+        },
+      },
+      reminders: {
+        select: { memberId: true, startDatetime: true },
+      },
+    },
+  });
+
+  for (const event of events) {
+    const memberIds = event.going
+      .filter((member) => {
+        const setting = member.subscriptionSettings[0];
+        if (!setting) return false;
+        return isReminderDue(
+          event,
+          setting.leadTimeHours ?? DEFAULT_LEAD_TIME_HOURS,
+          event.reminders.find((r) => r.memberId === member.id)?.startDatetime,
+          now,
+        );
+      })
+      .map((member) => member.id);
+    if (memberIds.length === 0) continue;
+
+    try {
+      // saved before sending, so that a crash halfway doesn't lead to reminders being sent twice
+      await authorizedPrismaClient.$transaction(
+        memberIds.map((memberId) =>
+          authorizedPrismaClient.eventReminder.upsert({
+            where: { eventId_memberId: { eventId: event.id, memberId } },
+            create: {
+              eventId: event.id,
+              memberId,
+              startDatetime: event.startDatetime,
+            },
+            update: { startDatetime: event.startDatetime, sentAt: now },
+          }),
+        ),
+      );
+      await sendNotification({
+        title: event.title,
+        message: event.location
+          ? `Börjar ${formatStart(event)} i ${event.location}`
+          : `Börjar ${formatStart(event)}`,
+        type: NotificationType.EVENT_REMINDER,
+        link: eventLink(event),
+        memberIds,
+      });
+    } catch (e) {
+      console.warn(`Failed to send reminders for event ${event.id}`, e);
+    }
+  }
+};
+
+/**
+ * Notifies the members going to or interested in an event if it has been cancelled or moved.
+ */
+export const notifyEventChange = async (
+  before: Pick<Event, "startDatetime" | "endDatetime" | "isCancelled">,
+  after: Pick<
+    Event,
+    "id" | "slug" | "title" | "startDatetime" | "endDatetime" | "isCancelled"
+  >,
+) => {
+  const change = getEventChange(before, after);
+  if (!change) return;
+  const members = await authorizedPrismaClient.event.findUniqueOrThrow({
+    where: { id: after.id },
+    select: {
+      going: { select: { id: true } },
+      interested: { select: { id: true } },
+    },
+  });
+  await sendNotification({
+    title: after.title,
+    message:
+      change === "CANCELLED"
+        ? "Evenemanget har ställts in."
+        : `Evenemanget har flyttats till ${formatStart(after)}.`,
+    type: NotificationType.EVENT_UPDATED,
+    link: eventLink(after),
+    memberIds: [...members.going, ...members.interested].map((m) => m.id),
+  });
+};
@@ -3,6 +3,7 @@ import { authorize } from "$lib/utils/authorization";
 import { redirect } from "$lib/utils/redirect";
 import * as m from "$paraglide/messages";
 import { error, fail, type Action } from "@sveltejs/kit";
+import dayjs from "dayjs";
 import { zod } from "sveltekit-superforms/adapters";
 import { superValidate, type Infer } from "sveltekit-superforms/server";
 import { z } from "zod";
@@ -58,6 +59,17 @@ export const removeEventAction: Action<{ slug: string }> = async (event) => {
         removedAt: new Date(),
       },
     });
+    // ends the series' rule as well, so calendar subscriptions stop repeating it
+    if (existingEvent.recurringParentId)
+      await prisma.recurringEvent.update({
+        where: { id: existingEvent.recurringParentId },
+        data: {
+          endDatetime: dayjs(existingEvent.startDatetime)
+            .startOf("day")
+            .subtract(1, "day")
+            .toDate(),
+        },
+      });
   } else {
     await prisma.event.update({
       where: {
@@ -0,0 +1,328 @@
+import type { SurveyResponseSchema, SurveySchema } from "$lib/events/schema";
+import {
+  averageRating,
+  getMissingRatings,
+  isSurveyDue,
+  isSurveyOpen,
+  ratingDistribution,
+  responseRate,
+  SURVEY_SEND_WINDOW_DAYS,
+} from "$lib/events/surveys";
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import apiNames from "$lib/utils/apiNames";
+import sendNotification from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import { eventLink } from "$lib/utils/redirect";
+import { endDate, startDate, type Semester } from "$lib/utils/semesters";
+import * as m from "$paraglide/messages";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import dayjs from "dayjs";
+
+/*
+Responses can't be created by members directly, since who attended the event has to be checked.
+The recipients are the members going to the event and the members with a purchased ticket to it.
+*/
+
+const getSurveyRecipientIds = async (eventId: string) => {
+  const [event, tickets] = await Promise.all([
+    authorizedPrismaClient.event.findUniqueOrThrow({
+      where: { id: eventId },
+      select: { going: { select: { id: true } } },
+    }),
+    authorizedPrismaClient.consumable.findMany({
+      where: {
+        purchasedAt: { not: null },
+        memberId: { not: null },
+        shoppable: { ticket: { eventId } },
+      },
+      select: { memberId: true },
+    }),
+  ]);
+  return [
+    ...new Set([
+      ...event.going.map((member) => member.id),
+      ...tickets.map((ticket) => ticket.memberId!),
+    ]),
+  ];
+};
+
+/**
+ * Sends the surveys of the events which have ended to the ones who attended.
+ * Runs every few minutes, see hooks.server.ts.
+ */
+export const sendEventSurveys = async (now = new Date()) => {
+  const surveys = await authorizedPrismaClient.eventSurvey.findMany({
+    where: {
+      sentAt: null,
+      questions: { some: {} },
+      event: {
+        endDatetime: {
+          lte: now,
+          gt: dayjs(now).subtract(SURVEY_SEND_WINDOW_DAYS, "day").toDate(),
+        },
+        removedAt: null,
+        publishedAt: { lte: now },
+        OR: [{ isCancelled: false }, { isCancelled: null }],
+      },
+    },
+    include: {
+      event: {
+        select: { id: true, slug: true, title: true, endDatetime: true },
+      },
+    },
+  });
+
+  for (const survey of surveys) {
+    if (!isSurveyDue(survey.event, survey, now)) continue;
+    try {
+      const memberIds = await getSurveyRecipientIds(survey.eventId);
+      // saved before sending, so that a crash halfway doesn't lead to the survey being sent twice
+      await authorizedPrismaClient.eventSurvey.update({
+        where: { id: survey.id },
+        data: { sentAt: now, recipientCount: memberIds.length },
+      });
+      if (memberIds.length === 0) continue;
+      await sendNotification({
+        title: survey.event.title,
+        message: "Hur var evenemanget? Svara på en kort enkät.",
+        type: NotificationType.EVENT_SURVEY,
+        link: `${eventLink(survey.event)}/survey`,
+        memberIds,
+      });
+    } catch (e) {
+      console.warn(`Failed to send survey for event ${survey.eventId}`, e);
+    }
+  }
+};
+
+/**
+ * The survey of an event, with whether the member can and has answered it.
+ */
+export const getSurveyStatus = async (eventId: string, memberId: string) => {
+  const survey = await authorizedPrismaClient.eventSurvey.findUnique({
+    where: { eventId },
+    include: {
+      event: { select: { endDatetime: true } },
+      questions: { orderBy: { order: "asc" } },
+      respondents: { where: { memberId }, select: { id: true } },
+    },
+  });
+  if (!survey) return null;
+  const recipientIds = await getSurveyRecipientIds(eventId);
+  return {
+    survey,
+    isOpen: isSurveyOpen(survey.event),
+    hasAnswered: survey.respondents.length > 0,
+    canAnswer: recipientIds.includes(memberId),
+  };
+};
+
+/**
+ * Saves the member's answers. For anonymous surveys the response isn't linked to the member.
+ * The respondent is created first, so that two submissions at once can't both create a response.
+ */
+export const submitSurveyResponse = async (
+  eventId: string,
+  memberId: string,
+  { ratings, texts }: SurveyResponseSchema,
+) => {
+  const status = await getSurveyStatus(eventId, memberId);
+  if (!status) throw new Error(m.events_survey_errors_notFound());
+  const { survey } = status;
+  if (!status.isOpen) throw new Error(m.events_survey_errors_closed());
+  if (!status.canAnswer) throw new Error(m.events_survey_errors_notAttended());
+  if (status.hasAnswered)
+    throw new Error(m.events_survey_errors_alreadyAnswered());
+  if (getMissingRatings(survey.questions, ratings).length > 0)
+    throw new Error(m.events_survey_errors_missingRatings());
+
+  await authorizedPrismaClient.$transaction(async (tx) => {
+    try {
+      await tx.eventSurveyRespondent.create({
+        data: { surveyId: survey.id, memberId },
+      });
+    } catch (e) {
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === "P2002"
+      )
+        throw new Error(m.events_survey_errors_alreadyAnswered());
+      throw e;
+    }
+    await tx.eventSurveyResponse.create({
+      data: {
+        surveyId: survey.id,
+        memberId: survey.anonymous ? null : memberId,
+        answers: {
+          create: survey.questions
+            .filter((question) =>
+              question.type === "RATING" ? true : !!texts[question.id]?.trim(),
+            )
+            .map((question) =>
+              question.type === "RATING"
+                ? { questionId: question.id, rating: ratings[question.id] }
+                : { questionId: question.id, text: texts[question.id]!.trim() },
+            ),
+        },
+      },
+    });
+  });
+};
+
+/**
+ * Creates or replaces the survey of an event. Surveys can't be changed once they have been sent,
+ * since the answers would no longer match the questions.
+ */
+export const setEventSurvey = async (
+  prisma: PrismaClient,
+  eventId: string,
+  { anonymous, questions }: SurveySchema,
+) => {
+  const existing = await prisma.eventSurvey.findUnique({
+    where: { eventId },
+  });
+  if (existing?.sentAt) throw new Error(m.events_survey_errors_alreadySent());
+  const questionData = questions.map((question, i) => ({
+    type: question.type,
+    title: question.title,
+    titleEn: question.titleEn,
+    order: i,
+  }));
+  if (existing)
+    await prisma.eventSurvey.update({
+      where: { id: existing.id },
+      data: {
+        anonymous,
+        questions: { deleteMany: {}, create: questionData },
+      },
+    });
+  else
+    await prisma.eventSurvey.create({
+      data: { eventId, anonymous, questions: { create: questionData } },
+    });
+};
+
+export const removeEventSurvey = async (
+  prisma: PrismaClient,
+  eventId: string,
+) => {
+  const existing = await prisma.eventSurvey.findUnique({
+    where: { eventId },
+  });
+  if (existing?.sentAt) throw new Error(m.events_survey_errors_alreadySent());
+  if (existing) await prisma.eventSurvey.delete({ where: { id: existing.id } });
+};
+
+/**
+ * The answers to each question of an event's survey. Organizers can read the responses, see the policies.
+ */
+export const getSurveyResults = async (
+  prisma: PrismaClient,
+  eventId: string,
+) => {
+  const survey = await prisma.eventSurvey.findUnique({
+    where: { eventId },
+    include: {
+      questions: {
+        orderBy: { order: "asc" },
+        include: {
+          answers: {
+            include: { response: { include: { member: true } } },
+            orderBy: { response: { createdAt: "asc" } },
+          },
+        },
+      },
+      _count: { select: { responses: true } },
+    },
+  });
+  if (!survey) return null;
+  return {
+    survey,
+    responseCount: survey._count.responses,
+    responseRate: responseRate(survey._count.responses, survey.recipientCount),
+    questions: survey.questions.map((question) => ({
+      ...question,
+      average: averageRating(question.answers),
+      distribution: ratingDistribution(question.answers),
+      texts: question.answers
+        .filter((answer) => answer.text !== null)
+        .map((answer) => ({
+          text: answer.text!,
+          member: answer.response.member,
+        })),
+    })),
+  };
+};
+
+/**
+ * The committee's current mandate holders can compare its surveys, like they can edit its events.
+ */
+export const canSeeCommitteeSurveys = async (
+  user: { memberId?: string | null; policies: string[] },
+  committeeId: string,
+) => {
+  if (user.policies.includes(apiNames.EVENT.UPDATE)) return true;
+  if (!user.memberId) return false;
+  const now = new Date();
+  const mandate = await authorizedPrismaClient.mandate.findFirst({
+    where: {
+      memberId: user.memberId,
+      startDate: { lte: now },
+      endDate: { gte: now },
+      position: { committeeId },
+    },
+  });
+  return mandate !== null;
+};
+
+/**
+ * The surveys of the events a committee hosted during a semester, so that they can be compared.
+ * Only ratings are compared, since the questions differ between events.
+ */
+export const getCommitteeSurveyComparison = async (
+  prisma: PrismaClient,
+  committeeId: string,
+  semester: Semester,
+) => {
+  const events = await prisma.event.findMany({
+    where: {
+      hostCommittees: { some: { id: committeeId } },
+      startDatetime: { gte: startDate(semester), lt: endDate(semester) },
+      survey: { sentAt: { not: null } },
+    },
+    orderBy: { startDatetime: "asc" },
+    select: {
+      id: true,
+      slug: true,
+      title: true,
+      startDatetime: true,
+      survey: {
+        select: {
+          recipientCount: true,
+          _count: { select: { responses: true } },
+          questions: {
+            where: { type: "RATING" },
+            select: { answers: { select: { rating: true } } },
+          },
+        },
+      },
+    },
+  });
+  const rows = events.map(({ survey, ...event }) => {
+    const ratings = survey!.questions.flatMap((question) => question.answers);
+    return {
+      event,
+      responseCount: survey!._count.responses,
+      responseRate: responseRate(
+        survey!._count.responses,
+        survey!.recipientCount,
+      ),
+      average: averageRating(ratings),
+      ratings,
+    };
+  });
+  return {
+    events: rows,
+    average: averageRating(rows.flatMap((row) => row.ratings)),
+  };
+};
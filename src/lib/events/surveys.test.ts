@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  averageRating,
+  getMissingRatings,
+  isSurveyDue,
+  isSurveyOpen,
+  ratingDistribution,
+  responseRate,
+} from "./surveys";
+
+const event = { endDatetime: new Date(2025, 2, 7, 23) };
+
+describe("event surveys", () => {
+  it("is sent once the event has ended", () => {
+    const survey = { sentAt: null };
+    expect(isSurveyDue(event, survey, new Date(2025, 2, 7, 22))).toBe(false);
+    expect(isSurveyDue(event, survey, new Date(2025, 2, 7, 23))).toBe(true);
+    expect(isSurveyDue(event, survey, new Date(2025, 2, 10))).toBe(true);
+  });
+
+  it("isn't sent twice or long after the event", () => {
+    expect(
+      isSurveyDue(
+        event,
+        { sentAt: new Date(2025, 2, 7, 23) },
+        new Date(2025, 2, 8),
+      ),
+    ).toBe(false);
+    expect(isSurveyDue(event, { sentAt: null }, new Date(2025, 2, 20))).toBe(
+      false,
+    );
+  });
+
+  it("is open for a month after the event", () => {
+    expect(isSurveyOpen(event, new Date(2025, 2, 7, 22))).toBe(false);
+    expect(isSurveyOpen(event, new Date(2025, 2, 20))).toBe(true);
+    expect(isSurveyOpen(event, new Date(2025, 3, 7))).toBe(false);
+  });
+
+  it("requires ratings on the scale", () => {
+    const questions = [
+      { id: "fun", type: "RATING" },
+      { id: "food", type: "RATING" },
+      { id: "comments", type: "TEXT" },
+    ];
+    expect(getMissingRatings(questions, { fun: 4, food: 5 })).toEqual([]);
+    expect(getMissingRatings(questions, { fun: 4, food: 6 })).toEqual([
+      questions[1],
+    ]);
+    expect(getMissingRatings(questions, {})).toEqual(questions.slice(0, 2));
+  });
+
+  it("summarizes ratings", () => {
+    const answers = [
+      { rating: 5 },
+      { rating: 4 },
+      { rating: 5 },
+      { rating: null },
+    ];
+    expect(averageRating(answers)).toBeCloseTo(14 / 3);
+    expect(averageRating([{ rating: null }])).toBeNull();
+    expect(ratingDistribution(answers)).toEqual([0, 0, 0, 1, 2]);
+  });
+
+  it("computes the response rate", () => {
+    expect(responseRate(10, 40)).toBe(0.25);
+    expect(responseRate(3, 0)).toBeNull();
+  });
+});
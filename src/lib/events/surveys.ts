@@ -0,0 +1,82 @@
+import type { Event, EventSurvey, EventSurveyQuestion } from "@prisma/client";
+import dayjs from "dayjs";
+
+/*
+Organizers can attach a short feedback survey to an event. It is sent to the members who were going or had a ticket once the event has ended,
+and stays open for a while after that. Ratings are from 1 to 5 and have to be answered, free text questions are optional.
+In anonymous surveys responses aren't linked to members, but who has answered is still kept so that nobody answers twice.
+*/
+
+export const surveyQuestionTypes = ["RATING", "TEXT"] as const;
+export type SurveyQuestionType = (typeof surveyQuestionTypes)[number];
+export const RATING_SCALE = [1, 2, 3, 4, 5] as const;
+
+// surveys for events which ended longer ago than this aren't sent, e.g. if one is added to an old event
+export const SURVEY_SEND_WINDOW_DAYS = 7;
+export const SURVEY_OPEN_DAYS = 30;
+
+/**
+ * Whether the survey job should send the survey now.
+ */
+export const isSurveyDue = (
+  event: Pick<Event, "endDatetime">,
+  survey: Pick<EventSurvey, "sentAt">,
+  now = new Date(),
+) =>
+  survey.sentAt === null &&
+  event.endDatetime <= now &&
+  dayjs(now).isBefore(
+    dayjs(event.endDatetime).add(SURVEY_SEND_WINDOW_DAYS, "day"),
+  );
+
+/**
+ * Surveys can be answered from when the event ends until a while after.
+ */
+export const isSurveyOpen = (
+  event: Pick<Event, "endDatetime">,
+  now = new Date(),
+) =>
+  event.endDatetime <= now &&
+  dayjs(now).isBefore(dayjs(event.endDatetime).add(SURVEY_OPEN_DAYS, "day"));
+
+/**
+ * The rating questions which haven't been given a rating on the scale.
+ */
+export const getMissingRatings = <
+  T extends Pick<EventSurveyQuestion, "id" | "type">,
+>(
+  questions: T[],
+  ratings: Record<string, number>,
+) =>
+  questions.filter(
+    (question) =>
+      question.type === "RATING" &&
+      !RATING_SCALE.some((rating) => rating === ratings[question.id]),
+  );
+
+type Answer = { questionId: string; rating: number | null };
+
+/**
+ * The mean of the ratings, or null if there are none.
+ */
+export const averageRating = (answers: Array<Pick<Answer, "rating">>) => {
+  const ratings = answers
+    .map((answer) => answer.rating)
+    .filter((rating): rating is number => rating !== null);
+  if (ratings.length === 0) return null;
+  return ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+};
+
+/**
+ * How many gave each rating on the scale, from 1 to 5.
+ */
+export const ratingDistribution = (answers: Array<Pick<Answer, "rating">>) =>
+  RATING_SCALE.map(
+    (rating) => answers.filter((answer) => answer.rating === rating).length,
+  );
+
+/**
+ * The share of the recipients who answered, or null if the survey hasn't been sent to anyone.
+ */
+export const responseRate = (responseCount: number, recipientCount: number) =>
+  recipientCount > 0 ? Math.min(responseCount / recipientCount, 1) : null;
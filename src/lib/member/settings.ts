@@ -1,4 +1,9 @@
 import { getAllTags } from "$lib/news/tags";
+import {
+  DEFAULT_LEAD_TIME_HOURS,
+  LEAD_TIME_HOURS_OPTIONS,
+  SETTINGS_WITH_LEAD_TIME,
+} from "$lib/utils/notifications/types";
 import {
   error,
   fail,
@@ -23,6 +28,12 @@ export const settingsLoad = async ({ locals }: ServerLoadEvent) => {
       if (sub.pushNotification) return sub.type;
     })
     .filter((t) => t);
+  const leadTimes = Object.fromEntries(
+    subscriptionSettings.map((sub) => [
+      sub.type,
+      sub.leadTimeHours ?? DEFAULT_LEAD_TIME_HOURS,
+    ]),
+  );
   const subscribedTags = await prisma.member.findFirst({
     where: {
       id: user.memberId,
@@ -36,9 +47,16 @@ export const settingsLoad = async ({ locals }: ServerLoadEvent) => {
     subscribedTags,
     subscriptions,
     pushSubscriptions,
+    leadTimes,
   };
 };
 
+const getLeadTime = (form: FormData, type: string) => {
+  if (!(SETTINGS_WITH_LEAD_TIME as string[]).includes(type)) return null;
+  const hours = Number(form.get(`leadTime-${type}`));
+  return LEAD_TIME_HOURS_OPTIONS.includes(hours) ? hours : null;
+};
+
 export type SettingsPageData = Awaited<ReturnType<typeof settingsLoad>>;
 
 export const settingsActions = {
@@ -66,6 +84,7 @@ export const settingsActions = {
               pushNotification: push.some(
                 (tag) => sub.toString() === tag.toString(),
               ),
+              leadTimeHours: getLeadTime(form, sub.toString()),
             };
           }),
         });
@@ -33,6 +33,9 @@ const include = {
   comments: {
     include: {
       member: true,
+      reactions: {
+        select: { emoji: true, memberId: true },
+      },
     },
   },
   likers: true,
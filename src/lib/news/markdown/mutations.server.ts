@@ -1,3 +1,7 @@
+import {
+  hasRevisionChanged,
+  MARKDOWN_REVISION_FIELDS,
+} from "$lib/news/revisions";
 import authorizedPrismaClient from "$lib/server/authorizedPrisma";
 import apiNames from "$lib/utils/apiNames";
 import { isAuthorized } from "$lib/utils/authorization";
@@ -5,6 +9,13 @@ import type { PrismaClient } from "@prisma/client";
 import type { AuthUser } from "@zenstackhq/runtime";
 import DOMPurify from "isomorphic-dompurify";
 
+export const canUpdateMarkdown = (user: AuthUser, name: string) =>
+  isAuthorized(apiNames.MARKDOWNS.PAGE(name).UPDATE, user) ||
+  isAuthorized(apiNames.MARKDOWN.UPDATE, user);
+
+/**
+ * Updates a markdown page, and saves the new text as a revision, see news/revisions.ts.
+ */
 export const updateMarkdown = async (
   user: AuthUser,
   prisma: PrismaClient,
@@ -21,15 +32,24 @@ export const updateMarkdown = async (
   )
     ? authorizedPrismaClient
     : prisma;
+  const text = {
+    markdown: DOMPurify.sanitize(markdown.markdown),
+    markdownEn: markdown.markdownEn
+      ? DOMPurify.sanitize(markdown.markdownEn)
+      : markdown.markdownEn,
+  };
+  const current = await prismaToUse.markdown.findUnique({
+    where: { name: markdown.name },
+  });
   return await prismaToUse.markdown.update({
     where: {
       name: markdown.name,
     },
     data: {
-      markdown: DOMPurify.sanitize(markdown.markdown),
-      markdownEn: markdown.markdownEn
-        ? DOMPurify.sanitize(markdown.markdownEn)
-        : markdown.markdownEn,
+      ...text,
+      revisions: hasRevisionChanged(MARKDOWN_REVISION_FIELDS, current, text)
+        ? { create: { ...text, editorId: user.memberId } }
+        : undefined,
     },
   });
 };
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { nextArticleStatus } from "./requests";
+
+describe("article review", () => {
+  it("handles pending articles", () => {
+    expect(nextArticleStatus("pending", "approve")).toBe("approved");
+    expect(nextArticleStatus("pending", "reject")).toBe("rejected");
+    expect(nextArticleStatus("pending", "requestChanges")).toBe(
+      "changes_requested",
+    );
+    expect(nextArticleStatus("pending", "resubmit")).toBeNull();
+  });
+
+  it("only resubmits articles with requested changes", () => {
+    expect(nextArticleStatus("changes_requested", "resubmit")).toBe("pending");
+    expect(nextArticleStatus("changes_requested", "approve")).toBeNull();
+    expect(nextArticleStatus("rejected", "resubmit")).toBeNull();
+  });
+
+  it("doesn't review articles which are already published", () => {
+    expect(nextArticleStatus("approved", "approve")).toBeNull();
+    expect(nextArticleStatus(null, "reject")).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+/*
+Members who can't manage news submit their articles for review instead of publishing them directly.
+Reviewers, who have news:article:manage, approve the article, reject it with a reason, or ask for changes.
+After changing the article the author submits it again, and the notification to the tag subscribers is only sent once it's approved.
+The state of the review is kept in the article's status, the request keeps when each step happened.
+*/
+
+export const articleStatuses = [
+  "pending",
+  "changes_requested",
+  "rejected",
+  "approved",
+] as const;
+export type ArticleStatus = (typeof articleStatuses)[number];
+
+export const reviewActions = [
+  "approve",
+  "reject",
+  "requestChanges",
+  "resubmit",
+] as const;
+export type ReviewAction = (typeof reviewActions)[number];
+
+const transitions: Record<ReviewAction, [ArticleStatus[], ArticleStatus]> = {
+  approve: [["pending"], "approved"],
+  reject: [["pending"], "rejected"],
+  requestChanges: [["pending"], "changes_requested"],
+  resubmit: [["changes_requested"], "pending"],
+};
+
+/**
+ * The status of the article after the review action, or null if the action can't be taken in its current status.
+ * Articles created before reviews existed have no status, and count as approved.
+ */
+export const nextArticleStatus = (
+  status: string | null,
+  action: ReviewAction,
+): ArticleStatus | null => {
+  const [from, to] = transitions[action];
+  return from.some((s) => s === (status ?? "approved")) ? to : null;
+};
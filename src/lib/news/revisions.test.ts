@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  ARTICLE_REVISION_FIELDS,
+  compareRevisions,
+  hasRevisionChanged,
+} from "./revisions";
+
+const revision = {
+  header: "Styrelsemöte",
+  headerEn: null,
+  body: "Mötet är i iDét.\nVälkomna!",
+  bodyEn: null,
+};
+
+describe("revisions", () => {
+  it("only counts changes of the text", () => {
+    expect(
+      hasRevisionChanged(ARTICLE_REVISION_FIELDS, revision, { ...revision }),
+    ).toBe(false);
+    // empty and missing translations are the same
+    expect(
+      hasRevisionChanged(ARTICLE_REVISION_FIELDS, revision, {
+        ...revision,
+        bodyEn: undefined,
+      }),
+    ).toBe(false);
+    expect(
+      hasRevisionChanged(ARTICLE_REVISION_FIELDS, revision, {
+        ...revision,
+        header: "Styrelsemöte inställt",
+      }),
+    ).toBe(true);
+    expect(hasRevisionChanged(ARTICLE_REVISION_FIELDS, null, revision)).toBe(
+      true,
+    );
+  });
+
+  it("compares the changed fields", () => {
+    const changes = compareRevisions(
+      ARTICLE_REVISION_FIELDS,
+      { ...revision, body: "Mötet är i Edekvata.\nVälkomna!" },
+      revision,
+    );
+    expect(changes.map(({ field }) => field)).toEqual(["body"]);
+    expect(changes[0]!.rows[0]).toEqual({
+      left: { lineNumber: 1, text: "Mötet är i iDét.", changed: true },
+      right: { lineNumber: 1, text: "Mötet är i Edekvata.", changed: true },
+    });
+  });
+
+  it("compares the first revision to nothing", () => {
+    const changes = compareRevisions(ARTICLE_REVISION_FIELDS, revision, null);
+    expect(changes.map(({ field }) => field)).toEqual(["header", "body"]);
+    expect(changes[1]!.rows.every((row) => row.left === null)).toBe(true);
+  });
+});
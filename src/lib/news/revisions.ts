@@ -0,0 +1,45 @@
+import { diffLines, sideBySide } from "$lib/utils/diff";
+
+/*
+Every save of an article or a markdown page creates a revision with the saved text and the member who saved it,
+see news/server/revisions.ts. A revision is compared to the one before it to show what the save changed.
+Restoring a revision saves its text again, so the restore is a revision too.
+*/
+
+export const ARTICLE_REVISION_FIELDS = [
+  "header",
+  "headerEn",
+  "body",
+  "bodyEn",
+] as const;
+export const MARKDOWN_REVISION_FIELDS = ["markdown", "markdownEn"] as const;
+
+type RevisionText<Field extends string> = Record<
+  Field,
+  string | null | undefined
+>;
+
+export const hasRevisionChanged = <Field extends string>(
+  fields: readonly Field[],
+  before: RevisionText<Field> | null,
+  after: RevisionText<Field>,
+) =>
+  fields.some((field) => (before?.[field] ?? null) !== (after[field] ?? null));
+
+/**
+ * The changed fields of a revision, with the lines of the previous revision and the revision side by side.
+ * @param previous null for the first revision, which is compared to an empty text
+ */
+export const compareRevisions = <Field extends string>(
+  fields: readonly Field[],
+  revision: RevisionText<Field>,
+  previous: RevisionText<Field> | null,
+) =>
+  fields
+    .filter((field) => hasRevisionChanged([field], previous, revision))
+    .map((field) => ({
+      field,
+      rows: sideBySide(
+        diffLines(previous?.[field] ?? null, revision[field] ?? null),
+      ),
+    }));
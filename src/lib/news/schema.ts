@@ -27,6 +27,10 @@ export const articleSchema = z.object({
     .refine((file) => !file || isFileImage(file), {
       message: "Måste vara en bild",
     }),
+  // empty to publish right away, only for articles which haven't been published yet
+  publishAt: z.date().nullable().default(null),
+  // the autosaved draft, see drafts/drafts.ts
+  draftId: z.string().uuid().nullable().default(null),
 });
 export type ArticleSchema = Infer<typeof articleSchema>;
 
@@ -45,3 +49,16 @@ export const createSchema = articleSchema
   });
 
 export const updateSchema = articleSchema;
+
+export const articleRequestSchema = z.object({
+  articleId: z.string().uuid(),
+});
+export const articleReviewSchema = articleRequestSchema.extend({
+  // the reason for rejecting, or the changes asked for
+  comment: z.string().trim().min(1).max(2000),
+});
+export type ArticleReviewSchema = Infer<typeof articleReviewSchema>;
+
+export const restoreRevisionSchema = z.object({
+  revisionId: z.string().uuid(),
+});
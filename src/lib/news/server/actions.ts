@@ -1,19 +1,26 @@
 import { PUBLIC_BUCKETS_FILES } from "$env/static/public";
 import { uploadFile } from "$lib/files/uploadFiles";
 import { createSchema, updateSchema } from "$lib/news/schema";
+import { discardDraft } from "$lib/drafts/server/drafts";
+import { sendDueArticleNotifications } from "$lib/news/server/notifications";
+import { resubmitArticleRequest } from "$lib/news/server/requests";
+import {
+  ARTICLE_REVISION_FIELDS,
+  hasRevisionChanged,
+} from "$lib/news/revisions";
 import authorizedPrismaClient from "$lib/server/authorizedPrisma";
-import sendNotification from "$lib/utils/notifications";
-import { NotificationType } from "$lib/utils/notifications/types";
+import apiNames from "$lib/utils/apiNames";
+import { isAuthorized } from "$lib/utils/authorization";
 import { redirect } from "$lib/utils/redirect";
+import { publishingStatus } from "$lib/utils/scheduledPublishing";
 import { slugWithCount, slugify } from "$lib/utils/slugify";
 import * as m from "$paraglide/messages";
-import { Prisma, type Article, type Author, type Tag } from "@prisma/client";
+import { Prisma } from "@prisma/client";
 import type { Action } from "@sveltejs/kit";
 import type { AuthUser } from "@zenstackhq/runtime";
 import { zod } from "sveltekit-superforms/adapters";
 import { message, superValidate, fail } from "sveltekit-superforms";
 import DOMPurify from "isomorphic-dompurify";
-import { markdownToTxt } from "markdown-to-txt";
 
 const uploadImage = async (user: AuthUser, image: File, slug: string) => {
   const imageUrl = await uploadFile(
@@ -31,39 +38,6 @@ const uploadImage = async (user: AuthUser, image: File, slug: string) => {
   return imageUrl;
 };
 
-const sendNewArticleNotification = async (
-  article: Article & { tags: Array<Pick<Tag, "id">>; author: Author },
-  notificationText: string | null | undefined,
-) => {
-  console.log("notifications: getting members");
-  const subscribedMembers = await authorizedPrismaClient.member.findMany({
-    where: {
-      subscribedTags: {
-        some: {
-          id: {
-            in: article.tags.map(({ id }) => id),
-          },
-        },
-      },
-    },
-    select: {
-      id: true,
-    },
-  });
-
-  console.log("notifications: sending");
-  await sendNotification({
-    title: article.header,
-    message: notificationText
-      ? notificationText
-      : markdownToTxt(article.body).slice(0, 254),
-    type: NotificationType.NEW_ARTICLE,
-    link: `/news/${article.slug}`,
-    fromAuthor: article.author,
-    memberIds: subscribedMembers.map(({ id }) => id),
-  });
-};
-
 export const createArticle: Action = async (event) => {
   const { request, locals } = event;
   const { prisma, user } = locals;
@@ -80,6 +54,8 @@ export const createArticle: Action = async (event) => {
     image,
     body,
     bodyEn,
+    publishAt,
+    draftId,
     ...rest
   } = form.data;
   const existingAuthor = await prisma.author.findFirst({
@@ -99,14 +75,23 @@ export const createArticle: Action = async (event) => {
   slug = slugWithCount(slug, slugCount);
 
   if (image) rest.imageUrl = await uploadImage(user, image, slug);
+  // members who can't manage news submit their articles for review, see news/requests.ts
+  const needsReview = !isAuthorized(apiNames.NEWS.MANAGE, user);
+
+  const text = {
+    header,
+    headerEn: rest.headerEn,
+    body: DOMPurify.sanitize(body),
+    bodyEn: bodyEn ? DOMPurify.sanitize(bodyEn) : bodyEn,
+  };
 
   const result = await prisma.article.create({
     data: {
       slug,
-      header: header,
-      body: DOMPurify.sanitize(body),
-      bodyEn: bodyEn ? DOMPurify.sanitize(bodyEn) : bodyEn,
       ...rest,
+      ...text,
+      // the first revision, see news/revisions.ts
+      revisions: { create: { ...text, editorId: user.memberId } },
       author: {
         connect: existingAuthor
           ? {
@@ -141,24 +126,49 @@ export const createArticle: Action = async (event) => {
             id: tag.id,
           })),
       },
-      publishedAt: new Date(),
+      publishedAt: needsReview ? null : (publishAt ?? new Date()),
+      status: needsReview ? "pending" : "approved",
+      // reviewed articles are notified about when approved, see news/server/requests.ts
+      notifyOnPublish: !needsReview && shouldSendNotification,
+      notificationText,
+      request: needsReview
+        ? {
+            create: {
+              shouldSendNotification,
+              notificationBody: notificationText,
+            },
+          }
+        : undefined,
     },
     include: {
       author: true,
     },
   });
 
-  // fetch the created author,
-  if (shouldSendNotification) {
-    console.log("send notifications");
-    await sendNewArticleNotification(
+  await discardDraft(prisma, draftId);
+
+  if (needsReview)
+    throw redirect(
+      "/news/requests",
       {
-        ...result,
-        tags,
+        message: m.news_requests_submitted(),
+        type: "success",
       },
-      notificationText,
+      event,
+    );
+
+  if (publishingStatus(result.publishedAt) === "scheduled")
+    throw redirect(
+      "/drafts",
+      {
+        message: m.news_articleScheduled(),
+        type: "success",
+      },
+      event,
     );
-  }
+
+  // the notification is sent right away, unless the article is scheduled
+  await sendDueArticleNotifications();
 
   throw redirect(
     `/news/${result.slug}`,
@@ -176,7 +186,17 @@ export const updateArticle: Action<{ slug: string }> = async (event) => {
     allowFiles: true,
   });
   if (!form.valid) return fail(400, { form });
-  const { slug, author, tags, image, body, bodyEn, ...rest } = form.data;
+  const {
+    slug,
+    author,
+    tags,
+    image,
+    body,
+    bodyEn,
+    publishAt,
+    draftId,
+    ...rest
+  } = form.data;
   const existingAuthor = await prisma.author.findFirst({
     where: {
       member: { id: author.memberId },
@@ -187,15 +207,40 @@ export const updateArticle: Action<{ slug: string }> = async (event) => {
 
   if (image) rest.imageUrl = await uploadImage(user, image, slug);
 
+  const existing = await prisma.article.findUnique({
+    where: { slug },
+    select: {
+      publishedAt: true,
+      header: true,
+      headerEn: true,
+      body: true,
+      bodyEn: true,
+    },
+  });
+  const text = {
+    header: rest.header,
+    headerEn: rest.headerEn,
+    body: DOMPurify.sanitize(body),
+    bodyEn: bodyEn ? DOMPurify.sanitize(bodyEn) : bodyEn,
+  };
+  // articles which are live stay live, and articles under review are published by the reviewer
+  const canReschedule =
+    isAuthorized(apiNames.NEWS.MANAGE, user) &&
+    publishingStatus(existing?.publishedAt ?? null) === "scheduled";
+
+  let publishedAt: Date | null = null;
   try {
-    await prisma.article.update({
+    const updated = await prisma.article.update({
       where: {
         slug: slug,
       },
       data: {
-        body: DOMPurify.sanitize(body),
-        bodyEn: bodyEn ? DOMPurify.sanitize(bodyEn) : bodyEn,
         ...rest,
+        ...text,
+        // saves that don't change the text, e.g. of the tags, aren't revisions
+        revisions: hasRevisionChanged(ARTICLE_REVISION_FIELDS, existing, text)
+          ? { create: { ...text, editorId: user.memberId } }
+          : undefined,
         author: {
           connect: existingAuthor
             ? {
@@ -226,9 +271,17 @@ export const updateArticle: Action<{ slug: string }> = async (event) => {
         tags: {
           set: tags.map(({ id }) => ({ id })),
         },
+        publishedAt: canReschedule ? (publishAt ?? new Date()) : undefined,
         updatedAt: new Date(),
       },
     });
+    // the author has made the changes the reviewer asked for
+    if (
+      updated.status === "changes_requested" &&
+      !isAuthorized(apiNames.NEWS.MANAGE, user)
+    )
+      await resubmitArticleRequest(updated.id);
+    publishedAt = updated.publishedAt;
   } catch (e) {
     if (e instanceof Prisma.PrismaClientKnownRequestError) {
       return message(
@@ -243,8 +296,18 @@ export const updateArticle: Action<{ slug: string }> = async (event) => {
     throw e;
   }
 
+  await discardDraft(prisma, draftId);
+  // e.g. if it was rescheduled to now
+  await sendDueArticleNotifications();
+
+  // articles under review and scheduled articles can't be viewed yet
+  const status = publishingStatus(publishedAt);
   throw redirect(
-    `/news/${event.params.slug}`,
+    status === "published"
+      ? `/news/${event.params.slug}`
+      : status === "scheduled"
+        ? "/drafts"
+        : "/news/requests",
     {
       message: m.news_articleUpdated(),
       type: "success",
@@ -0,0 +1,63 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import sendNotification from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import { DUE_PUBLISH_NOTIFICATION_FILTER } from "$lib/utils/scheduledPublishing";
+import type { Article, Author, Tag } from "@prisma/client";
+import { markdownToTxt } from "markdown-to-txt";
+
+export const sendNewArticleNotification = async (
+  article: Article & { tags: Array<Pick<Tag, "id">>; author: Author },
+  notificationText: string | null | undefined,
+) => {
+  console.log("notifications: getting members");
+  const subscribedMembers = await authorizedPrismaClient.member.findMany({
+    where: {
+      subscribedTags: {
+        some: {
+          id: {
+            in: article.tags.map(({ id }) => id),
+          },
+        },
+      },
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  console.log("notifications: sending");
+  await sendNotification({
+    title: article.header,
+    message: notificationText
+      ? notificationText
+      : markdownToTxt(article.body).slice(0, 254),
+    type: NotificationType.NEW_ARTICLE,
+    link: `/news/${article.slug}`,
+    fromAuthor: article.author,
+    memberIds: subscribedMembers.map(({ id }) => id),
+  });
+};
+
+/**
+ * Sends the notifications of the articles which have gone live, see utils/scheduledPublishing.ts.
+ * Runs every minute, see hooks.server.ts, and right after an article is published.
+ */
+export const sendDueArticleNotifications = async (now = new Date()) => {
+  const articles = await authorizedPrismaClient.article.findMany({
+    where: DUE_PUBLISH_NOTIFICATION_FILTER(now),
+    include: { author: true, tags: { select: { id: true } } },
+  });
+  for (const article of articles) {
+    try {
+      // claimed before sending, so that it isn't sent twice if this runs twice at the same time
+      const { count } = await authorizedPrismaClient.article.updateMany({
+        where: { id: article.id, notificationSentAt: null },
+        data: { notificationSentAt: now },
+      });
+      if (count === 0) continue;
+      await sendNewArticleNotification(article, article.notificationText);
+    } catch (e) {
+      console.warn(`Failed to send notification for article ${article.id}`, e);
+    }
+  }
+};
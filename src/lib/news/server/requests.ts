@@ -0,0 +1,145 @@
+import { nextArticleStatus, type ReviewAction } from "$lib/news/requests";
+import { sendDueArticleNotifications } from "$lib/news/server/notifications";
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import sendNotification from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import * as m from "$paraglide/messages";
+import type { PrismaClient } from "@prisma/client";
+
+const getArticleWithRequest = async (
+  prisma: PrismaClient,
+  articleId: string,
+) => {
+  const article = await prisma.article.findUnique({
+    where: { id: articleId },
+    include: { request: true, author: true },
+  });
+  if (!article?.request) throw new Error(m.news_requests_errors_notFound());
+  return { ...article, request: article.request };
+};
+
+const notifyAuthor = async (
+  article: { header: string; author: { memberId: string } },
+  message: string,
+) => {
+  await sendNotification({
+    title: article.header,
+    // the reviewer's comment can be longer than a notification, it is shown in full on the requests page
+    message: message.slice(0, 255),
+    type: NotificationType.ARTICLE_REQUEST_UPDATE,
+    link: "/news/requests",
+    memberIds: [article.author.memberId],
+  });
+};
+
+const checkTransition = (status: string | null, action: ReviewAction) => {
+  const next = nextArticleStatus(status, action);
+  if (!next) throw new Error(m.news_requests_errors_alreadyHandled());
+  return next;
+};
+
+/**
+ * Publishes the article, and sends the notification the author wrote to the subscribers of its tags.
+ */
+export const approveArticleRequest = async (
+  prisma: PrismaClient,
+  articleId: string,
+  reviewerId: string,
+) => {
+  const article = await getArticleWithRequest(prisma, articleId);
+  const status = checkTransition(article.status, "approve");
+  const now = new Date();
+  const [published] = await prisma.$transaction([
+    prisma.article.update({
+      where: { id: article.id },
+      data: {
+        status,
+        publishedAt: now,
+        notifyOnPublish: article.request.shouldSendNotification ?? false,
+        notificationText: article.request.notificationBody,
+      },
+      include: { author: true },
+    }),
+    prisma.articleRequest.update({
+      where: { id: article.request.id },
+      data: { approvedDatetime: now, handledById: reviewerId },
+    }),
+  ]);
+  await notifyAuthor(article, m.news_requests_notifications_approved());
+  await sendDueArticleNotifications(now);
+  return published;
+};
+
+export const rejectArticleRequest = async (
+  prisma: PrismaClient,
+  articleId: string,
+  reviewerId: string,
+  reason: string,
+) => {
+  const article = await getArticleWithRequest(prisma, articleId);
+  const status = checkTransition(article.status, "reject");
+  await prisma.$transaction([
+    prisma.article.update({ where: { id: article.id }, data: { status } }),
+    prisma.articleRequest.update({
+      where: { id: article.request.id },
+      data: {
+        rejectedDatetime: new Date(),
+        rejectionReason: reason,
+        handledById: reviewerId,
+      },
+    }),
+  ]);
+  await notifyAuthor(
+    article,
+    m.news_requests_notifications_rejected({ reason }),
+  );
+};
+
+export const requestArticleChanges = async (
+  prisma: PrismaClient,
+  articleId: string,
+  reviewerId: string,
+  changes: string,
+) => {
+  const article = await getArticleWithRequest(prisma, articleId);
+  const status = checkTransition(article.status, "requestChanges");
+  await prisma.$transaction([
+    prisma.article.update({ where: { id: article.id }, data: { status } }),
+    prisma.articleRequest.update({
+      where: { id: article.request.id },
+      data: {
+        changesRequestedDatetime: new Date(),
+        requestedChanges: changes,
+        handledById: reviewerId,
+      },
+    }),
+  ]);
+  await notifyAuthor(
+    article,
+    m.news_requests_notifications_changesRequested({ changes }),
+  );
+};
+
+/**
+ * Puts an article back in the queue once its author has edited it after changes were requested.
+ * Authors can't update their requests themselves, so this is done with the authorized client.
+ */
+export const resubmitArticleRequest = async (articleId: string) => {
+  const article = await authorizedPrismaClient.article.findUnique({
+    where: { id: articleId },
+    include: { request: true },
+  });
+  if (!article?.request) return;
+  const status = nextArticleStatus(article.status, "resubmit");
+  if (!status) return;
+  await authorizedPrismaClient.$transaction([
+    authorizedPrismaClient.article.update({
+      where: { id: article.id },
+      data: { status },
+    }),
+    authorizedPrismaClient.articleRequest.update({
+      where: { id: article.request.id },
+      data: { submittedDatetime: new Date() },
+    }),
+  ]);
+};
@@ -0,0 +1,123 @@
+import {
+  canUpdateMarkdown,
+  updateMarkdown,
+} from "$lib/news/markdown/mutations.server";
+import {
+  ARTICLE_REVISION_FIELDS,
+  compareRevisions,
+  MARKDOWN_REVISION_FIELDS,
+} from "$lib/news/revisions";
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import * as m from "$paraglide/messages";
+import type { Member, PrismaClient } from "@prisma/client";
+import type { AuthUser } from "@zenstackhq/runtime";
+
+const editorSelect = {
+  select: { id: true, studentId: true, firstName: true, lastName: true },
+} as const;
+
+/**
+ * The revisions, newest first, and what the selected one changed compared to the one before it.
+ */
+const toHistory = <
+  Field extends string,
+  Revision extends Record<Field, string | null> & {
+    id: string;
+    createdAt: Date;
+    editor: Pick<Member, "id" | "studentId" | "firstName" | "lastName"> | null;
+  },
+>(
+  fields: readonly Field[],
+  revisions: Revision[],
+  selectedId: string | null,
+) => {
+  const index = Math.max(
+    revisions.findIndex((revision) => revision.id === selectedId),
+    0,
+  );
+  const selected = revisions[index] ?? null;
+  return {
+    revisions,
+    selected,
+    changes: selected
+      ? compareRevisions(fields, selected, revisions[index + 1] ?? null)
+      : [],
+  };
+};
+
+export const getArticleHistory = async (
+  prisma: PrismaClient,
+  articleId: string,
+  selectedId: string | null,
+) => {
+  const revisions = await prisma.articleRevision.findMany({
+    where: { articleId },
+    orderBy: { createdAt: "desc" },
+    include: { editor: editorSelect },
+  });
+  return toHistory(ARTICLE_REVISION_FIELDS, revisions, selectedId);
+};
+
+/**
+ * Saves the text of an old revision as the article's text, which is a new revision.
+ * @returns the article's slug
+ */
+export const restoreArticleRevision = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  revisionId: string,
+) => {
+  const revision = await prisma.articleRevision.findUnique({
+    where: { id: revisionId },
+  });
+  if (!revision) throw new Error(m.news_revisions_errors_notFound());
+  const { header, headerEn, body, bodyEn } = revision;
+  const article = await prisma.article.update({
+    where: { id: revision.articleId },
+    data: {
+      header,
+      headerEn,
+      body,
+      bodyEn,
+      updatedAt: new Date(),
+      revisions: {
+        create: { header, headerEn, body, bodyEn, editorId: user.memberId },
+      },
+    },
+  });
+  return article.slug;
+};
+
+/**
+ * The revisions of a markdown page. The ones who can edit the page can see them,
+ * which can't be expressed in zenstack, see updateMarkdown.
+ */
+export const getMarkdownHistory = async (
+  name: string,
+  selectedId: string | null,
+) => {
+  const revisions = await authorizedPrismaClient.markdownRevision.findMany({
+    where: { name },
+    orderBy: { createdAt: "desc" },
+    include: { editor: editorSelect },
+  });
+  return toHistory(MARKDOWN_REVISION_FIELDS, revisions, selectedId);
+};
+
+export const restoreMarkdownRevision = async (
+  user: AuthUser,
+  prisma: PrismaClient,
+  name: string,
+  revisionId: string,
+) => {
+  const revision = await authorizedPrismaClient.markdownRevision.findUnique({
+    where: { id: revisionId },
+  });
+  if (!revision || revision.name !== name || !canUpdateMarkdown(user, name))
+    throw new Error(m.news_revisions_errors_notFound());
+  await updateMarkdown(user, prisma, {
+    name,
+    markdown: revision.markdown,
+    markdownEn: revision.markdownEn,
+  });
+};
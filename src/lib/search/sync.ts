@@ -157,8 +157,9 @@ async function syncArticles() {
                 removedAt: null,
               },
               {
+                // scheduled articles are added once they are published
                 publishedAt: {
-                  not: null,
+                  lte: new Date(),
                 },
               },
             ],
@@ -201,6 +202,12 @@ async function syncEvents() {
             {
               removedAt: null,
             },
+            {
+              // scheduled events are added once they are published
+              publishedAt: {
+                lte: new Date(),
+              },
+            },
           ],
         },
         skip: i,
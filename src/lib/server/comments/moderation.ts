@@ -0,0 +1,254 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import {
+  COMMENT_RATE_LIMIT_WINDOW_MINUTES,
+  commentRateLimitedUntil,
+} from "$lib/utils/comments";
+import * as m from "$paraglide/messages";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { enhance, type AuthUser } from "@zenstackhq/runtime";
+import dayjs from "dayjs";
+
+export type CommentEntityType = "NEWS" | "EVENT";
+
+const formatTime = (date: Date) => dayjs(date).format("YYYY-MM-DD HH:mm");
+
+/**
+ * Throws if the member is muted from commenting.
+ */
+export const assertNotMuted = async (
+  memberId: string,
+  now = new Date(),
+  client: Prisma.TransactionClient = authorizedPrismaClient,
+) => {
+  const mute = await client.commentMute.findFirst({
+    where: { memberId, until: { gt: now } },
+    orderBy: { until: "desc" },
+  });
+  if (mute)
+    throw new Error(m.comments_errors_muted({ until: formatTime(mute.until) }));
+};
+
+/**
+ * Throws if the member is muted, or has commented too much lately, see COMMENT_RATE_LIMITS.
+ * Hidden comments count as well, so the comments are read with the authorized client.
+ */
+const assertCanComment = async (
+  memberId: string,
+  now: Date,
+  client: Prisma.TransactionClient,
+) => {
+  await assertNotMuted(memberId, now, client);
+  const where = {
+    memberId,
+    published: {
+      gt: dayjs(now)
+        .subtract(COMMENT_RATE_LIMIT_WINDOW_MINUTES, "minutes")
+        .toDate(),
+    },
+  };
+  const select = { published: true };
+  const [articleComments, eventComments] = await Promise.all([
+    client.articleComment.findMany({ where, select }),
+    client.eventComment.findMany({ where, select }),
+  ]);
+  const until = commentRateLimitedUntil(
+    [...articleComments, ...eventComments].map((c) => c.published),
+    now,
+  );
+  if (until)
+    throw new Error(
+      m.comments_errors_rateLimited({ until: formatTime(until) }),
+    );
+};
+
+/**
+ * Creates a comment with `create`, unless the member is muted or has commented too much lately.
+ * The member is locked until the comment is created, so that comments sent at the same time can't get past the rate limit.
+ * `create` is given the transaction with the user's policies, so that the comment is created while holding the lock.
+ * @returns why the member can't comment, or null if the comment was created
+ */
+export const createRateLimitedComment = (
+  user: AuthUser,
+  memberId: string,
+  create: (prisma: Prisma.TransactionClient) => Promise<void>,
+  now = new Date(),
+) =>
+  authorizedPrismaClient.$transaction(async (tx) => {
+    // other rows referencing the member can still be created meanwhile
+    await tx.$queryRaw`SELECT id FROM members WHERE id = ${memberId}::uuid FOR NO KEY UPDATE`;
+    try {
+      await assertCanComment(memberId, now, tx);
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+    // copied, since the enhancer takes the user as a plain record
+    await create(enhance(tx, { user: { ...user } }));
+    return null;
+  });
+
+const commentInclude = {
+  member: true,
+  hiddenBy: true,
+  reports: {
+    where: { resolvedAt: null },
+    include: { reporter: true },
+    orderBy: { createdAt: "asc" },
+  },
+} as const;
+
+/**
+ * The comments with open reports, or the hidden ones, on both articles and events, newest first.
+ */
+export const getModeratedComments = async (
+  prisma: PrismaClient,
+  filter: "reported" | "hidden",
+) => {
+  const where =
+    filter === "reported"
+      ? { reports: { some: { resolvedAt: null } } }
+      : { hiddenAt: { not: null } };
+  const orderBy =
+    filter === "reported"
+      ? { published: "desc" as const }
+      : { hiddenAt: "desc" as const };
+  const [articleComments, eventComments] = await Promise.all([
+    prisma.articleComment.findMany({
+      where,
+      include: {
+        ...commentInclude,
+        article: { select: { slug: true, header: true } },
+      },
+      orderBy,
+      take: 100,
+    }),
+    prisma.eventComment.findMany({
+      where,
+      include: {
+        ...commentInclude,
+        event: { select: { slug: true, title: true } },
+      },
+      orderBy,
+      take: 100,
+    }),
+  ]);
+  return [
+    ...articleComments.map(({ article, ...comment }) => ({
+      ...comment,
+      type: "NEWS" as const,
+      title: article.header,
+      link: `/news/${article.slug}`,
+    })),
+    ...eventComments.map(({ event, ...comment }) => ({
+      ...comment,
+      type: "EVENT" as const,
+      title: event.title,
+      link: `/events/${event.slug}`,
+    })),
+  ].sort(
+    (a, b) =>
+      (b.reports.at(-1)?.createdAt ?? b.hiddenAt ?? b.published).getTime() -
+      (a.reports.at(-1)?.createdAt ?? a.hiddenAt ?? a.published).getTime(),
+  );
+};
+
+const reportsWhere = (type: CommentEntityType, commentId: string) =>
+  type === "NEWS"
+    ? { articleCommentId: commentId }
+    : { eventCommentId: commentId };
+
+export const reportComment = async (
+  prisma: PrismaClient,
+  type: CommentEntityType,
+  commentId: string,
+  reporterId: string,
+  reason: string,
+) => {
+  const existing = await prisma.commentReport.findFirst({
+    where: { ...reportsWhere(type, commentId), reporterId },
+  });
+  if (existing) throw new Error(m.comments_errors_alreadyReported());
+  await prisma.commentReport.create({
+    data: { ...reportsWhere(type, commentId), reporterId, reason },
+  });
+};
+
+/**
+ * Closes the open reports of a comment, without hiding it.
+ */
+export const dismissCommentReports = async (
+  prisma: PrismaClient,
+  type: CommentEntityType,
+  commentId: string,
+  moderatorId: string,
+  now = new Date(),
+) => {
+  await prisma.commentReport.updateMany({
+    where: { ...reportsWhere(type, commentId), resolvedAt: null },
+    data: { resolvedAt: now, resolvedById: moderatorId },
+  });
+};
+
+/**
+ * Hides the comment from everyone but moderators, and closes its reports. The comment is kept, and can be shown again.
+ */
+export const setCommentHidden = async (
+  prisma: PrismaClient,
+  type: CommentEntityType,
+  commentId: string,
+  moderatorId: string,
+  hidden: boolean,
+  now = new Date(),
+) => {
+  const data = hidden
+    ? { hiddenAt: now, hiddenById: moderatorId }
+    : { hiddenAt: null, hiddenById: null };
+  switch (type) {
+    case "NEWS":
+      await prisma.articleComment.update({ where: { id: commentId }, data });
+      break;
+    case "EVENT":
+      await prisma.eventComment.update({ where: { id: commentId }, data });
+      break;
+  }
+  if (hidden)
+    await dismissCommentReports(prisma, type, commentId, moderatorId, now);
+};
+
+export const getActiveCommentMutes = (prisma: PrismaClient, now = new Date()) =>
+  prisma.commentMute.findMany({
+    where: { until: { gt: now } },
+    include: { member: true, mutedBy: true },
+    orderBy: { until: "asc" },
+  });
+
+export const muteCommenter = async (
+  prisma: PrismaClient,
+  memberId: string,
+  moderatorId: string,
+  days: number,
+  reason: string | undefined,
+  now = new Date(),
+) => {
+  await prisma.commentMute.create({
+    data: {
+      memberId,
+      mutedById: moderatorId,
+      reason: reason || null,
+      until: dayjs(now).add(days, "days").toDate(),
+    },
+  });
+};
+
+/**
+ * Ends the mute early. The mute is kept, so that it can be seen who has been muted before.
+ */
+export const endCommentMute = async (
+  prisma: PrismaClient,
+  muteId: string,
+  now = new Date(),
+) => {
+  await prisma.commentMute.update({
+    where: { id: muteId },
+    data: { until: now },
+  });
+};
@@ -1,34 +1,152 @@
-import type { Event } from "@prisma/client";
+import {
+  getRuleOccurrences,
+  SECTION_TIME_ZONE,
+  toRRule,
+  toSectionDateTime,
+} from "$lib/utils/recurrence";
+import type { Event, RecurringEvent } from "@prisma/client";
 import { error } from "@sveltejs/kit";
 import dayjs from "dayjs";
-import { createEvents, type EventAttributes } from "ics";
+import { createEvents, type DateArray, type EventAttributes } from "ics";
 
-export const generateICS = async (
+export const toDateArray = (date: Date): DateArray => {
+  const d = dayjs(date);
+  return [d.year(), d.month() + 1, d.date(), d.hour(), d.minute()];
+};
+
+type CalendarEvent = Event & {
+  recurringEventParent?: RecurringEvent | null;
+};
+
+const toICSEvent = (event: Event): EventAttributes => ({
+  uid: event.id,
+  start: toDateArray(event.startDatetime),
+  end: toDateArray(event.endDatetime),
+  title: event.title,
+  description: event.description,
+  location: event.location ?? undefined,
+  sequence: event.numberOfUpdates ?? undefined,
+});
+
+// the ics library can't add a TZID to dates, so series dates are given as strings
+// starting with one, which is moved into the property's parameters afterwards
+const ZONED_PREFIX = `TZID=${SECTION_TIME_ZONE}:`;
+const zonedDateTime = (...dates: Date[]) =>
+  ZONED_PREFIX + dates.map(toSectionDateTime).join(",");
+
+// the section's time zone, with the EU daylight saving time rules
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${SECTION_TIME_ZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0200",
+  "TZNAME:CEST",
+  "DTSTART:19700329T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0100",
+  "TZNAME:CET",
+  "DTSTART:19701025T030000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+]
+  .map((line) => line + "\r\n")
+  .join("");
+
+const withTimeZones = (ics: string) => {
+  const zoned = ics.replace(
+    new RegExp(`^(DTSTART|DTEND|EXDATE):${ZONED_PREFIX}`, "gm"),
+    `$1;${ZONED_PREFIX}`,
+  );
+  if (zoned === ics) return ics;
+  return zoned.replace(/^BEGIN:VEVENT\r\n/m, VTIMEZONE + "BEGIN:VEVENT\r\n");
+};
+
+const duration = (event: Event) =>
+  event.endDatetime.getTime() - event.startDatetime.getTime();
+
+/**
+ * A series as one VEVENT with an RRULE, where the occurrences without an event
+ * (removed, or not included in the calendar) become EXDATEs.
+ * Events which don't follow the rule anymore, e.g. detached ones, are added on their own.
+ * The series uses times in the section's time zone so that it keeps its time of day over daylight saving time changes.
+ */
+const toICSSeries = (
+  parent: RecurringEvent,
   events: Event[],
+): EventAttributes[] => {
+  const occurrences = getRuleOccurrences(
+    parent,
+    parent.startDatetime,
+    parent.endDatetime,
+  ).map((date) => date.getTime());
+  const sorted = [...events].sort(
+    (a, b) => a.startDatetime.getTime() - b.startDatetime.getTime(),
+  );
+  const first = sorted.find((event) =>
+    occurrences.includes(event.startDatetime.getTime()),
+  );
+  if (!first) return sorted.map(toICSEvent);
+  const inRule = sorted.filter(
+    (event) =>
+      occurrences.includes(event.startDatetime.getTime()) &&
+      duration(event) === duration(first),
+  );
+  const outsideRule = sorted.filter((event) => !inRule.includes(event));
+  const inRuleStarts = inRule.map((event) => event.startDatetime.getTime());
+  const exclusionDates = occurrences
+    .filter(
+      (date) =>
+        date > first.startDatetime.getTime() && !inRuleStarts.includes(date),
+    )
+    .map((date) => new Date(date));
+
+  return [
+    {
+      ...toICSEvent(first),
+      uid: parent.id,
+      start: zonedDateTime(first.startDatetime),
+      end: zonedDateTime(first.endDatetime),
+      recurrenceRule: toRRule(parent, first.startDatetime, parent.endDatetime),
+      exclusionDates:
+        exclusionDates.length > 0
+          ? [zonedDateTime(...exclusionDates)]
+          : undefined,
+      sequence: Math.max(...inRule.map((event) => event.numberOfUpdates ?? 0)),
+    },
+    ...outsideRule.map(toICSEvent),
+  ];
+};
+
+/**
+ * @param extraEntries entries which aren't events, e.g. bookings in a personal feed
+ */
+export const generateICS = async (
+  events: CalendarEvent[],
   setHeaders: (headers: Record<string, string>) => void,
+  extraEntries: EventAttributes[] = [],
 ) => {
-  const icsEvents: EventAttributes[] = events.map((event) => {
-    const start = dayjs(event.startDatetime);
-    const end = dayjs(event.endDatetime);
-
-    return {
-      uid: event.id,
-      start: [
-        start.year(),
-        start.month() + 1,
-        start.date(),
-        start.hour(),
-        start.minute(),
-      ],
-      end: [end.year(), end.month() + 1, end.date(), end.hour(), end.minute()],
-      title: event.title,
-      description: event.description,
-      location: event.location ?? undefined,
-      sequence: event.numberOfUpdates ?? undefined,
-    };
-  });
+  // events in a series are grouped if the series is included
+  const series = new Map<string, { parent: RecurringEvent; events: Event[] }>();
+  const icsEvents: EventAttributes[] = [];
+  for (const event of events) {
+    const parent = event.recurringEventParent;
+    if (!parent || event.isDetatched) {
+      icsEvents.push(toICSEvent(event));
+      continue;
+    }
+    const entry = series.get(parent.id) ?? { parent, events: [] };
+    entry.events.push(event);
+    series.set(parent.id, entry);
+  }
+  for (const { parent, events } of series.values())
+    icsEvents.push(...toICSSeries(parent, events));
 
-  const calendar = createEvents(icsEvents);
+  const calendar = createEvents([...icsEvents, ...extraEntries]);
 
   if (calendar.error) {
     throw error(
@@ -46,5 +164,5 @@ export const generateICS = async (
     "Content-Disposition": 'attachment; filename="D-sektionen_events.ics"',
   });
 
-  return new Response(calendar.value);
+  return new Response(withTimeZones(calendar.value!));
 };
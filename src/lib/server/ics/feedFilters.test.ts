@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { getFeedEventFilter } from "./feedFilters";
+
+const feed = {
+  memberId: "member",
+  includeGoing: false,
+  includeInterested: false,
+  includeSubscribedTags: false,
+  includeTickets: false,
+};
+
+describe("calendar feed filter", () => {
+  it("has no events when nothing is included", () =>
+    expect(getFeedEventFilter(feed)).toBeNull());
+
+  it("includes events the member is going to or interested in", () =>
+    expect(
+      getFeedEventFilter({
+        ...feed,
+        includeGoing: true,
+        includeInterested: true,
+      }),
+    ).toEqual({
+      OR: [
+        { going: { some: { id: "member" } } },
+        { interested: { some: { id: "member" } } },
+      ],
+    }));
+
+  it("includes events with subscribed tags", () =>
+    expect(
+      getFeedEventFilter({ ...feed, includeSubscribedTags: true }),
+    ).toEqual({
+      OR: [
+        { tags: { some: { subscribedMembers: { some: { id: "member" } } } } },
+      ],
+    }));
+
+  it("only includes events with purchased tickets", () => {
+    const filter = getFeedEventFilter({ ...feed, includeTickets: true });
+    expect(JSON.stringify(filter)).toContain('"purchasedAt":{"not":null}');
+    expect(JSON.stringify(filter)).toContain('"memberId":"member"');
+  });
+});
@@ -0,0 +1,46 @@
+import type { CalendarFeed, Prisma } from "@prisma/client";
+
+type FeedSettings = Pick<
+  CalendarFeed,
+  | "memberId"
+  | "includeGoing"
+  | "includeInterested"
+  | "includeSubscribedTags"
+  | "includeTickets"
+>;
+
+/**
+ * Which events belong in a personal feed. Returns null if the feed shouldn't contain any events.
+ */
+export const getFeedEventFilter = (
+  feed: FeedSettings,
+): Prisma.EventWhereInput | null => {
+  const member = { some: { id: feed.memberId } };
+  const conditions: Prisma.EventWhereInput[] = [
+    ...(feed.includeGoing ? [{ going: member }] : []),
+    ...(feed.includeInterested ? [{ interested: member }] : []),
+    ...(feed.includeSubscribedTags
+      ? [{ tags: { some: { subscribedMembers: member } } }]
+      : []),
+    ...(feed.includeTickets
+      ? [
+          {
+            tickets: {
+              some: {
+                shoppable: {
+                  consumables: {
+                    some: {
+                      memberId: feed.memberId,
+                      purchasedAt: { not: null },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        ]
+      : []),
+  ];
+  if (conditions.length === 0) return null;
+  return { OR: conditions };
+};
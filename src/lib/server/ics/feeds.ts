@@ -0,0 +1,127 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import { getDerivedRoles } from "$lib/utils/authorization";
+import * as m from "$paraglide/messages";
+import {
+  isAvailableLanguageTag,
+  sourceLanguageTag,
+  type AvailableLanguageTag,
+} from "$paraglide/runtime";
+import {
+  BookingRequestStatus,
+  type CalendarFeed,
+  type PrismaClient,
+} from "@prisma/client";
+import { enhance } from "@zenstackhq/runtime";
+import { randomBytes } from "crypto";
+import dayjs from "dayjs";
+import type { EventAttributes } from "ics";
+// eslint-disable-next-line no-restricted-imports -- feeds are fetched without a session, so the client from the hooks can't be used
+import translatedExtension from "../../../database/prisma/translationExtension";
+import { getAccessPolicies } from "../../../hooks.server.helpers";
+import { toDateArray } from "./calendar";
+import { getFeedEventFilter } from "./feedFilters";
+
+/*
+Personal calendar feeds are fetched by calendar apps, which don't have a session.
+The secret token in the url identifies the feed, and the events are read as the feed's member would read them,
+although without the roles from their mandates since those come from the login.
+*/
+
+export const createFeedToken = () => randomBytes(24).toString("base64url");
+
+export const getFeedLanguage = (feed: Pick<CalendarFeed, "language">) =>
+  isAvailableLanguageTag(feed.language) ? feed.language : sourceLanguageTag;
+
+const getTranslatedPrisma = (language: AvailableLanguageTag) =>
+  authorizedPrismaClient.$extends(
+    translatedExtension(language),
+  ) as PrismaClient;
+
+const getMemberPrisma = async (prisma: PrismaClient, memberId: string) => {
+  const member = await prisma.member.findUniqueOrThrow({
+    where: { id: memberId },
+  });
+  const roles = getDerivedRoles(
+    undefined,
+    !!member.studentId,
+    member.classYear ?? undefined,
+  );
+  return enhance(prisma, {
+    user: {
+      studentId: member.studentId ?? undefined,
+      memberId: member.id,
+      policies: await getAccessPolicies(
+        prisma,
+        roles,
+        member.studentId ?? undefined,
+      ),
+      roles,
+    },
+  });
+};
+
+/**
+ * The events and bookings of a feed, from a month back and onwards.
+ * Returns null if there is no feed with the token.
+ */
+export const getFeedContent = async (token: string) => {
+  const feed = await authorizedPrismaClient.calendarFeed.findUnique({
+    where: { token },
+  });
+  if (!feed) return null;
+  const language = getFeedLanguage(feed);
+  const translatedPrisma = getTranslatedPrisma(language);
+  const prisma = await getMemberPrisma(translatedPrisma, feed.memberId);
+  const since = dayjs().subtract(1, "month").toDate();
+
+  const eventFilter = getFeedEventFilter(feed);
+  const events = eventFilter
+    ? await prisma.event.findMany({
+        where: {
+          ...eventFilter,
+          startDatetime: { gte: since },
+          removedAt: null,
+          // scheduled events aren't shown until they are published
+          publishedAt: { lte: new Date() },
+        },
+        orderBy: { startDatetime: "asc" },
+        include: { recurringEventParent: true },
+      })
+    : [];
+
+  const bookings: EventAttributes[] = feed.includeBookings
+    ? // the member's own bookings, which they can always see
+      (
+        await translatedPrisma.bookingRequest.findMany({
+          where: {
+            bookerId: feed.memberId,
+            status: { not: BookingRequestStatus.DENIED },
+            start: { gte: since },
+            end: { not: null },
+          },
+          include: { bookables: true },
+        })
+      ).map((booking) => ({
+        uid: booking.id,
+        start: toDateArray(booking.start!),
+        end: toDateArray(booking.end!),
+        title: m.setting_calendar_bookingTitle(
+          {
+            bookables: booking.bookables.map((b) => b.name).join(", "),
+          },
+          { languageTag: language },
+        ),
+        description: booking.event ?? undefined,
+        status:
+          booking.status === BookingRequestStatus.PENDING
+            ? "TENTATIVE"
+            : "CONFIRMED",
+      }))
+    : [];
+
+  await authorizedPrismaClient.calendarFeed.update({
+    where: { id: feed.id },
+    data: { lastFetchedAt: new Date() },
+  });
+  return { events, bookings };
+};
@@ -0,0 +1,187 @@
+import { SECTION_TIME_ZONE } from "$lib/utils/recurrence";
+import dayjs from "dayjs";
+import { readFileSync } from "fs";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  fetchCalendar,
+  importFingerprint,
+  matchTagRules,
+  planCalendarImport,
+  toImportedEventData,
+  type ExistingImportedEvent,
+} from "./import";
+import { parseCalendar } from "./parse";
+
+// a time in the section's time zone, so that the tests don't depend on the machine's
+const stockholm = (year: number, month: number, day: number, hour = 0) =>
+  dayjs
+    .tz(
+      new Date(Date.UTC(year, month, day, hour)).toISOString().slice(0, 19),
+      SECTION_TIME_ZONE,
+    )
+    .toDate();
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+
+const now = new Date(2025, 2, 1);
+const rules = [
+  { keyword: "pub", tagId: "pub-tag" },
+  { keyword: "sittning", tagId: "sittning-tag" },
+];
+
+// the events as they would be saved by the first import of lus.ics
+const firstImport = (): ExistingImportedEvent[] =>
+  planCalendarImport(
+    parseCalendar(fixture("lus.ics")),
+    [],
+    rules,
+    now,
+  ).create.map(({ uid, data }) => ({
+    ...data,
+    id: uid.split("@")[0]!,
+    importUid: uid,
+    importFingerprint: importFingerprint(data),
+    removedAt: null,
+  }));
+
+describe("calendar import", () => {
+  it("creates the upcoming events, except recurring and cancelled ones", () => {
+    const plan = planCalendarImport(
+      parseCalendar(fixture("lus.ics")),
+      [],
+      rules,
+      now,
+    );
+    expect(plan.create.map((event) => event.uid)).toEqual([
+      "pub-1@lus.example",
+      "lecture-2@lus.example",
+      "day-3@lus.example",
+    ]);
+    expect(plan.skipped).toEqual([
+      { uid: "weekly-4@lus.example", reason: "recurring" },
+    ]);
+    expect(plan.update).toEqual([]);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it("doesn't import events which have ended", () =>
+    expect(
+      planCalendarImport(
+        parseCalendar(fixture("lus.ics")),
+        [],
+        rules,
+        new Date(2025, 2, 14),
+      ).create.map((event) => event.uid),
+    ).toEqual(["day-3@lus.example"]));
+
+  it("maps keywords in titles and categories to tags", () => {
+    expect(
+      matchTagRules({ title: "Pubkväll", categories: ["Sittning"] }, rules),
+    ).toEqual(["pub-tag", "sittning-tag"]);
+    expect(
+      matchTagRules({ title: "Föreläsning", categories: [] }, rules),
+    ).toEqual([]);
+  });
+
+  it("changes nothing when the calendar is the same", () => {
+    const plan = planCalendarImport(
+      parseCalendar(fixture("lus.ics")),
+      firstImport(),
+      rules,
+      now,
+    );
+    expect(plan.create).toEqual([]);
+    expect(plan.update).toEqual([]);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it("updates changed events and removes deleted and cancelled ones", () => {
+    const plan = planCalendarImport(
+      parseCalendar(fixture("lus-updated.ics")),
+      firstImport(),
+      rules,
+      now,
+    );
+    expect(plan.create.map((event) => event.uid)).toEqual([
+      "quiz-6@lus.example",
+    ]);
+    expect(plan.update).toEqual([
+      {
+        id: "pub-1",
+        data: expect.objectContaining({
+          startDatetime: stockholm(2025, 2, 7, 19),
+        }),
+      },
+    ]);
+    expect(plan.remove.sort()).toEqual(["day-3", "lecture-2"]);
+  });
+
+  it("never overwrites or removes events edited or removed here", () => {
+    const existing = firstImport().map((event) =>
+      event.id === "pub-1"
+        ? { ...event, removedAt: new Date(2025, 1, 28) }
+        : { ...event, title: `${event.title}!` },
+    );
+    const plan = planCalendarImport(
+      parseCalendar(fixture("lus-updated.ics")),
+      existing,
+      rules,
+      now,
+    );
+    expect(plan.update).toEqual([]);
+    expect(plan.remove).toEqual([]);
+    expect(plan.skipped).toEqual([
+      { uid: "pub-1@lus.example", reason: "removed" },
+    ]);
+  });
+
+  it("sanitizes descriptions", () => {
+    const [event] = parseCalendar(fixture("lus.ics"));
+    expect(
+      toImportedEventData({
+        ...event!,
+        description: 'Hej<script>alert("hej")</script>',
+      }).description,
+    ).toBe("Hej");
+  });
+});
+
+describe("calendar fetching", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  // a stand-in for an external calendar server
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === "/lus.ics") {
+        response.writeHead(200, { "Content-Type": "text/calendar" });
+        response.end(fixture("lus.ics"));
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("downloads the calendar", async () => {
+    const events = parseCalendar(await fetchCalendar(`${baseUrl}/lus.ics`));
+    expect(events).toHaveLength(5);
+  });
+
+  it("fails on errors and other protocols", async () => {
+    await expect(fetchCalendar(`${baseUrl}/missing.ics`)).rejects.toThrow(
+      "404",
+    );
+    await expect(fetchCalendar("file:///etc/passwd")).rejects.toThrow(
+      "protocol",
+    );
+  });
+});
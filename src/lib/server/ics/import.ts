@@ -0,0 +1,160 @@
+import type { ParsedCalendarEvent } from "$lib/server/ics/parse";
+import type { Event } from "@prisma/client";
+import { createHash } from "crypto";
+import DOMPurify from "isomorphic-dompurify";
+
+/*
+External calendars are imported as events, see importCalendars.ts. Each imported event remembers the UID it has in the
+external calendar, and a fingerprint of what was imported. If the fingerprint no longer matches the event, someone has
+edited it here, and the importer leaves it alone from then on. The same goes for events which have been removed here.
+Events which are removed or cancelled in the external calendar are removed here too, unless they have been edited.
+*/
+
+export type CalendarTagRule = { keyword: string; tagId: string };
+
+export type ImportedEventData = Pick<
+  Event,
+  | "title"
+  | "description"
+  | "location"
+  | "link"
+  | "startDatetime"
+  | "endDatetime"
+>;
+
+export type ExistingImportedEvent = ImportedEventData &
+  Pick<Event, "id" | "importUid" | "importFingerprint" | "removedAt">;
+
+export type CalendarImportPlan = {
+  create: Array<{ uid: string; data: ImportedEventData; tagIds: string[] }>;
+  update: Array<{ id: string; data: ImportedEventData }>;
+  remove: string[];
+  skipped: Array<{ uid: string; reason: "recurring" | "edited" | "removed" }>;
+};
+
+/**
+ * The tags of the rules whose keyword is in the event's title or categories, ignoring case.
+ */
+export const matchTagRules = (
+  event: Pick<ParsedCalendarEvent, "title" | "categories">,
+  rules: CalendarTagRule[],
+) => {
+  const haystack = [event.title, ...event.categories].map((text) =>
+    text.toLowerCase(),
+  );
+  return [
+    ...new Set(
+      rules
+        .filter((rule) =>
+          haystack.some((text) => text.includes(rule.keyword.toLowerCase())),
+        )
+        .map((rule) => rule.tagId),
+    ),
+  ];
+};
+
+/**
+ * The fields of an event which are set from the external calendar.
+ */
+export const toImportedEventData = (
+  event: ParsedCalendarEvent,
+): ImportedEventData => ({
+  title: event.title.slice(0, 255) || "Namnlöst evenemang",
+  description: DOMPurify.sanitize(event.description ?? ""),
+  location: event.location?.slice(0, 255) ?? null,
+  link: event.url && event.url.length <= 255 ? event.url : null,
+  startDatetime: event.start,
+  endDatetime: event.end,
+});
+
+export const importFingerprint = (data: ImportedEventData) =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        data.title,
+        data.description,
+        data.location,
+        data.link,
+        data.startDatetime.getTime(),
+        data.endDatetime.getTime(),
+      ]),
+    )
+    .digest("hex");
+
+/**
+ * What to do with the events imported from a calendar, given what the calendar contains now.
+ * Events which have already ended aren't imported, and ended events which disappear from the calendar are kept.
+ */
+export const planCalendarImport = (
+  calendar: ParsedCalendarEvent[],
+  existing: ExistingImportedEvent[],
+  rules: CalendarTagRule[],
+  now = new Date(),
+): CalendarImportPlan => {
+  const plan: CalendarImportPlan = {
+    create: [],
+    update: [],
+    remove: [],
+    skipped: [],
+  };
+  const byUid = new Map(existing.map((event) => [event.importUid, event]));
+  const isEdited = (event: ExistingImportedEvent) =>
+    importFingerprint(event) !== event.importFingerprint;
+  const liveUids = new Set<string>();
+
+  for (const calendarEvent of calendar) {
+    if (calendarEvent.status === "CANCELLED") continue;
+    liveUids.add(calendarEvent.uid);
+    // a series would have to be expanded into an event per occurrence, which external calendars rarely need
+    if (calendarEvent.isRecurring) {
+      plan.skipped.push({ uid: calendarEvent.uid, reason: "recurring" });
+      continue;
+    }
+    const data = toImportedEventData(calendarEvent);
+    const event = byUid.get(calendarEvent.uid);
+    if (!event) {
+      if (data.endDatetime > now)
+        plan.create.push({
+          uid: calendarEvent.uid,
+          data,
+          tagIds: matchTagRules(calendarEvent, rules),
+        });
+    } else if (event.removedAt !== null) {
+      plan.skipped.push({ uid: calendarEvent.uid, reason: "removed" });
+    } else if (isEdited(event)) {
+      plan.skipped.push({ uid: calendarEvent.uid, reason: "edited" });
+    } else if (importFingerprint(data) !== event.importFingerprint) {
+      plan.update.push({ id: event.id, data });
+    }
+  }
+
+  for (const event of existing) {
+    if (
+      event.importUid !== null &&
+      !liveUids.has(event.importUid) &&
+      event.removedAt === null &&
+      event.endDatetime > now &&
+      !isEdited(event)
+    )
+      plan.remove.push(event.id);
+  }
+  return plan;
+};
+
+/**
+ * Downloads an external calendar. Only http(s) urls are allowed, since the urls are entered by users.
+ */
+export const fetchCalendar = async (url: string, timeoutMs = 10_000) => {
+  const { protocol } = new URL(url);
+  if (protocol !== "http:" && protocol !== "https:")
+    throw new Error(`Unsupported calendar url protocol ${protocol}`);
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: { Accept: "text/calendar" },
+  });
+  if (!response.ok)
+    throw new Error(
+      `Failed to fetch calendar: ${response.status} ${response.statusText}`,
+    );
+  return response.text();
+};
@@ -0,0 +1,110 @@
+import {
+  fetchCalendar,
+  importFingerprint,
+  planCalendarImport,
+} from "$lib/server/ics/import";
+import { parseCalendar } from "$lib/server/ics/parse";
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import { slugify, slugWithCount } from "$lib/utils/slugify";
+import type { EventCalendarSource, EventCalendarTagRule } from "@prisma/client";
+
+const uniqueSlug = async (title: string) => {
+  const slug = slugify(title);
+  const count = await authorizedPrismaClient.event.count({
+    where: { slug: { startsWith: slug } },
+  });
+  return slugWithCount(slug, count);
+};
+
+/**
+ * Imports the events of one external calendar, see import.ts for how local edits are kept.
+ * @returns how many events were created, updated, removed and skipped
+ */
+export const importEventCalendar = async (
+  source: EventCalendarSource & { tagRules: EventCalendarTagRule[] },
+  now = new Date(),
+) => {
+  try {
+    const calendar = parseCalendar(await fetchCalendar(source.url));
+    const existing = await authorizedPrismaClient.event.findMany({
+      where: { importSourceId: source.id },
+      select: {
+        id: true,
+        importUid: true,
+        importFingerprint: true,
+        removedAt: true,
+        title: true,
+        description: true,
+        location: true,
+        link: true,
+        startDatetime: true,
+        endDatetime: true,
+      },
+    });
+    const plan = planCalendarImport(calendar, existing, source.tagRules, now);
+
+    for (const { uid, data, tagIds } of plan.create) {
+      await authorizedPrismaClient.event.create({
+        data: {
+          ...data,
+          slug: await uniqueSlug(data.title),
+          organizer: source.organizer,
+          authorId: source.authorId,
+          importSourceId: source.id,
+          importUid: uid,
+          importFingerprint: importFingerprint(data),
+          tags: { connect: tagIds.map((id) => ({ id })) },
+        },
+      });
+    }
+    for (const { id, data } of plan.update) {
+      await authorizedPrismaClient.event.update({
+        where: { id },
+        data: {
+          ...data,
+          importFingerprint: importFingerprint(data),
+          numberOfUpdates: { increment: 1 },
+        },
+      });
+    }
+    if (plan.remove.length > 0)
+      await authorizedPrismaClient.event.updateMany({
+        where: { id: { in: plan.remove } },
+        data: { removedAt: now },
+      });
+
+    await authorizedPrismaClient.eventCalendarSource.update({
+      where: { id: source.id },
+      data: { lastImportedAt: now, lastError: null },
+    });
+    return {
+      created: plan.create.length,
+      updated: plan.update.length,
+      removed: plan.remove.length,
+      skipped: plan.skipped.length,
+    };
+  } catch (e) {
+    await authorizedPrismaClient.eventCalendarSource.update({
+      where: { id: source.id },
+      data: { lastError: e instanceof Error ? e.message : String(e) },
+    });
+    throw e;
+  }
+};
+
+/**
+ * Imports all enabled external calendars. Runs every hour, see hooks.server.ts.
+ */
+export const importEventCalendars = async (now = new Date()) => {
+  const sources = await authorizedPrismaClient.eventCalendarSource.findMany({
+    where: { enabled: true },
+    include: { tagRules: true },
+  });
+  for (const source of sources) {
+    try {
+      await importEventCalendar(source, now);
+    } catch (e) {
+      console.warn(`Failed to import calendar ${source.name}`, e);
+    }
+  }
+};
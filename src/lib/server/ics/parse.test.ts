@@ -0,0 +1,85 @@
+import { SECTION_TIME_ZONE } from "$lib/utils/recurrence";
+import dayjs from "dayjs";
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { parseCalendar, parseDateValue, parseDuration } from "./parse";
+
+// a time in the section's time zone, so that the tests don't depend on the machine's
+const stockholm = (year: number, month: number, day: number, hour = 0) =>
+  dayjs
+    .tz(
+      new Date(Date.UTC(year, month, day, hour)).toISOString().slice(0, 19),
+      SECTION_TIME_ZONE,
+    )
+    .toDate();
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+
+describe("ics parsing", () => {
+  const events = parseCalendar(fixture("lus.ics"));
+  const byUid = (uid: string) => events.find((event) => event.uid === uid)!;
+
+  it("reads the events with a uid and start", () =>
+    expect(events.map((event) => event.uid)).toEqual([
+      "pub-1@lus.example",
+      "lecture-2@lus.example",
+      "day-3@lus.example",
+      "weekly-4@lus.example",
+      "cancelled-5@lus.example",
+    ]));
+
+  it("unescapes text and ignores nested components", () => {
+    const pub = byUid("pub-1@lus.example");
+    expect(pub.title).toBe("Pubkväll på nationen");
+    expect(pub.description).toBe(
+      "Välkomna på pub!\nBilliga priser, god stämning.",
+    );
+    expect(pub.location).toBe("Nationshuset; stora salen");
+    expect(pub.url).toBe("https://lus.example/events/pub-1");
+    expect(pub.categories).toEqual(["Pub", "Sittning"]);
+  });
+
+  it("reads zoned times in their time zone and utc times as utc", () => {
+    const pub = byUid("pub-1@lus.example");
+    expect(pub.start).toEqual(stockholm(2025, 2, 7, 18));
+    expect(pub.end).toEqual(stockholm(2025, 2, 7, 23));
+    const lecture = byUid("lecture-2@lus.example");
+    expect(lecture.start).toEqual(new Date(Date.UTC(2025, 2, 10, 12)));
+    expect(lecture.end).toEqual(new Date(Date.UTC(2025, 2, 10, 13, 30)));
+  });
+
+  it("unfolds long lines", () =>
+    expect(byUid("lecture-2@lus.example").title).toBe(
+      "Gästföreläsning om studentlivets historia och framtid i Lund och i resten av Sverige",
+    ));
+
+  it("makes all-day events without an end one day long", () => {
+    const day = byUid("day-3@lus.example");
+    expect(day.allDay).toBe(true);
+    expect(day.start).toEqual(stockholm(2025, 2, 15));
+    expect(day.end).toEqual(stockholm(2025, 2, 16));
+  });
+
+  it("marks recurring and cancelled events", () => {
+    expect(byUid("weekly-4@lus.example").isRecurring).toBe(true);
+    expect(byUid("cancelled-5@lus.example").status).toBe("CANCELLED");
+    expect(byUid("pub-1@lus.example").status).toBeNull();
+  });
+
+  it("parses values", () => {
+    expect(parseDateValue("2025-03-07")).toBeNull();
+    expect(parseDateValue("20250307T120000", { TZID: "UTC" })?.date).toEqual(
+      new Date(Date.UTC(2025, 2, 7, 12)),
+    );
+    expect(parseDateValue("20250307T120000")?.date).toEqual(
+      stockholm(2025, 2, 7, 12),
+    );
+    expect(
+      parseDateValue("20250307T120000", { TZID: "Europe/London" })?.date,
+    ).toEqual(new Date(Date.UTC(2025, 2, 7, 12)));
+    expect(parseDuration("P1DT2H")).toBe(26 * 3600 * 1000);
+    expect(parseDuration("-PT15M")).toBe(-15 * 60 * 1000);
+    expect(parseDuration("1 hour")).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+import { addSectionDays, SECTION_TIME_ZONE } from "$lib/utils/recurrence";
+import dayjs from "dayjs";
+import timezone from "dayjs/plugin/timezone";
+import utc from "dayjs/plugin/utc";
+
+/*
+A small parser for the VEVENTs of iCalendar files (RFC 5545), enough for importing external calendars.
+Times with a TZID are read in that time zone, and times without a zone (or with an unknown TZID)
+in the section's time zone, whatever the time zone of the server is.
+Recurring events (with an RRULE) aren't expanded, see planCalendarImport in import.ts.
+*/
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type ParsedCalendarEvent = {
+  uid: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  url: string | null;
+  categories: string[];
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  // e.g. CONFIRMED or CANCELLED
+  status: string | null;
+  isRecurring: boolean;
+};
+
+type Property = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+// long lines are folded by starting the next line with a space or tab
+const unfold = (text: string) => text.replace(/\r?\n[ \t]/g, "");
+
+const parseProperty = (line: string): Property | null => {
+  // the value starts after the first colon which isn't inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+  const [name, ...params] = line.slice(0, colon).split(";");
+  return {
+    name: name!.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key, value = ""] = param.split("=");
+        return [key!.toUpperCase(), value.replace(/^"|"$/g, "")];
+      }),
+    ),
+    value: line.slice(colon + 1),
+  };
+};
+
+export const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+
+const UTC_ZONES = ["UTC", "Etc/UTC", "GMT", "Z"];
+
+const isKnownTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A DATE or DATE-TIME value, e.g. `20250307`, `20250307T180000` or `20250307T170000Z`.
+ */
+export const parseDateValue = (
+  value: string,
+  params: Record<string, string> = {},
+) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    value.trim(),
+  );
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const dateTime = `${year}-${month}-${day}T${hour ?? "00"}:${minute ?? "00"}:${second ?? "00"}`;
+  const zone = params["TZID"] ?? "";
+  const isUtc = !!utc || UTC_ZONES.includes(zone);
+  return {
+    date: isUtc
+      ? dayjs.utc(dateTime).toDate()
+      : dayjs
+          .tz(dateTime, isKnownTimeZone(zone) ? zone : SECTION_TIME_ZONE)
+          .toDate(),
+    allDay: hour === undefined,
+  };
+};
+
+/**
+ * A DURATION value, e.g. `PT2H30M` or `P1D`, in milliseconds.
+ */
+export const parseDuration = (value: string) => {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim(),
+    );
+  if (!match) return null;
+  const [, , weeks, days, hours, minutes, seconds] = match.map((part) =>
+    Number(part ?? 0),
+  );
+  const duration =
+    ((weeks! * 7 + days!) * 86400 + hours! * 3600 + minutes! * 60 + seconds!) *
+    1000;
+  return match[1] === "-" ? -duration : duration;
+};
+
+const toEvent = (properties: Property[]): ParsedCalendarEvent | null => {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const text = (name: string) => {
+    const value = get(name)?.value;
+    return value ? unescapeText(value).trim() : null;
+  };
+  const uid = get("UID")?.value.trim();
+  const startProperty = get("DTSTART");
+  const start =
+    startProperty && parseDateValue(startProperty.value, startProperty.params);
+  if (!uid || !start) return null;
+
+  const endProperty = get("DTEND");
+  const durationValue = get("DURATION")?.value;
+  const duration = durationValue ? parseDuration(durationValue) : null;
+  const end =
+    (endProperty && parseDateValue(endProperty.value, endProperty.params))
+      ?.date ??
+    (duration !== null
+      ? new Date(start.date.getTime() + duration)
+      : // events without an end are one day long if they are all-day, and instantaneous otherwise
+        addSectionDays(start.date, start.allDay ? 1 : 0));
+
+  return {
+    uid,
+    title: text("SUMMARY") ?? "",
+    description: text("DESCRIPTION"),
+    location: text("LOCATION"),
+    url: get("URL")?.value.trim() || null,
+    categories: properties
+      .filter((p) => p.name === "CATEGORIES")
+      .flatMap((p) => p.value.split(/(?<!\\),/))
+      .map((category) => unescapeText(category).trim())
+      .filter((category) => category.length > 0),
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    status: get("STATUS")?.value.trim().toUpperCase() ?? null,
+    isRecurring: !!get("RRULE") || !!get("RECURRENCE-ID"),
+  };
+};
+
+/**
+ * The events of an iCalendar file. Events without a UID or start are left out.
+ */
+export const parseCalendar = (text: string): ParsedCalendarEvent[] => {
+  const events: ParsedCalendarEvent[] = [];
+  // components can be nested, e.g. VALARMs in VEVENTs, whose properties are ignored
+  const components: string[] = [];
+  let properties: Property[] = [];
+  for (const line of unfold(text).split(/\r?\n/)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    if (property.name === "BEGIN") {
+      components.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === "VEVENT") properties = [];
+    } else if (property.name === "END") {
+      const component = components.pop();
+      if (component === "VEVENT") {
+        const event = toEvent(properties);
+        if (event) events.push(event);
+      }
+    } else if (components.at(-1) === "VEVENT") {
+      properties.push(property);
+    }
+  }
+  return events;
+};
@@ -0,0 +1,30 @@
+import type { Infer } from "sveltekit-superforms";
+import { z } from "zod";
+
+export const calendarFeedSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().trim().min(1),
+  language: z.enum(["sv", "en"]),
+  includeGoing: z.boolean().default(false),
+  includeInterested: z.boolean().default(false),
+  includeSubscribedTags: z.boolean().default(false),
+  includeBookings: z.boolean().default(false),
+  includeTickets: z.boolean().default(false),
+});
+export type CalendarFeedSchema = Infer<typeof calendarFeedSchema>;
+
+export const calendarSourceSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  url: z.string().trim().url(),
+  organizer: z.string().trim().min(1).max(255),
+});
+export type CalendarSourceSchema = Infer<typeof calendarSourceSchema>;
+
+export const calendarSourceIdSchema = z.object({
+  sourceId: z.string().uuid(),
+});
+
+export const calendarTagRuleSchema = calendarSourceIdSchema.extend({
+  keyword: z.string().trim().min(1).max(255),
+  tagId: z.string().uuid(),
+});
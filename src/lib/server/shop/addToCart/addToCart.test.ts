@@ -23,7 +23,13 @@ import {
   removeMockTickets,
   removeMockUsers,
 } from "../mock";
-import { performLotteryIfNecessary } from "./reservations";
+import {
+  fillFreedSpots,
+  handleStartedReleasePhases,
+  performLotteryIfNecessary,
+} from "./reservations";
+import { joinTicketWaitlist } from "./waitlist";
+import * as m from "$paraglide/messages";
 const prisma = new PrismaClient();
 
 const SUITE_PREFIX = "addToCart";
@@ -238,6 +244,71 @@ const addTicketsTestForUser = (
       await expectReservationCount(ticket.id, 0);
     });
 
+    it("offers a freed spot of a sold out ticket to the waitlist", async ({
+      tickets,
+    }) => {
+      const ticket = tickets.activeTicket;
+      await prisma.consumable.updateMany({
+        where: {
+          shoppableId: ticket.id,
+          memberId: adminMember.id,
+        },
+        data: {
+          purchasedAt: new Date(),
+        },
+      });
+      if (!user.memberId) {
+        // external customers can't be notified of offered spots
+        await expect(
+          joinTicketWaitlist(prismaWithAccess, ticket.id, user),
+        ).rejects.toThrow(m.tickets_waitlist_errors_membersOnly());
+        return;
+      }
+      const position = await joinTicketWaitlist(
+        prismaWithAccess,
+        ticket.id,
+        user,
+      );
+      expect(position).toBe(1);
+      await expect(
+        joinTicketWaitlist(prismaWithAccess, ticket.id, user),
+      ).rejects.toThrow();
+
+      // a purchased ticket is refunded
+      const refunded = await prisma.consumable.findFirstOrThrow({
+        where: {
+          shoppableId: ticket.id,
+        },
+      });
+      await prisma.consumable.delete({
+        where: {
+          id: refunded.id,
+        },
+      });
+      const queuedNotifications = await fillFreedSpots(prisma, ticket.id, 1);
+      expect(queuedNotifications.length).toBe(1);
+      expect(queuedNotifications[0]?.type).toBe(
+        NotificationType.PURCHASE_TIME_TO_BUY,
+      );
+      await expectConsumableCount(ticket.id, 10);
+      const offered = await prisma.consumable.findFirst({
+        where: {
+          shoppableId: ticket.id,
+          purchasedAt: null,
+        },
+      });
+      expect(offered?.memberId).toBe(user.memberId ?? null);
+      expect(offered?.externalCustomerCode).toBe(user.externalCode ?? null);
+      expect(offered?.expiresAt).not.toBeNull();
+      expect(
+        await prisma.ticketWaitlistEntry.count({
+          where: {
+            ticketId: ticket.id,
+          },
+        }),
+      ).toBe(0);
+    });
+
     it("expires un-purchased consumables", async ({ tickets }) => {
       const ticket = tickets.activeTicket;
       await prisma.consumable.updateMany({
@@ -333,6 +404,52 @@ const addTicketsTestForUser = (
     });
   });
 
+  describe("when a release phase starts", () => {
+    it("moves the queue to cart", async ({ tickets }) => {
+      const ticket = tickets.activeTicket;
+      const now = new Date();
+      const nextPhaseStart = new Date(now.valueOf() + 1000 * 60 * 60);
+      await prisma.shoppableReleasePhase.createMany({
+        data: [
+          {
+            shoppableId: ticket.id,
+            name: "First",
+            startsAt: ticket.shoppable.availableFrom,
+            stock: 2,
+          },
+          {
+            shoppableId: ticket.id,
+            name: "Second",
+            startsAt: nextPhaseStart,
+            stock: 3,
+          },
+        ],
+      });
+      await prisma.consumable.createMany({
+        data: new Array(2).fill(0).map(() => ({
+          shoppableId: ticket.id,
+          memberId: adminMember.id, // duplicates, but that's fine
+          purchasedAt: new Date(),
+        })),
+      });
+      await prisma.consumableReservation.createMany({
+        data: [0, 1, 2, 3].map((order) => ({
+          shoppableId: ticket.id,
+          memberId: adminMember.id,
+          order,
+        })),
+      });
+
+      await handleStartedReleasePhases(now);
+      await expectConsumableCount(ticket.id, 2);
+      await expectReservationCount(ticket.id, 4);
+
+      await handleStartedReleasePhases(nextPhaseStart);
+      await expectConsumableCount(ticket.id, 5);
+      await expectReservationCount(ticket.id, 1);
+    });
+  });
+
   describe("right after grace period", () => {
     beforeEach(async ({ tickets }) => {
       const start = tickets.activeEarlyTicket.shoppable.availableFrom;
@@ -1,12 +1,18 @@
 import type { SendNotificationProps } from "$lib/utils/notifications";
 import * as m from "$paraglide/messages";
-import { PrismaClient, type Shoppable, type Ticket } from "@prisma/client";
+import {
+  PrismaClient,
+  type Shoppable,
+  type ShoppableBundleItem,
+  type Ticket,
+} from "@prisma/client";
 import type { AuthUser } from "@zenstackhq/runtime";
 import authorizedPrismaClient from "$lib/server/authorizedPrisma";
 import {
   GRACE_PERIOD_WINDOW,
   TIME_TO_BUY,
   dbIdentification,
+  lockTickets,
   type TransactionClient,
 } from "../types";
 import {
@@ -16,6 +22,12 @@ import {
   sendQueuedNotifications,
 } from "./reservations";
 import { error } from "console";
+import {
+  canBuyInReleasePhase,
+  getCurrentReleasePhase,
+  getReleaseStart,
+  getReleasedStock,
+} from "../releasePhases";
 
 export enum AddToCartStatus {
   AddedToCart = "AddedToCart",
@@ -81,6 +93,8 @@ export const addTicketToCart = async (
           include: {
             accessPolicies: true,
             consumables: true,
+            bundleItems: true,
+            releasePhases: true,
             _count: {
               select: {
                 consumables: {
@@ -95,9 +109,16 @@ export const addTicketToCart = async (
             },
           },
         },
+        _count: {
+          select: {
+            waitlist: true,
+          },
+        },
       },
     });
     if (!ticket) throw new Error(m.tickets_errors_ticketNotFound());
+    if (ticket.shoppable.addonToId !== null)
+      throw new Error(m.tickets_addons_errors_onlyWithParent());
     if (
       ticket.shoppable.accessPolicies.length > 0 &&
       !ticket.shoppable.accessPolicies.some(
@@ -110,29 +131,43 @@ export const addTicketToCart = async (
     }
     if (ticket.shoppable.availableTo && ticket.shoppable.availableTo < now)
       throw new Error(m.tickets_addToCart_errors_salePeriodEnded());
-    if (ticket.shoppable.availableFrom > now)
+    const { releasePhases } = ticket.shoppable;
+    const releasePhase = getCurrentReleasePhase(releasePhases, now);
+    if (
+      ticket.shoppable.availableFrom > now ||
+      (releasePhases.length > 0 && !releasePhase)
+    )
       throw new Error(m.tickets_addToCart_errors_salePeriodNotStarted());
-    if (ticket.shoppable._count.consumables >= ticket.stock)
-      // purchased items
+    if (!canBuyInReleasePhase(releasePhase, user.roles))
+      throw new Error(m.tickets_releasePhases_errors_notInPhase());
+    // only the stock released so far can be sold
+    const stock = getReleasedStock(ticket, releasePhases, now);
+    if (
+      ticket.shoppable._count.consumables >= ticket.stock || // purchased items
+      ticket._count.waitlist > 0 // freed up spots go to the waitlist first
+    )
       throw new Error(m.tickets_addToCart_errors_ticketSoldOut());
+    if (ticket.shoppable._count.consumables >= stock)
+      throw new Error(m.tickets_releasePhases_errors_phaseSoldOut());
 
     await checkUserMaxAmount(tx, idPart, ticket);
 
-    if (
-      now.valueOf() - ticket.shoppable.availableFrom.valueOf() <
-      GRACE_PERIOD_WINDOW
-    ) {
+    if (ticket.shoppable.bundleItems.length > 0) {
+      return await addBundleToCart(tx, idPart, { ...ticket, stock }, now);
+    }
+
+    // every release phase starts with its own grace period and lottery
+    const releaseStart = getReleaseStart(ticket.shoppable, releasePhases, now);
+    if (now.valueOf() - releaseStart.valueOf() < GRACE_PERIOD_WINDOW) {
       return await addReservationInReserveWindow(
         tx,
         idPart,
         ticket.shoppable.id,
-        ticket.shoppable.availableFrom.valueOf() +
-          GRACE_PERIOD_WINDOW -
-          now.valueOf(),
+        releaseStart.valueOf() + GRACE_PERIOD_WINDOW - now.valueOf(),
       );
     }
 
-    if (ticket.shoppable.consumables.length >= ticket.stock) {
+    if (ticket.shoppable.consumables.length >= stock) {
       return addToQueue(tx, idPart, ticket);
     }
 
@@ -157,6 +192,16 @@ export const addTicketToCart = async (
     });
     return { status: AddToCartStatus.AddedToCart };
   });
+  if (
+    res.status === AddToCartStatus.Reserved ||
+    res.status === AddToCartStatus.PutInQueue
+  ) {
+    // the customer can't update the shoppable, and reservations are removed once moved to a cart, so they are counted here for the sales analytics
+    await authorizedPrismaClient.shoppable.update({
+      where: { id: ticketId },
+      data: { reservationCount: { increment: 1 } },
+    });
+  }
   await queueNextExpiredConsumablesPruning();
   return res;
 };
@@ -189,6 +234,96 @@ const checkUserMaxAmount = async (
     throw new Error(m.tickets_addToCart_errors_alreadyReserved());
 };
 
+/**
+ * Adds a bundle to the cart, together with one of each of its items, all in the same transaction.
+ * Bundles skip the reservation lottery and the queue, since those would have to be kept in sync for all of the items.
+ * Either every item has space left, or the bundle is sold out.
+ */
+const addBundleToCart = async (
+  prisma: TransactionClient,
+  id: ReturnType<typeof dbIdentification>,
+  bundle: Ticket & {
+    shoppable: Shoppable & { bundleItems: ShoppableBundleItem[] };
+  },
+  now: Date,
+): Promise<AddToCartResult> => {
+  // the bundle and all of its items are counted while locked, so that two carts can't both get the last one of an item
+  await lockTickets(prisma, [
+    bundle.id,
+    ...bundle.shoppable.bundleItems.map((item) => item.shoppableId),
+  ]);
+  const bundleCount = await prisma.consumable.count({
+    where: { shoppableId: bundle.id },
+  });
+  if (bundleCount >= bundle.stock)
+    throw new Error(m.tickets_addToCart_errors_ticketSoldOut());
+  const items = await prisma.ticket.findMany({
+    where: {
+      shoppable: {
+        inBundles: {
+          some: {
+            bundleId: bundle.id,
+          },
+        },
+      },
+    },
+    include: {
+      shoppable: {
+        include: {
+          _count: {
+            select: {
+              consumables: true, // in cart or purchased
+              reservations: true,
+            },
+          },
+        },
+      },
+      _count: {
+        select: {
+          waitlist: true,
+        },
+      },
+    },
+  });
+  for (const item of items) {
+    // people in the item's own queue or waitlist are first in line
+    if (
+      item.shoppable._count.consumables >= item.stock ||
+      item.shoppable._count.reservations > 0 ||
+      item._count.waitlist > 0
+    )
+      throw new Error(
+        m.tickets_bundles_errors_itemSoldOut({ title: item.shoppable.title }),
+      );
+  }
+
+  const isFree = bundle.shoppable.price === 0;
+  const state = isFree
+    ? { purchasedAt: now, priceAtPurchase: 0 }
+    : { expiresAt: new Date(now.valueOf() + TIME_TO_BUY) };
+  const bundleConsumable = await prisma.consumable.create({
+    data: {
+      ...id,
+      ...state,
+      shoppableId: bundle.id,
+    },
+  });
+  await prisma.consumable.createMany({
+    data: items.map((item) => ({
+      ...id,
+      ...state,
+      shoppableId: item.id,
+      parentId: bundleConsumable.id,
+      isBundleItem: true,
+    })),
+  });
+  return {
+    status: isFree
+      ? AddToCartStatus.AddedToInventory
+      : AddToCartStatus.AddedToCart,
+  };
+};
+
 const addToQueue = async (
   prisma: TransactionClient,
   id: ReturnType<typeof dbIdentification>,
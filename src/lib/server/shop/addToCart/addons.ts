@@ -0,0 +1,125 @@
+import * as m from "$paraglide/messages";
+import type { PrismaClient } from "@prisma/client";
+import { error } from "@sveltejs/kit";
+import type { AuthUser } from "@zenstackhq/runtime";
+import { TIME_TO_BUY, dbIdentification, lockTickets } from "../types";
+import { queueNextExpiredConsumablesPruning } from "./reservations";
+
+/*
+Add-ons are tickets of their own, with their own stock, but they can only be bought by someone who has the ticket they are an add-on to.
+They are connected to that consumable (the parent), and are removed or refunded together with it.
+Add-ons don't have a reservation lottery or queue, they are first come first served.
+*/
+
+/**
+ * Adds an add-on for one of the user's items to the cart.
+ * If the item is in the cart, the add-on is bought together with it and expires at the same time. Otherwise the item has to be purchased already.
+ */
+export const addAddonToCart = async (
+  prisma: PrismaClient,
+  addonId: string,
+  parentConsumableId: string,
+  user: AuthUser,
+) => {
+  const now = new Date();
+  if (!user.memberId && !user.externalCode) {
+    throw error(401);
+  }
+  const idPart = dbIdentification(
+    user.memberId
+      ? {
+          memberId: user.memberId,
+        }
+      : {
+          externalCode: user.externalCode!,
+        },
+  );
+  await prisma.$transaction(async (tx) => {
+    const parent = await tx.consumable.findFirst({
+      where: {
+        ...idPart,
+        id: parentConsumableId,
+        consumedAt: null,
+        OR: [
+          { purchasedAt: { not: null } },
+          { expiresAt: { gt: now } },
+          { expiresAt: null },
+        ],
+      },
+    });
+    if (!parent) throw new Error(m.cart_errors_itemNotInCart());
+    // the add-on is counted while locked, so that two carts can't both get the last one
+    await lockTickets(tx, [addonId]);
+    const addon = await tx.ticket.findUnique({
+      where: {
+        id: addonId,
+        shoppable: {
+          addonToId: parent.shoppableId,
+          OR: [{ removedAt: null }, { removedAt: { gt: now } }],
+        },
+      },
+      include: {
+        shoppable: {
+          include: {
+            accessPolicies: true,
+            _count: {
+              select: {
+                consumables: {
+                  where: {
+                    OR: [
+                      { purchasedAt: { not: null } },
+                      { expiresAt: { gt: now } },
+                      { expiresAt: null },
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!addon) throw new Error(m.tickets_addons_errors_notFound());
+    if (
+      addon.shoppable.accessPolicies.length > 0 &&
+      !addon.shoppable.accessPolicies.some(
+        (p) =>
+          (p.role && user.roles.includes(p.role)) ||
+          (p.studentId && p.studentId === user.studentId),
+      )
+    ) {
+      throw new Error(m.tickets_addToCart_errors_notAllowed());
+    }
+    if (addon.shoppable.availableTo && addon.shoppable.availableTo < now)
+      throw new Error(m.tickets_addToCart_errors_salePeriodEnded());
+    if (addon.shoppable.availableFrom > now)
+      throw new Error(m.tickets_addToCart_errors_salePeriodNotStarted());
+    if (addon.shoppable._count.consumables >= addon.stock)
+      throw new Error(m.tickets_addToCart_errors_ticketSoldOut());
+    const existing = await tx.consumable.count({
+      where: {
+        parentId: parent.id,
+        shoppableId: addon.id,
+      },
+    });
+    if (existing > 0) throw new Error(m.tickets_addons_errors_alreadyAdded());
+
+    const isFree = addon.shoppable.price === 0;
+    await tx.consumable.create({
+      data: {
+        ...idPart,
+        shoppableId: addon.id,
+        parentId: parent.id,
+        ...(isFree && parent.purchasedAt !== null
+          ? { purchasedAt: now, priceAtPurchase: 0 }
+          : {
+              expiresAt:
+                parent.purchasedAt === null
+                  ? parent.expiresAt
+                  : new Date(now.valueOf() + TIME_TO_BUY),
+            }),
+      },
+    });
+  });
+  await queueNextExpiredConsumablesPruning();
+};
@@ -19,6 +19,8 @@ import {
   TIME_TO_BUY,
   type TransactionClient,
 } from "../types";
+import { getReleaseStart, getReleasedStock } from "../releasePhases";
+import { offerSpotsToWaitlist } from "./waitlist";
 
 /*
 NOTE ON NOTIFICATION QUEUE SYSTEM:
@@ -56,7 +58,7 @@ export const ensureState = async (
 };
 
 /**
- * Removes all expired consumables. Also updates any necessary queues for tickets where spots just opened up.
+ * Removes all expired consumables. Also updates any necessary queues and waitlists for tickets where spots just opened up.
  * IMPORTANT! This method returns some notifications it wants the caller to send afterwards, remember to do this. This can be turned off with one of the properties
  * @returns an array of ticket ids that were modified, as well as the queued notifications
  */
@@ -129,10 +131,17 @@ export const removeExpiredConsumables = async (
     });
   }
   const { modifiedTickets, queuedNotifications: newQueuedNotifications } =
-    await updateAllNecessaryQueues(prisma);
+    await updateAllNecessaryQueues(prisma, now);
   queuedNotifications = queuedNotifications.concat(newQueuedNotifications);
+  const {
+    modifiedTickets: ticketsWithOfferedSpots,
+    queuedNotifications: waitlistNotifications,
+  } = await offerSpotsToWaitlist(prisma, now);
+  queuedNotifications = queuedNotifications.concat(waitlistNotifications);
   return {
-    modifiedTickets,
+    modifiedTickets: [
+      ...new Set([...(modifiedTickets ?? []), ...ticketsWithOfferedSpots]),
+    ],
     queuedNotifications,
   };
 };
@@ -163,17 +172,47 @@ export const queueNextExpiredConsumablesPruning = async () => {
       ),
     );
     if (pruneTimeout) clearTimeout(pruneTimeout);
+    pruneTimeout = null;
     /// queue next time removeExpiredConsumables should be called
     await queueNextExpiredConsumablesPruning();
   }, nextConsumableToExpire.expiresAt.valueOf() - Date.now());
 };
 
+/**
+ * Gives the tickets released by a phase to the queue when the phase starts, and performs the lottery once its grace period is over.
+ * Otherwise this only happens when something else ensures the state, e.g. someone adding the ticket to their cart.
+ * Runs every minute, see hooks.server.ts.
+ */
+export const handleStartedReleasePhases = async (now = new Date()) => {
+  const tickets = await authorizedPrismaClient.ticket.findMany({
+    where: {
+      shoppable: {
+        reservations: { some: {} },
+        releasePhases: { some: { startsAt: { lte: now } } },
+      },
+    },
+    select: { id: true },
+  });
+  if (tickets.length === 0) return;
+  const queuedNotifications: SendNotificationProps[] = [];
+  await authorizedPrismaClient.$transaction(async (prisma) => {
+    const result = await removeExpiredConsumables(prisma, now);
+    queuedNotifications.push(...result.queuedNotifications);
+    for (const ticket of tickets)
+      queuedNotifications.push(
+        ...(await performLotteryIfNecessary(prisma, now, ticket.id)),
+      );
+  });
+  sendQueuedNotifications(queuedNotifications);
+};
+
 /**
  * Loops through all tickets with an active queue (reservations). If there is space left, moves people from the queue to the cart.
  * IMPORTANT! This method returns some notifications it wants the caller to send afterwards, remember to do this.
  */
 const updateAllNecessaryQueues = async (
   prisma: TransactionClient,
+  now: Date,
 ): Promise<{
   modifiedTickets: string[] | undefined;
   queuedNotifications: SendNotificationProps[];
@@ -191,7 +230,7 @@ const updateAllNecessaryQueues = async (
           },
         },
         availableFrom: {
-          lte: new Date(Date.now() - GRACE_PERIOD_WINDOW),
+          lte: new Date(now.valueOf() - GRACE_PERIOD_WINDOW),
         },
       },
     },
@@ -200,6 +239,7 @@ const updateAllNecessaryQueues = async (
         include: {
           reservations: true,
           consumables: true,
+          releasePhases: true,
         },
       },
     },
@@ -216,6 +256,7 @@ const updateAllNecessaryQueues = async (
             shoppable: ticket.shoppable,
           })),
           ticket.shoppable.consumables,
+          getReleasedStock(ticket, ticket.shoppable.releasePhases, now),
         ),
       ),
     )
@@ -228,12 +269,14 @@ const updateAllNecessaryQueues = async (
 
 /**
  * Updates queue, moves people from queue to cart if space is available. Also updates order. Assumes any expired consumables are pruned.
+ * @param releasedStock the stock released so far, which is less than the ticket's stock if there are release phases left
  */
 const updateQueue = async (
   prisma: TransactionClient,
   ticket: Ticket,
   reservations: Array<ConsumableReservation & { shoppable: Shoppable }>,
   consumables: Consumable[],
+  releasedStock: number,
 ): Promise<SendNotificationProps[]> => {
   const purchasedConsumablesCount = consumables.filter(
     (con) => con.purchasedAt != null,
@@ -260,23 +303,23 @@ const updateQueue = async (
         title: "😢 Slutsålt:(",
         message: `${
           soldOutReservations[0]?.shoppable?.title ?? "Biljett"
-        } har blivit slutsåld`,
+        } har blivit slutsåld. Du kan ställa dig på väntelistan om en plats skulle bli ledig.`,
         memberIds: soldOutReservations
           .map((res) => res.memberId)
           .filter(Boolean) as string[],
         type: NotificationType.PURCHASE_SOLD_OUT,
-        link: "/shop/cart",
+        link: `/shop/tickets/${ticket.id}`,
       },
     ];
   } else {
-    // Update the queue for tickets that are not sold out
+    // Update the queue for tickets that are not sold out. If the current release is sold out, the queue stays for the next one
     return (
       await updateQueueGivenStock(
         prisma,
         ticket.id,
         reservations,
         consumables.length,
-        ticket.stock,
+        releasedStock,
       )
     ).queuedNotifications;
   }
@@ -370,6 +413,27 @@ export const moveQueueToCart = async (
   );
 };
 
+/**
+ * Should be called when spots of a shoppable have been freed up outside of the expiry flow, e.g. when an item is refunded or removed from a cart.
+ * The spots go to the queue first, and are otherwise offered to the waitlist.
+ * IMPORTANT! This method returns some notifications it wants the caller to send afterwards, remember to do this.
+ */
+export const fillFreedSpots = async (
+  prisma: TransactionClient,
+  shoppableId: string,
+  amount: number,
+) => {
+  const queuedNotifications = await moveQueueToCart(
+    prisma,
+    shoppableId,
+    amount,
+    true,
+  );
+  const { queuedNotifications: waitlistNotifications } =
+    await offerSpotsToWaitlist(prisma, new Date(), shoppableId);
+  return queuedNotifications.concat(waitlistNotifications);
+};
+
 /**
  * IMPORTANT! This method returns some notifications it wants the caller to send afterwards, remember to do this. This can be turned off with one of the properties
  */
@@ -388,6 +452,7 @@ const moveReservationsToCart = async (
       externalCustomerCode: r.externalCustomerCode,
       externalCustomerEmail: r.externalCustomerEmail,
       expiresAt: new Date(Date.now() + TIME_TO_BUY),
+      fromReservation: true,
     })),
   });
   await prisma.consumableReservation.deleteMany({
@@ -430,7 +495,7 @@ const moveReservationsToCart = async (
 };
 
 /**
- * Checks if enough time has passed such that the grace period window is over, and then performs the lottery if necessary.
+ * Checks if enough time has passed such that the grace period window of the current release is over, and then performs the lottery if necessary.
  * IMPORTANT! This method returns some notifications it wants the caller to send afterwards, remember to do this.
  */
 export const performLotteryIfNecessary = async (
@@ -438,36 +503,46 @@ export const performLotteryIfNecessary = async (
   now: Date,
   shoppableId: string,
 ): Promise<SendNotificationProps[]> => {
-  const ticketAfterGracePeriodWithReservations = await prisma.ticket.findUnique(
-    {
-      where: {
-        id: shoppableId,
-        shoppable: {
-          reservations: {
-            some: {
-              order: null,
-            },
-          },
-          availableFrom: {
-            lte: new Date(now.valueOf() - GRACE_PERIOD_WINDOW),
+  const ticketWithReservations = await prisma.ticket.findUnique({
+    where: {
+      id: shoppableId,
+      shoppable: {
+        reservations: {
+          some: {
+            order: null,
           },
         },
       },
     },
+    include: {
+      shoppable: {
+        include: {
+          releasePhases: true,
+        },
+      },
+    },
+  });
+  if (ticketWithReservations === null) return [];
+  const releaseStart = getReleaseStart(
+    ticketWithReservations.shoppable,
+    ticketWithReservations.shoppable.releasePhases,
+    now,
   );
-  if (ticketAfterGracePeriodWithReservations !== null) {
-    return await performReservationLottery(prisma, shoppableId);
+  if (releaseStart.valueOf() <= now.valueOf() - GRACE_PERIOD_WINDOW) {
+    return await performReservationLottery(prisma, shoppableId, now);
   }
   return [];
 };
 /**
- * Once the initial grace period is over, call this method. It goes through all reservations and performs the following logic:
- * - If the number of reservations is less than or equal to the stock, move all reservations to cart
- * - Otherwise, randomize the order of the reservations. The first 0->stock reservations are moved to cart, the rest are kept with the field order given a value depending on their queue position.
+ * Once the grace period of a release is over, call this method. It goes through all reservations and performs the following logic:
+ * - People still in the queue from an earlier release phase are moved to cart first, since they have been waiting for longer
+ * - If the number of reservations is less than or equal to the remaining released stock, move all reservations to cart
+ * - Otherwise, randomize the order of the reservations. The first reservations are moved to cart, the rest are put last in the queue depending on their queue position.
  */
 const performReservationLottery = async (
   prisma: TransactionClient,
   shoppableId: string,
+  now: Date,
 ): Promise<SendNotificationProps[]> => {
   const reservations = await prisma.consumableReservation.findMany({
     where: {
@@ -483,16 +558,70 @@ const performReservationLottery = async (
     where: {
       id: shoppableId,
     },
+    include: {
+      shoppable: {
+        include: {
+          releasePhases: true,
+          _count: {
+            select: {
+              consumables: true, // in cart or purchased
+            },
+          },
+        },
+      },
+    },
   });
   if (ticket == null) {
     throw new Error(m.tickets_errors_ticketNotFound());
   }
-  const stock = ticket?.stock ?? 0;
+  let stock = Math.max(
+    0,
+    getReleasedStock(ticket, ticket.shoppable.releasePhases, now) -
+      ticket.shoppable._count.consumables,
+  );
+  // people still in the queue from an earlier release phase have waited longer, so they get the newly released tickets first
+  const queue = await prisma.consumableReservation.findMany({
+    where: {
+      shoppableId,
+      order: {
+        not: null,
+      },
+    },
+    orderBy: {
+      order: "asc",
+    },
+    include: {
+      shoppable: true,
+    },
+  });
+  const movedFromQueue = queue.slice(0, stock);
+  const queuedNotifications = await moveReservationsToCart(
+    prisma,
+    shoppableId,
+    movedFromQueue,
+  );
+  stock -= movedFromQueue.length;
+  const queueLength = queue.length - movedFromQueue.length;
+
+  // summed up over all release phases
+  await prisma.shoppable.update({
+    where: {
+      id: shoppableId,
+    },
+    data: {
+      lotteryParticipantCount:
+        (ticket.shoppable.lotteryParticipantCount ?? 0) + reservations.length,
+      lotteryWinnerCount:
+        (ticket.shoppable.lotteryWinnerCount ?? 0) +
+        Math.min(reservations.length, stock),
+    },
+  });
   if (reservations.length <= stock) {
     // all can be moved to cart
     await moveReservationsToCart(prisma, shoppableId, reservations, false);
     // Queue notification that users can purchase their item
     return [
+      ...queuedNotifications,
       {
         title: "🎉 Du vann lotteriet!",
         message: `Det är dags att ${
@@ -510,7 +639,7 @@ const performReservationLottery = async (
   const winners = shuffledReservations.slice(0, stock);
   const losers = shuffledReservations.slice(stock);
   await moveReservationsToCart(prisma, shoppableId, winners, false, false);
-  // set order for the rest, depending on their place in the queue. So first place gets order = 0, second place gets order = 1, etc.
+  // set order for the rest, depending on their place in the queue. Anyone already in the queue is before them, otherwise first place gets order = 0, second place gets order = 1, etc.
   await Promise.all(
     losers.map((r, i) =>
       prisma.consumableReservation.update({
@@ -518,13 +647,13 @@ const performReservationLottery = async (
           id: r.id,
         },
         data: {
-          order: i,
+          order: queueLength + i,
         },
       }),
     ),
   );
   // Queue notifications to winners of lottery, and to losers, telling them what happened
-  const queuedNotifications: SendNotificationProps[] = [
+  queuedNotifications.push(
     {
       title: "🎉🍀 Du vann lotteriet!",
       message: `Det är dags att ${
@@ -543,7 +672,7 @@ const performReservationLottery = async (
       type: NotificationType.PURCHASE_IN_QUEUE,
       link: "/shop/cart",
     },
-  ];
+  );
   return queuedNotifications;
 };
 
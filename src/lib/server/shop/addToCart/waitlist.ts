@@ -0,0 +1,250 @@
+import type { SendNotificationProps } from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import * as m from "$paraglide/messages";
+import type { PrismaClient, TicketWaitlistEntry } from "@prisma/client";
+import { error } from "@sveltejs/kit";
+import type { AuthUser } from "@zenstackhq/runtime";
+import {
+  TIME_TO_BUY,
+  dbIdentification,
+  type TransactionClient,
+} from "../types";
+import {
+  getReleasedStock,
+  getTicketsLeft,
+  getUpcomingReleasePhases,
+} from "../releasePhases";
+
+/*
+The waitlist is for tickets which are sold out, i.e. all stock has been purchased, so the regular queue (reservations) has been cleared.
+Only members can opt in, since the offer is sent as a notification which external customers can't get.
+People opt in to it, and whenever a spot frees up (a refund, or an item in someone's cart expiring) it is offered to the first person in line.
+The offer is a normal cart item which expires after TIME_TO_BUY, so if they don't buy it in time the spot moves on to the next person.
+*/
+
+/**
+ * Offers free spots of tickets with a waitlist to the people first in line, by putting the ticket in their cart.
+ * Spots are only offered once the regular queue is empty, since the people in it have been waiting for longer.
+ * Assumes any expired consumables are pruned, otherwise their spots will be offered the next time they are.
+ * IMPORTANT! This method returns some notifications it wants the caller to send afterwards, remember to do this.
+ * @param ticketId only offer spots for this ticket, otherwise all tickets with a waitlist are checked
+ * @returns an array of ticket ids that were modified, as well as the queued notifications
+ */
+export const offerSpotsToWaitlist = async (
+  prisma: TransactionClient,
+  now: Date,
+  ticketId?: string,
+): Promise<{
+  modifiedTickets: string[];
+  queuedNotifications: SendNotificationProps[];
+}> => {
+  const ticketsWithWaitlist = await prisma.ticket.findMany({
+    where: {
+      id: ticketId,
+      waitlist: { some: {} },
+      shoppable: {
+        reservations: { none: {} },
+        AND: [
+          { OR: [{ removedAt: null }, { removedAt: { gt: now } }] },
+          { OR: [{ availableTo: null }, { availableTo: { gt: now } }] },
+        ],
+      },
+    },
+    include: {
+      shoppable: {
+        include: {
+          releasePhases: true,
+          _count: {
+            select: {
+              consumables: true, // in cart or purchased
+            },
+          },
+        },
+      },
+      waitlist: {
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  const modifiedTickets: string[] = [];
+  const queuedNotifications: SendNotificationProps[] = [];
+  for (const ticket of ticketsWithWaitlist) {
+    const spaceLeft =
+      getReleasedStock(ticket, ticket.shoppable.releasePhases, now) -
+      ticket.shoppable._count.consumables;
+    if (spaceLeft <= 0) continue;
+    const toOffer = ticket.waitlist.slice(0, spaceLeft);
+    await prisma.consumable.createMany({
+      data: toOffer.map((entry) => ({
+        shoppableId: ticket.id,
+        memberId: entry.memberId,
+        externalCustomerCode: entry.externalCustomerCode,
+        externalCustomerEmail: entry.externalCustomerEmail,
+        expiresAt: new Date(now.valueOf() + TIME_TO_BUY),
+      })),
+    });
+    await prisma.ticketWaitlistEntry.deleteMany({
+      where: {
+        id: {
+          in: toOffer.map((entry) => entry.id),
+        },
+      },
+    });
+    modifiedTickets.push(ticket.id);
+    // Queue notification to tell people that they can now purchase their item
+    queuedNotifications.push({
+      title: "🎉 En plats har blivit ledig!",
+      message: `Du stod först på väntelistan och kan nu ${
+        ticket.shoppable.price > 0 ? "köpa" : "skaffa"
+      } ${ticket.shoppable.title}. Platsen är reserverad åt dig i ${
+        TIME_TO_BUY / 60000
+      } minuter.`,
+      memberIds: toOffer
+        .map((entry) => entry.memberId)
+        .filter(Boolean) as string[],
+      type: NotificationType.PURCHASE_TIME_TO_BUY,
+      link: "/shop/cart",
+    });
+  }
+  return { modifiedTickets, queuedNotifications };
+};
+
+/**
+ * @returns the 1-indexed position of the entry in its ticket's waitlist
+ */
+export const getWaitlistPosition = async (
+  prisma: TransactionClient,
+  entry: Pick<TicketWaitlistEntry, "ticketId" | "createdAt">,
+) =>
+  await prisma.ticketWaitlistEntry.count({
+    where: {
+      ticketId: entry.ticketId,
+      createdAt: {
+        lte: entry.createdAt,
+      },
+    },
+  });
+
+/**
+ * Puts the user last in the waitlist of a sold out ticket.
+ * @returns the user's position in the waitlist
+ */
+export const joinTicketWaitlist = async (
+  prisma: PrismaClient,
+  ticketId: string,
+  user: AuthUser,
+): Promise<number> => {
+  const now = new Date();
+  if (!user.memberId && !user.externalCode) {
+    throw error(401);
+  }
+  if (!user.memberId) throw new Error(m.tickets_waitlist_errors_membersOnly());
+  const idPart = dbIdentification({ memberId: user.memberId });
+  return await prisma.$transaction(async (tx) => {
+    const ticket = await tx.ticket.findUnique({
+      where: {
+        id: ticketId,
+        shoppable: {
+          // not removed
+          OR: [
+            {
+              removedAt: null,
+            },
+            {
+              removedAt: {
+                gt: now,
+              },
+            },
+          ],
+        },
+      },
+      include: {
+        shoppable: {
+          include: {
+            accessPolicies: true,
+            bundleItems: true,
+            releasePhases: true,
+            _count: {
+              select: {
+                consumables: {
+                  where: {
+                    purchasedAt: {
+                      not: null,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        _count: {
+          select: {
+            waitlist: true,
+          },
+        },
+      },
+    });
+    if (!ticket) throw new Error(m.tickets_errors_ticketNotFound());
+    // spots are offered by creating a single consumable, which doesn't work for add-ons and bundles
+    if (ticket.shoppable.addonToId !== null)
+      throw new Error(m.tickets_addons_errors_onlyWithParent());
+    if (ticket.shoppable.bundleItems.length > 0)
+      throw new Error(m.tickets_bundles_errors_noWaitlist());
+    if (
+      ticket.shoppable.accessPolicies.length > 0 &&
+      !ticket.shoppable.accessPolicies.some(
+        (p) =>
+          (p.role && user.roles.includes(p.role)) ||
+          (p.studentId && p.studentId === user.studentId),
+      )
+    ) {
+      throw new Error(m.tickets_addToCart_errors_notAllowed());
+    }
+    if (ticket.shoppable.availableTo && ticket.shoppable.availableTo < now)
+      throw new Error(m.tickets_addToCart_errors_salePeriodEnded());
+    if (ticket.shoppable.availableFrom > now)
+      throw new Error(m.tickets_addToCart_errors_salePeriodNotStarted());
+    // the waitlist is only for sold out tickets, but stays open as long as people are in it so no one can skip the line
+    if (ticket._count.waitlist === 0) {
+      const { releasePhases } = ticket.shoppable;
+      if (
+        getTicketsLeft(
+          ticket,
+          releasePhases,
+          ticket.shoppable._count.consumables,
+          now,
+        ) > 0
+      )
+        throw new Error(m.tickets_waitlist_errors_notSoldOut());
+      // the next release is for everyone who wants a ticket, not only the ones who happened to be on the waitlist
+      if (getUpcomingReleasePhases(releasePhases, now).length > 0)
+        throw new Error(m.tickets_releasePhases_errors_phaseSoldOut());
+    }
+
+    const ownedCount = await tx.consumable.count({
+      where: {
+        ...idPart,
+        shoppableId: ticket.id,
+      },
+    });
+    if (ownedCount >= ticket.maxAmountPerUser)
+      throw new Error(m.tickets_addToCart_errors_alreadyOwnsMax());
+    const existingEntry = await tx.ticketWaitlistEntry.findFirst({
+      where: {
+        ...idPart,
+        ticketId: ticket.id,
+      },
+    });
+    if (existingEntry)
+      throw new Error(m.tickets_waitlist_errors_alreadyOnWaitlist());
+
+    const entry = await tx.ticketWaitlistEntry.create({
+      data: {
+        ...idPart,
+        ticketId: ticket.id,
+      },
+    });
+    return await getWaitlistPosition(tx, entry);
+  });
+};
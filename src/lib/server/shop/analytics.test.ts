@@ -0,0 +1,193 @@
+import { transactionFee } from "$lib/utils/payments/transactionFee";
+import { describe, expect, it } from "vitest";
+import {
+  calculateAnswerBreakdown,
+  calculateRevenue,
+  calculateSalesOverTime,
+  calculateSalesStatistics,
+  estimateTransactionFee,
+} from "./analytics";
+
+const consumable = (
+  purchasedAt: string | null,
+  priceAtPurchase: number,
+  extra: Partial<{
+    stripeIntentId: string;
+    fromReservation: boolean;
+    consumedAt: Date;
+    answers: Record<string, string>;
+  }> = {},
+) => ({
+  purchasedAt: purchasedAt ? new Date(purchasedAt) : null,
+  consumedAt: extra.consumedAt ?? null,
+  priceAtPurchase,
+  stripeIntentId: extra.stripeIntentId ?? null,
+  fromReservation: extra.fromReservation ?? false,
+  questionResponses: Object.entries(extra.answers ?? {}).map(
+    ([questionId, answer]) => ({ questionId, answer }),
+  ),
+});
+
+describe("transaction fees", () => {
+  it("is free for free items", () =>
+    expect(
+      estimateTransactionFee(
+        { priceAtPurchase: 0, stripeIntentId: "pi_1" },
+        {},
+      ),
+    ).toBe(0));
+
+  it("uses the fee of the whole payment, split by price", () => {
+    const intentTotals = { pi_1: 30000 };
+    const fees = [10000, 20000].map((price) =>
+      estimateTransactionFee(
+        { priceAtPurchase: price, stripeIntentId: "pi_1" },
+        intentTotals,
+      ),
+    );
+    expect(fees[0]! + fees[1]!).toBe(transactionFee(30000));
+    expect(fees[1]).toBe(fees[0]! * 2);
+  });
+});
+
+describe("revenue", () => {
+  const shoppable = {
+    consumables: [
+      consumable("2025-01-01T12:00:00", 10000, { stripeIntentId: "pi_1" }),
+      consumable("2025-01-02T12:00:00", 10000, { stripeIntentId: "pi_2" }),
+      consumable(null, 10000),
+    ],
+    refunds: [
+      {
+        amount: 10000,
+        paidAmount: 10000,
+        refundedAt: new Date("2025-01-03"),
+      },
+    ],
+  };
+  const intentTotals = { pi_1: 10000, pi_2: 10000 };
+
+  it("includes refunded payments in the gross revenue", () => {
+    const revenue = calculateRevenue(shoppable, intentTotals, true);
+    expect(revenue.gross).toBe(30000);
+    expect(revenue.refunded).toBe(10000);
+    expect(revenue.transactionFees).toBe(0);
+    expect(revenue.net).toBe(20000);
+  });
+
+  it("subtracts fees, including those of refunded payments", () => {
+    const revenue = calculateRevenue(shoppable, intentTotals, false);
+    expect(revenue.transactionFees).toBe(transactionFee(10000) * 3);
+    expect(revenue.net).toBe(20000 - transactionFee(10000) * 3);
+  });
+
+  it("keeps what wasn't paid back of a partial refund", () => {
+    const revenue = calculateRevenue(
+      {
+        consumables: [],
+        refunds: [{ amount: 5000, paidAmount: 10000, refundedAt: new Date() }],
+      },
+      {},
+      false,
+    );
+    expect(revenue.gross).toBe(10000);
+    expect(revenue.refunded).toBe(5000);
+    expect(revenue.transactionFees).toBe(transactionFee(10000));
+    expect(revenue.net).toBe(5000 - transactionFee(10000));
+  });
+});
+
+describe("sales over time", () => {
+  it("groups purchases per day with running totals", () =>
+    expect(
+      calculateSalesOverTime([
+        consumable("2025-01-02T12:00:00", 5000),
+        consumable("2025-01-01T10:00:00", 10000),
+        consumable("2025-01-01T14:00:00", 10000),
+        consumable(null, 10000),
+      ]),
+    ).toEqual([
+      {
+        date: "2025-01-01",
+        count: 2,
+        revenue: 20000,
+        totalCount: 2,
+        totalRevenue: 20000,
+      },
+      {
+        date: "2025-01-02",
+        count: 1,
+        revenue: 5000,
+        totalCount: 3,
+        totalRevenue: 25000,
+      },
+    ]));
+});
+
+describe("answer breakdown", () => {
+  const questions = [
+    { id: "food", title: "Matpreferens", removedAt: null },
+    { id: "old", title: "Borttagen", removedAt: new Date() },
+  ];
+
+  it("counts answers case insensitively, most common first", () => {
+    const [food] = calculateAnswerBreakdown(questions, [
+      consumable("2025-01-01", 0, { answers: { food: "Vegetarisk" } }),
+      consumable("2025-01-01", 0, { answers: { food: "Kött" } }),
+      consumable("2025-01-01", 0, { answers: { food: "vegetarisk " } }),
+      consumable(null, 0, { answers: { food: "Kött" } }),
+    ]);
+    expect(food?.answers).toEqual([
+      { answer: "Vegetarisk", count: 2 },
+      { answer: "Kött", count: 1 },
+    ]);
+  });
+
+  it("hides removed questions without answers", () =>
+    expect(calculateAnswerBreakdown(questions, [])).toHaveLength(1));
+});
+
+describe("sales statistics", () => {
+  it("calculates the conversion from reservations", () => {
+    const statistics = calculateSalesStatistics(
+      {
+        price: 0,
+        reservationCount: 4,
+        lotteryParticipantCount: 4,
+        lotteryWinnerCount: 2,
+        consumables: [
+          consumable("2025-01-01", 0, { fromReservation: true }),
+          consumable("2025-01-01", 0, { fromReservation: false }),
+        ],
+        refunds: [],
+        questions: [],
+      },
+      {},
+      true,
+    );
+    expect(statistics.reservations).toEqual({
+      count: 4,
+      purchased: 1,
+      conversionRate: 0.25,
+    });
+    expect(statistics.lottery).toEqual({ participants: 4, winners: 2 });
+  });
+
+  it("has no lottery or conversion without reservations", () => {
+    const statistics = calculateSalesStatistics(
+      {
+        price: 0,
+        reservationCount: 0,
+        lotteryParticipantCount: null,
+        lotteryWinnerCount: null,
+        consumables: [],
+        refunds: [],
+        questions: [],
+      },
+      {},
+      true,
+    );
+    expect(statistics.lottery).toBeNull();
+    expect(statistics.reservations.conversionRate).toBeNull();
+  });
+});
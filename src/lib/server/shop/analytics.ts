@@ -0,0 +1,189 @@
+import { transactionFee } from "$lib/utils/payments/transactionFee";
+import type {
+  Consumable,
+  ConsumableRefund,
+  ItemQuestion,
+  ItemQuestionResponse,
+  Shoppable,
+} from "@prisma/client";
+import dayjs from "dayjs";
+
+/*
+Sales analytics for shoppables, shown to ticket authors and treasurers.
+Reservations and refunded consumables are removed from the database, so the counters on the shoppable and the ConsumableRefund records are used for those.
+All amounts are in öre, like the prices.
+*/
+
+type AnalyticsConsumable = Pick<
+  Consumable,
+  | "purchasedAt"
+  | "consumedAt"
+  | "priceAtPurchase"
+  | "stripeIntentId"
+  | "fromReservation"
+> & {
+  questionResponses: Array<Pick<ItemQuestionResponse, "questionId" | "answer">>;
+};
+export type AnalyticsShoppable = Pick<
+  Shoppable,
+  | "price"
+  | "reservationCount"
+  | "lotteryParticipantCount"
+  | "lotteryWinnerCount"
+> & {
+  consumables: AnalyticsConsumable[];
+  refunds: Array<
+    Pick<ConsumableRefund, "amount" | "paidAmount" | "refundedAt">
+  >;
+  questions: Array<Pick<ItemQuestion, "id" | "title" | "removedAt">>;
+};
+
+export type SalesRevenue = {
+  // everything customers have paid, including what has been refunded
+  gross: number;
+  refunded: number;
+  // estimated stripe fees paid by us, zero if the fee is passed on to the customer
+  transactionFees: number;
+  net: number;
+};
+
+/**
+ * Estimates the stripe fee we pay for a purchased consumable.
+ * A payment intent can contain several consumables, in which case the fee of the payment is split between them by price.
+ * @param intentTotals the total price of the consumables in each payment intent
+ */
+export const estimateTransactionFee = (
+  consumable: Pick<Consumable, "priceAtPurchase" | "stripeIntentId">,
+  intentTotals: Record<string, number>,
+) => {
+  const price = consumable.priceAtPurchase ?? 0;
+  if (price === 0 || !consumable.stripeIntentId) return 0;
+  const intentTotal = intentTotals[consumable.stripeIntentId] ?? price;
+  return Math.round((transactionFee(intentTotal) * price) / intentTotal);
+};
+
+export const calculateRevenue = (
+  shoppable: Pick<AnalyticsShoppable, "consumables" | "refunds">,
+  intentTotals: Record<string, number>,
+  feesPassedOn: boolean,
+): SalesRevenue => {
+  const purchased = shoppable.consumables.filter((c) => c.purchasedAt !== null);
+  const refunded = shoppable.refunds.reduce((acc, r) => acc + r.amount, 0);
+  // a partial refund keeps the rest of what was paid, so refunds count with their full price
+  const gross =
+    purchased.reduce((acc, c) => acc + (c.priceAtPurchase ?? 0), 0) +
+    shoppable.refunds.reduce((acc, r) => acc + r.paidAmount, 0);
+  // stripe keeps its fee, on what was paid, when a payment is refunded
+  const transactionFees = feesPassedOn
+    ? 0
+    : purchased.reduce(
+        (acc, c) => acc + estimateTransactionFee(c, intentTotals),
+        0,
+      ) +
+      shoppable.refunds.reduce(
+        (acc, r) => acc + transactionFee(r.paidAmount),
+        0,
+      );
+  return {
+    gross,
+    refunded,
+    transactionFees,
+    net: gross - refunded - transactionFees,
+  };
+};
+
+/**
+ * Number of purchases and revenue per day, with running totals.
+ */
+export const calculateSalesOverTime = (consumables: AnalyticsConsumable[]) => {
+  const days = new Map<string, { count: number; revenue: number }>();
+  const purchased = consumables
+    .filter((c) => c.purchasedAt !== null)
+    .sort((a, b) => a.purchasedAt!.valueOf() - b.purchasedAt!.valueOf());
+  for (const consumable of purchased) {
+    const date = dayjs(consumable.purchasedAt).format("YYYY-MM-DD");
+    const day = days.get(date) ?? { count: 0, revenue: 0 };
+    day.count++;
+    day.revenue += consumable.priceAtPurchase ?? 0;
+    days.set(date, day);
+  }
+  let totalCount = 0;
+  let totalRevenue = 0;
+  return [...days.entries()].map(([date, day]) => {
+    totalCount += day.count;
+    totalRevenue += day.revenue;
+    return { date, ...day, totalCount, totalRevenue };
+  });
+};
+
+/**
+ * Counts each answer to the questions, among purchased consumables. Answers are compared case insensitively, since text answers are typed by hand.
+ */
+export const calculateAnswerBreakdown = (
+  questions: AnalyticsShoppable["questions"],
+  consumables: AnalyticsConsumable[],
+) => {
+  const purchased = consumables.filter((c) => c.purchasedAt !== null);
+  return questions
+    .map((question) => {
+      const counts = new Map<string, { answer: string; count: number }>();
+      for (const consumable of purchased) {
+        const response = consumable.questionResponses.find(
+          (r) => r.questionId === question.id,
+        );
+        if (!response) continue;
+        const key = response.answer.trim().toLowerCase();
+        const entry = counts.get(key) ?? {
+          answer: response.answer.trim(),
+          count: 0,
+        };
+        entry.count++;
+        counts.set(key, entry);
+      }
+      return {
+        id: question.id,
+        title: question.title,
+        removed: question.removedAt !== null,
+        answers: [...counts.values()].sort((a, b) => b.count - a.count),
+      };
+    })
+    .filter((question) => !question.removed || question.answers.length > 0);
+};
+
+export const calculateSalesStatistics = (
+  shoppable: AnalyticsShoppable,
+  intentTotals: Record<string, number>,
+  feesPassedOn: boolean,
+) => {
+  const purchased = shoppable.consumables.filter((c) => c.purchasedAt !== null);
+  const purchasedFromReservation = purchased.filter(
+    (c) => c.fromReservation,
+  ).length;
+  return {
+    purchasedCount: purchased.length,
+    consumedCount: purchased.filter((c) => c.consumedAt !== null).length,
+    refundedCount: shoppable.refunds.length,
+    revenue: calculateRevenue(shoppable, intentTotals, feesPassedOn),
+    salesOverTime: calculateSalesOverTime(shoppable.consumables),
+    reservations: {
+      count: shoppable.reservationCount,
+      purchased: purchasedFromReservation,
+      conversionRate:
+        shoppable.reservationCount > 0
+          ? purchasedFromReservation / shoppable.reservationCount
+          : null,
+    },
+    lottery:
+      shoppable.lotteryParticipantCount !== null
+        ? {
+            participants: shoppable.lotteryParticipantCount,
+            winners: shoppable.lotteryWinnerCount ?? 0,
+          }
+        : null,
+    answers: calculateAnswerBreakdown(
+      shoppable.questions,
+      shoppable.consumables,
+    ),
+  };
+};
+export type SalesStatistics = ReturnType<typeof calculateSalesStatistics>;
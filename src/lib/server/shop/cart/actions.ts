@@ -1,10 +1,20 @@
 import {
+  fillFreedSpots,
   moveQueueForwardOneStep,
-  moveQueueToCart,
+  queueNextExpiredConsumablesPruning,
   sendQueuedNotifications,
 } from "$lib/server/shop/addToCart/reservations";
 import authorizedPrismaClient from "$lib/server/authorizedPrisma";
-import { purchaseForm } from "$lib/server/shop/cart/types";
+import {
+  applyDiscountCode,
+  removeDiscountCode,
+} from "$lib/server/shop/cart/discountCodes";
+import {
+  addonForm,
+  discountCodeForm,
+  purchaseForm,
+} from "$lib/server/shop/cart/types";
+import { addAddonToCart } from "$lib/server/shop/addToCart/addons";
 import purchaseCart from "$lib/server/shop/payments/purchase";
 import { answerQuestion } from "$lib/server/shop/questions";
 import apiNames from "$lib/utils/apiNames";
@@ -35,6 +45,9 @@ const cartActions: Actions = {
       where: {
         id: form.data.id,
       },
+      include: {
+        children: true,
+      },
     });
     if (!consumable) {
       return message(form, {
@@ -42,17 +55,35 @@ const cartActions: Actions = {
         type: "error",
       });
     }
+    if (consumable.isBundleItem) {
+      return message(form, {
+        message: m.cart_errors_bundleItem(),
+        type: "error",
+      });
+    }
     const queuedNotifications = await authorizedPrismaClient.$transaction(
       async (tx) => {
+        // add-ons and bundle items are removed together with their parent
         await tx.consumable.delete({
           where: {
             id: consumable.id,
           },
         });
-        return await moveQueueToCart(tx, consumable.shoppableId, 1);
+        const notifications = await fillFreedSpots(
+          tx,
+          consumable.shoppableId,
+          1,
+        );
+        for (const child of consumable.children) {
+          notifications.push(
+            ...(await fillFreedSpots(tx, child.shoppableId, 1)),
+          );
+        }
+        return notifications;
       },
     );
     sendQueuedNotifications(queuedNotifications);
+    await queueNextExpiredConsumablesPruning();
 
     return message(form, {
       message: m.cart_itemHasBeenRemoved(),
@@ -102,6 +133,125 @@ const cartActions: Actions = {
       type: "success",
     });
   },
+  removeWaitlistEntry: async ({ locals, request }) => {
+    const { user, prisma } = locals;
+    const form = await superValidate(
+      request,
+      zod(z.object({ id: z.string() })),
+    );
+    if (!form.valid) return fail(400, { form });
+    if (!user?.memberId && !user?.externalCode) {
+      return message(form, {
+        message: m.cart_errors_noCart(),
+        type: "error",
+      });
+    }
+    const entry = await prisma.ticketWaitlistEntry.findUnique({
+      where: {
+        id: form.data.id,
+      },
+    });
+    if (!entry) {
+      return message(form, {
+        message: m.cart_errors_waitlistEntryNotInCart(),
+        type: "error",
+      });
+    }
+    // the enhanced client makes sure only the customer themselves (or a manager) can remove the entry
+    await prisma.ticketWaitlistEntry.delete({
+      where: {
+        id: entry.id,
+      },
+    });
+
+    return message(form, {
+      message: m.cart_waitlistEntryHasBeenRemoved(),
+      type: "success",
+    });
+  },
+  addAddon: async ({ locals, request }) => {
+    const { user, prisma } = locals;
+    authorize(apiNames.WEBSHOP.PURCHASE, user);
+    const form = await superValidate(request, zod(addonForm));
+    if (!form.valid) return fail(400, { form });
+    try {
+      await addAddonToCart(
+        prisma,
+        form.data.addonId,
+        form.data.consumableId,
+        user,
+      );
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : `${e}`,
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: m.tickets_addons_added(),
+      type: "success",
+    });
+  },
+  applyDiscountCode: async ({ locals, request }) => {
+    const { user } = locals;
+    const form = await superValidate(request, zod(discountCodeForm));
+    if (!form.valid) return fail(400, { form });
+    if (!user?.memberId && !user?.externalCode) {
+      return message(form, {
+        message: m.cart_errors_noCart(),
+        type: "error",
+      });
+    }
+    let appliedCount: number;
+    try {
+      appliedCount = await applyDiscountCode(
+        user.memberId
+          ? { memberId: user.memberId }
+          : { externalCode: user.externalCode! },
+        form.data.code,
+      );
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : `${e}`,
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: m.cart_discountCode_applied({ count: appliedCount }),
+      type: "success",
+    });
+  },
+  removeDiscountCode: async ({ locals, request }) => {
+    const { user } = locals;
+    const form = await superValidate(
+      request,
+      zod(z.object({ id: z.string() })),
+    );
+    if (!form.valid) return fail(400, { form });
+    if (!user?.memberId && !user?.externalCode) {
+      return message(form, {
+        message: m.cart_errors_noCart(),
+        type: "error",
+      });
+    }
+    try {
+      await removeDiscountCode(
+        user.memberId
+          ? { memberId: user.memberId }
+          : { externalCode: user.externalCode! },
+        form.data.id,
+      );
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : `${e}`,
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: m.cart_discountCode_removed(),
+      type: "success",
+    });
+  },
   answerQuestion: async ({ locals, request }) => {
     const { user, prisma } = locals;
     const form = await superValidate(request, zod(questionForm));
@@ -158,6 +308,7 @@ const cartActions: Actions = {
               externalCode: user.externalCode!,
             },
         form.data.idempotencyKey,
+        user.roles,
       );
       redirectUrl = redirect;
       data = rest;
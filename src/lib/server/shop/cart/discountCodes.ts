@@ -0,0 +1,133 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import { isDiscountCodeActive } from "$lib/server/shop/payments/pricing";
+import {
+  dbIdentification,
+  type ShopIdentification,
+} from "$lib/server/shop/types";
+import * as m from "$paraglide/messages";
+import type { Prisma } from "@prisma/client";
+
+/*
+Discount codes belong to a single shoppable, so the same code can exist for several shoppables.
+Codes are saved in upper case, and what customers enter is upper-cased before it is compared.
+Customers can't read or update the codes themselves, so they are applied with the authorized prisma client.
+A use of a code is a consumable connected to it, in the cart or purchased. Consumables which expire from the cart are deleted, freeing up the use again.
+Since the uses are counted, the codes are locked while applying them, otherwise two carts could both take the last use.
+*/
+
+export const normalizeDiscountCode = (code: string) =>
+  code.trim().toUpperCase();
+
+const lockDiscountCodes = (tx: Prisma.TransactionClient, ids: string[]) =>
+  tx.$queryRaw`SELECT id FROM shoppable_discount_code WHERE id = ANY(${ids}::uuid[]) FOR UPDATE`;
+
+/**
+ * Applies a discount code to the items in the cart it is valid for, as long as the code has uses left.
+ * @returns the number of items the code was applied to
+ */
+export const applyDiscountCode = async (
+  identification: ShopIdentification,
+  code: string,
+): Promise<number> => {
+  const now = new Date();
+  return await authorizedPrismaClient.$transaction(async (tx) => {
+    const inCart = await tx.consumable.findMany({
+      where: {
+        ...dbIdentification(identification),
+        purchasedAt: null,
+        OR: [{ expiresAt: { gt: now } }, { expiresAt: null }],
+      },
+    });
+    const matchingCodes = await tx.shoppableDiscountCode.findMany({
+      where: {
+        code: normalizeDiscountCode(code),
+        shoppableId: {
+          in: inCart.map((c) => c.shoppableId),
+        },
+      },
+      select: { id: true },
+    });
+    if (matchingCodes.length === 0)
+      throw new Error(m.cart_discountCode_errors_notFound());
+    await lockDiscountCodes(
+      tx,
+      matchingCodes.map((discountCode) => discountCode.id),
+    );
+    const discountCodes = await tx.shoppableDiscountCode.findMany({
+      where: {
+        id: { in: matchingCodes.map((discountCode) => discountCode.id) },
+      },
+      include: {
+        _count: {
+          select: {
+            consumables: true,
+          },
+        },
+      },
+    });
+    const activeCodes = discountCodes.filter((discountCode) =>
+      isDiscountCodeActive(discountCode, now),
+    );
+    if (activeCodes.length === 0)
+      throw new Error(m.cart_discountCode_errors_expired());
+
+    let appliedCount = 0;
+    for (const discountCode of activeCodes) {
+      const items = inCart.filter(
+        (c) =>
+          c.shoppableId === discountCode.shoppableId &&
+          c.discountCodeId !== discountCode.id,
+      );
+      const usesLeft =
+        discountCode.maxUses === null
+          ? items.length
+          : discountCode.maxUses - discountCode._count.consumables;
+      const toApply = items.slice(0, Math.max(usesLeft, 0));
+      if (toApply.length === 0) continue;
+      await tx.consumable.updateMany({
+        where: {
+          id: {
+            in: toApply.map((c) => c.id),
+          },
+        },
+        data: {
+          discountCodeId: discountCode.id,
+        },
+      });
+      appliedCount += toApply.length;
+    }
+    if (appliedCount === 0) {
+      const isAlreadyApplied = inCart.some((c) =>
+        activeCodes.some(
+          (discountCode) => discountCode.id === c.discountCodeId,
+        ),
+      );
+      throw new Error(
+        isAlreadyApplied
+          ? m.cart_discountCode_errors_alreadyApplied()
+          : m.cart_discountCode_errors_usedUp(),
+      );
+    }
+    return appliedCount;
+  });
+};
+
+/**
+ * Removes the discount code from an item in the cart, freeing up the use for someone else.
+ */
+export const removeDiscountCode = async (
+  identification: ShopIdentification,
+  consumableId: string,
+) => {
+  const { count } = await authorizedPrismaClient.consumable.updateMany({
+    where: {
+      ...dbIdentification(identification),
+      id: consumableId,
+      purchasedAt: null,
+    },
+    data: {
+      discountCodeId: null,
+    },
+  });
+  if (count === 0) throw new Error(m.cart_errors_itemNotInCart());
+};
@@ -2,8 +2,13 @@ import {
   removeExpiredConsumables,
   withHandledNotificationQueue,
 } from "$lib/server/shop/addToCart/reservations";
+import { getWaitlistPosition } from "$lib/server/shop/addToCart/waitlist";
 import authorizedPrismaClient from "$lib/server/authorizedPrisma";
-import { calculateCartPrice } from "$lib/server/shop/payments/purchase";
+import {
+  calculateCartPrice,
+  calculateConsumablePrice,
+} from "$lib/server/shop/payments/pricing";
+import { getReleaseStart } from "$lib/server/shop/releasePhases";
 import {
   dbIdentification,
   GRACE_PERIOD_WINDOW,
@@ -21,7 +26,7 @@ import { PrismaClient, ShoppableType } from "@prisma/client";
 import { error, type ServerLoadEvent } from "@sveltejs/kit";
 import { zod } from "sveltekit-superforms/adapters";
 import { superValidate } from "sveltekit-superforms/server";
-import { purchaseForm } from "./types";
+import { discountCodeForm, purchaseForm } from "./types";
 
 export const getCart = async (prisma: PrismaClient, id: ShopIdentification) => {
   const now = new Date();
@@ -39,9 +44,13 @@ export const getCart = async (prisma: PrismaClient, id: ShopIdentification) => {
     },
     include: {
       questionResponses: true,
+      discountCode: true,
+      children: true,
       shoppable: {
         include: {
           questions: { where: { removedAt: null }, include: { options: true } },
+          priceTiers: true,
+          addons: { where: { removedAt: null } },
           ticket: {
             include: { event: true },
           },
@@ -65,10 +74,21 @@ export const getCart = async (prisma: PrismaClient, id: ShopIdentification) => {
       shoppable: {
         include: {
           ticket: { include: { event: true } },
+          releasePhases: true,
         },
       },
     },
   });
+  const waitlistEntries = await prisma.ticketWaitlistEntry.findMany({
+    where: {
+      ...dbIdentification(id),
+    },
+    include: {
+      ticket: {
+        include: { shoppable: true, event: true },
+      },
+    },
+  });
   return {
     inCart: inCart.map((c) => ({
       ...c,
@@ -85,20 +105,42 @@ export const getCart = async (prisma: PrismaClient, id: ShopIdentification) => {
         ...c.shoppable,
         ticket: undefined,
         gracePeriodEndsAt: new Date(
-          c.shoppable.availableFrom.valueOf() + GRACE_PERIOD_WINDOW,
+          getReleaseStart(
+            c.shoppable,
+            c.shoppable.releasePhases,
+            now,
+          ).valueOf() + GRACE_PERIOD_WINDOW,
         ),
       },
     })),
+    waitlistEntries: await Promise.all(
+      waitlistEntries.map(async ({ ticket, ...entry }) => ({
+        ...entry,
+        position: await getWaitlistPosition(prisma, entry),
+        shoppable: {
+          ...ticket,
+          ...ticket.shoppable,
+          shoppable: undefined,
+        },
+      })),
+    ),
   };
 };
 
+/**
+ * @param roles the roles of the customer, used to resolve price tiers
+ */
 export const getCartWithExtras = async (
   prisma: PrismaClient,
   identification: ShopIdentification,
+  roles: string[],
 ) => {
-  const { inCart, reservations } = await getCart(prisma, identification);
+  const { inCart, reservations, waitlistEntries } = await getCart(
+    prisma,
+    identification,
+  );
 
-  const cartPrice = calculateCartPrice(inCart);
+  const cartPrice = calculateCartPrice(inCart, roles);
   const totalPrice = passOnTransactionFee
     ? priceWithTransactionFee(cartPrice)
     : cartPrice;
@@ -108,6 +150,12 @@ export const getCartWithExtras = async (
       const answers = item.questionResponses;
       return {
         ...item,
+        price: calculateConsumablePrice(item, roles),
+        // add-ons which can still be added to the item
+        availableAddons: item.shoppable.addons.filter(
+          (addon) =>
+            !item.children.some((child) => child.shoppableId === addon.id),
+        ),
         shoppable: {
           ...item.shoppable,
           questions: await Promise.all(
@@ -136,7 +184,9 @@ export const getCartWithExtras = async (
   return {
     inCart: inCartWithQuestionForms,
     reservations,
+    waitlistEntries,
     purchaseForm: await superValidate(zod(purchaseForm)),
+    discountCodeForm: await superValidate(zod(discountCodeForm)),
     totalPrice: totalPrice,
     transactionFee: passOnTransactionFee ? transactionFee(totalPrice) : 0,
   };
@@ -162,6 +212,7 @@ export const cartLoadFunction = async ({
       : {
           externalCode: user.externalCode!,
         },
+    user.roles,
   );
 };
 export type CartLoadData = Awaited<ReturnType<typeof cartLoadFunction>>;
@@ -172,3 +223,6 @@ export type CartItem = Awaited<
 export type CartReservation = Awaited<
   ReturnType<typeof getCartWithExtras>
 >["reservations"][number];
+export type CartWaitlistEntry = Awaited<
+  ReturnType<typeof getCartWithExtras>
+>["waitlistEntries"][number];
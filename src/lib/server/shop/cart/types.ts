@@ -7,6 +7,7 @@ import type {
   ItemQuestionOption,
   ItemQuestionResponse,
   Shoppable,
+  ShoppableDiscountCode,
   Ticket,
 } from "@prisma/client";
 import type { Infer, SuperValidated } from "sveltekit-superforms";
@@ -17,6 +18,17 @@ export const purchaseForm = z.object({
 });
 export type PurchaseForm = Infer<typeof purchaseForm>;
 
+export const addonForm = z.object({
+  addonId: z.string().uuid(),
+  consumableId: z.string().uuid(),
+});
+export type AddonForm = Infer<typeof addonForm>;
+
+export const discountCodeForm = z.object({
+  code: z.string().trim().min(1),
+});
+export type DiscountCodeForm = Infer<typeof discountCodeForm>;
+
 type ItemMetadata = {
   shoppable: Shoppable &
     Ticket & {
@@ -34,6 +46,10 @@ export type CartItem = Consumable &
       >;
     };
     questionResponses: ItemQuestionResponse[];
+    discountCode: ShoppableDiscountCode | null;
+    // what the customer has to pay for the item, after price tiers and discounts
+    price: number;
+    availableAddons: Shoppable[];
   };
 export type CartReservation = ConsumableReservation &
   ItemMetadata & {
@@ -0,0 +1,142 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import { passOnTransactionFee } from "$lib/utils/payments/transactionFee";
+import dayjs from "dayjs";
+import { calculateSalesStatistics, type AnalyticsShoppable } from "./analytics";
+
+/**
+ * The total price of the consumables in each of the given payment intents, used to split the transaction fee of a payment between its items.
+ * Payments can contain items of other shoppables, which the user might not be able to read, so this uses the authorized client.
+ */
+const getIntentTotals = async (stripeIntentIds: string[]) => {
+  if (stripeIntentIds.length === 0) return {};
+  const totals = await authorizedPrismaClient.consumable.groupBy({
+    by: ["stripeIntentId"],
+    where: {
+      stripeIntentId: { in: stripeIntentIds },
+      purchasedAt: { not: null },
+    },
+    _sum: { priceAtPurchase: true },
+  });
+  return Object.fromEntries(
+    totals.map((t) => [t.stripeIntentId!, t._sum.priceAtPurchase ?? 0]),
+  );
+};
+
+/**
+ * Calculates the statistics of the given shoppables, which should include consumables with question responses, refunds and questions.
+ */
+export const getSalesStatistics = async <T extends AnalyticsShoppable>(
+  shoppables: T[],
+) => {
+  const intentTotals = await getIntentTotals([
+    ...new Set(
+      shoppables.flatMap((s) =>
+        s.consumables.flatMap((c) =>
+          c.stripeIntentId ? [c.stripeIntentId] : [],
+        ),
+      ),
+    ),
+  ]);
+  return shoppables.map((shoppable) => ({
+    shoppable,
+    statistics: calculateSalesStatistics(
+      shoppable,
+      intentTotals,
+      passOnTransactionFee,
+    ),
+  }));
+};
+
+export const analyticsShoppableInclude = {
+  consumables: {
+    where: { purchasedAt: { not: null } },
+    include: { questionResponses: true },
+  },
+  refunds: true,
+  questions: true,
+} as const;
+
+/**
+ * Whether the user may see the sales of all shoppables of a committee, which managers and the committee's current mandate holders can.
+ */
+export const canSeeCommitteeSales = async (
+  user: { memberId?: string | null; policies: string[] },
+  committeeId: string,
+) => {
+  if (user.policies.includes("webshop:manage")) return true;
+  if (!user.memberId) return false;
+  const now = new Date();
+  const mandate = await authorizedPrismaClient.mandate.findFirst({
+    where: {
+      memberId: user.memberId,
+      startDate: { lte: now },
+      endDate: { gte: now },
+      position: { committeeId },
+    },
+  });
+  return mandate !== null;
+};
+
+/**
+ * The shoppables of a committee which went on sale during the year, with their sales statistics.
+ * Shoppables don't belong to committees, so a shoppable is counted as the committee's if its author held a mandate in the committee when it went on sale.
+ */
+export const getCommitteeSalesStatistics = async (
+  committeeId: string,
+  year: number,
+) => {
+  const from = new Date(year, 0, 1);
+  const to = new Date(year + 1, 0, 1);
+  const shoppables = await authorizedPrismaClient.shoppable.findMany({
+    where: {
+      availableFrom: { gte: from, lt: to },
+      author: {
+        mandates: { some: { position: { committeeId } } },
+      },
+    },
+    include: {
+      ...analyticsShoppableInclude,
+      ticket: { include: { event: true } },
+      author: {
+        include: {
+          mandates: { where: { position: { committeeId } } },
+        },
+      },
+    },
+    orderBy: { availableFrom: "asc" },
+  });
+  const committeeShoppables = shoppables.filter((shoppable) =>
+    shoppable.author.mandates.some(
+      (mandate) =>
+        !dayjs(mandate.startDate).isAfter(shoppable.availableFrom, "day") &&
+        !dayjs(mandate.endDate).isBefore(shoppable.availableFrom, "day"),
+    ),
+  );
+  const results = await getSalesStatistics(committeeShoppables);
+  const total = results.reduce(
+    (acc, { statistics }) => ({
+      purchasedCount: acc.purchasedCount + statistics.purchasedCount,
+      revenue: {
+        gross: acc.revenue.gross + statistics.revenue.gross,
+        refunded: acc.revenue.refunded + statistics.revenue.refunded,
+        transactionFees:
+          acc.revenue.transactionFees + statistics.revenue.transactionFees,
+        net: acc.revenue.net + statistics.revenue.net,
+      },
+    }),
+    {
+      purchasedCount: 0,
+      revenue: { gross: 0, refunded: 0, transactionFees: 0, net: 0 },
+    },
+  );
+  return {
+    shoppables: results.map(({ shoppable, statistics }) => ({
+      id: shoppable.id,
+      title: shoppable.title,
+      event: shoppable.ticket?.event ?? null,
+      purchasedCount: statistics.purchasedCount,
+      revenue: statistics.revenue,
+    })),
+    total,
+  };
+};
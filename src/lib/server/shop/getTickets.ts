@@ -6,22 +6,41 @@ import {
   type Event,
   type Prisma,
   type Shoppable,
+  type ShoppableReleasePhase,
   type Tag,
   type Ticket,
+  type TicketWaitlistEntry,
 } from "@prisma/client";
 import { error } from "@sveltejs/kit";
 import type { AuthUser } from "@zenstackhq/runtime";
 import dayjs from "dayjs";
+import { resolveShoppablePrice } from "./payments/pricing";
+import {
+  canBuyInReleasePhase,
+  getCurrentReleasePhase,
+  getReleaseStart,
+  getTicketsLeft,
+  getUpcomingReleasePhases,
+} from "./releasePhases";
 import {
   GRACE_PERIOD_WINDOW,
   dbIdentification,
   type DBShopIdentification,
 } from "./types";
 
+export type ReleasePhaseInfo = Pick<
+  ShoppableReleasePhase,
+  "id" | "name" | "startsAt"
+> & {
+  // if the viewer can buy during the phase
+  canBuy: boolean;
+};
+
 export type TicketWithMoreInfo = Ticket &
   Shoppable & {
     userItemsInCart: Consumable[];
     userReservations: ConsumableReservation[];
+    userWaitlistEntries: TicketWaitlistEntry[];
     event: Event & {
       tags: Tag[];
     };
@@ -30,6 +49,13 @@ export type TicketWithMoreInfo = Ticket &
     userAlreadyHasMax: boolean;
     ticketsLeft: number;
     hasQueue: boolean;
+    hasWaitlist: boolean;
+    addons: Array<Pick<Shoppable, "id" | "title" | "titleEn" | "price">>;
+    bundleItems: Array<Pick<Shoppable, "id" | "title" | "titleEn">>;
+    currentReleasePhase: ReleasePhaseInfo | null;
+    upcomingReleasePhases: ReleasePhaseInfo[];
+    // the first phase, current or upcoming, in which the viewer can buy. Null if there are no phases or none for the viewer
+    userReleasePhase: ReleasePhaseInfo | null;
   };
 
 export const ticketIncludedFields = (id: DBShopIdentification) => ({
@@ -47,6 +73,21 @@ export const ticketIncludedFields = (id: DBShopIdentification) => ({
         },
       },
       reservations: { where: { ...id } },
+      priceTiers: true,
+      releasePhases: {
+        orderBy: { startsAt: "asc" as const },
+      },
+      addons: {
+        where: { removedAt: null },
+        select: { id: true, title: true, titleEn: true, price: true },
+      },
+      bundleItems: {
+        include: {
+          shoppable: {
+            select: { id: true, title: true, titleEn: true },
+          },
+        },
+      },
       _count: {
         select: {
           // Number of bought tickets
@@ -60,44 +101,96 @@ export const ticketIncludedFields = (id: DBShopIdentification) => ({
       },
     },
   },
+  // Get the user's place in the waitlist, if any
+  waitlist: { where: { ...id } },
+  _count: {
+    select: {
+      waitlist: true,
+    },
+  },
   event: { include: { tags: true } },
 });
 
 type TicketInclude = ReturnType<typeof ticketIncludedFields>;
 type TicketFromPrisma = Prisma.TicketGetPayload<{ include: TicketInclude }>;
 
-export const formatTicket = (ticket: TicketFromPrisma): TicketWithMoreInfo => {
+/**
+ * @param userRoles used to show the user's price, if the ticket has price tiers
+ */
+export const formatTicket = (
+  ticket: TicketFromPrisma,
+  userRoles: string[],
+): TicketWithMoreInfo => {
+  const now = new Date();
+  const { releasePhases } = ticket.shoppable;
+  const toPhaseInfo = (
+    phase: (typeof releasePhases)[number],
+  ): ReleasePhaseInfo => ({
+    id: phase.id,
+    name: phase.name,
+    startsAt: phase.startsAt,
+    canBuy: canBuyInReleasePhase(phase, userRoles),
+  });
+  const currentReleasePhase = getCurrentReleasePhase(releasePhases, now);
+  const upcomingReleasePhases = getUpcomingReleasePhases(
+    releasePhases,
+    now,
+  ).map(toPhaseInfo);
+  const phasesFromNow = [
+    ...(currentReleasePhase ? [toPhaseInfo(currentReleasePhase)] : []),
+    ...upcomingReleasePhases,
+  ];
   const base: TicketWithMoreInfo &
     Partial<
       Pick<
         TicketFromPrisma["shoppable"],
-        "consumables" | "reservations" | "_count"
+        "consumables" | "reservations" | "priceTiers" | "releasePhases"
       > &
-        Pick<TicketFromPrisma, "shoppable">
+        Pick<TicketFromPrisma, "shoppable" | "waitlist" | "_count">
     > = {
     ...ticket.shoppable,
     ...ticket,
+    price: resolveShoppablePrice(ticket.shoppable, userRoles),
     userItemsInCart: ticket.shoppable.consumables.filter((c) => !c.purchasedAt),
     userReservations: ticket.shoppable.reservations,
+    userWaitlistEntries: ticket.waitlist,
     gracePeriodEndsAt: new Date(
-      ticket.shoppable.availableFrom.valueOf() + GRACE_PERIOD_WINDOW,
+      getReleaseStart(ticket.shoppable, releasePhases, now).valueOf() +
+        GRACE_PERIOD_WINDOW,
     ),
     isInUsersCart:
       ticket.shoppable.consumables.filter((c) => !c.purchasedAt).length > 0 ||
-      ticket.shoppable.reservations.length > 0,
+      ticket.shoppable.reservations.length > 0 ||
+      ticket.waitlist.length > 0,
     userAlreadyHasMax:
       ticket.shoppable.consumables.filter((c) => c.purchasedAt !== null)
         .length >= ticket.maxAmountPerUser,
     ticketsLeft: Math.min(
-      ticket.stock - ticket.shoppable._count.consumables,
+      getTicketsLeft(
+        ticket,
+        releasePhases,
+        ticket.shoppable._count.consumables,
+        now,
+      ),
       10,
     ), // don't show more resolution to the client than > 10 or the exact number left (so people can't see how many other people buy tickets)
     hasQueue: ticket.shoppable._count.reservations > 0,
+    hasWaitlist: ticket._count.waitlist > 0,
+    addons: ticket.shoppable.addons,
+    bundleItems: ticket.shoppable.bundleItems.map((item) => item.shoppable),
+    currentReleasePhase: currentReleasePhase
+      ? toPhaseInfo(currentReleasePhase)
+      : null,
+    upcomingReleasePhases,
+    userReleasePhase: phasesFromNow.find((phase) => phase.canBuy) ?? null,
   };
   // do not show the following info to the client
   delete base.consumables;
   delete base.reservations;
+  delete base.priceTiers;
+  delete base.releasePhases;
   delete base.shoppable;
+  delete base.waitlist;
   delete base._count;
   return base;
 };
@@ -147,7 +240,7 @@ export const getTicket = async (
   if (!ticket) {
     return null;
   }
-  return formatTicket(ticket);
+  return formatTicket(ticket, user.roles);
 };
 
 /**
@@ -188,6 +281,7 @@ export const getTickets = async (
               },
             ],
             ...shoppableAccessPolicyFilter(user.roles, user.studentId),
+            addonToId: null, // add-ons are only sold together with their parent
           },
         },
     include: ticketIncludedFields(dbId),
@@ -195,7 +289,7 @@ export const getTickets = async (
       shoppable: { availableFrom: getAll ? "desc" : "asc" },
     },
   });
-  return tickets.map(formatTicket);
+  return tickets.map((ticket) => formatTicket(ticket, user.roles));
 };
 
 /**
@@ -234,6 +328,7 @@ export const getEventsWithTickets = async (
         where: {
           shoppable: {
             ...shoppableAccessPolicyFilter(user.roles, user.studentId),
+            addonToId: null,
           },
         },
         include: {
@@ -250,10 +345,13 @@ export const getEventsWithTickets = async (
     tickets: event.tickets.map((ticket) => {
       // eslint-disable-next-line @typescript-eslint/no-unused-vars -- We want to "drop" tickets from event data nested into the ticket
       const { tickets: _, ...eventData } = event;
-      return formatTicket({
-        ...ticket,
-        event: eventData,
-      });
+      return formatTicket(
+        {
+          ...ticket,
+          event: eventData,
+        },
+        user.roles,
+      );
     }),
   }));
 };
@@ -0,0 +1,108 @@
+import { addAddonToCart } from "$lib/server/shop/addToCart/addons";
+import { addonForm } from "$lib/server/shop/cart/types";
+import { createRefundRequest } from "$lib/server/shop/inventory/refundRequests";
+import {
+  cancelTransfer,
+  createTransfer,
+} from "$lib/server/shop/inventory/transfers";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import { refundRequestForm, transferForm } from "$lib/utils/shop/types";
+import * as m from "$paraglide/messages";
+import { redirect } from "$lib/utils/redirect";
+import { fail, type Actions } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import { z } from "zod";
+
+export const inventoryItemActions: Actions = {
+  transfer: async ({ locals, request, params, url }) => {
+    const { user } = locals;
+    authorize(apiNames.WEBSHOP.PURCHASE, user);
+    const form = await superValidate(request, zod(transferForm));
+    if (!form.valid) return fail(400, { form });
+    try {
+      await createTransfer(
+        user,
+        params["id"]!,
+        form.data.recipient,
+        url.origin,
+      );
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : `${e}`,
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: m.inventory_transfer_created(),
+      type: "success",
+    });
+  },
+  addAddon: async (event) => {
+    const { locals, request } = event;
+    const { user, prisma } = locals;
+    authorize(apiNames.WEBSHOP.PURCHASE, user);
+    const form = await superValidate(request, zod(addonForm));
+    if (!form.valid) return fail(400, { form });
+    try {
+      await addAddonToCart(
+        prisma,
+        form.data.addonId,
+        form.data.consumableId,
+        user,
+      );
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : `${e}`,
+        type: "error",
+      });
+    }
+    throw redirect(
+      "/shop/cart",
+      {
+        message: m.tickets_addons_added(),
+        type: "success",
+      },
+      event,
+    );
+  },
+  cancelTransfer: async ({ locals, request }) => {
+    const { user } = locals;
+    const form = await superValidate(
+      request,
+      zod(z.object({ transferId: z.string().uuid() })),
+    );
+    if (!form.valid) return fail(400, { form });
+    try {
+      await cancelTransfer(user, form.data.transferId);
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : `${e}`,
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: m.inventory_transfer_cancelled(),
+      type: "success",
+    });
+  },
+  requestRefund: async ({ locals, request, params }) => {
+    const { user } = locals;
+    authorize(apiNames.WEBSHOP.PURCHASE, user);
+    const form = await superValidate(request, zod(refundRequestForm));
+    if (!form.valid) return fail(400, { form });
+    try {
+      await createRefundRequest(user, params["id"]!, form.data.reason);
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : `${e}`,
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: m.inventory_refund_requested(),
+      type: "success",
+    });
+  },
+};
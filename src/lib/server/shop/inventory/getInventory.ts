@@ -5,6 +5,11 @@ import { error, type ServerLoadEvent } from "@sveltejs/kit";
 import type { ConsumableWithMoreInfo } from "./types";
 import { authorize } from "$lib/utils/authorization";
 import apiNames from "$lib/utils/apiNames";
+import { createConsumableCode } from "$lib/server/shop/tickets/checkIn";
+import { getRefundPercentage } from "$lib/server/shop/payments/refundPolicy";
+import { refundRequestForm, transferForm } from "$lib/utils/shop/types";
+import { zod } from "sveltekit-superforms/adapters";
+import { superValidate } from "sveltekit-superforms/server";
 
 export const inventoryLoadFunction = async ({
   locals,
@@ -52,6 +57,22 @@ export const inventoryLoadFunction = async ({
     throw error(403, m.inventory_errors_unauthorized());
   }
   authorize(apiNames.WEBSHOP.PURCHASE, user);
+  const incomingTransfers = await prisma.consumableTransfer.findMany({
+    where: {
+      toMemberId: memberId,
+      acceptedAt: null,
+      declinedAt: null,
+      cancelledAt: null,
+    },
+    include: {
+      fromMember: true,
+      consumable: {
+        include: {
+          shoppable: true,
+        },
+      },
+    },
+  });
   const consumablesWithMoreInfo: ConsumableWithMoreInfo[] = consumables.map(
     (consumable) => {
       if (consumable.shoppable.type !== ShoppableType.TICKET) {
@@ -69,6 +90,7 @@ export const inventoryLoadFunction = async ({
   );
   return {
     consumables: consumablesWithMoreInfo,
+    incomingTransfers,
   };
 };
 
@@ -113,8 +135,29 @@ export const inventoryItemLoadFunction = async ({
           ticket: {
             include: { event: true },
           },
+          addons: {
+            where: { removedAt: null },
+          },
+        },
+      },
+      children: true,
+      seat: {
+        include: { table: true },
+      },
+      transfers: {
+        where: {
+          acceptedAt: null,
+          declinedAt: null,
+          cancelledAt: null,
+        },
+        include: {
+          toMember: true,
         },
       },
+      refundRequests: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
     },
   });
   if (!consumable) {
@@ -129,6 +172,33 @@ export const inventoryItemLoadFunction = async ({
         event: consumable.shoppable.ticket!.event,
       },
     },
+    qrCode: createConsumableCode(consumable),
+    pendingTransfer: consumable.transfers[0] ?? null,
+    // organizers can read seats before they are published, buyers shouldn't see them until then
+    seat: consumable.shoppable.ticket?.seatingPublishedAt
+      ? consumable.seat
+      : null,
+    // add-ons the owner can still buy for this item
+    availableAddons:
+      consumable.consumedAt === null
+        ? consumable.shoppable.addons.filter(
+            (addon) =>
+              !consumable.children.some(
+                (child) => child.shoppableId === addon.id,
+              ),
+          )
+        : [],
+    transferForm: await superValidate(zod(transferForm)),
+    latestRefundRequest: consumable.refundRequests[0] ?? null,
+    refundPolicy: {
+      policy: consumable.shoppable.refundPolicy,
+      deadline: consumable.shoppable.refundDeadline,
+      percentageAfterDeadline:
+        consumable.shoppable.refundPercentageAfterDeadline,
+      // what a request made now would get back
+      currentPercentage: getRefundPercentage(consumable.shoppable, new Date()),
+    },
+    refundRequestForm: await superValidate(zod(refundRequestForm)),
   };
 };
 
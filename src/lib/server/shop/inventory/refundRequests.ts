@@ -0,0 +1,190 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import {
+  canApproveRefund,
+  getRefundPercentage,
+} from "$lib/server/shop/payments/refundPolicy";
+import { refundConsumableWithChildren } from "$lib/server/shop/payments/refunds";
+import sendNotification from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import {
+  getRefundRequestStatus,
+  RefundRequestStatus,
+} from "$lib/utils/shop/types";
+import * as m from "$paraglide/messages";
+import type { AuthUser } from "@zenstackhq/runtime";
+
+/*
+Refund requests let buyers ask for their money back, which the author of the shoppable or a manager then approves or denies.
+Like transfers, requests can't be changed by users, so everything here is done with the authorized prisma client after checking the conditions manually.
+How much is paid back is decided by the shoppable's refund policy when the request is made, see refundPolicy.ts.
+*/
+
+const pendingFilter = {
+  approvedAt: null,
+  deniedAt: null,
+};
+
+/**
+ * Creates a pending refund request for the user's consumable.
+ */
+export const createRefundRequest = async (
+  user: AuthUser,
+  consumableId: string,
+  reason: string,
+) => {
+  if (!user.memberId) throw new Error(m.inventory_errors_unauthorized());
+  const consumable = await authorizedPrismaClient.consumable.findUnique({
+    where: {
+      id: consumableId,
+      memberId: user.memberId,
+      purchasedAt: { not: null },
+      consumedAt: null,
+    },
+    include: {
+      shoppable: true,
+      refundRequests: {
+        where: pendingFilter,
+      },
+    },
+  });
+  // add-ons and bundle items are refunded together with what they were bought with
+  if (!consumable || consumable.parentId !== null)
+    throw new Error(m.inventory_refund_errors_notRefundable());
+  if (consumable.refundRequests.length > 0)
+    throw new Error(m.inventory_refund_errors_alreadyPending());
+  const percentage = getRefundPercentage(consumable.shoppable, new Date());
+  if (percentage === 0)
+    throw new Error(m.inventory_refund_errors_pastDeadline());
+
+  const request = await authorizedPrismaClient.consumableRefundRequest.create({
+    data: {
+      consumableId: consumable.id,
+      shoppableId: consumable.shoppableId,
+      memberId: user.memberId,
+      reason,
+      percentage,
+    },
+  });
+  await sendNotification({
+    title: "Begäran om återbetalning skickad",
+    message: `Arrangörerna har fått din begäran om återbetalning av ${consumable.shoppable.title}.`,
+    type: NotificationType.PAYMENT_STATUS,
+    link: `/shop/inventory/${consumable.id}`,
+    memberIds: [user.memberId],
+  });
+  return request;
+};
+
+/**
+ * Answers the request, unless someone else has answered it in the meantime, so that it can't be answered twice.
+ */
+const claimPendingRequest = async (
+  requestId: string,
+  answer: { approvedAt: Date } | { deniedAt: Date },
+) => {
+  const { count } =
+    await authorizedPrismaClient.consumableRefundRequest.updateMany({
+      where: { id: requestId, approvedAt: null, deniedAt: null },
+      data: answer,
+    });
+  if (count !== 1) throw new Error("Begäran har redan besvarats.");
+};
+
+const getPendingRequest = async (shoppableId: string, requestId: string) => {
+  const request =
+    await authorizedPrismaClient.consumableRefundRequest.findUnique({
+      where: { id: requestId, shoppableId },
+      include: {
+        shoppable: {
+          include: {
+            ticket: {
+              include: { _count: { select: { waitlist: true } } },
+            },
+            _count: {
+              select: { reservations: { where: { order: { not: null } } } },
+            },
+          },
+        },
+        consumable: {
+          include: {
+            shoppable: true,
+            children: {
+              include: { shoppable: true },
+            },
+          },
+        },
+      },
+    });
+  if (!request) throw new Error("Begäran hittades inte.");
+  if (getRefundRequestStatus(request) !== RefundRequestStatus.Pending)
+    throw new Error("Begäran har redan besvarats.");
+  return request;
+};
+
+/**
+ * Refunds the consumable of a pending request, according to the percentage decided when the request was made.
+ * The caller has to make sure the user can manage the shoppable.
+ */
+export const approveRefundRequest = async (
+  shoppableId: string,
+  requestId: string,
+) => {
+  const request = await getPendingRequest(shoppableId, requestId);
+  const { consumable, shoppable } = request;
+  // the ticket might have been used or transferred since the request was made
+  if (
+    !consumable ||
+    consumable.memberId !== request.memberId ||
+    consumable.consumedAt !== null
+  )
+    throw new Error("Biljetten kan inte längre återbetalas.");
+  const waitingCount =
+    shoppable._count.reservations + (shoppable.ticket?._count.waitlist ?? 0);
+  if (!canApproveRefund(shoppable, waitingCount))
+    throw new Error(
+      "Ingen står på väntelistan, så biljetten kan inte säljas vidare än.",
+    );
+
+  // the request is approved before the refund, so that approving it twice at once can't refund it twice
+  await claimPendingRequest(request.id, { approvedAt: new Date() });
+  try {
+    await refundConsumableWithChildren(consumable, request.percentage);
+  } catch (e) {
+    await authorizedPrismaClient.consumableRefundRequest.update({
+      where: { id: request.id },
+      data: { approvedAt: null },
+    });
+    throw e;
+  }
+  await sendNotification({
+    title: "Återbetalning godkänd",
+    message:
+      request.percentage < 100
+        ? `Din begäran om återbetalning av ${shoppable.title} har godkänts, och ${request.percentage} % av priset betalas tillbaka.`
+        : `Din begäran om återbetalning av ${shoppable.title} har godkänts, och pengarna betalas tillbaka.`,
+    type: NotificationType.PAYMENT_STATUS,
+    link: "/shop/inventory",
+    memberIds: [request.memberId],
+  });
+};
+
+/**
+ * Denies a pending request, the buyer keeps the consumable.
+ * The caller has to make sure the user can manage the shoppable.
+ */
+export const denyRefundRequest = async (
+  shoppableId: string,
+  requestId: string,
+) => {
+  const request = await getPendingRequest(shoppableId, requestId);
+  await claimPendingRequest(request.id, { deniedAt: new Date() });
+  await sendNotification({
+    title: "Återbetalning nekad",
+    message: `Din begäran om återbetalning av ${request.shoppable.title} har nekats, biljetten är fortfarande din.`,
+    type: NotificationType.PAYMENT_STATUS,
+    link: request.consumableId
+      ? `/shop/inventory/${request.consumableId}`
+      : "/shop/inventory",
+    memberIds: [request.memberId],
+  });
+};
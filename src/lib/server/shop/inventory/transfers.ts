@@ -0,0 +1,368 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import { validateAnswer } from "$lib/server/shop/questions";
+import { getFullName } from "$lib/utils/client/member";
+import sendNotification from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import {
+  getTransferStatus,
+  TransferStatus,
+  type AcceptTransferForm,
+} from "$lib/utils/shop/types";
+import * as m from "$paraglide/messages";
+import type { AuthUser } from "@zenstackhq/runtime";
+import { env } from "$env/dynamic/private";
+import { randomBytes } from "crypto";
+import nodemailer from "nodemailer";
+import { z } from "zod";
+
+/*
+Transfers move a purchased, unconsumed consumable from one member to someone else.
+The consumable itself can't be updated by users, so everything here is done with the authorized prisma client after checking the conditions manually.
+The recipient has to accept the transfer, at which point they answer the item's questions again and the ownership (and QR code) changes.
+Non-members are emailed a link with a token, which is what lets them answer the transfer.
+*/
+
+const transporter = nodemailer.createTransport({
+  host: "mailmaster.blossom.dsek.se",
+  secure: true,
+  port: 465,
+  auth: {
+    user: env.EMAIL_WEBSHOP_USER,
+    pass: env.EMAIL_WEBSHOP_PASS,
+  },
+});
+
+const pendingFilter = {
+  acceptedAt: null,
+  declinedAt: null,
+  cancelledAt: null,
+};
+
+/**
+ * Creates a pending transfer of the user's consumable and notifies the recipient.
+ * @param recipient student id of a member, or email of a non-member
+ * @param origin origin of the site, used for the link emailed to non-members
+ */
+export const createTransfer = async (
+  user: AuthUser,
+  consumableId: string,
+  recipient: string,
+  origin: string,
+) => {
+  if (!user.memberId) throw new Error(m.inventory_errors_unauthorized());
+  const prisma = authorizedPrismaClient;
+  const consumable = await prisma.consumable.findUnique({
+    where: {
+      id: consumableId,
+      memberId: user.memberId,
+      purchasedAt: { not: null },
+      consumedAt: null,
+    },
+    include: {
+      member: true,
+      shoppable: {
+        include: { ticket: true },
+      },
+      transfers: {
+        where: pendingFilter,
+      },
+    },
+  });
+  // add-ons and bundle items are transferred together with what they were bought with
+  if (!consumable?.shoppable.ticket || consumable.parentId !== null)
+    throw new Error(m.inventory_transfer_errors_notTransferable());
+  if (consumable.transfers.length > 0)
+    throw new Error(m.inventory_transfer_errors_alreadyPending());
+
+  const isEmail = recipient.includes("@");
+  if (isEmail && !z.string().email().safeParse(recipient).success)
+    throw new Error(m.inventory_transfer_errors_recipientNotFound());
+  // an email can belong to a member as well, in which case the ticket is transferred to them
+  const recipientMember = await prisma.member.findUnique({
+    where: isEmail ? { email: recipient } : { studentId: recipient },
+  });
+  if (!isEmail && !recipientMember)
+    throw new Error(m.inventory_transfer_errors_recipientNotFound());
+  if (recipientMember?.id === user.memberId)
+    throw new Error(m.inventory_transfer_errors_toSelf());
+
+  const recipientOwnedCount = await prisma.consumable.count({
+    where: {
+      shoppableId: consumable.shoppableId,
+      ...(recipientMember
+        ? { memberId: recipientMember.id }
+        : { externalCustomerEmail: recipient }),
+    },
+  });
+  if (recipientOwnedCount >= consumable.shoppable.ticket.maxAmountPerUser)
+    throw new Error(m.inventory_transfer_errors_recipientOwnsMax());
+
+  const transfer = await prisma.consumableTransfer.create({
+    data: {
+      consumableId: consumable.id,
+      fromMemberId: user.memberId,
+      toMemberId: recipientMember?.id ?? null,
+      toExternalEmail: recipientMember ? null : recipient,
+      acceptToken: recipientMember ? null : randomBytes(16).toString("hex"),
+    },
+  });
+  const senderName = consumable.member
+    ? getFullName(consumable.member)
+    : "Någon";
+  if (recipientMember) {
+    await sendNotification({
+      title: "🎟️ Någon vill ge dig en biljett",
+      message: `${senderName} vill överlåta ${consumable.shoppable.title} till dig. Svara på frågorna för att ta emot den.`,
+      type: NotificationType.PURCHASE_TRANSFER,
+      link: `/shop/transfers/${transfer.id}`,
+      memberIds: [recipientMember.id],
+      fromMemberId: user.memberId,
+    });
+  } else {
+    const link = `${origin}/shop/transfers/${transfer.id}?token=${transfer.acceptToken}`;
+    try {
+      await transporter.sendMail({
+        from: `"D-sektionen" <noreply@dsek.se>`,
+        to: recipient,
+        subject: `${senderName} vill ge dig en biljett`,
+        text: `${senderName} vill överlåta ${consumable.shoppable.title} till dig. Öppna länken för att ta emot den: ${link}`,
+        html: `<p>${senderName} vill överlåta ${consumable.shoppable.title} till dig.</p><p><a href="${link}">Ta emot biljetten</a></p>`,
+      });
+    } catch (e) {
+      // without the email nobody can accept the transfer
+      await prisma.consumableTransfer.delete({ where: { id: transfer.id } });
+      console.error(e);
+      throw new Error(m.inventory_transfer_errors_emailFailed());
+    }
+  }
+  return transfer;
+};
+
+/**
+ * Marks the transfer as answered, unless it already has been.
+ * This waits for an accept holding the row lock, so only one of them succeeds.
+ */
+const answerPendingTransfer = async (
+  transferId: string,
+  answer: { cancelledAt: Date } | { declinedAt: Date },
+) => {
+  const { count } = await authorizedPrismaClient.consumableTransfer.updateMany({
+    where: { id: transferId, ...pendingFilter },
+    data: { ...answer, acceptToken: null },
+  });
+  if (count !== 1) throw new Error(m.inventory_transfer_errors_notPending());
+};
+
+/**
+ * Cancels the user's pending transfer of a consumable.
+ */
+export const cancelTransfer = async (user: AuthUser, transferId: string) => {
+  const transfer = await authorizedPrismaClient.consumableTransfer.findUnique({
+    where: { id: transferId },
+  });
+  if (!transfer || transfer.fromMemberId !== user.memberId)
+    throw new Error(m.inventory_transfer_errors_notFound());
+  await answerPendingTransfer(transfer.id, { cancelledAt: new Date() });
+};
+
+/**
+ * Whether the user is the one who should accept or decline the transfer.
+ * Transfers to an email can only be answered with the token that was emailed to the recipient.
+ */
+export const isTransferRecipient = (
+  user: AuthUser,
+  transfer: {
+    fromMemberId: string;
+    toMemberId: string | null;
+    acceptToken: string | null;
+  },
+  token: string | undefined,
+) =>
+  transfer.toMemberId !== null
+    ? transfer.toMemberId === user.memberId
+    : transfer.fromMemberId !== user.memberId &&
+      transfer.acceptToken !== null &&
+      transfer.acceptToken === token;
+
+/**
+ * Declines a pending transfer, the consumable stays with the sender.
+ */
+export const declineTransfer = async (
+  user: AuthUser,
+  transferId: string,
+  token: string | undefined,
+) => {
+  const transfer = await authorizedPrismaClient.consumableTransfer.findUnique({
+    where: { id: transferId },
+    include: { consumable: { include: { shoppable: true } } },
+  });
+  if (!transfer || !isTransferRecipient(user, transfer, token))
+    throw new Error(m.inventory_transfer_errors_notFound());
+  await answerPendingTransfer(transfer.id, { declinedAt: new Date() });
+  await sendNotification({
+    title: "Biljettöverlåtelse nekad",
+    message: `Mottagaren tackade nej till ${transfer.consumable.shoppable.title}, biljetten är fortfarande din.`,
+    type: NotificationType.PURCHASE_TRANSFER,
+    link: `/shop/inventory/${transfer.consumableId}`,
+    memberIds: [transfer.fromMemberId],
+  });
+};
+
+/**
+ * Accepts a pending transfer, making the user the new owner of the consumable.
+ * The recipient has to be allowed to buy the item themselves, and their answers replace the previous owner's.
+ * Answers can't cost more than what the previous owner paid, since there is no payment involved in a transfer.
+ */
+export const acceptTransfer = async (
+  user: AuthUser,
+  transferId: string,
+  answers: AcceptTransferForm["answers"],
+  token: string | undefined,
+) => {
+  if (!user.memberId && !user.externalCode) {
+    throw new Error(m.inventory_errors_unauthorized());
+  }
+  const now = new Date();
+  const transfer = await authorizedPrismaClient.$transaction(async (tx) => {
+    // a cancel or decline waits until the transfer has been accepted, and then fails
+    await tx.$queryRaw`SELECT id FROM consumable_transfer WHERE id = ${transferId}::uuid FOR UPDATE`;
+    const transfer = await tx.consumableTransfer.findUnique({
+      where: { id: transferId },
+      include: {
+        consumable: {
+          include: {
+            questionResponses: true,
+            shoppable: {
+              include: {
+                ticket: true,
+                accessPolicies: true,
+                questions: {
+                  where: { removedAt: null },
+                  include: { options: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!transfer || !isTransferRecipient(user, transfer, token))
+      throw new Error(m.inventory_transfer_errors_notFound());
+    if (getTransferStatus(transfer) !== TransferStatus.Pending)
+      throw new Error(m.inventory_transfer_errors_notPending());
+    const { consumable } = transfer;
+    const { shoppable } = consumable;
+    if (
+      consumable.memberId !== transfer.fromMemberId ||
+      consumable.consumedAt !== null ||
+      !shoppable.ticket
+    )
+      throw new Error(m.inventory_transfer_errors_notTransferable());
+
+    if (
+      shoppable.accessPolicies.length > 0 &&
+      !shoppable.accessPolicies.some(
+        (p) =>
+          (p.role && user.roles.includes(p.role)) ||
+          (p.studentId && p.studentId === user.studentId),
+      )
+    ) {
+      throw new Error(m.tickets_addToCart_errors_notAllowed());
+    }
+
+    const newOwner = user.memberId
+      ? {
+          memberId: user.memberId,
+          externalCustomerCode: null,
+          externalCustomerEmail: null,
+        }
+      : {
+          memberId: null,
+          externalCustomerCode: user.externalCode!,
+          externalCustomerEmail: transfer.toExternalEmail,
+        };
+    const ownedCount = await tx.consumable.count({
+      where: {
+        shoppableId: shoppable.id,
+        ...(user.memberId
+          ? { memberId: user.memberId }
+          : { externalCustomerCode: user.externalCode! }),
+      },
+    });
+    if (ownedCount >= shoppable.ticket.maxAmountPerUser)
+      throw new Error(m.tickets_addToCart_errors_alreadyOwnsMax());
+
+    const questions = shoppable.questions.filter(
+      (q) => !q.forExternalsOnly || !user.memberId,
+    );
+    const responses = questions.map((question) => {
+      const answer = answers.find((a) => a.questionId === question.id)?.answer;
+      if (!answer)
+        throw new Error(
+          m.inventory_transfer_errors_missingAnswer({
+            question: question.title,
+          }),
+        );
+      const extraPrice = validateAnswer(question, answer);
+      const paidExtraPrice =
+        consumable.questionResponses.find((r) => r.questionId === question.id)
+          ?.extraPrice ?? 0;
+      if (extraPrice > paidExtraPrice)
+        throw new Error(
+          m.inventory_transfer_errors_answerCostsMore({
+            question: question.title,
+          }),
+        );
+      return {
+        consumableId: consumable.id,
+        questionId: question.id,
+        answer,
+        extraPrice,
+      };
+    });
+
+    await tx.itemQuestionResponse.deleteMany({
+      where: { consumableId: consumable.id },
+    });
+    await tx.itemQuestionResponse.createMany({
+      data: responses,
+    });
+    await tx.consumable.update({
+      where: { id: consumable.id },
+      data: newOwner,
+    });
+    // purchased add-ons and bundle items follow the consumable, ones in the sender's cart are removed
+    await tx.consumable.deleteMany({
+      where: { parentId: consumable.id, purchasedAt: null },
+    });
+    await tx.consumable.updateMany({
+      where: { parentId: consumable.id },
+      data: newOwner,
+    });
+    return await tx.consumableTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        acceptedAt: now,
+        acceptToken: null,
+        // someone with an account accepted a transfer sent to an email
+        toMemberId: user.memberId ?? null,
+      },
+      include: {
+        consumable: { include: { shoppable: true } },
+        toMember: true,
+      },
+    });
+  });
+  await sendNotification({
+    title: "🎟️ Biljetten har överlåtits",
+    message: `${
+      transfer.toMember
+        ? getFullName(transfer.toMember)
+        : (transfer.toExternalEmail ?? "Mottagaren")
+    } har tagit emot ${transfer.consumable.shoppable.title}.`,
+    type: NotificationType.PURCHASE_TRANSFER,
+    link: "/shop/inventory",
+    memberIds: [transfer.fromMemberId],
+  });
+  return transfer;
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyDiscount,
+  calculateCartPrice,
+  calculateConsumablePrice,
+  isDiscountCodeActive,
+  resolveShoppablePrice,
+} from "./pricing";
+
+const shoppable = {
+  price: 10000,
+  priceTiers: [
+    { role: "dsek", price: 8000 },
+    { role: "dsek.styr", price: 5000 },
+  ],
+};
+
+describe("price tiers", () => {
+  it("uses the base price without a matching role", () =>
+    expect(resolveShoppablePrice(shoppable, ["*"])).toBe(10000));
+
+  it("uses the tier of a matching role", () =>
+    expect(resolveShoppablePrice(shoppable, ["*", "dsek"])).toBe(8000));
+
+  it("uses the lowest matching price", () =>
+    expect(resolveShoppablePrice(shoppable, ["dsek", "dsek.styr"])).toBe(5000));
+
+  it("never uses a tier more expensive than the base price", () =>
+    expect(
+      resolveShoppablePrice(
+        { price: 1000, priceTiers: [{ role: "dsek", price: 2000 }] },
+        ["dsek"],
+      ),
+    ).toBe(1000));
+});
+
+describe("discount codes", () => {
+  it("applies a percentage", () =>
+    expect(
+      applyDiscount(10000, { discountPercentage: 25, discountAmount: null }),
+    ).toBe(7500));
+
+  it("applies a fixed amount", () =>
+    expect(
+      applyDiscount(10000, { discountPercentage: null, discountAmount: 3000 }),
+    ).toBe(7000));
+
+  it("never goes below 0", () =>
+    expect(
+      applyDiscount(1000, { discountPercentage: null, discountAmount: 3000 }),
+    ).toBe(0));
+
+  it("checks the validity window", () => {
+    const now = new Date(2025, 1, 1);
+    expect(isDiscountCodeActive({ validFrom: null, validTo: null }, now)).toBe(
+      true,
+    );
+    expect(
+      isDiscountCodeActive(
+        { validFrom: new Date(2025, 1, 2), validTo: null },
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      isDiscountCodeActive(
+        { validFrom: null, validTo: new Date(2025, 0, 31) },
+        now,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("consumable price", () => {
+  const consumable = {
+    isBundleItem: false,
+    shoppable,
+    questionResponses: [{ extraPrice: 2000 }, { extraPrice: null }],
+    discountCode: { discountPercentage: 50, discountAmount: null },
+  };
+
+  it("combines tiers, answers and discounts", () =>
+    expect(calculateConsumablePrice(consumable, ["dsek"])).toBe(5000));
+
+  it("doesn't charge for items in a bundle", () =>
+    expect(
+      calculateConsumablePrice({ ...consumable, isBundleItem: true }, ["dsek"]),
+    ).toBe(0));
+
+  it("sums the cart", () =>
+    expect(
+      calculateCartPrice(
+        [consumable, { ...consumable, discountCode: null }],
+        ["dsek"],
+      ),
+    ).toBe(5000 + 10000));
+});
@@ -0,0 +1,88 @@
+import type {
+  ItemQuestionResponse,
+  Shoppable,
+  ShoppableDiscountCode,
+  ShoppablePriceTier,
+} from "@prisma/client";
+
+type ShoppableFieldsForPrice = Pick<Shoppable, "price"> & {
+  priceTiers: Array<Pick<ShoppablePriceTier, "role" | "price">>;
+};
+type DiscountCodeFieldsForPrice = Pick<
+  ShoppableDiscountCode,
+  "discountPercentage" | "discountAmount"
+>;
+export type ConsumableFieldsForPrice = {
+  isBundleItem: boolean;
+  shoppable: ShoppableFieldsForPrice;
+  questionResponses: Array<Pick<ItemQuestionResponse, "extraPrice">>;
+  discountCode: DiscountCodeFieldsForPrice | null;
+};
+
+/**
+ * The price of a shoppable for someone with the given roles.
+ * Roles are matched the same way as in `ShoppableAccessPolicy`, and the lowest price of the base price and any matching tier is used.
+ */
+export const resolveShoppablePrice = (
+  shoppable: ShoppableFieldsForPrice,
+  roles: string[],
+) =>
+  shoppable.priceTiers.reduce(
+    (lowest, tier) =>
+      roles.includes(tier.role) ? Math.min(lowest, tier.price) : lowest,
+    shoppable.price,
+  );
+
+/**
+ * Applies a discount code to a price, never going below 0.
+ */
+export const applyDiscount = (
+  price: number,
+  discountCode: DiscountCodeFieldsForPrice | null,
+) => {
+  if (!discountCode) return price;
+  const discount =
+    discountCode.discountPercentage !== null
+      ? Math.round((price * discountCode.discountPercentage) / 100)
+      : (discountCode.discountAmount ?? 0);
+  return Math.max(price - discount, 0);
+};
+
+/**
+ * The price the owner of the consumable has to pay, including price tiers, extra costs of answers and discount codes.
+ * Items in a bundle are free, since they are paid for through the bundle.
+ * @param roles the roles of the owner of the consumable
+ */
+export const calculateConsumablePrice = (
+  consumable: ConsumableFieldsForPrice,
+  roles: string[],
+) =>
+  consumable.isBundleItem
+    ? 0
+    : applyDiscount(
+        resolveShoppablePrice(consumable.shoppable, roles) +
+          consumable.questionResponses.reduce(
+            (a, c) => a + (c.extraPrice ?? 0),
+            0,
+          ),
+        consumable.discountCode,
+      );
+
+export const calculateCartPrice = (
+  consumables: ConsumableFieldsForPrice[],
+  roles: string[],
+) =>
+  consumables.reduce(
+    (acc, consumable) => acc + calculateConsumablePrice(consumable, roles),
+    0,
+  );
+
+/**
+ * Whether the discount code can be used at the given time. Usage limits are checked when the code is applied.
+ */
+export const isDiscountCodeActive = (
+  discountCode: Pick<ShoppableDiscountCode, "validFrom" | "validTo">,
+  now: Date,
+) =>
+  (discountCode.validFrom === null || discountCode.validFrom <= now) &&
+  (discountCode.validTo === null || discountCode.validTo > now);
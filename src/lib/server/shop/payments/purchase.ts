@@ -8,12 +8,7 @@ import {
   passOnTransactionFee,
 } from "$lib/utils/payments/transactionFee";
 import { getFullName } from "$lib/utils/client/member";
-import {
-  ShoppableType,
-  type ItemQuestionResponse,
-  type PrismaClient,
-  type Shoppable,
-} from "@prisma/client";
+import { ShoppableType, type PrismaClient } from "@prisma/client";
 import type Stripe from "stripe";
 import * as m from "$paraglide/messages";
 import authorizedPrismaClient from "$lib/server/authorizedPrisma";
@@ -26,6 +21,11 @@ import {
   updatePaymentIntent,
 } from "./stripeMethods";
 import { NotificationType } from "$lib/utils/notifications/types";
+import {
+  calculateCartPrice,
+  calculateConsumablePrice,
+  isDiscountCodeActive,
+} from "./pricing";
 
 const clearOutConsumablesAfterSellingOut = async (
   soldOutShoppableIds: string[],
@@ -87,10 +87,14 @@ const clearOutConsumablesAfterSellingOut = async (
   );
 };
 
+/**
+ * @param roles the roles of the customer, used to resolve price tiers
+ */
 const purchaseCart = async (
   prisma: PrismaClient,
   identification: ShopIdentification,
   idempotencyKey: string,
+  roles: string[] = [],
 ) => {
   const soldOutShoppableIds: string[] = [];
   const now = new Date();
@@ -103,6 +107,7 @@ const purchaseCart = async (
     },
     include: {
       questionResponses: true,
+      discountCode: true,
       shoppable: {
         include: {
           questions: {
@@ -110,6 +115,7 @@ const purchaseCart = async (
               removedAt: null,
             },
           },
+          priceTiers: true,
           ticket: true,
           _count: {
             select: {
@@ -151,6 +157,23 @@ const purchaseCart = async (
     await clearOutConsumablesAfterSellingOut(soldOutShoppableIds);
     throw new Error(m.tickets_purchase_errors_soldOutDuringPurchase()); // with our reservation system, this shouldn't happen, but it's just a safety measure
   }
+  // the code might have expired since it was applied, remove it so the customer sees the new price before paying
+  const expiredDiscounts = userConsumables.filter(
+    (c) => c.discountCode && !isDiscountCodeActive(c.discountCode, now),
+  );
+  if (expiredDiscounts.length > 0) {
+    await authorizedPrismaClient.consumable.updateMany({
+      where: {
+        id: {
+          in: expiredDiscounts.map((c) => c.id),
+        },
+      },
+      data: {
+        discountCodeId: null,
+      },
+    });
+    throw new Error(m.cart_discountCode_errors_expired());
+  }
 
   let didUpdateAlreadyPaidFor = false;
   const existingPaymentIntents: Record<string, Stripe.PaymentIntent> = {};
@@ -192,18 +215,17 @@ const purchaseCart = async (
   }
 
   // Step 3: Calculate price
-  const price = calculateCartPrice(userConsumables);
+  const price = calculateCartPrice(userConsumables, roles);
   if (price <= 0) {
     await authorizedPrismaClient.consumable.updateMany({
       where: {
         id: {
-          in: userConsumables.map((c) => c.id),
-        },
-        shoppable: {
-          // in case any price is negative we filter by price=0.
+          // in case any price is negative we only take the ones which cost exactly 0.
           // A product's price should never be negative, but we check just in case.
           // We do not want to give away another product for free accidentally.
-          price: 0,
+          in: userConsumables
+            .filter((c) => calculateConsumablePrice(c, roles) === 0)
+            .map((c) => c.id),
         },
       },
       data: {
@@ -299,7 +321,7 @@ const purchaseCart = async (
             },
             data: {
               stripeIntentId: intent.id,
-              priceAtPurchase: calculateConsumablePrice(consumable),
+              priceAtPurchase: calculateConsumablePrice(consumable, roles),
             },
           }),
         ),
@@ -319,25 +341,4 @@ const purchaseCart = async (
   };
 };
 
-type ConsumableFieldsForPrice = {
-  shoppable: Pick<Shoppable, "price">;
-  questionResponses: Array<Pick<ItemQuestionResponse, "extraPrice">>;
-};
-export const calculateConsumablePrice = (
-  consumable: ConsumableFieldsForPrice,
-) =>
-  consumable.shoppable.price +
-  consumable.questionResponses.reduce((a, c) => a + (c.extraPrice ?? 0), 0);
-
-export const calculateCartPrice = (consumables: ConsumableFieldsForPrice[]) =>
-  consumables.reduce(
-    (acc, consumable) =>
-      acc +
-      calculateConsumablePrice({
-        shoppable: consumable.shoppable,
-        questionResponses: consumable.questionResponses,
-      }),
-    0,
-  );
-
 export default purchaseCart;
@@ -0,0 +1,58 @@
+import { RefundPolicy } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import {
+  canApproveRefund,
+  getRefundAmount,
+  getRefundPercentage,
+} from "./refundPolicy";
+
+const deadlinePolicy = {
+  refundPolicy: RefundPolicy.FULL_UNTIL_DEADLINE,
+  refundDeadline: new Date("2025-03-01T12:00:00"),
+  refundPercentageAfterDeadline: 50,
+};
+
+describe("refund policy", () => {
+  it("refunds everything before the deadline", () =>
+    expect(
+      getRefundPercentage(deadlinePolicy, new Date("2025-03-01T11:00:00")),
+    ).toBe(100));
+
+  it("refunds the configured percentage after the deadline", () =>
+    expect(
+      getRefundPercentage(deadlinePolicy, new Date("2025-03-01T13:00:00")),
+    ).toBe(50));
+
+  it("refunds nothing after the deadline by default", () =>
+    expect(
+      getRefundPercentage(
+        { ...deadlinePolicy, refundPercentageAfterDeadline: 0 },
+        new Date("2025-03-02"),
+      ),
+    ).toBe(0));
+
+  it("refunds everything without a deadline", () =>
+    expect(
+      getRefundPercentage(
+        { ...deadlinePolicy, refundDeadline: null },
+        new Date("2030-01-01"),
+      ),
+    ).toBe(100));
+
+  it("only approves resold refunds when someone is in line", () => {
+    const resold = {
+      ...deadlinePolicy,
+      refundPolicy: RefundPolicy.ONLY_IF_RESOLD,
+    };
+    expect(getRefundPercentage(resold, new Date("2025-03-02"))).toBe(100);
+    expect(canApproveRefund(resold, 0)).toBe(false);
+    expect(canApproveRefund(resold, 1)).toBe(true);
+    expect(canApproveRefund(deadlinePolicy, 0)).toBe(true);
+  });
+
+  it("rounds partial amounts to whole öre", () => {
+    expect(getRefundAmount(10000, 50)).toBe(5000);
+    expect(getRefundAmount(9999, 50)).toBe(5000);
+    expect(getRefundAmount(9999, 0)).toBe(0);
+  });
+});
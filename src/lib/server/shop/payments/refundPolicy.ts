@@ -0,0 +1,37 @@
+import { RefundPolicy, type Shoppable } from "@prisma/client";
+
+/*
+Each shoppable has a refund policy deciding how much buyers get back when they request a refund:
+- FULL_UNTIL_DEADLINE: the full price until the deadline (or until the item is used, without a deadline), then a percentage which may be zero.
+- ONLY_IF_RESOLD: the full price, but only if someone is in line to take over the spot, since the spot is offered to them when refunding.
+The percentage is decided when the request is made, so a request made before the deadline is refunded in full even if it is approved later.
+*/
+
+type PolicyFields = Pick<
+  Shoppable,
+  "refundPolicy" | "refundDeadline" | "refundPercentageAfterDeadline"
+>;
+
+/**
+ * How many percent of the price a request made at the given time would get back.
+ */
+export const getRefundPercentage = (shoppable: PolicyFields, now: Date) => {
+  if (shoppable.refundPolicy === RefundPolicy.ONLY_IF_RESOLD) return 100;
+  if (!shoppable.refundDeadline || now <= shoppable.refundDeadline) return 100;
+  return shoppable.refundPercentageAfterDeadline;
+};
+
+/**
+ * Whether a refund can be approved right now.
+ * @param waitingCount how many are in the reservation queue or on the waitlist
+ */
+export const canApproveRefund = (
+  shoppable: Pick<Shoppable, "refundPolicy">,
+  waitingCount: number,
+) => shoppable.refundPolicy !== RefundPolicy.ONLY_IF_RESOLD || waitingCount > 0;
+
+/**
+ * The part of a paid amount which is paid back, rounded to whole öre.
+ */
+export const getRefundAmount = (paidAmount: number, percentage: number) =>
+  Math.round((paidAmount * percentage) / 100);
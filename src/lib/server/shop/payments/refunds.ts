@@ -0,0 +1,59 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import {
+  fillFreedSpots,
+  queueNextExpiredConsumablesPruning,
+  withHandledNotificationQueue,
+} from "$lib/server/shop/addToCart/reservations";
+import type { Consumable, Prisma, Shoppable } from "@prisma/client";
+import { getRefundAmount } from "./refundPolicy";
+import { refundConsumable } from "./stripeMethods";
+
+type RefundableConsumable = Consumable & {
+  shoppable: Shoppable;
+  children: Array<Consumable & { shoppable: Shoppable }>;
+};
+
+/**
+ * Refunds a purchased consumable together with its add-ons and bundle items, removes them and offers their spots to the next person in line.
+ * @param percentage how much of what was paid is paid back, according to the refund policy
+ */
+export const refundConsumableWithChildren = async (
+  consumable: RefundableConsumable,
+  percentage = 100,
+) => {
+  const consumables = [consumable, ...consumable.children];
+  const refunds: Prisma.ConsumableRefundCreateManyInput[] = [];
+  for (const c of consumables) {
+    if (c.purchasedAt === null) continue;
+    // free items and bundle items have nothing to pay back, but are still recorded as refunded
+    const paidAmount = c.stripeIntentId
+      ? (c.priceAtPurchase ?? c.shoppable.price) // to ensure correct refund amount if shoppable price has changed
+      : 0;
+    const amount = getRefundAmount(paidAmount, percentage);
+    if (amount > 0) await refundConsumable(c.stripeIntentId!, amount);
+    refunds.push({
+      shoppableId: c.shoppableId,
+      memberId: c.memberId,
+      externalCustomerEmail: c.externalCustomerEmail,
+      amount,
+      paidAmount,
+      purchasedAt: c.purchasedAt,
+    });
+  }
+  await authorizedPrismaClient.consumableRefund.createMany({
+    data: refunds,
+  });
+  // children are removed by the database, since they cascade
+  await authorizedPrismaClient.consumable.delete({
+    where: {
+      id: consumable.id,
+    },
+  });
+  for (const c of consumables) {
+    await withHandledNotificationQueue(
+      fillFreedSpots(authorizedPrismaClient, c.shoppableId, 1),
+    );
+  }
+  // the freed spots might have been offered to someone on the waitlist, which should expire
+  await queueNextExpiredConsumablesPruning();
+};
@@ -2,7 +2,11 @@ import {
   dbIdentification,
   type ShopIdentification,
 } from "$lib/server/shop/types";
-import type { PrismaClient } from "@prisma/client";
+import type {
+  ItemQuestion,
+  ItemQuestionOption,
+  PrismaClient,
+} from "@prisma/client";
 import { z } from "zod";
 import * as m from "$paraglide/messages";
 import { QuestionType, type questionForm } from "$lib/utils/shop/types";
@@ -47,35 +51,7 @@ export const answerQuestion = async (
   );
   if (!question) throw new Error("Question not found");
 
-  let extraPrice: number;
-  switch (question.type) {
-    case QuestionType.MultipleChoice: {
-      const answerObj = question.options.find(
-        (option) =>
-          option.answer === data.answer || option.answerEn === data.answer,
-      );
-
-      // user tried to send option which doesn't exist
-      if (!answerObj) throw new Error("Invalid option");
-
-      // user tried to send a different answer text than the correct one
-      if (
-        answerObj.answer !== data.answer &&
-        answerObj.answerEn !== data.answer
-      )
-        throw new Error("Corrupt answer");
-
-      // all checks clear, good answer!
-      extraPrice = answerObj.extraPrice ?? 0;
-      break;
-    }
-    case QuestionType.Text:
-      // no checks to be done. good answer!
-      extraPrice = 0;
-      break;
-    default:
-      throw new Error(`The question type "${question.type}" is not supported.`);
-  }
+  const extraPrice = validateAnswer(question, data.answer);
 
   await prisma.itemQuestionResponse.upsert({
     where: {
@@ -96,3 +72,35 @@ export const answerQuestion = async (
     },
   });
 };
+
+/**
+ * Checks that the answer is valid for the question.
+ * @returns the extra price the answer adds to the item
+ */
+export const validateAnswer = (
+  question: ItemQuestion & { options: ItemQuestionOption[] },
+  answer: string,
+): number => {
+  switch (question.type) {
+    case QuestionType.MultipleChoice: {
+      const answerObj = question.options.find(
+        (option) => option.answer === answer || option.answerEn === answer,
+      );
+
+      // user tried to send option which doesn't exist
+      if (!answerObj) throw new Error("Invalid option");
+
+      // user tried to send a different answer text than the correct one
+      if (answerObj.answer !== answer && answerObj.answerEn !== answer)
+        throw new Error("Corrupt answer");
+
+      // all checks clear, good answer!
+      return answerObj.extraPrice ?? 0;
+    }
+    case QuestionType.Text:
+      // no checks to be done. good answer!
+      return 0;
+    default:
+      throw new Error(`The question type "${question.type}" is not supported.`);
+  }
+};
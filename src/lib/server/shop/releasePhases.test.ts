@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  canBuyInReleasePhase,
+  getCurrentReleasePhase,
+  getReleaseStart,
+  getReleasedStock,
+  getTicketsLeft,
+  getUpcomingReleasePhases,
+} from "./releasePhases";
+
+const phases = [
+  // intentionally not sorted
+  { startsAt: new Date("2025-03-02T12:00:00"), stock: 50, role: "_" },
+  { startsAt: new Date("2025-03-01T12:00:00"), stock: 40, role: "nolla" },
+  { startsAt: new Date("2025-03-03T12:00:00"), stock: 20, role: "*" },
+];
+const ticket = { stock: 100 };
+
+describe("release phases", () => {
+  it("has no phase before the first one starts", () => {
+    const now = new Date("2025-03-01T11:00:00");
+    expect(getCurrentReleasePhase(phases, now)).toBeNull();
+    expect(getReleasedStock(ticket, phases, now)).toBe(0);
+    expect(getUpcomingReleasePhases(phases, now)).toHaveLength(3);
+  });
+
+  it("uses the latest started phase", () => {
+    const now = new Date("2025-03-02T13:00:00");
+    expect(getCurrentReleasePhase(phases, now)?.role).toBe("_");
+    expect(getUpcomingReleasePhases(phases, now).map((p) => p.role)).toEqual([
+      "*",
+    ]);
+    expect(getReleaseStart({ availableFrom: new Date(0) }, phases, now)).toBe(
+      phases[0]!.startsAt,
+    );
+  });
+
+  it("rolls over unsold stock from earlier phases", () =>
+    expect(
+      getReleasedStock(ticket, phases, new Date("2025-03-02T13:00:00")),
+    ).toBe(90));
+
+  it("never releases more than the ticket's stock", () =>
+    expect(
+      getReleasedStock(ticket, phases, new Date("2025-03-03T13:00:00")),
+    ).toBe(100));
+
+  it("counts tickets left from the released stock", () =>
+    expect(
+      getTicketsLeft(ticket, phases, 85, new Date("2025-03-02T13:00:00")),
+    ).toBe(5));
+
+  it("releases everything at once without phases", () => {
+    const availableFrom = new Date("2025-03-01");
+    expect(getReleasedStock(ticket, [], new Date(0))).toBe(100);
+    expect(getReleaseStart({ availableFrom }, [], new Date())).toBe(
+      availableFrom,
+    );
+  });
+
+  it("only lets the phase's role buy", () => {
+    expect(canBuyInReleasePhase({ role: "nolla" }, ["*", "_", "nolla"])).toBe(
+      true,
+    );
+    expect(canBuyInReleasePhase({ role: "nolla" }, ["*", "_"])).toBe(false);
+    expect(canBuyInReleasePhase({ role: null }, ["*"])).toBe(true);
+    expect(canBuyInReleasePhase(null, ["*"])).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import type { Shoppable, ShoppableReleasePhase } from "@prisma/client";
+
+/*
+Release phases split the sale of a ticket into several releases, e.g. first to nollor, then to all members and last to everyone.
+A phase lasts until the next one starts. The stock of each phase is added to the stock of the earlier phases,
+so tickets that weren't sold in a phase roll over to the next one, but the total never exceeds the ticket's stock.
+Every phase starts with a grace period, after which the lottery is performed for those who reserved during it.
+Tickets without phases work like before, with a single release at `availableFrom`.
+*/
+
+type PhaseFields = Pick<ShoppableReleasePhase, "startsAt" | "stock" | "role">;
+
+const byStart = <T extends PhaseFields>(phases: T[]) =>
+  [...phases].sort((a, b) => a.startsAt.valueOf() - b.startsAt.valueOf());
+
+/**
+ * The phase which is going on at the given time, or null if no phase has started yet.
+ */
+export const getCurrentReleasePhase = <T extends PhaseFields>(
+  phases: T[],
+  now: Date,
+): T | null =>
+  byStart(phases)
+    .filter((phase) => phase.startsAt <= now)
+    .at(-1) ?? null;
+
+/**
+ * Phases which haven't started yet, in order.
+ */
+export const getUpcomingReleasePhases = <T extends PhaseFields>(
+  phases: T[],
+  now: Date,
+): T[] => byStart(phases).filter((phase) => phase.startsAt > now);
+
+/**
+ * How many tickets have been released at the given time, including unsold tickets from earlier phases.
+ */
+export const getReleasedStock = (
+  ticket: { stock: number },
+  phases: PhaseFields[],
+  now: Date,
+) => {
+  if (phases.length === 0) return ticket.stock;
+  const released = phases
+    .filter((phase) => phase.startsAt <= now)
+    .reduce((sum, phase) => sum + phase.stock, 0);
+  return Math.min(ticket.stock, released);
+};
+
+/**
+ * How many of the released tickets haven't been purchased yet. Tickets in carts aren't counted, since they free up if they aren't bought.
+ * This is what both the buy button and joining the waitlist decide whether a ticket is sold out by.
+ */
+export const getTicketsLeft = (
+  ticket: { stock: number },
+  phases: PhaseFields[],
+  purchasedCount: number,
+  now: Date,
+) => getReleasedStock(ticket, phases, now) - purchasedCount;
+
+/**
+ * When the current release started, which is when its grace period started.
+ */
+export const getReleaseStart = (
+  shoppable: Pick<Shoppable, "availableFrom">,
+  phases: PhaseFields[],
+  now: Date,
+) => getCurrentReleasePhase(phases, now)?.startsAt ?? shoppable.availableFrom;
+
+/**
+ * Whether someone with the given roles can buy during a phase. Roles are matched the same way as in `ShoppableAccessPolicy`.
+ */
+export const canBuyInReleasePhase = (
+  phase: Pick<ShoppableReleasePhase, "role"> | null,
+  roles: string[],
+) => !phase?.role || roles.includes(phase.role);
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  groupByWishes,
+  parseWishes,
+  planSeating,
+  type SeatingGuest,
+} from "./planner";
+
+const guest = (
+  id: string,
+  classYear: number | null = null,
+  classProgramme: string | null = null,
+  wishes: string[] = [],
+): SeatingGuest => ({ id, classYear, classProgramme, wishes });
+
+const tableOf = (seats: ReturnType<typeof planSeating>["seats"], id: string) =>
+  seats.find((seat) => seat.consumableId === id)?.tableId;
+
+describe("parsing wishes", () => {
+  const candidates = [
+    { id: "a", identifiers: ["Anna Andersson", "an1234an-s"] },
+    { id: "b", identifiers: ["Bertil Berg", "be5678be-s"] },
+    { id: "c", identifiers: ["Bertil Carlsson", "be9999ca-s"] },
+  ];
+
+  it("matches names and student ids case insensitively", () =>
+    expect(
+      parseWishes("anna andersson, BE5678BE-S", candidates).sort(),
+    ).toEqual(["a", "b"]));
+
+  it("splits on 'och' and new lines", () =>
+    expect(
+      parseWishes("Anna Andersson och Bertil Berg\nbe9999ca-s", candidates),
+    ).toEqual(["a", "b", "c"]));
+
+  it("matches the start of a name only if it is unambiguous", () => {
+    expect(parseWishes("Anna", candidates)).toEqual(["a"]);
+    expect(parseWishes("Bertil", candidates)).toEqual([]);
+  });
+
+  it("ignores names it can't find", () =>
+    expect(parseWishes("Någon annan", candidates)).toEqual([]));
+});
+
+describe("grouping wishes", () => {
+  it("groups wishes transitively, even if they are one sided", () => {
+    const groups = groupByWishes([
+      guest("a", null, null, ["b"]),
+      guest("b"),
+      guest("c", null, null, ["b"]),
+      guest("d"),
+    ]);
+    expect(groups.map((group) => group.map((g) => g.id))).toEqual([
+      ["a", "b", "c"],
+      ["d"],
+    ]);
+  });
+
+  it("ignores wishes for guests who aren't coming", () =>
+    expect(groupByWishes([guest("a", null, null, ["x"])])).toHaveLength(1));
+});
+
+describe("planning seating", () => {
+  it("seats wish groups at the same table", () => {
+    const { seats, unseated } = planSeating(
+      [
+        guest("a", null, null, ["b"]),
+        guest("b"),
+        guest("c"),
+        guest("d"),
+        guest("e", null, null, ["d"]),
+      ],
+      [
+        { id: "t1", seatCount: 3 },
+        { id: "t2", seatCount: 3 },
+      ],
+    );
+    expect(unseated).toEqual([]);
+    expect(seats).toHaveLength(5);
+    expect(tableOf(seats, "a")).toBe(tableOf(seats, "b"));
+    expect(tableOf(seats, "d")).toBe(tableOf(seats, "e"));
+    expect(tableOf(seats, "a")).not.toBe(tableOf(seats, "d"));
+  });
+
+  it("mixes years and programmes", () => {
+    const { seats } = planSeating(
+      [
+        guest("d1", 2022, "D"),
+        guest("d2", 2022, "D"),
+        guest("c1", 2023, "C"),
+        guest("c2", 2023, "C"),
+      ],
+      [
+        { id: "t1", seatCount: 2 },
+        { id: "t2", seatCount: 2 },
+      ],
+    );
+    expect(tableOf(seats, "d1")).not.toBe(tableOf(seats, "d2"));
+    expect(tableOf(seats, "c1")).not.toBe(tableOf(seats, "c2"));
+  });
+
+  it("numbers seats from one without duplicates", () => {
+    const { seats } = planSeating(
+      [guest("a"), guest("b"), guest("c")],
+      [{ id: "t1", seatCount: 3 }],
+    );
+    expect(seats.map((seat) => seat.seatNumber).sort()).toEqual([1, 2, 3]);
+  });
+
+  it("splits groups larger than any table", () => {
+    const { seats, unseated } = planSeating(
+      [guest("a", null, null, ["b", "c"]), guest("b"), guest("c")],
+      [
+        { id: "t1", seatCount: 2 },
+        { id: "t2", seatCount: 2 },
+      ],
+    );
+    expect(unseated).toEqual([]);
+    expect(seats).toHaveLength(3);
+  });
+
+  it("returns guests who don't fit", () => {
+    const { seats, unseated } = planSeating(
+      [guest("a"), guest("b"), guest("c")],
+      [{ id: "t1", seatCount: 2 }],
+    );
+    expect(seats).toHaveLength(2);
+    expect(unseated).toEqual(["c"]);
+  });
+});
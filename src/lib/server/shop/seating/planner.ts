@@ -0,0 +1,188 @@
+/*
+Automatic seating for tickets with seating tables, e.g. a sittning.
+Guests who wish to sit with each other (directly or through someone else) are kept together at the same table, as long as the group fits.
+Everyone else is spread out so each table gets a mix of class years and programmes.
+The planner is deterministic, so running it twice with the same guests gives the same seating.
+*/
+
+export type SeatingGuest = {
+  // the consumable id
+  id: string;
+  classYear: number | null;
+  classProgramme: string | null;
+  // ids of the guests this guest wants to sit with
+  wishes: string[];
+};
+export type PlannerTable = {
+  id: string;
+  seatCount: number;
+};
+export type PlannedSeat = {
+  consumableId: string;
+  tableId: string;
+  seatNumber: number;
+};
+
+export type WishCandidate = {
+  id: string;
+  // ways the guest can be referred to, e.g. name, student id and email
+  identifiers: string[];
+};
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+/**
+ * Finds the guests a free text "sit with" answer refers to.
+ * Names can be separated by commas, semicolons, new lines or "och"/"and". Each name has to match a guest exactly,
+ * or be the start of exactly one guest's name.
+ */
+export const parseWishes = (
+  answer: string,
+  candidates: WishCandidate[],
+): string[] => {
+  const tokens = answer
+    .split(/[,;\n&+]|\s(?:och|and)\s/i)
+    .map(normalize)
+    .filter((token) => token.length > 0);
+  const matches = new Set<string>();
+  for (const token of tokens) {
+    const exact = candidates.find((candidate) =>
+      candidate.identifiers.some(
+        (identifier) => normalize(identifier) === token,
+      ),
+    );
+    if (exact) {
+      matches.add(exact.id);
+      continue;
+    }
+    if (token.length < 3) continue;
+    const partial = candidates.filter((candidate) =>
+      candidate.identifiers.some((identifier) =>
+        normalize(identifier).startsWith(token),
+      ),
+    );
+    if (partial.length === 1) matches.add(partial[0]!.id);
+  }
+  return [...matches];
+};
+
+/**
+ * Groups guests who wish to sit with each other. Wishes don't have to be mutual.
+ * Guests in a group are ordered so that those who wished for each other end up close.
+ */
+export const groupByWishes = (guests: SeatingGuest[]): SeatingGuest[][] => {
+  const byId = new Map(guests.map((guest) => [guest.id, guest]));
+  const neighbours = new Map<string, Set<string>>(
+    guests.map((guest) => [guest.id, new Set<string>()]),
+  );
+  for (const guest of guests) {
+    for (const wish of guest.wishes) {
+      if (wish === guest.id || !byId.has(wish)) continue;
+      neighbours.get(guest.id)!.add(wish);
+      neighbours.get(wish)!.add(guest.id);
+    }
+  }
+  const visited = new Set<string>();
+  const groups: SeatingGuest[][] = [];
+  for (const guest of guests) {
+    if (visited.has(guest.id)) continue;
+    // breadth first, so wishes are seated next to each other
+    const group: SeatingGuest[] = [];
+    const queue = [guest.id];
+    visited.add(guest.id);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      group.push(byId.get(id)!);
+      for (const neighbour of neighbours.get(id)!) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+        queue.push(neighbour);
+      }
+    }
+    groups.push(group);
+  }
+  return groups;
+};
+
+type TableState = PlannerTable & { guests: SeatingGuest[] };
+
+const freeSeats = (table: TableState) => table.seatCount - table.guests.length;
+
+/**
+ * How similar a guest is to the people already at a table. Lower is better, since we want to mix years and programmes.
+ */
+const similarity = (table: TableState, guest: SeatingGuest) =>
+  table.guests.filter(
+    (other) => guest.classYear !== null && other.classYear === guest.classYear,
+  ).length +
+  table.guests.filter(
+    (other) =>
+      guest.classProgramme !== null &&
+      other.classProgramme === guest.classProgramme,
+  ).length;
+
+/**
+ * Places guests at the tables. Guests who don't fit are returned as unseated.
+ */
+export const planSeating = (
+  guests: SeatingGuest[],
+  tables: PlannerTable[],
+): { seats: PlannedSeat[]; unseated: string[] } => {
+  const states: TableState[] = tables
+    .filter((table) => table.seatCount > 0)
+    .map((table) => ({ ...table, guests: [] }));
+  const unseated: string[] = [];
+  const groups = groupByWishes(guests);
+  const wishGroups = groups
+    .filter((group) => group.length > 1)
+    // largest groups first, since they are the hardest to fit
+    .sort((a, b) => b.length - a.length);
+  const singles = groups.filter((group) => group.length === 1).flat();
+
+  for (const group of wishGroups) {
+    let remaining = group;
+    while (remaining.length > 0) {
+      const withSpace = states.filter((table) => freeSeats(table) > 0);
+      if (withSpace.length === 0) {
+        unseated.push(...remaining.map((guest) => guest.id));
+        break;
+      }
+      // prefer a table where the whole group fits, and then the emptiest one so groups are spread out
+      const fitting = withSpace.filter(
+        (table) => freeSeats(table) >= remaining.length,
+      );
+      const candidates = fitting.length > 0 ? fitting : withSpace;
+      const table = candidates.reduce((best, table) =>
+        freeSeats(table) > freeSeats(best) ? table : best,
+      );
+      const placed = remaining.slice(0, freeSeats(table));
+      table.guests.push(...placed);
+      remaining = remaining.slice(placed.length);
+    }
+  }
+
+  for (const guest of singles) {
+    const withSpace = states.filter((table) => freeSeats(table) > 0);
+    if (withSpace.length === 0) {
+      unseated.push(guest.id);
+      continue;
+    }
+    const table = withSpace.reduce((best, table) => {
+      const difference = similarity(table, guest) - similarity(best, guest);
+      if (difference !== 0) return difference < 0 ? table : best;
+      return freeSeats(table) > freeSeats(best) ? table : best;
+    });
+    table.guests.push(guest);
+  }
+
+  return {
+    seats: states.flatMap((table) =>
+      table.guests.map((guest, index) => ({
+        consumableId: guest.id,
+        tableId: table.id,
+        seatNumber: index + 1,
+      })),
+    ),
+    unseated,
+  };
+};
@@ -0,0 +1,203 @@
+import { getFullName } from "$lib/utils/client/member";
+import type { PrismaClient } from "@prisma/client";
+import { parseWishes, planSeating, type SeatingGuest } from "./planner";
+import type { SeatAssignmentsForm, SeatingTablesForm } from "./types";
+
+/*
+Seating of ticket holders, e.g. for a sittning. Organizers define the tables, let the planner seat everyone and adjust the result by hand.
+Nothing is visible to buyers until the seating is published.
+Everything here uses the enhanced prisma client, only the ticket's author and shop managers can change the seating.
+*/
+
+/**
+ * Loads the tables, seats and guests of a ticket. Guests are the purchased consumables of the ticket.
+ */
+export const getSeating = async (prisma: PrismaClient, ticketId: string) => {
+  const ticket = await prisma.ticket.findUniqueOrThrow({
+    where: { id: ticketId },
+    include: {
+      shoppable: {
+        include: {
+          questions: {
+            where: { removedAt: null },
+            orderBy: { title: "asc" },
+          },
+        },
+      },
+      seatingTables: {
+        orderBy: { order: "asc" },
+        include: { seats: true },
+      },
+    },
+  });
+  const consumables = await prisma.consumable.findMany({
+    where: {
+      shoppableId: ticketId,
+      purchasedAt: { not: null },
+    },
+    include: {
+      member: true,
+      questionResponses: true,
+    },
+    orderBy: { purchasedAt: "asc" },
+  });
+  const guests = consumables.map((consumable) => ({
+    id: consumable.id,
+    name: consumable.member
+      ? getFullName(consumable.member)
+      : (consumable.externalCustomerEmail ?? "Okänd"),
+    studentId: consumable.member?.studentId ?? null,
+    classYear: consumable.member?.classYear ?? null,
+    classProgramme: consumable.member?.classProgramme ?? null,
+    sitWith:
+      consumable.questionResponses.find(
+        (response) => response.questionId === ticket.sitWithQuestionId,
+      )?.answer ?? null,
+  }));
+  return { ticket, guests };
+};
+export type SeatingGuestInfo = Awaited<
+  ReturnType<typeof getSeating>
+>["guests"][number];
+
+/**
+ * Replaces the tables of a ticket. Tables without an id are created, and tables missing from the list are removed together with their seats.
+ * Seats that no longer exist because a table got smaller are removed as well.
+ * @returns the saved tables, in order
+ */
+export const saveSeatingTables = async (
+  prisma: PrismaClient,
+  ticketId: string,
+  data: SeatingTablesForm,
+) => {
+  return await prisma.$transaction(async (tx) => {
+    if (
+      data.sitWithQuestionId &&
+      !(await tx.itemQuestion.findFirst({
+        where: { id: data.sitWithQuestionId, shoppableId: ticketId },
+      }))
+    )
+      throw new Error("Frågan hör inte till biljetten");
+    await tx.ticket.update({
+      where: { id: ticketId },
+      data: { sitWithQuestionId: data.sitWithQuestionId },
+    });
+    const keptIds = data.tables.flatMap((table) =>
+      table.id ? [table.id] : [],
+    );
+    await tx.seatingTable.deleteMany({
+      where: { ticketId, id: { notIn: keptIds } },
+    });
+    const saved = [];
+    for (const [order, table] of data.tables.entries()) {
+      if (table.id) {
+        const updated = await tx.seatingTable.update({
+          where: { id: table.id, ticketId },
+          data: { name: table.name, seatCount: table.seatCount, order },
+        });
+        await tx.seatAssignment.deleteMany({
+          where: { tableId: table.id, seatNumber: { gt: table.seatCount } },
+        });
+        saved.push(updated);
+      } else {
+        saved.push(
+          await tx.seatingTable.create({
+            data: {
+              ticketId,
+              name: table.name,
+              seatCount: table.seatCount,
+              order,
+            },
+          }),
+        );
+      }
+    }
+    return saved;
+  });
+};
+
+/**
+ * Replaces all seats of a ticket, after checking that every seat exists and is only used once.
+ */
+export const saveSeatAssignments = async (
+  prisma: PrismaClient,
+  ticketId: string,
+  seats: SeatAssignmentsForm["seats"],
+) => {
+  const { ticket, guests } = await getSeating(prisma, ticketId);
+  const guestIds = new Set(guests.map((guest) => guest.id));
+  const usedSeats = new Set<string>();
+  const seatedGuests = new Set<string>();
+  for (const seat of seats) {
+    const table = ticket.seatingTables.find((t) => t.id === seat.tableId);
+    if (!table || seat.seatNumber > table.seatCount)
+      throw new Error("Platsen finns inte");
+    if (!guestIds.has(seat.consumableId))
+      throw new Error("Biljetten finns inte");
+    const key = `${seat.tableId}:${seat.seatNumber}`;
+    if (usedSeats.has(key) || seatedGuests.has(seat.consumableId))
+      throw new Error("Samma plats eller biljett finns flera gånger");
+    usedSeats.add(key);
+    seatedGuests.add(seat.consumableId);
+  }
+  await prisma.$transaction(async (tx) => {
+    await tx.seatAssignment.deleteMany({
+      where: { table: { ticketId } },
+    });
+    await tx.seatAssignment.createMany({ data: seats });
+  });
+};
+
+/**
+ * Seats every guest automatically, replacing the current seating.
+ * Guests are grouped by the answers to the ticket's "sit with" question, and otherwise mixed by class year and programme.
+ * @returns the number of guests who didn't fit at the tables
+ */
+export const runSeatingPlanner = async (
+  prisma: PrismaClient,
+  ticketId: string,
+) => {
+  const { ticket, guests } = await getSeating(prisma, ticketId);
+  const consumables = await prisma.consumable.findMany({
+    where: { id: { in: guests.map((guest) => guest.id) } },
+    include: { member: true },
+  });
+  const candidates = consumables.map((consumable) => ({
+    id: consumable.id,
+    identifiers: [
+      consumable.member ? getFullName(consumable.member) : null,
+      consumable.member
+        ? `${consumable.member.firstName} ${consumable.member.lastName}`
+        : null,
+      consumable.member?.nickname,
+      consumable.member?.studentId,
+      consumable.member?.email,
+      consumable.externalCustomerEmail,
+    ].filter((identifier): identifier is string => !!identifier),
+  }));
+  const plannerGuests: SeatingGuest[] = guests.map((guest) => ({
+    id: guest.id,
+    classYear: guest.classYear,
+    classProgramme: guest.classProgramme,
+    wishes: guest.sitWith
+      ? parseWishes(
+          guest.sitWith,
+          candidates.filter((candidate) => candidate.id !== guest.id),
+        )
+      : [],
+  }));
+  const { seats, unseated } = planSeating(plannerGuests, ticket.seatingTables);
+  await saveSeatAssignments(prisma, ticketId, seats);
+  return unseated.length;
+};
+
+export const setSeatingPublished = async (
+  prisma: PrismaClient,
+  ticketId: string,
+  published: boolean,
+) => {
+  await prisma.ticket.update({
+    where: { id: ticketId },
+    data: { seatingPublishedAt: published ? new Date() : null },
+  });
+};
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+export const seatingTablesSchema = z.object({
+  sitWithQuestionId: z.string().uuid().nullable(),
+  tables: z.array(
+    z.object({
+      id: z.string().uuid().optional(),
+      name: z.string().min(1, "Bordet behöver ett namn"),
+      seatCount: z.number().int().min(1).max(200),
+    }),
+  ),
+});
+export type SeatingTablesForm = z.infer<typeof seatingTablesSchema>;
+
+export const seatAssignmentsSchema = z.object({
+  seats: z.array(
+    z.object({
+      consumableId: z.string().uuid(),
+      tableId: z.string().uuid(),
+      seatNumber: z.number().int().min(1),
+    }),
+  ),
+});
+export type SeatAssignmentsForm = z.infer<typeof seatAssignmentsSchema>;
@@ -3,6 +3,7 @@ import {
   AddToCartStatus,
   type AddToCartResult,
 } from "$lib/server/shop/addToCart/addToCart";
+import { joinTicketWaitlist } from "$lib/server/shop/addToCart/waitlist";
 import apiNames from "$lib/utils/apiNames";
 import { authorize } from "$lib/utils/authorization";
 import { redirect } from "$lib/utils/redirect";
@@ -77,4 +78,26 @@ export const ticketPageActions = (prefix = "/shop/"): Actions => ({
       event,
     );
   },
+  joinWaitlist: async ({ locals, request }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.WEBSHOP.PURCHASE, user);
+    const form = await superValidate(request, zod(addToCartSchema));
+    if (!form.valid) return fail(400, { form });
+    if (!user?.memberId && !user?.externalCode) {
+      return fail(401, { form });
+    }
+    let position: number;
+    try {
+      position = await joinTicketWaitlist(prisma, form.data.ticketId, user);
+    } catch (err) {
+      return message(form, {
+        message: err instanceof Error ? err.message : String(err),
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: m.tickets_waitlist_joined({ position }),
+      type: "success",
+    });
+  },
 });
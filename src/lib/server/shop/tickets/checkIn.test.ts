@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  createConsumableCode,
+  parseConsumableCode,
+  verifyConsumableCode,
+} from "./checkIn";
+
+const consumable = {
+  id: "7b1c2a40-0d0a-4b5e-9a34-0f3c1e6a2b11",
+  shoppableId: "c2f0d6a8-5a2b-4c5e-8f3d-1b9e7a6c4d22",
+  memberId: "3d5e7f90-1a2b-4c3d-8e9f-a0b1c2d3e4f5",
+  externalCustomerCode: null,
+};
+
+describe("consumable codes", () => {
+  it("verifies a code it created", () => {
+    const code = createConsumableCode(consumable);
+    expect(parseConsumableCode(code)).toMatchObject({
+      consumableId: consumable.id,
+      shoppableId: consumable.shoppableId,
+    });
+    expect(verifyConsumableCode(consumable, code)).toBe(true);
+  });
+
+  it("ignores surrounding whitespace", () => {
+    const code = createConsumableCode(consumable);
+    expect(parseConsumableCode(`  ${code}\n`)).not.toBeNull();
+    expect(verifyConsumableCode(consumable, `  ${code}\n`)).toBe(true);
+  });
+
+  it("rejects a code for another shoppable", () => {
+    const [consumableId, , signature] =
+      createConsumableCode(consumable).split(".");
+    const otherShoppableId = "00000000-0000-0000-0000-000000000000";
+    const tampered = [consumableId, otherShoppableId, signature].join(".");
+    expect(
+      verifyConsumableCode(
+        { ...consumable, shoppableId: otherShoppableId },
+        tampered,
+      ),
+    ).toBe(false);
+  });
+
+  it("rejects a code with a forged signature", () => {
+    const forged = `${consumable.id}.${consumable.shoppableId}.forged`;
+    expect(verifyConsumableCode(consumable, forged)).toBe(false);
+  });
+
+  it("rejects the code of a previous owner", () => {
+    const code = createConsumableCode(consumable);
+    expect(
+      verifyConsumableCode(
+        {
+          ...consumable,
+          memberId: null,
+          externalCustomerCode: "external-code",
+        },
+        code,
+      ),
+    ).toBe(false);
+  });
+
+  it("rejects malformed codes", () => {
+    expect(parseConsumableCode("")).toBeNull();
+    expect(parseConsumableCode("Sittning")).toBeNull();
+    expect(parseConsumableCode("a.b.c.d")).toBeNull();
+    expect(verifyConsumableCode(consumable, "a.b.c.d")).toBe(false);
+  });
+});
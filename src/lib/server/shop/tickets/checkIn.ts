@@ -0,0 +1,165 @@
+import { env } from "$env/dynamic/private";
+import type { Consumable, Member, PrismaClient } from "@prisma/client";
+import { CheckInStatus } from "$lib/utils/shop/types";
+import { createHmac, timingSafeEqual } from "crypto";
+
+// The QR code on a ticket contains "<consumableId>.<shoppableId>.<signature>".
+// The signature is an HMAC of the two ids and the current owner, so a code can't be forged or altered without the server secret,
+// and a code stops working when the consumable is transferred to someone else.
+const CODE_SEPARATOR = ".";
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type CodeConsumable = Pick<
+  Consumable,
+  "id" | "shoppableId" | "memberId" | "externalCustomerCode"
+>;
+
+const sign = (consumable: CodeConsumable) =>
+  createHmac("sha256", `consumable-code:${env.AUTH_SECRET}`)
+    .update(
+      [
+        consumable.id,
+        consumable.shoppableId,
+        consumable.memberId ?? consumable.externalCustomerCode ?? "",
+      ].join(CODE_SEPARATOR),
+    )
+    .digest("base64url");
+
+/**
+ * Creates the signed code which is shown as a QR code in the owner's inventory.
+ */
+export const createConsumableCode = (consumable: CodeConsumable) =>
+  [consumable.id, consumable.shoppableId, sign(consumable)].join(
+    CODE_SEPARATOR,
+  );
+
+/**
+ * Parses a code created by `createConsumableCode`. The signature has to be checked with `verifyConsumableCode` once the consumable is fetched.
+ * @returns the parts of the code, or null if the code is malformed
+ */
+export const parseConsumableCode = (
+  code: string,
+): { consumableId: string; shoppableId: string; signature: string } | null => {
+  const parts = code.trim().split(CODE_SEPARATOR);
+  if (parts.length !== 3 || parts.some((part) => part.length === 0))
+    return null;
+  const [consumableId, shoppableId, signature] = parts as [
+    string,
+    string,
+    string,
+  ];
+  // the ids are used in database queries before the signature can be checked
+  if (!UUID_REGEX.test(consumableId) || !UUID_REGEX.test(shoppableId))
+    return null;
+  return { consumableId, shoppableId, signature };
+};
+
+/**
+ * @returns whether the code was created for the consumable, as it is owned right now
+ */
+export const verifyConsumableCode = (
+  consumable: CodeConsumable,
+  code: string,
+) => {
+  const parsed = parseConsumableCode(code);
+  if (
+    !parsed ||
+    parsed.consumableId !== consumable.id ||
+    parsed.shoppableId !== consumable.shoppableId
+  )
+    return false;
+  const expected = Buffer.from(sign(consumable));
+  const actual = Buffer.from(parsed.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+export type CheckInResult = {
+  status: CheckInStatus;
+  consumedAt?: Date;
+  // who the ticket belongs to, shown to the person scanning
+  holder?: Pick<
+    Member,
+    "firstName" | "lastName" | "nickname" | "studentId"
+  > | null;
+  externalCustomerEmail?: string | null;
+};
+
+/**
+ * Verifies a scanned code and marks the consumable as consumed, all in one step.
+ * The prisma client should be the user's own, so the consumedAt field policy (webshop:consume) is enforced.
+ * @param shoppableId the shoppable the scanner is checking in for
+ * @param code the scanned code
+ */
+export const checkInConsumable = async (
+  prisma: PrismaClient,
+  shoppableId: string,
+  code: string,
+): Promise<CheckInResult> => {
+  const parsed = parseConsumableCode(code);
+  if (!parsed) return { status: CheckInStatus.InvalidCode };
+
+  const consumable = await prisma.consumable.findUnique({
+    where: {
+      id: parsed.consumableId,
+    },
+    include: {
+      member: true,
+    },
+  });
+  // refunded consumables are deleted, so they end up here as well
+  if (!consumable || consumable.purchasedAt === null)
+    return { status: CheckInStatus.NotPurchased };
+  // also fails for codes of a previous owner, if the consumable has been transferred
+  if (!verifyConsumableCode(consumable, code))
+    return { status: CheckInStatus.InvalidCode };
+  if (consumable.shoppableId !== shoppableId)
+    return { status: CheckInStatus.WrongEvent };
+
+  const holder = consumable.member
+    ? {
+        firstName: consumable.member.firstName,
+        lastName: consumable.member.lastName,
+        nickname: consumable.member.nickname,
+        studentId: consumable.member.studentId,
+      }
+    : null;
+  const externalCustomerEmail = consumable.externalCustomerEmail;
+
+  if (consumable.consumedAt !== null)
+    return {
+      status: CheckInStatus.AlreadyConsumed,
+      consumedAt: consumable.consumedAt,
+      holder,
+      externalCustomerEmail,
+    };
+
+  const now = new Date();
+  // only update if still unconsumed, so two scanners can't check in the same ticket twice
+  const { count } = await prisma.consumable.updateMany({
+    where: {
+      id: consumable.id,
+      consumedAt: null,
+    },
+    data: {
+      consumedAt: now,
+    },
+  });
+  if (count === 0) {
+    const updated = await prisma.consumable.findUnique({
+      where: { id: consumable.id },
+    });
+    return {
+      status: CheckInStatus.AlreadyConsumed,
+      consumedAt: updated?.consumedAt ?? now,
+      holder,
+      externalCustomerEmail,
+    };
+  }
+  return {
+    status: CheckInStatus.CheckedIn,
+    consumedAt: now,
+    holder,
+    externalCustomerEmail,
+  };
+};
@@ -1,3 +1,4 @@
+import { normalizeDiscountCode } from "$lib/server/shop/cart/discountCodes";
 import type { TransactionClient } from "$lib/server/shop/types";
 import type { TicketSchema } from "$lib/utils/shop/types";
 import { PrismaClient, ShoppableType } from "@prisma/client";
@@ -20,8 +21,11 @@ export const createTicket = async (
             description: data.description,
             descriptionEn: data.descriptionEn,
             price: Math.round(data.price * 100),
-            availableFrom: data.availableFrom,
+            availableFrom: getSaleStart(data),
             availableTo: data.availableTo,
+            refundPolicy: data.refundPolicy,
+            refundDeadline: data.refundDeadline ?? null,
+            refundPercentageAfterDeadline: data.refundPercentageAfterDeadline,
             type: ShoppableType.TICKET,
             authorId: authorId,
             accessPolicies:
@@ -43,6 +47,9 @@ export const createTicket = async (
         maxAmountPerUser: data.maxAmountPerUser, // optional
       },
     });
+    await updatePricing(tx, ticket.id, data);
+    await updateReleasePhases(tx, ticket.id, data);
+    await updateAddonsAndBundle(tx, ticket.id, data);
     for (const question of data.questions) {
       await tx.itemQuestion.create({
         data: {
@@ -92,8 +99,11 @@ export const updateTicket = async (
             description: data.description,
             descriptionEn: data.descriptionEn,
             price: Math.round(data.price * 100),
-            availableFrom: data.availableFrom,
+            availableFrom: getSaleStart(data),
             availableTo: data.availableTo,
+            refundPolicy: data.refundPolicy,
+            refundDeadline: data.refundDeadline ?? null,
+            refundPercentageAfterDeadline: data.refundPercentageAfterDeadline,
             type: ShoppableType.TICKET,
             accessPolicies:
               updatedPolicies && updatedPolicies.length > 0
@@ -130,9 +140,197 @@ export const updateTicket = async (
       });
     }
     await updateQuestions(tx, ticketId, updatedQuestions, newQuestions);
+    await updatePricing(tx, ticketId, data);
+    await updateReleasePhases(tx, ticketId, data);
+    await updateAddonsAndBundle(tx, ticketId, data);
   });
 };
 
+/**
+ * With release phases, the sale starts when the first phase starts.
+ */
+const getSaleStart = (
+  data: Pick<TicketSchema, "availableFrom" | "releasePhases">,
+) =>
+  (data.releasePhases ?? []).reduce(
+    (start, phase) => (phase.startsAt < start ? phase.startsAt : start),
+    data.releasePhases?.[0]?.startsAt ?? data.availableFrom,
+  );
+
+/**
+ * Replaces the release phases of a ticket.
+ */
+const updateReleasePhases = async (
+  tx: TransactionClient,
+  ticketId: string,
+  data: Pick<TicketSchema, "releasePhases">,
+) => {
+  await tx.shoppableReleasePhase.deleteMany({
+    where: {
+      shoppableId: ticketId,
+    },
+  });
+  if (data.releasePhases && data.releasePhases.length > 0) {
+    await tx.shoppableReleasePhase.createMany({
+      data: data.releasePhases.map((phase) => ({
+        shoppableId: ticketId,
+        name: phase.name,
+        nameEn: phase.nameEn || null,
+        role: phase.role || null,
+        startsAt: phase.startsAt,
+        stock: phase.stock,
+      })),
+    });
+  }
+};
+
+/**
+ * Replaces the price tiers, and updates the discount codes of a ticket.
+ * Discount codes are kept (not recreated) when possible, since they keep track of their uses.
+ */
+const updatePricing = async (
+  tx: TransactionClient,
+  ticketId: string,
+  data: Pick<TicketSchema, "priceTiers" | "discountCodes">,
+) => {
+  await tx.shoppablePriceTier.deleteMany({
+    where: {
+      shoppableId: ticketId,
+    },
+  });
+  if (data.priceTiers && data.priceTiers.length > 0) {
+    await tx.shoppablePriceTier.createMany({
+      data: data.priceTiers.map((tier) => ({
+        shoppableId: ticketId,
+        role: tier.role,
+        price: Math.round(tier.price * 100),
+      })),
+    });
+  }
+
+  const discountCodes = (data.discountCodes ?? []).map(
+    ({ id, ...discountCode }) => ({
+      id,
+      data: {
+        ...discountCode,
+        code: normalizeDiscountCode(discountCode.code),
+        discountAmount:
+          discountCode.discountAmount !== null
+            ? Math.round(discountCode.discountAmount * 100)
+            : null,
+      },
+    }),
+  );
+  await tx.shoppableDiscountCode.deleteMany({
+    where: {
+      shoppableId: ticketId,
+      id: {
+        notIn: discountCodes.flatMap((dc) => (dc.id ? [dc.id] : [])),
+      },
+    },
+  });
+  for (const discountCode of discountCodes) {
+    if (discountCode.id) {
+      await tx.shoppableDiscountCode.update({
+        where: {
+          id: discountCode.id,
+          shoppableId: ticketId,
+        },
+        data: discountCode.data,
+      });
+    } else {
+      await tx.shoppableDiscountCode.create({
+        data: {
+          ...discountCode.data,
+          shoppableId: ticketId,
+        },
+      });
+    }
+  }
+};
+
+/**
+ * Tickets to events which haven't ended, which can be picked as add-on parent or bundle items in the ticket form.
+ */
+export const getTicketsForAddonsAndBundles = async (prisma: PrismaClient) =>
+  (
+    await prisma.ticket.findMany({
+      where: {
+        event: { endDatetime: { gte: new Date() } },
+        shoppable: { removedAt: null },
+      },
+      include: { shoppable: true },
+    })
+  ).map((ticket) => ({
+    id: ticket.id,
+    eventId: ticket.eventId,
+    title: ticket.shoppable.title,
+  }));
+
+/**
+ * Sets which ticket this ticket is an add-on to, and replaces the tickets included in it if it is a bundle.
+ * Add-ons and bundle items have to belong to the same event, and can't be add-ons or bundles themselves.
+ */
+const updateAddonsAndBundle = async (
+  tx: TransactionClient,
+  ticketId: string,
+  data: Pick<TicketSchema, "eventId" | "addonToId" | "bundleItemIds">,
+) => {
+  const addonToId = data.addonToId ?? null;
+  const bundleItemIds = data.bundleItemIds ?? [];
+  const related = await tx.ticket.findMany({
+    where: {
+      id: {
+        in: [...bundleItemIds, ...(addonToId ? [addonToId] : [])],
+      },
+    },
+    include: {
+      shoppable: {
+        include: {
+          bundleItems: true,
+        },
+      },
+    },
+  });
+  for (const id of [...bundleItemIds, ...(addonToId ? [addonToId] : [])]) {
+    const ticket = related.find((t) => t.id === id);
+    if (!ticket || ticket.id === ticketId || ticket.eventId !== data.eventId)
+      throw new Error(
+        "Tillägg och paket kan bara innehålla andra biljetter till samma evenemang",
+      );
+    if (
+      ticket.shoppable.addonToId !== null ||
+      ticket.shoppable.bundleItems.length > 0
+    )
+      throw new Error("Ett tillägg eller paket kan inte ingå i ett annat");
+  }
+  const usedAsAddonOrBundleItem = await tx.shoppable.count({
+    where: {
+      OR: [{ addonToId: ticketId }, { inBundles: { some: {} }, id: ticketId }],
+    },
+  });
+  if ((addonToId || bundleItemIds.length > 0) && usedAsAddonOrBundleItem > 0)
+    throw new Error(
+      "Biljetten har tillägg eller ingår i ett paket, och kan därför inte själv vara ett tillägg eller paket",
+    );
+
+  await tx.shoppable.update({
+    where: { id: ticketId },
+    data: { addonToId },
+  });
+  await tx.shoppableBundleItem.deleteMany({
+    where: { bundleId: ticketId },
+  });
+  if (bundleItemIds.length > 0) {
+    await tx.shoppableBundleItem.createMany({
+      data: bundleItemIds.map((shoppableId) => ({
+        bundleId: ticketId,
+        shoppableId,
+      })),
+    });
+  }
+};
+
 const updateQuestions = async (
   tx: TransactionClient,
   ticketId: string,
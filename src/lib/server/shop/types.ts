@@ -4,6 +4,13 @@ export type TransactionClient = Parameters<
   Parameters<PrismaClient["$transaction"]>[0]
 >[0];
 
+/**
+ * Locks the tickets until the transaction ends, so that their stock can be counted without anyone else taking the last one meanwhile.
+ * They are locked in id order, so that transactions locking some of the same tickets can't deadlock.
+ */
+export const lockTickets = (prisma: TransactionClient, ticketIds: string[]) =>
+  prisma.$queryRaw`SELECT id FROM ticket WHERE id = ANY(${ticketIds}::uuid[]) ORDER BY id FOR UPDATE`;
+
 export type ShopIdentification =
   | {
       memberId: string;
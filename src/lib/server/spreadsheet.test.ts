@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { toCSV, toXLSX } from "./spreadsheet";
+
+describe("csv", () => {
+  it("starts with a byte order mark", () =>
+    expect(toCSV([["a"]]).startsWith("\uFEFF")).toBe(true));
+
+  it("quotes cells with separators, quotes and line breaks", () =>
+    expect(toCSV([["a,b", 'say "hi"', "two\nlines", 1, null]])).toBe(
+      '\uFEFF"a,b","say ""hi""","two\nlines",1,\r\n',
+    ));
+
+  it("keeps text from running as a formula", () =>
+    expect(
+      toCSV([["=HYPERLINK(1)", "+46 70", "-1", "@SUM(A1)", "\tx", -1, "a=b"]]),
+    ).toBe("\uFEFF'=HYPERLINK(1),'+46 70,'-1,'@SUM(A1),'\tx,-1,a=b\r\n"));
+});
+
+describe("xlsx", () => {
+  const file = toXLSX(
+    [
+      ["Namn", "Pris"],
+      ["Åsa <3 & co", 120],
+      ["=1+1", -5],
+    ],
+    "Sittning: vår/höst",
+  );
+  const text = file.toString("utf8");
+
+  it("is a zip archive", () => {
+    expect(file.readUInt32LE(0)).toBe(0x04034b50);
+    expect(file.readUInt32LE(file.length - 22)).toBe(0x06054b50);
+  });
+
+  it("writes text as escaped inline strings and numbers as values", () => {
+    expect(text).toContain(
+      '<c r="A2" t="inlineStr"><is><t xml:space="preserve">Åsa &lt;3 &amp; co</t></is></c>',
+    );
+    expect(text).toContain('<c r="B2"><v>120</v></c>');
+  });
+
+  it("keeps text from running as a formula", () => {
+    expect(text).toContain('<t xml:space="preserve">\'=1+1</t>');
+    expect(text).toContain('<c r="B3"><v>-5</v></c>');
+  });
+
+  it("removes characters which are not allowed in sheet names", () =>
+    expect(text).toContain('<sheet name="Sittning  vår höst"'));
+});
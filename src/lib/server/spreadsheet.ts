@@ -0,0 +1,149 @@
+/*
+Helpers for exporting tables as CSV or XLSX files, e.g. guest lists.
+XLSX files are zip archives of XML files. Only a single sheet with text cells is needed, so they are written by hand (uncompressed) instead of pulling in a library.
+*/
+
+export type SpreadsheetRow = Array<string | number | null | undefined>;
+
+/**
+ * Text starting like a formula is prefixed with an apostrophe, so that a spreadsheet program shows it instead of running it.
+ * Cells often contain what buyers have written themselves, like names and answers.
+ */
+const neutralizeFormula = (text: string) =>
+  /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+
+const csvCell = (value: SpreadsheetRow[number]) => {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "number"
+        ? String(value)
+        : neutralizeFormula(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+/**
+ * Creates a CSV file, starting with a byte order mark so Excel opens it as UTF-8.
+ */
+export const toCSV = (rows: SpreadsheetRow[]) =>
+  "\uFEFF" +
+  rows.map((row) => row.map(csvCell).join(",")).join("\r\n") +
+  "\r\n";
+
+const escapeXml = (text: string) =>
+  text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    // eslint-disable-next-line no-control-regex -- control characters are not allowed in XML
+    .replaceAll(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") +
+  String.fromCharCode(65 + (index % 26));
+
+const xlsxCell = (value: SpreadsheetRow[number], ref: string) => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return `<c r="${ref}"><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    neutralizeFormula(value),
+  )}</t></is></c>`;
+};
+
+const sheetXml = (rows: SpreadsheetRow[]) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows
+    .map(
+      (row, rowIndex) =>
+        `<row r="${rowIndex + 1}">${row
+          .map((value, columnIndex) =>
+            xlsxCell(value, `${columnName(columnIndex)}${rowIndex + 1}`),
+          )
+          .join("")}</row>`,
+    )
+    .join("")}</sheetData></worksheet>`;
+
+const xlsxFiles = (rows: SpreadsheetRow[], sheetName: string) => ({
+  "[Content_Types].xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+  "_rels/.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+  "xl/workbook.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(
+    // sheet names are limited to 31 characters, and can't contain some characters
+    sheetName.replaceAll(/[\\/?*[\]:]/g, " ").slice(0, 31) || "Sheet1",
+  )}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  "xl/_rels/workbook.xml.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+  "xl/worksheets/sheet1.xml": sheetXml(rows),
+});
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Creates an uncompressed zip archive of the given files.
+ */
+const zip = (files: Record<string, string>) => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name, "utf8");
+    const data = Buffer.from(content, "utf8");
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0); // local file header signature
+    local.writeUInt16LE(20, 4); // version needed to extract
+    local.writeUInt16LE(0x0800, 6); // file names are UTF-8
+    local.writeUInt16LE(0, 8); // stored, no compression
+    local.writeUInt32LE(0, 10); // modification time and date
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18); // compressed size
+    local.writeUInt32LE(data.length, 22); // uncompressed size
+    local.writeUInt16LE(nameBuffer.length, 26);
+    local.writeUInt16LE(0, 28); // extra field length
+    localParts.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // central directory header signature
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed to extract
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(0, 10);
+    central.writeUInt32LE(0, 12);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    // extra field, comment, disk number, attributes are all zero
+    central.writeUInt32LE(offset, 42); // offset of the local header
+    centralParts.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  }
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // end of central directory signature
+  end.writeUInt16LE(Object.keys(files).length, 8); // entries on this disk
+  end.writeUInt16LE(Object.keys(files).length, 10); // total entries
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16); // offset of the central directory
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+/**
+ * Creates an XLSX file with a single sheet. Numbers are written as numbers, everything else as text.
+ */
+export const toXLSX = (rows: SpreadsheetRow[], sheetName: string) =>
+  zip(xlsxFiles(rows, sheetName));
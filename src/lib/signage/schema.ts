@@ -0,0 +1,49 @@
+import { isFileImage } from "$lib/files/utils";
+import {
+  DEFAULT_SLIDE_DURATION_SECONDS,
+  slideTypes,
+} from "$lib/signage/slides";
+import type { Infer } from "sveltekit-superforms";
+import { z } from "zod";
+
+export const screenSchema = z.object({
+  name: z.string().min(1).max(255),
+  // used in the screen's url, /signage/[slug]
+  slug: z
+    .string()
+    .min(1)
+    .max(255)
+    .regex(/^[a-z0-9-]+$/, "Bara små bokstäver, siffror och bindestreck"),
+});
+export type ScreenSchema = Infer<typeof screenSchema>;
+
+export const slideSchema = z.object({
+  type: z.enum(slideTypes).default("EVENTS"),
+  durationSeconds: z
+    .number()
+    .int()
+    .min(5)
+    .max(600)
+    .default(DEFAULT_SLIDE_DURATION_SECONDS),
+  title: z.string().max(255).nullable().default(null),
+  tagId: z.string().uuid().nullable().default(null),
+  // only for uploading the image of image slides
+  image: z
+    .instanceof(File, { message: "Please upload a file" })
+    .nullable()
+    .optional()
+    .refine((file) => !file || isFileImage(file), {
+      message: "Måste vara en bild",
+    }),
+});
+export type SlideSchema = Infer<typeof slideSchema>;
+
+export const slideIdSchema = z.object({
+  slideId: z.string().uuid(),
+});
+export const moveSlideSchema = slideIdSchema.extend({
+  direction: z.enum(["up", "down"]),
+});
+export const updateSlideSchema = slideSchema
+  .pick({ durationSeconds: true, title: true, tagId: true })
+  .merge(slideIdSchema);
@@ -0,0 +1,127 @@
+import { BASIC_EVENT_FILTER } from "$lib/events/events";
+import { BASIC_ARTICLE_FILTER } from "$lib/news/articles";
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import { birthdayToday, cafeDayIndex } from "$lib/signage/slides";
+import type { Member, PrismaClient, SignageSlide } from "@prisma/client";
+
+const loadSlideContent = async (
+  prisma: PrismaClient,
+  slide: SignageSlide,
+  now: Date,
+) => {
+  switch (slide.type) {
+    case "EVENTS": {
+      const events = await prisma.event.findMany({
+        where: {
+          AND: [
+            BASIC_EVENT_FILTER(slide.tagId ? null : false),
+            { OR: [{ isCancelled: false }, { isCancelled: null }] },
+          ],
+          ...(slide.tagId && { tags: { some: { id: slide.tagId } } }),
+          endDatetime: { gt: now },
+        },
+        orderBy: { startDatetime: "asc" },
+        take: 4,
+        select: {
+          id: true,
+          title: true,
+          shortDescription: true,
+          location: true,
+          imageUrl: true,
+          startDatetime: true,
+          endDatetime: true,
+        },
+      });
+      return { type: "EVENTS" as const, events, isEmpty: events.length === 0 };
+    }
+    case "NEWS": {
+      const articles = await prisma.article.findMany({
+        where: BASIC_ARTICLE_FILTER(),
+        orderBy: { publishedAt: "desc" },
+        take: 3,
+        select: {
+          id: true,
+          header: true,
+          body: true,
+          imageUrl: true,
+          publishedAt: true,
+        },
+      });
+      return {
+        type: "NEWS" as const,
+        articles,
+        isEmpty: articles.length === 0,
+      };
+    }
+    case "CAFE_HOURS": {
+      const openingHours = await prisma.markdown.findMany({
+        where: { name: { startsWith: "cafe:open" } },
+        orderBy: { name: "asc" },
+      });
+      return {
+        type: "CAFE_HOURS" as const,
+        openingHours,
+        today: cafeDayIndex(now),
+        isEmpty: openingHours.length === 0,
+      };
+    }
+    case "ALERTS": {
+      const alerts = await prisma.alert.findMany({
+        where: { removedAt: null },
+        orderBy: { createdAt: "desc" },
+      });
+      return { type: "ALERTS" as const, alerts, isEmpty: alerts.length === 0 };
+    }
+    case "BIRTHDAYS": {
+      // birthdays can't be read by guests, which the screens usually are, so only the names and pictures are passed on
+      const { month, day } = birthdayToday(now);
+      const birthdays = await authorizedPrismaClient.$queryRaw<
+        Array<
+          Pick<
+            Member,
+            "id" | "firstName" | "nickname" | "lastName" | "picturePath"
+          >
+        >
+      >`
+        SELECT id, first_name AS "firstName", nickname, last_name AS "lastName", picture_path AS "picturePath"
+        FROM members
+        WHERE visible AND EXTRACT(MONTH FROM birthday) = ${month} AND EXTRACT(DAY FROM birthday) = ${day}
+        ORDER BY first_name, last_name`;
+      return {
+        type: "BIRTHDAYS" as const,
+        members: birthdays,
+        isEmpty: birthdays.length === 0,
+      };
+    }
+    case "IMAGE":
+      return { type: "IMAGE" as const, isEmpty: !slide.imageUrl };
+    default:
+      return { type: null, isEmpty: true };
+  }
+};
+
+/**
+ * A screen with the content of each of its slides, see signage/slides.ts.
+ */
+export const loadSignageScreen = async (
+  prisma: PrismaClient,
+  slug: string,
+  now = new Date(),
+) => {
+  const screen = await prisma.signageScreen.findUnique({
+    where: { slug },
+    include: { slides: { orderBy: { order: "asc" } } },
+  });
+  if (!screen) return null;
+  const slides = await Promise.all(
+    screen.slides.map(async (slide) => ({
+      ...slide,
+      content: await loadSlideContent(prisma, slide, now),
+    })),
+  );
+  return { screen, slides };
+};
+
+export type SignageSlideWithContent = NonNullable<
+  Awaited<ReturnType<typeof loadSignageScreen>>
+>["slides"][number];
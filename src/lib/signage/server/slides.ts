@@ -0,0 +1,76 @@
+import { PUBLIC_BUCKETS_FILES } from "$env/static/public";
+import { uploadFile } from "$lib/files/uploadFiles";
+import type { SlideSchema } from "$lib/signage/schema";
+import * as m from "$paraglide/messages";
+import type { PrismaClient } from "@prisma/client";
+import type { AuthUser } from "@zenstackhq/runtime";
+
+/**
+ * Adds a slide to the end of the screen's playlist. Image slides need an image, which is uploaded.
+ */
+export const addSignageSlide = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  screenId: string,
+  { type, durationSeconds, title, tagId, image }: SlideSchema,
+) => {
+  if (type === "IMAGE" && !image)
+    throw new Error(m.admin_signage_errors_imageRequired());
+  const last = await prisma.signageSlide.findFirst({
+    where: { screenId },
+    orderBy: { order: "desc" },
+  });
+  const imageUrl =
+    type === "IMAGE" && image
+      ? await uploadFile(
+          user,
+          image,
+          `public/signage/${screenId}`,
+          PUBLIC_BUCKETS_FILES,
+          crypto.randomUUID(),
+          { resize: { width: 1920 } },
+        )
+      : null;
+  await prisma.signageSlide.create({
+    data: {
+      screenId,
+      type,
+      durationSeconds,
+      title,
+      tagId: type === "EVENTS" ? tagId : null,
+      imageUrl,
+      order: (last?.order ?? -1) + 1,
+    },
+  });
+};
+
+/**
+ * Swaps the slide with the one before or after it in the playlist.
+ */
+export const moveSignageSlide = async (
+  prisma: PrismaClient,
+  slideId: string,
+  direction: "up" | "down",
+) => {
+  const slide = await prisma.signageSlide.findUniqueOrThrow({
+    where: { id: slideId },
+  });
+  const neighbour = await prisma.signageSlide.findFirst({
+    where:
+      direction === "up"
+        ? { screenId: slide.screenId, order: { lt: slide.order } }
+        : { screenId: slide.screenId, order: { gt: slide.order } },
+    orderBy: { order: direction === "up" ? "desc" : "asc" },
+  });
+  if (!neighbour) return;
+  await prisma.$transaction([
+    prisma.signageSlide.update({
+      where: { id: slide.id },
+      data: { order: neighbour.order },
+    }),
+    prisma.signageSlide.update({
+      where: { id: neighbour.id },
+      data: { order: slide.order },
+    }),
+  ]);
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { birthdayToday, cafeDayIndex, nextSlideIndex } from "./slides";
+
+describe("signage slides", () => {
+  it("shows the next slide with content", () => {
+    const slides = [{ isEmpty: false }, { isEmpty: true }, { isEmpty: false }];
+    expect(nextSlideIndex(slides, 0)).toBe(2);
+    expect(nextSlideIndex(slides, 2)).toBe(0);
+  });
+
+  it("keeps showing the only slide with content", () =>
+    expect(nextSlideIndex([{ isEmpty: true }, { isEmpty: false }], 1)).toBe(1));
+
+  it("has nothing to show when all slides are empty", () => {
+    expect(nextSlideIndex([{ isEmpty: true }], 0)).toBeNull();
+    expect(nextSlideIndex([], 0)).toBeNull();
+  });
+
+  it("finds birthdays regardless of the year", () => {
+    expect(birthdayToday(new Date(2025, 2, 7, 9))).toEqual({
+      month: 3,
+      day: 7,
+    });
+    expect(birthdayToday(new Date(2024, 1, 29, 23))).toEqual({
+      month: 2,
+      day: 29,
+    });
+  });
+
+  it("only has café hours on weekdays", () => {
+    expect(cafeDayIndex(new Date(2025, 2, 3))).toBe(0); // monday
+    expect(cafeDayIndex(new Date(2025, 2, 7))).toBe(4); // friday
+    expect(cafeDayIndex(new Date(2025, 2, 8))).toBeNull(); // saturday
+  });
+});
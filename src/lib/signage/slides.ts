@@ -0,0 +1,51 @@
+/*
+Signage screens, like the TV in iDét, show a playlist of slides which each stay up for a while.
+The content of each slide is loaded by the screen every minute, so new events or changes to the playlist show up without anyone touching the screen.
+Slides without anything to show, e.g. when there are no alerts or birthdays, are skipped.
+*/
+
+export const slideTypes = [
+  "EVENTS",
+  "NEWS",
+  "CAFE_HOURS",
+  "ALERTS",
+  "BIRTHDAYS",
+  "IMAGE",
+] as const;
+export type SlideType = (typeof slideTypes)[number];
+
+export const DEFAULT_SLIDE_DURATION_SECONDS = 15;
+export const SIGNAGE_REFRESH_SECONDS = 60;
+
+/**
+ * The month (1-12) and day of the month which members with a birthday today were born on, regardless of the year.
+ * Birthdays are dates without a time, so they are matched against the date parts directly.
+ */
+export const birthdayToday = (now = new Date()) => ({
+  month: now.getMonth() + 1,
+  day: now.getDate(),
+});
+
+/**
+ * The café's opening hours are markdowns named cafe:open:0 to cafe:open:4, monday to friday.
+ * @returns the index of today, or null on weekends
+ */
+export const cafeDayIndex = (now = new Date()) => {
+  const index = now.getDay() - 1; // we assign monday to 0, not sunday
+  return index >= 0 && index <= 4 ? index : null;
+};
+
+/**
+ * The index of the slide to show after the current one, skipping the ones without content.
+ * @returns null if no slide has anything to show
+ */
+export const nextSlideIndex = (
+  slides: Array<{ isEmpty: boolean }>,
+  current: number,
+) => {
+  for (let step = 1; step <= slides.length; step++) {
+    const index = (current + step) % slides.length;
+    if (!slides[index]!.isEmpty) return index;
+  }
+  return null;
+};
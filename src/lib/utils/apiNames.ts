@@ -25,6 +25,11 @@ const apiNames = {
     ...crud("event"),
     COMMENT: "event:comment",
     COMMENT_DELETE: "event:comment:delete",
+    IMPORT: "event:import",
+  },
+  COMMENTS: {
+    // hide reported article and event comments, and mute members from commenting
+    MODERATE: "comment:moderate",
   },
   BOOKINGS: {
     ...crud("booking_request"),
@@ -91,6 +96,9 @@ const apiNames = {
   NOLLNING: {
     MANAGE_PHADDER_GROUPS: "nollning:phaddrar:groups:manage",
   },
+  SIGNAGE: {
+    MANAGE: "signage:manage",
+  },
   EXPENSES: {
     CREATE: "expenses:create", // who can create expenses, probably all volunteers or logged in
     CERTIFICATION: "expenses:certification", // who can ALWAYS certify/sign expenses. As of writing this is treasurer and president.
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  commentPreview,
+  commentRateLimitedUntil,
+  replyParentId,
+  summarizeReactions,
+  threadComments,
+} from "./comments";
+
+const comment = (
+  id: string,
+  minute: number,
+  parentId: string | null = null,
+) => ({
+  id,
+  parentId,
+  published: new Date(2025, 2, 8, 12, minute),
+});
+
+describe("comments", () => {
+  it("puts replies under their parent, oldest first", () => {
+    const threads = threadComments([
+      comment("b", 2),
+      comment("a-2", 5, "a"),
+      comment("a", 1),
+      comment("a-1", 3, "a"),
+      comment("b-1", 4, "b"),
+    ]);
+    expect(
+      threads.map((thread) => [
+        thread.comment.id,
+        thread.replies.map((reply) => reply.id),
+      ]),
+    ).toEqual([
+      ["a", ["a-1", "a-2"]],
+      ["b", ["b-1"]],
+    ]);
+  });
+
+  it("shows replies without a parent as threads", () => {
+    const threads = threadComments([comment("a-1", 1, "a")]);
+    expect(threads).toEqual([{ comment: comment("a-1", 1, "a"), replies: [] }]);
+  });
+
+  it("replies to the parent of a reply", () => {
+    expect(replyParentId({ id: "a", parentId: null })).toBe("a");
+    expect(replyParentId({ id: "a-1", parentId: "a" })).toBe("a");
+  });
+
+  it("counts the reactions in a fixed order", () => {
+    expect(
+      summarizeReactions(
+        [
+          { emoji: "🎉", memberId: "1" },
+          { emoji: "👍", memberId: "2" },
+          { emoji: "👍", memberId: "1" },
+        ],
+        "2",
+      ),
+    ).toEqual([
+      { emoji: "👍", count: 2, reacted: true },
+      { emoji: "🎉", count: 1, reacted: false },
+    ]);
+  });
+
+  it("shows tagged members by name in previews", () => {
+    expect(
+      commentPreview(
+        "[@Jane Doe](/members/ja1234do-s) [@Bo](/members/bo) hej ",
+      ),
+    ).toBe("@Jane Doe @Bo hej");
+    expect(commentPreview(null)).toBe("");
+  });
+
+  it("limits how often a member can comment", () => {
+    const now = new Date(2025, 2, 8, 12, 30);
+    const secondsAgo = (seconds: number) =>
+      new Date(now.getTime() - seconds * 1000);
+    expect(commentRateLimitedUntil([], now)).toBeNull();
+    expect(
+      commentRateLimitedUntil([10, 20, 30, 40].map(secondsAgo), now),
+    ).toBeNull();
+    expect(
+      commentRateLimitedUntil([10, 20, 30, 40, 50, 70].map(secondsAgo), now),
+    ).toEqual(secondsAgo(-10));
+    const lastHour = Array.from({ length: 30 }, (_, i) =>
+      secondsAgo(120 + i * 60),
+    );
+    expect(commentRateLimitedUntil(lastHour, now)).toEqual(
+      secondsAgo(120 + 29 * 60 - 3600),
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { tagRegex } from "$lib/utils/client/commentTagging";
+
+export const COMMENT_MAX_LENGTH = 2000;
+
+export const COMMENT_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🎉"] as const;
+export type CommentReaction = (typeof COMMENT_REACTIONS)[number];
+
+type ThreadableComment = {
+  id: string;
+  parentId: string | null;
+  published: Date;
+};
+
+export type CommentThread<T extends ThreadableComment> = {
+  comment: T;
+  replies: T[];
+};
+
+const byPublished = (a: ThreadableComment, b: ThreadableComment) =>
+  a.published.getTime() - b.published.getTime();
+
+/**
+ * Groups the comments into threads, with both the threads and their replies oldest first.
+ * Replies whose parent isn't among the comments are shown as threads of their own.
+ */
+export const threadComments = <T extends ThreadableComment>(
+  comments: T[],
+): Array<CommentThread<T>> => {
+  const ids = new Set(comments.map((comment) => comment.id));
+  const sorted = [...comments].sort(byPublished);
+  const threads = sorted
+    .filter((comment) => !comment.parentId || !ids.has(comment.parentId))
+    .map((comment) => ({ comment, replies: [] as T[] }));
+  const threadsById = new Map(
+    threads.map((thread) => [thread.comment.id, thread]),
+  );
+  for (const comment of sorted) {
+    if (comment.parentId)
+      threadsById.get(comment.parentId)?.replies.push(comment);
+  }
+  return threads;
+};
+
+/**
+ * Replies are only one level deep, so replying to a reply adds to its parent's thread.
+ */
+export const replyParentId = (comment: Omit<ThreadableComment, "published">) =>
+  comment.parentId ?? comment.id;
+
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  // whether the current member is one of the reacters
+  reacted: boolean;
+};
+
+/**
+ * How many have reacted with each emoji, in the order of COMMENT_REACTIONS.
+ */
+export const summarizeReactions = (
+  reactions: Array<{ emoji: string; memberId: string }>,
+  memberId: string | undefined,
+): ReactionSummary[] =>
+  COMMENT_REACTIONS.map((emoji) => {
+    const matching = reactions.filter((reaction) => reaction.emoji === emoji);
+    return {
+      emoji,
+      count: matching.length,
+      reacted: matching.some((reaction) => reaction.memberId === memberId),
+    };
+  }).filter((summary) => summary.count > 0);
+
+/**
+ * The comment as plain text, with tagged members as `@Name` instead of markdown links, e.g. for notifications.
+ */
+export const commentPreview = (content: string | null) =>
+  (content ?? "").replace(tagRegex, (_, name: string) => name).trim();
+
+// at most `max` comments, on articles and events together, per `minutes`
+export const COMMENT_RATE_LIMITS = [
+  { max: 5, minutes: 1 },
+  { max: 30, minutes: 60 },
+] as const;
+export const COMMENT_RATE_LIMIT_WINDOW_MINUTES = Math.max(
+  ...COMMENT_RATE_LIMITS.map((limit) => limit.minutes),
+);
+
+export const COMMENT_MUTE_DAYS = [1, 7, 30] as const;
+
+/**
+ * When the member can comment again, or null if they haven't commented too much lately.
+ * @param published when the member's recent comments were published
+ */
+export const commentRateLimitedUntil = (
+  published: Date[],
+  now: Date,
+): Date | null => {
+  let until: Date | null = null;
+  for (const { max, minutes } of COMMENT_RATE_LIMITS) {
+    const windowMs = minutes * 60 * 1000;
+    const recent = published
+      .map((date) => date.getTime())
+      .filter((time) => time > now.getTime() - windowMs)
+      .sort((a, b) => b - a);
+    if (recent.length < max) continue;
+    // the oldest of the last `max` comments has to leave the window first
+    const freedAt = new Date(recent[max - 1]! + windowMs);
+    if (!until || freedAt > until) until = freedAt;
+  }
+  return until;
+};
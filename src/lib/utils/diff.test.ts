@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, sideBySide } from "./diff";
+
+describe("diff", () => {
+  it("finds the added and removed lines", () => {
+    expect(diffLines("a\nb\nc\nd", "a\nc\nd\ne")).toEqual([
+      { type: "unchanged", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "unchanged", text: "c" },
+      { type: "unchanged", text: "d" },
+      { type: "added", text: "e" },
+    ]);
+  });
+
+  it("compares with empty texts", () => {
+    expect(diffLines(null, "a")).toEqual([{ type: "added", text: "a" }]);
+    expect(diffLines("a", "")).toEqual([{ type: "removed", text: "a" }]);
+    expect(diffLines(null, null)).toEqual([]);
+  });
+
+  it("puts changed lines on the same row", () => {
+    const rows = sideBySide(diffLines("a\nb\nc", "a\nB\nc\nd"));
+    expect(rows).toEqual([
+      {
+        left: { lineNumber: 1, text: "a", changed: false },
+        right: { lineNumber: 1, text: "a", changed: false },
+      },
+      {
+        left: { lineNumber: 2, text: "b", changed: true },
+        right: { lineNumber: 2, text: "B", changed: true },
+      },
+      {
+        left: { lineNumber: 3, text: "c", changed: false },
+        right: { lineNumber: 3, text: "c", changed: false },
+      },
+      { left: null, right: { lineNumber: 4, text: "d", changed: true } },
+    ]);
+  });
+
+  it("ignores windows line endings", () => {
+    expect(
+      diffLines("a\r\nb", "a\nb").every((line) => line.type === "unchanged"),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,143 @@
+/*
+A line based diff, for comparing versions of markdown texts. Uses the longest common subsequence of the lines,
+after skipping the lines which are the same at the start and end, which is enough for texts of a few hundred lines.
+*/
+
+export type DiffLine = {
+  type: "unchanged" | "added" | "removed";
+  text: string;
+};
+
+export type SideBySideCell = {
+  // 1-based, in the text the line is from
+  lineNumber: number;
+  text: string;
+  changed: boolean;
+};
+
+export type SideBySideRow = {
+  left: SideBySideCell | null;
+  right: SideBySideCell | null;
+};
+
+// above this, the changed part is shown as removed and added as a whole instead of being compared line by line
+const MAX_COMPARISONS = 4_000_000;
+
+const splitLines = (text: string | null) =>
+  text ? text.replace(/\r\n/g, "\n").split("\n") : [];
+
+const diffMiddle = (before: string[], after: string[]): DiffLine[] => {
+  const removeAll = before.map((text) => ({ type: "removed" as const, text }));
+  const addAll = after.map((text) => ({ type: "added" as const, text }));
+  if (before.length === 0 || after.length === 0)
+    return [...removeAll, ...addAll];
+  if (before.length * after.length > MAX_COMPARISONS)
+    return [...removeAll, ...addAll];
+
+  // lengths[i][j] is the length of the longest common subsequence of before[i:] and after[j:]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i]![j] =
+        before[i] === after[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ type: "unchanged", text: before[i]! });
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      lines.push({ type: "removed", text: before[i]! });
+      i++;
+    } else {
+      lines.push({ type: "added", text: after[j]! });
+      j++;
+    }
+  }
+  for (; i < before.length; i++)
+    lines.push({ type: "removed", text: before[i]! });
+  for (; j < after.length; j++) lines.push({ type: "added", text: after[j]! });
+  return lines;
+};
+
+/**
+ * The lines of `after` compared to `before`. Removed lines come before the lines added in their place.
+ */
+export const diffLines = (
+  before: string | null,
+  after: string | null,
+): DiffLine[] => {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  let start = 0;
+  while (
+    start < beforeLines.length &&
+    start < afterLines.length &&
+    beforeLines[start] === afterLines[start]
+  )
+    start++;
+  let end = 0;
+  while (
+    end < beforeLines.length - start &&
+    end < afterLines.length - start &&
+    beforeLines[beforeLines.length - 1 - end] ===
+      afterLines[afterLines.length - 1 - end]
+  )
+    end++;
+
+  const unchanged = (text: string) => ({ type: "unchanged" as const, text });
+  return [
+    ...beforeLines.slice(0, start).map(unchanged),
+    ...diffMiddle(
+      beforeLines.slice(start, beforeLines.length - end),
+      afterLines.slice(start, afterLines.length - end),
+    ),
+    ...beforeLines.slice(beforeLines.length - end).map(unchanged),
+  ];
+};
+
+/**
+ * Puts the lines side by side, with the old text to the left. Removed lines are put next to the lines added in their
+ * place, so that a changed line ends up on one row.
+ */
+export const sideBySide = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let leftNumber = 0;
+  let rightNumber = 0;
+  let removed: SideBySideCell[] = [];
+  let added: SideBySideCell[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++)
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    removed = [];
+    added = [];
+  };
+  for (const line of lines) {
+    if (line.type === "removed") {
+      removed.push({
+        lineNumber: ++leftNumber,
+        text: line.text,
+        changed: true,
+      });
+    } else if (line.type === "added") {
+      added.push({ lineNumber: ++rightNumber, text: line.text, changed: true });
+    } else {
+      flush();
+      rows.push({
+        left: { lineNumber: ++leftNumber, text: line.text, changed: false },
+        right: { lineNumber: ++rightNumber, text: line.text, changed: false },
+      });
+    }
+  }
+  flush();
+  return rows;
+};
@@ -17,11 +17,16 @@ const DUPLICATE_ALLOWED_TYPES = [
   NotificationType.CREATE_MANDATE,
   NotificationType.ARTICLE_REQUEST_UPDATE,
   NotificationType.BOOKING_REQUEST,
+  NotificationType.EVENT_REGISTRATION,
+  NotificationType.EVENT_REMINDER,
+  NotificationType.EVENT_UPDATED,
+  NotificationType.EVENT_PHOTO_REMOVAL_REQUEST,
   NotificationType.PAYMENT_STATUS,
   NotificationType.PURCHASE_TIME_TO_BUY,
   NotificationType.PURCHASE_SOLD_OUT,
   NotificationType.PURCHASE_IN_QUEUE,
   NotificationType.PURCHASE_CONSUMABLE_EXPIRED,
+  NotificationType.PURCHASE_TRANSFER,
   NotificationType.PAYMENT_STATUS,
   NotificationType.EXPENSES,
 ];
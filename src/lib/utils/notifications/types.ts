@@ -8,8 +8,15 @@ export enum NotificationType {
   ARTICLE_REQUEST_UPDATE = "ARTICLE_REQUEST_UPDATE",
   MENTION = "MENTION",
   NEW_ARTICLE = "NEW_ARTICLE",
+  NEW_EVENT = "NEW_EVENT",
   EVENT_GOING = "EVENT_GOING",
   EVENT_INTERESTED = "EVENT_INTERESTED",
+  EVENT_REGISTRATION = "EVENT_REGISTRATION",
+  EVENT_REMINDER = "EVENT_REMINDER",
+  EVENT_UPDATED = "EVENT_UPDATED",
+  EVENT_PHOTO_TAG = "EVENT_PHOTO_TAG",
+  EVENT_PHOTO_REMOVAL_REQUEST = "EVENT_PHOTO_REMOVAL_REQUEST",
+  EVENT_SURVEY = "EVENT_SURVEY",
   CREATE_MANDATE = "CREATE_MANDATE",
   BOOKING_REQUEST = "BOOKING_REQUEST",
   PING = "PING",
@@ -18,6 +25,7 @@ export enum NotificationType {
   PURCHASE_IN_QUEUE = "PURCHASE_IN_QUEUE",
   PURCHASE_CONSUMABLE_EXPIRED = "PURCHASE_CONSUMABLE_EXPIRED",
   PURCHASE_SOLD_OUT = "PURCHASE_SOLD_OUT",
+  PURCHASE_TRANSFER = "PURCHASE_TRANSFER",
   EXPENSES = "EXPENSES",
 }
 
@@ -32,6 +40,7 @@ export enum NotificationSettingType {
   MENTION = "MENTION",
   NEW_ARTICLE = "NEW_ARTICLE",
   EVENT_GOING = "EVENT_GOING",
+  EVENT_REMINDER = "EVENT_REMINDER",
   CREATE_MANDATE = "CREATE_MANDATE",
   BOOKING_REQUEST = "BOOKING_REQUEST",
   PING = "PING",
@@ -52,8 +61,15 @@ export const SHOULD_MERGE_NOTIFICATIONS: Record<NotificationType, boolean> = {
   [NotificationType.ARTICLE_REQUEST_UPDATE]: false,
   [NotificationType.MENTION]: true,
   [NotificationType.NEW_ARTICLE]: false,
+  [NotificationType.NEW_EVENT]: false,
   [NotificationType.EVENT_GOING]: true,
   [NotificationType.EVENT_INTERESTED]: true,
+  [NotificationType.EVENT_REGISTRATION]: false,
+  [NotificationType.EVENT_REMINDER]: false,
+  [NotificationType.EVENT_UPDATED]: false,
+  [NotificationType.EVENT_PHOTO_TAG]: false,
+  [NotificationType.EVENT_PHOTO_REMOVAL_REQUEST]: false,
+  [NotificationType.EVENT_SURVEY]: false,
   [NotificationType.CREATE_MANDATE]: false,
   [NotificationType.BOOKING_REQUEST]: false,
   [NotificationType.PING]: true,
@@ -62,6 +78,7 @@ export const SHOULD_MERGE_NOTIFICATIONS: Record<NotificationType, boolean> = {
   [NotificationType.PURCHASE_IN_QUEUE]: false,
   [NotificationType.PURCHASE_CONSUMABLE_EXPIRED]: false,
   [NotificationType.PURCHASE_SOLD_OUT]: false,
+  [NotificationType.PURCHASE_TRANSFER]: false,
   [NotificationType.EXPENSES]: false,
 };
 
@@ -75,7 +92,11 @@ export const SUBSCRIPTION_SETTINGS_MAP: Record<
   NotificationType[]
 > = {
   // On for everyone
-  [NOTIFICATION_SETTINGS_ALWAYS_ON]: [NotificationType.EXPENSES],
+  [NOTIFICATION_SETTINGS_ALWAYS_ON]: [
+    NotificationType.EXPENSES,
+    // the uploader has to act on it
+    NotificationType.EVENT_PHOTO_REMOVAL_REQUEST,
+  ],
   [NotificationSettingType.LIKE]: [
     NotificationType.NEWS_LIKE,
     NotificationType.EVENT_LIKE,
@@ -88,11 +109,26 @@ export const SUBSCRIPTION_SETTINGS_MAP: Record<
     // the same demographic want notifications for comments and approvements.
     NotificationType.ARTICLE_REQUEST_UPDATE,
   ],
-  [NotificationSettingType.MENTION]: [NotificationType.MENTION],
-  [NotificationSettingType.NEW_ARTICLE]: [NotificationType.NEW_ARTICLE],
+  [NotificationSettingType.MENTION]: [
+    NotificationType.MENTION,
+    // being tagged in a photo is like being mentioned
+    NotificationType.EVENT_PHOTO_TAG,
+  ],
+  // both are sent to the members subscribing to the tags
+  [NotificationSettingType.NEW_ARTICLE]: [
+    NotificationType.NEW_ARTICLE,
+    NotificationType.NEW_EVENT,
+  ],
   [NotificationSettingType.EVENT_GOING]: [
     NotificationType.EVENT_GOING,
     NotificationType.EVENT_INTERESTED,
+    NotificationType.EVENT_REGISTRATION,
+  ],
+  // for events the member is going to or interested in
+  [NotificationSettingType.EVENT_REMINDER]: [
+    NotificationType.EVENT_REMINDER,
+    NotificationType.EVENT_UPDATED,
+    NotificationType.EVENT_SURVEY,
   ],
   [NotificationSettingType.CREATE_MANDATE]: [NotificationType.CREATE_MANDATE],
   [NotificationSettingType.BOOKING_REQUEST]: [NotificationType.BOOKING_REQUEST],
@@ -103,6 +139,7 @@ export const SUBSCRIPTION_SETTINGS_MAP: Record<
     NotificationType.PURCHASE_IN_QUEUE,
     NotificationType.PURCHASE_CONSUMABLE_EXPIRED,
     NotificationType.PURCHASE_SOLD_OUT,
+    NotificationType.PURCHASE_TRANSFER,
   ],
 };
 
@@ -126,6 +163,10 @@ export const DEFAULT_SUBSCRIPTION_SETTINGS: Array<{
     type: NotificationSettingType.NEW_ARTICLE,
     pushNotification: true,
   },
+  {
+    type: NotificationSettingType.EVENT_REMINDER,
+    pushNotification: true,
+  },
   {
     type: NotificationSettingType.CREATE_MANDATE,
     pushNotification: true,
@@ -166,3 +207,11 @@ export const NOLLA_DEFAULT_SUBSCRIPTION_SETTINGS: Array<{
     pushNotification: true,
   },
 ];
+
+/**
+ * The setting types where members choose how many hours before an event they are notified,
+ * and the choices they have.
+ */
+export const SETTINGS_WITH_LEAD_TIME = [NotificationSettingType.EVENT_REMINDER];
+export const LEAD_TIME_HOURS_OPTIONS = [1, 3, 12, 24, 48, 168];
+export const DEFAULT_LEAD_TIME_HOURS = 24;
@@ -0,0 +1,173 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import {
+  addSectionDays,
+  getOccurrences,
+  getRuleOccurrences,
+  SECTION_TIME_ZONE,
+  sectionDayDiff,
+  shiftWeekdays,
+  toRRule,
+  type RecurrenceRule,
+} from "./recurrence";
+
+// a time in the section's time zone, so that the tests don't depend on the machine's
+const stockholm = (year: number, month: number, day: number, hour = 0) =>
+  dayjs
+    .tz(
+      new Date(Date.UTC(year, month, day, hour)).toISOString().slice(0, 19),
+      SECTION_TIME_ZONE,
+    )
+    .toDate();
+
+const weekly: RecurrenceRule = {
+  recurringType: "WEEKLY",
+  separationCount: 0,
+  byWeekday: [],
+  bySetPosition: null,
+};
+const noExceptions = { exceptionDates: [], skipExamWeeks: false };
+
+describe("recurrence rules", () => {
+  it("repeats on the same weekday without weekdays", () =>
+    expect(
+      getRuleOccurrences(
+        weekly,
+        stockholm(2025, 1, 4, 18),
+        stockholm(2025, 1, 18),
+      ),
+    ).toEqual([
+      stockholm(2025, 1, 4, 18),
+      stockholm(2025, 1, 11, 18),
+      stockholm(2025, 1, 18, 18),
+    ]));
+
+  it("repeats on several weekdays", () =>
+    expect(
+      getRuleOccurrences(
+        { ...weekly, byWeekday: ["TU", "TH"] },
+        stockholm(2025, 1, 4, 18), // a tuesday
+        stockholm(2025, 1, 13),
+      ),
+    ).toEqual([
+      stockholm(2025, 1, 4, 18),
+      stockholm(2025, 1, 6, 18),
+      stockholm(2025, 1, 11, 18),
+      stockholm(2025, 1, 13, 18),
+    ]));
+
+  it("skips weeks with an interval", () =>
+    expect(
+      getRuleOccurrences(
+        { ...weekly, separationCount: 1, byWeekday: ["MO", "FR"] },
+        stockholm(2025, 1, 5, 12), // a wednesday, so the first is on friday
+        stockholm(2025, 1, 21),
+      ),
+    ).toEqual([
+      stockholm(2025, 1, 7, 12),
+      stockholm(2025, 1, 17, 12),
+      stockholm(2025, 1, 21, 12),
+    ]));
+
+  it("finds the last friday of the month", () =>
+    expect(
+      getRuleOccurrences(
+        {
+          ...weekly,
+          recurringType: "MONTHLY",
+          byWeekday: ["FR"],
+          bySetPosition: -1,
+        },
+        stockholm(2025, 0, 1, 17),
+        stockholm(2025, 3, 30),
+      ),
+    ).toEqual([
+      stockholm(2025, 0, 31, 17),
+      stockholm(2025, 1, 28, 17),
+      stockholm(2025, 2, 28, 17),
+      stockholm(2025, 3, 25, 17),
+    ]));
+
+  it("skips months without the day", () =>
+    expect(
+      getRuleOccurrences(
+        { ...weekly, recurringType: "MONTHLY" },
+        stockholm(2025, 0, 31, 17),
+        stockholm(2025, 3, 30),
+      ),
+    ).toEqual([stockholm(2025, 0, 31, 17), stockholm(2025, 2, 31, 17)]));
+
+  it("leaves out exception dates and exam weeks", () =>
+    expect(
+      getOccurrences(
+        {
+          ...weekly,
+          exceptionDates: [stockholm(2025, 2, 4)],
+          skipExamWeeks: true,
+        },
+        stockholm(2025, 1, 25, 18),
+        stockholm(2025, 2, 18),
+      ),
+    ).toEqual([stockholm(2025, 1, 25, 18), stockholm(2025, 2, 18, 18)]));
+
+  it("keeps everything without exceptions", () =>
+    expect(
+      getOccurrences(
+        { ...weekly, ...noExceptions },
+        stockholm(2025, 1, 25, 18),
+        stockholm(2025, 2, 18),
+      ),
+    ).toHaveLength(4));
+
+  it("moves weekdays along with the events", () => {
+    expect(shiftWeekdays(["TU", "TH"], 1)).toEqual(["WE", "FR"]);
+    expect(shiftWeekdays(["SU"], 1)).toEqual(["MO"]);
+    expect(shiftWeekdays(["MO", "FR"], -1)).toEqual(["TH", "SU"]);
+  });
+
+  it("keeps the time of day over daylight saving time", () =>
+    expect(
+      getRuleOccurrences(
+        weekly,
+        stockholm(2025, 2, 25, 18),
+        stockholm(2025, 3, 1),
+      ).map((date) => date.toISOString()),
+    ).toEqual(["2025-03-25T17:00:00.000Z", "2025-04-01T16:00:00.000Z"]));
+
+  it("counts days in the section's time zone", () => {
+    // 00:30 on a monday in Lund, which is still sunday in UTC
+    const monday = new Date("2025-03-30T22:30:00Z");
+    expect(
+      getRuleOccurrences({ ...weekly, byWeekday: ["MO"] }, monday, monday),
+    ).toEqual([monday]);
+    expect(sectionDayDiff(monday, new Date("2025-03-30T21:30:00Z"))).toBe(1);
+    expect(addSectionDays(stockholm(2025, 2, 29, 18), 1)).toEqual(
+      stockholm(2025, 2, 30, 18),
+    );
+  });
+
+  it("formats the rule as an RRULE", () => {
+    expect(
+      toRRule(
+        { ...weekly, byWeekday: ["TH", "TU"] },
+        stockholm(2025, 1, 4, 18),
+        stockholm(2025, 5, 30),
+      ),
+    ).toBe("FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20250630T215959Z");
+    expect(
+      toRRule(
+        {
+          ...weekly,
+          recurringType: "MONTHLY",
+          separationCount: 1,
+          byWeekday: ["FR"],
+          bySetPosition: -1,
+        },
+        stockholm(2025, 0, 31, 17),
+        stockholm(2025, 5, 30),
+      ),
+    ).toBe(
+      "FREQ=MONTHLY;INTERVAL=2;BYDAY=FR;BYSETPOS=-1;UNTIL=20250630T215959Z",
+    );
+  });
+});
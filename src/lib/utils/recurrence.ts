@@ -0,0 +1,214 @@
+import dayjs from "dayjs";
+import timezone from "dayjs/plugin/timezone";
+import utc from "dayjs/plugin/utc";
+import type { RecurringType } from "./events";
+import { isInExamWeek } from "./semesters";
+
+/*
+Recurring events follow a subset of RFC 5545 recurrence rules:
+FREQ (recurringType), INTERVAL (separationCount + 1), BYDAY without numbers (byWeekday) and BYSETPOS (bySetPosition),
+e.g. "every Tuesday and Thursday" or "the last Friday of the month".
+Weeks start on mondays, and a yearly rule with weekdays is limited to the month of the first occurrence.
+Days and times of day are those in the section's time zone, whatever the time zone of the server or browser is.
+Every occurrence is also stored as an event, except for the exception dates and, if wanted, exam weeks.
+This file doesn't use the database, so it can be used for previews in the browser as well.
+*/
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export const SECTION_TIME_ZONE = "Europe/Stockholm";
+
+const inSectionTimeZone = (date: Date) => dayjs(date).tz(SECTION_TIME_ZONE);
+
+// the rules are computed on the section's wall-clock time stored as if it was UTC,
+// which has no daylight saving time, so that adding days keeps the time of day
+const WALL_CLOCK_FORMAT = "YYYY-MM-DDTHH:mm:ss.SSS";
+const toWallClock = (date: Date) =>
+  dayjs.utc(inSectionTimeZone(date).format(WALL_CLOCK_FORMAT));
+const fromWallClock = (wallClock: dayjs.Dayjs) =>
+  dayjs.tz(wallClock.format(WALL_CLOCK_FORMAT), SECTION_TIME_ZONE).toDate();
+
+/**
+ * The start of the date's day in the section's time zone.
+ */
+export const startOfSectionDay = (date: Date) =>
+  fromWallClock(toWallClock(date).startOf("day"));
+
+/**
+ * Moves a date a number of days, keeping its time of day in the section's time zone.
+ */
+export const addSectionDays = (date: Date, days: number) =>
+  fromWallClock(toWallClock(date).add(days, "day"));
+
+/**
+ * How many days in the section's time zone `date` is after `other`, ignoring the times of day.
+ */
+export const sectionDayDiff = (date: Date, other: Date) =>
+  toWallClock(date)
+    .startOf("day")
+    .diff(toWallClock(other).startOf("day"), "day");
+
+export const weekdays = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof weekdays)[number];
+
+export type RecurrenceRule = {
+  recurringType: RecurringType;
+  separationCount: number;
+  byWeekday: string[];
+  // which of the matching days in the month to use, 1 for the first and -1 for the last
+  bySetPosition: number | null;
+};
+
+export type RecurrenceExceptions = {
+  exceptionDates: Date[];
+  skipExamWeeks: boolean;
+};
+
+// a safeguard against rules which go on for years
+const MAX_OCCURRENCES = 1000;
+
+const weekdayOf = (date: dayjs.Dayjs): Weekday =>
+  weekdays[(date.day() + 6) % 7]!;
+
+const daysInMonth = (monthStart: dayjs.Dayjs) =>
+  Array.from({ length: monthStart.daysInMonth() }, (_, i) =>
+    monthStart.add(i, "day"),
+  );
+
+/**
+ * Days in the month matching the rule's weekdays, or the day of the month of the first occurrence without weekdays.
+ */
+const matchingDaysInMonth = (
+  rule: RecurrenceRule,
+  monthStart: dayjs.Dayjs,
+  first: dayjs.Dayjs,
+) => {
+  if (rule.byWeekday.length === 0)
+    // months without the day are skipped, like the 31st in april
+    return first.date() <= monthStart.daysInMonth()
+      ? [monthStart.date(first.date())]
+      : [];
+  const days = daysInMonth(monthStart).filter((day) =>
+    rule.byWeekday.includes(weekdayOf(day)),
+  );
+  if (rule.bySetPosition === null) return days;
+  const day = days.at(
+    rule.bySetPosition > 0 ? rule.bySetPosition - 1 : rule.bySetPosition,
+  );
+  return day ? [day] : [];
+};
+
+/**
+ * Every date the rule produces from the start until the end of the until day, like an RRULE with DTSTART and UNTIL.
+ * All occurrences have the same time of day as the start in the section's time zone.
+ */
+export const getRuleOccurrences = (
+  rule: RecurrenceRule,
+  start: Date,
+  until: Date,
+): Date[] => {
+  const interval = rule.separationCount + 1;
+  const first = toWallClock(start);
+  const firstDay = first.startOf("day");
+  const last = toWallClock(until).endOf("day");
+  const matchesWeekday = (day: dayjs.Dayjs) =>
+    rule.byWeekday.length === 0 || rule.byWeekday.includes(weekdayOf(day));
+
+  const occurrences: Date[] = [];
+  for (let period = 0; occurrences.length < MAX_OCCURRENCES; period++) {
+    let periodStart: dayjs.Dayjs;
+    let days: dayjs.Dayjs[];
+    switch (rule.recurringType) {
+      case "DAILY":
+        periodStart = firstDay.add(period * interval, "day");
+        days = [periodStart].filter(matchesWeekday);
+        break;
+      case "WEEKLY":
+        periodStart = firstDay
+          .subtract((first.day() + 6) % 7, "day")
+          .add(period * interval, "week");
+        days =
+          rule.byWeekday.length === 0
+            ? [firstDay.add(period * interval, "week")]
+            : Array.from({ length: 7 }, (_, i) =>
+                periodStart.add(i, "day"),
+              ).filter(matchesWeekday);
+        break;
+      case "MONTHLY":
+        periodStart = firstDay.startOf("month").add(period * interval, "month");
+        days = matchingDaysInMonth(rule, periodStart, first);
+        break;
+      case "YEARLY":
+        periodStart = firstDay.startOf("month").add(period * interval, "year");
+        days = matchingDaysInMonth(rule, periodStart, first);
+        break;
+    }
+    if (periodStart.isAfter(last)) break;
+    for (const day of days) {
+      const occurrence = day
+        .hour(first.hour())
+        .minute(first.minute())
+        .second(first.second())
+        .millisecond(first.millisecond());
+      if (occurrence.isBefore(first) || occurrence.isAfter(last)) continue;
+      occurrences.push(fromWallClock(occurrence));
+    }
+  }
+  return occurrences.slice(0, MAX_OCCURRENCES);
+};
+
+/**
+ * The dates which should become events, without exception dates and exam weeks.
+ */
+export const getOccurrences = (
+  rule: RecurrenceRule & RecurrenceExceptions,
+  start: Date,
+  until: Date,
+): Date[] =>
+  getRuleOccurrences(rule, start, until).filter(
+    (date) =>
+      !rule.exceptionDates.some((exception) =>
+        toWallClock(exception).isSame(toWallClock(date), "day"),
+      ) && !(rule.skipExamWeeks && isInExamWeek(date)),
+  );
+
+/**
+ * Moves the weekdays of a rule when its occurrences are moved a number of days, e.g. tuesdays become wednesdays.
+ */
+export const shiftWeekdays = (byWeekday: string[], days: number): Weekday[] =>
+  weekdays.filter((_, i) =>
+    byWeekday.includes(weekdays[(((i - days) % 7) + 7) % 7]!),
+  );
+
+/**
+ * Formats a date as a date-time in the section's time zone, which is what the DTSTART and EXDATE of a series use
+ * (with TZID) so that occurrences keep their time of day when daylight saving time changes.
+ */
+export const toSectionDateTime = (date: Date) =>
+  inSectionTimeZone(date).format("YYYYMMDD[T]HHmmss");
+
+/**
+ * The rule as the value of an RRULE property, e.g. `FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1;UNTIL=20250630T215959Z`.
+ * UNTIL is the end of the until day in the section's time zone, written in UTC as RFC 5545 requires with a TZID.
+ */
+export const toRRule = (rule: RecurrenceRule, start: Date, until: Date) => {
+  const parts = [`FREQ=${rule.recurringType}`];
+  if (rule.separationCount > 0)
+    parts.push(`INTERVAL=${rule.separationCount + 1}`);
+  if (rule.byWeekday.length > 0) {
+    if (rule.recurringType === "YEARLY")
+      parts.push(`BYMONTH=${toWallClock(start).month() + 1}`);
+    parts.push(
+      `BYDAY=${weekdays.filter((day) => rule.byWeekday.includes(day)).join(",")}`,
+    );
+    if (
+      rule.bySetPosition !== null &&
+      (rule.recurringType === "MONTHLY" || rule.recurringType === "YEARLY")
+    )
+      parts.push(`BYSETPOS=${rule.bySetPosition}`);
+  }
+  const untilEnd = fromWallClock(toWallClock(until).endOf("day"));
+  parts.push(`UNTIL=${dayjs(untilEnd).utc().format("YYYYMMDD[T]HHmmss[Z]")}`);
+  return parts.join(";");
+};
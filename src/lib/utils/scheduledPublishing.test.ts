@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  isPublishNotificationDue,
+  publishingStatus,
+} from "./scheduledPublishing";
+
+const publishedAt = new Date(2025, 2, 7, 12);
+const item = {
+  publishedAt,
+  removedAt: null,
+  notifyOnPublish: true,
+  notificationSentAt: null,
+};
+
+describe("scheduled publishing", () => {
+  it("is scheduled until the publishing time", () => {
+    expect(publishingStatus(null, publishedAt)).toBe("unpublished");
+    expect(publishingStatus(publishedAt, new Date(2025, 2, 7, 11, 59))).toBe(
+      "scheduled",
+    );
+    expect(publishingStatus(publishedAt, publishedAt)).toBe("published");
+  });
+
+  it("notifies when the item goes live", () => {
+    expect(isPublishNotificationDue(item, new Date(2025, 2, 7, 11, 59))).toBe(
+      false,
+    );
+    expect(isPublishNotificationDue(item, publishedAt)).toBe(true);
+    // e.g. if the server was down at the time
+    expect(isPublishNotificationDue(item, new Date(2025, 2, 8))).toBe(true);
+  });
+
+  it("notifies only once, and only if asked to", () => {
+    expect(
+      isPublishNotificationDue(
+        { ...item, notificationSentAt: publishedAt },
+        new Date(2025, 2, 8),
+      ),
+    ).toBe(false);
+    expect(
+      isPublishNotificationDue(
+        { ...item, notifyOnPublish: false },
+        new Date(2025, 2, 8),
+      ),
+    ).toBe(false);
+  });
+
+  it("doesn't notify about removed or unpublished items", () => {
+    expect(
+      isPublishNotificationDue(
+        { ...item, removedAt: publishedAt },
+        new Date(2025, 2, 8),
+      ),
+    ).toBe(false);
+    expect(
+      isPublishNotificationDue(
+        { ...item, publishedAt: null },
+        new Date(2025, 2, 8),
+      ),
+    ).toBe(false);
+  });
+});
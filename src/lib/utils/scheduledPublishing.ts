@@ -0,0 +1,44 @@
+/*
+Articles and events can be scheduled by setting their publishedAt to a time in the future, until which they are hidden.
+If the author wants the subscribers of the tags to be notified, notifyOnPublish is set, and the notification is sent
+once publishedAt has passed. Whether it has been sent is saved in notificationSentAt, so checking every minute
+(see hooks.server.ts) sends it when the item goes live, and a restart in between only delays it until the next check.
+*/
+
+export type PublishingStatus = "unpublished" | "scheduled" | "published";
+
+export type ScheduledItem = {
+  publishedAt: Date | null;
+  removedAt: Date | null;
+  notifyOnPublish: boolean;
+  notificationSentAt: Date | null;
+};
+
+export const publishingStatus = (
+  publishedAt: Date | null,
+  now = new Date(),
+): PublishingStatus =>
+  publishedAt === null
+    ? "unpublished"
+    : publishedAt > now
+      ? "scheduled"
+      : "published";
+
+export const isPublishNotificationDue = (
+  item: ScheduledItem,
+  now = new Date(),
+) =>
+  item.notifyOnPublish &&
+  item.notificationSentAt === null &&
+  item.removedAt === null &&
+  publishingStatus(item.publishedAt, now) === "published";
+
+/**
+ * The same as isPublishNotificationDue, as a filter for both articles and events.
+ */
+export const DUE_PUBLISH_NOTIFICATION_FILTER = (now = new Date()) => ({
+  notifyOnPublish: true,
+  notificationSentAt: null,
+  removedAt: null,
+  publishedAt: { lte: now },
+});
@@ -1,9 +1,13 @@
+import dayjs from "dayjs";
+import { SECTION_TIME_ZONE } from "./recurrence";
 import {
   toString,
   semesterRange,
   startDate,
   endDate,
   parseSemesterFromString,
+  examWeeks,
+  isInExamWeek,
 } from "./semesters";
 
 import { describe, expect, it } from "vitest";
@@ -63,3 +67,46 @@ describe("parseSemester", () => {
     expect(() => parseSemesterFromString("", () => new Error())).toThrow();
   });
 });
+
+// a time in the section's time zone, so that the tests don't depend on the machine's
+const stockholm = (
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+) =>
+  dayjs
+    .tz(
+      new Date(Date.UTC(year, month, day, hour, minute))
+        .toISOString()
+        .slice(0, 19),
+      SECTION_TIME_ZONE,
+    )
+    .toDate();
+
+describe("exam weeks", () => {
+  it("starts on mondays", () =>
+    expect(examWeeks(4049)).toEqual([
+      { start: stockholm(2024, 9, 21), end: stockholm(2024, 9, 28) },
+    ]));
+
+  it("includes the january exams in the spring term", () =>
+    expect(examWeeks(4050)[0]).toEqual({
+      start: stockholm(2025, 0, 6),
+      end: stockholm(2025, 0, 13),
+    }));
+
+  it("knows if a date is in an exam week", () => {
+    expect(isInExamWeek(stockholm(2025, 2, 14, 18))).toBe(true);
+    expect(isInExamWeek(stockholm(2025, 2, 17, 18))).toBe(false);
+    expect(isInExamWeek(stockholm(2024, 9, 27, 23, 59))).toBe(true);
+  });
+
+  it("uses the section's time zone just after midnight on a monday", () => {
+    // still sunday in UTC
+    expect(isInExamWeek(stockholm(2025, 2, 10, 0, 30))).toBe(true);
+    expect(isInExamWeek(stockholm(2025, 2, 17, 0, 30))).toBe(false);
+    expect(isInExamWeek(stockholm(2024, 9, 21, 0, 30))).toBe(true);
+  });
+});
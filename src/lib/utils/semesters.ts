@@ -1,3 +1,11 @@
+import dayjs from "dayjs";
+import timezone from "dayjs/plugin/timezone";
+import utc from "dayjs/plugin/utc";
+import { SECTION_TIME_ZONE } from "./recurrence";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
 /**
  * Semesters are encoded as numbers, given by
  * `2 * year + 0` for the spring semester.
@@ -40,6 +48,51 @@ export const coveredSemesters = (
     semesterRange(dateToSemester(startDate), dateToSemester(endDate)),
   );
 
+/**
+ * ISO week numbers of the exam weeks in each term. The study periods at LTH move a bit between years,
+ * so these are the usual weeks: the autumn's second study period has its exams in January,
+ * which is why they are part of the spring term here.
+ */
+const EXAM_WEEKS = {
+  VT: [2, 11, 22],
+  HT: [43],
+} as const;
+
+// the calendar date of the monday, counted in UTC so that daylight saving time doesn't move it
+const mondayOfIsoWeek = (year: number, week: number): dayjs.Dayjs => {
+  // January 4th is always in week 1
+  const januaryFourth = dayjs.utc(`${year}-01-04`);
+  return januaryFourth
+    .subtract((januaryFourth.day() + 6) % 7, "day")
+    .add((week - 1) * 7, "day");
+};
+
+const startOfSectionDate = (date: dayjs.Dayjs): Date =>
+  dayjs.tz(date.format("YYYY-MM-DD"), SECTION_TIME_ZONE).toDate();
+
+/**
+ * The exam weeks of a semester, each from monday until (but not including) the next monday,
+ * in the section's time zone.
+ */
+export const examWeeks = (
+  semester: Semester,
+): Array<{ start: Date; end: Date }> =>
+  EXAM_WEEKS[isSpringTerm(semester) ? "VT" : "HT"].map((week) => {
+    const monday = mondayOfIsoWeek(semesterYear(semester), week);
+    return {
+      start: startOfSectionDate(monday),
+      end: startOfSectionDate(monday.add(7, "day")),
+    };
+  });
+
+export const isInExamWeek = (date: Date): boolean => {
+  const sectionDate = dayjs(date).tz(SECTION_TIME_ZONE);
+  const semester = sectionDate.year() * 2 + (sectionDate.month() >= 6 ? 1 : 0);
+  return examWeeks(semester).some(
+    ({ start, end }) => start <= date && date < end,
+  );
+};
+
 export const toString = (semester: Semester): string =>
   semesterTerm(semester) + " " + semesterYear(semester);
 
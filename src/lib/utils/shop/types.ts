@@ -14,6 +14,75 @@ export const questionForm = z.object({
 });
 export type QuestionForm = Infer<typeof questionForm>;
 
+export enum CheckInStatus {
+  CheckedIn = "CheckedIn",
+  AlreadyConsumed = "AlreadyConsumed",
+  WrongEvent = "WrongEvent",
+  NotPurchased = "NotPurchased",
+  InvalidCode = "InvalidCode",
+}
+
+export const checkInForm = z.object({
+  code: z.string().min(1),
+});
+export type CheckInForm = Infer<typeof checkInForm>;
+
+export const transferForm = z.object({
+  // student id of a member, or email of a non-member
+  recipient: z.string().trim().min(1),
+});
+export type TransferForm = Infer<typeof transferForm>;
+
+export const acceptTransferForm = z.object({
+  answers: z.array(
+    z.object({
+      questionId: z.string(),
+      answer: z.string(),
+    }),
+  ),
+  // from the link emailed to a non-member recipient
+  token: z.string().optional(),
+});
+export type AcceptTransferForm = Infer<typeof acceptTransferForm>;
+
+export enum TransferStatus {
+  Pending = "Pending",
+  Accepted = "Accepted",
+  Declined = "Declined",
+  Cancelled = "Cancelled",
+}
+
+export const getTransferStatus = (transfer: {
+  acceptedAt: Date | null;
+  declinedAt: Date | null;
+  cancelledAt: Date | null;
+}) => {
+  if (transfer.acceptedAt) return TransferStatus.Accepted;
+  if (transfer.declinedAt) return TransferStatus.Declined;
+  if (transfer.cancelledAt) return TransferStatus.Cancelled;
+  return TransferStatus.Pending;
+};
+
+export const refundRequestForm = z.object({
+  reason: z.string().trim().min(1),
+});
+export type RefundRequestForm = Infer<typeof refundRequestForm>;
+
+export enum RefundRequestStatus {
+  Pending = "Pending",
+  Approved = "Approved",
+  Denied = "Denied",
+}
+
+export const getRefundRequestStatus = (request: {
+  approvedAt: Date | null;
+  deniedAt: Date | null;
+}) => {
+  if (request.approvedAt) return RefundRequestStatus.Approved;
+  if (request.deniedAt) return RefundRequestStatus.Denied;
+  return RefundRequestStatus.Pending;
+};
+
 export const ticketSchema = z
   .object({
     title: z.string().min(1, "Title cannot be empty"),
@@ -75,7 +144,70 @@ export const ticketSchema = z
         }),
       )
       .optional(),
+    // price is in SEK, like the base price
+    priceTiers: z
+      .array(
+        z.object({
+          role: z.string().min(1, "Role cannot be empty"),
+          price: z.number().gte(0),
+        }),
+      )
+      .optional(),
+    discountCodes: z
+      .array(
+        z
+          .object({
+            id: z.string().uuid().optional().nullable(),
+            code: z.string().trim().min(1, "Code cannot be empty"),
+            discountPercentage: z.number().int().gt(0).lte(100).nullable(),
+            // in SEK
+            discountAmount: z.number().gt(0).nullable(),
+            maxUses: z.number().int().positive().nullable(),
+            validFrom: z.date().nullable(),
+            validTo: z.date().nullable(),
+          })
+          .refine(
+            (arg) =>
+              (arg.discountPercentage === null) !==
+              (arg.discountAmount === null),
+            {
+              message: "Either a percentage or an amount must be set",
+              path: ["discountPercentage"],
+            },
+          ),
+      )
+      .optional(),
+    // the sale is split into phases, the first one starting when the sale starts
+    releasePhases: z
+      .array(
+        z.object({
+          name: z.string().min(1, "Name cannot be empty"),
+          nameEn: z.string().nullable().optional(),
+          // who can buy during the phase, empty for everyone
+          role: z.string().nullable(),
+          startsAt: z.date(),
+          stock: z.number().int().gte(0),
+        }),
+      )
+      .optional(),
+    // how much buyers get back when they request a refund, matches RefundPolicy in the schema
+    refundPolicy: z
+      .enum(["FULL_UNTIL_DEADLINE", "ONLY_IF_RESOLD"])
+      .default("FULL_UNTIL_DEADLINE"),
+    refundDeadline: z.date().nullable().optional(),
+    refundPercentageAfterDeadline: z.number().int().gte(0).lte(100).default(0),
+    // the ticket can only be bought together with this ticket
+    addonToId: z.string().uuid().nullable().optional(),
+    // tickets which are included when buying this ticket
+    bundleItemIds: z.array(z.string().uuid()).optional(),
   })
+  .refine(
+    (data) => !data.addonToId || (data.bundleItemIds?.length ?? 0) === 0,
+    {
+      message: "An add-on cannot be a bundle",
+      path: ["bundleItemIds"],
+    },
+  )
   .refine(
     (data) =>
       !data.availableTo ||
@@ -1,3 +1,22 @@
+import {
+  assertNotMuted,
+  createRateLimitedComment,
+  reportComment,
+} from "$lib/server/comments/moderation";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import { getFullName } from "$lib/utils/client/member";
+import {
+  COMMENT_MAX_LENGTH,
+  COMMENT_MUTE_DAYS,
+  COMMENT_REACTIONS,
+  commentPreview,
+  replyParentId,
+} from "$lib/utils/comments";
+import sendNotification from "$lib/utils/notifications";
+import { NotificationType } from "$lib/utils/notifications/types";
+import * as m from "$paraglide/messages";
+import type { Prisma, PrismaClient } from "@prisma/client";
 import { fail, type RequestEvent } from "@sveltejs/kit";
 import {
   message,
@@ -10,15 +29,71 @@ import { z } from "zod";
 import DOMPurify from "isomorphic-dompurify";
 
 export const commentSchema = z.object({
-  content: z.string().min(1),
+  content: z.string().min(1).max(COMMENT_MAX_LENGTH),
+  // set when replying to another comment
+  parentId: z.string().uuid().optional(),
 });
 export type CommentSchema = Infer<typeof commentSchema>;
 
+export const editCommentSchema = z.object({
+  commentId: z.string(),
+  content: z.string().min(1).max(COMMENT_MAX_LENGTH),
+});
+export type EditCommentSchema = Infer<typeof editCommentSchema>;
+
+export const reactCommentSchema = z.object({
+  commentId: z.string(),
+  emoji: z.enum(COMMENT_REACTIONS),
+});
+export type ReactCommentSchema = Infer<typeof reactCommentSchema>;
+
+export const reportCommentSchema = z.object({
+  commentId: z.string(),
+  reason: z.string().min(1).max(500),
+});
+export type ReportCommentSchema = Infer<typeof reportCommentSchema>;
+
+export const moderateCommentSchema = z.object({
+  type: z.enum(["NEWS", "EVENT"]),
+  commentId: z.string().uuid(),
+});
+
+export const muteCommenterSchema = z.object({
+  memberId: z.string().uuid(),
+  days: z
+    .number()
+    .int()
+    .refine((days) => (COMMENT_MUTE_DAYS as readonly number[]).includes(days)),
+  reason: z.string().max(255).optional(),
+});
+
+export const endCommentMuteSchema = z.object({
+  muteId: z.string().uuid(),
+});
+
 export const removeCommentSchema = z.object({
   commentId: z.string(),
 });
 export type RemoveCommentSchema = Infer<typeof removeCommentSchema>;
 
+const findComment = (
+  prisma: PrismaClient,
+  entityType: "NEWS" | "EVENT",
+  slug: string | undefined,
+  commentId: string,
+) => {
+  const select = { id: true, parentId: true, memberId: true };
+  return entityType === "NEWS"
+    ? prisma.articleComment.findFirst({
+        where: { id: commentId, article: { slug } },
+        select,
+      })
+    : prisma.eventComment.findFirst({
+        where: { id: commentId, event: { slug } },
+        select,
+      });
+};
+
 export const commentAction =
   (entityType: "NEWS" | "EVENT") =>
   async ({
@@ -26,11 +101,33 @@ export const commentAction =
     request,
     params,
   }: RequestEvent<Record<string, string>, string>) => {
-    const { prisma, user } = locals;
+    const { prisma, user, member } = locals;
     const form = await superValidate(request, zod(commentSchema));
     if (!form.valid) return fail(400, { form });
+    if (entityType !== "NEWS" && entityType !== "EVENT")
+      return message(
+        form,
+        {
+          message: 'Kommentar skickades inte. "Invalid comment entity type"',
+          type: "error",
+        },
+        {
+          status: 400,
+        },
+      );
+    const slug = params["slug"];
+    const parent = form.data.parentId
+      ? await findComment(prisma, entityType, slug, form.data.parentId)
+      : null;
+    if (form.data.parentId && !parent)
+      return message(
+        form,
+        { message: m.comments_errors_parentNotFound(), type: "error" },
+        { status: 400 },
+      );
+    const content = DOMPurify.sanitize(form.data.content);
     const args = {
-      where: { slug: params["slug"] },
+      where: { slug },
       data: {
         comments: {
           create: {
@@ -39,31 +136,65 @@ export const commentAction =
                 studentId: user?.studentId,
               },
             },
-            content: DOMPurify.sanitize(form.data.content),
+            parent: parent
+              ? { connect: { id: replyParentId(parent) } }
+              : undefined,
+            content,
             published: new Date(),
           },
         },
       },
     };
-    // I tried just changing the "prisma.article" part into something like "prisma[entityType === ...]" but it doesn't work so instead I did this
-    switch (entityType) {
-      case "NEWS":
-        await prisma.article.update(args);
-        break;
-      case "EVENT":
-        await prisma.event.update(args);
-        break;
-      default:
+    let title = "";
+    const createComment = async (client: Prisma.TransactionClient) => {
+      // I tried just changing the "prisma.article" part into something like "prisma[entityType === ...]" but it doesn't work so instead I did this
+      switch (entityType) {
+        case "NEWS":
+          ({ header: title } = await client.article.update({
+            ...args,
+            select: { header: true },
+          }));
+          break;
+        case "EVENT":
+          ({ title } = await client.event.update({
+            ...args,
+            select: { title: true },
+          }));
+          break;
+      }
+    };
+    if (member) {
+      const rateLimitMessage = await createRateLimitedComment(
+        user,
+        member.id,
+        createComment,
+      );
+      if (rateLimitMessage)
         return message(
           form,
-          {
-            message: 'Kommentar skickades inte. "Invalid comment entity type"',
-            type: "error",
-          },
-          {
-            status: 400,
-          },
+          { message: rateLimitMessage, type: "error" },
+          { status: 429 },
         );
+    } else {
+      await createComment(prisma);
+    }
+    if (member && parent && parent.memberId !== member.id) {
+      await sendNotification({
+        title,
+        message: m
+          .comments_notifications_reply({
+            name: getFullName(member),
+            comment: commentPreview(content),
+          })
+          .slice(0, 255),
+        type:
+          entityType === "NEWS"
+            ? NotificationType.COMMENT
+            : NotificationType.EVENT_COMMENT,
+        link: `${entityType === "NEWS" ? "/news" : "/events"}/${slug}`,
+        memberIds: [parent.memberId],
+        fromMemberId: member.id,
+      });
     }
     return message(form, {
       message: "Kommentar skickad",
@@ -116,3 +247,157 @@ export const removeCommentAction =
       type: "success",
     });
   };
+
+export const editCommentAction =
+  (entityType: "NEWS" | "EVENT") =>
+  async ({
+    locals,
+    request,
+    params,
+  }: RequestEvent<Record<string, string>, string>) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(editCommentSchema));
+    if (!form.valid) return fail(400, { form });
+    const comment = await findComment(
+      prisma,
+      entityType,
+      params["slug"],
+      form.data.commentId,
+    );
+    if (!comment || comment.memberId !== user?.memberId)
+      return message(
+        form,
+        { message: m.comments_errors_commentNotFound(), type: "error" },
+        { status: 400 },
+      );
+    try {
+      await assertNotMuted(comment.memberId);
+    } catch (e) {
+      return message(
+        form,
+        {
+          message: e instanceof Error ? e.message : String(e),
+          type: "error",
+        },
+        { status: 400 },
+      );
+    }
+    const args = {
+      where: { id: comment.id },
+      data: {
+        content: DOMPurify.sanitize(form.data.content),
+        editedAt: new Date(),
+      },
+    };
+    switch (entityType) {
+      case "NEWS":
+        await prisma.articleComment.update(args);
+        break;
+      case "EVENT":
+        await prisma.eventComment.update(args);
+        break;
+    }
+    return message(form, {
+      message: m.comments_commentEdited(),
+      type: "success",
+    });
+  };
+
+/**
+ * Adds the reaction, or removes it if the member has already reacted with the same emoji.
+ */
+export const reactCommentAction =
+  (entityType: "NEWS" | "EVENT") =>
+  async ({
+    locals,
+    request,
+    params,
+  }: RequestEvent<Record<string, string>, string>) => {
+    const { prisma, user } = locals;
+    authorize(apiNames[entityType].COMMENT, user);
+    const form = await superValidate(request, zod(reactCommentSchema));
+    if (!form.valid) return fail(400, { form });
+    const comment = await findComment(
+      prisma,
+      entityType,
+      params["slug"],
+      form.data.commentId,
+    );
+    if (!comment || !user.memberId)
+      return message(
+        form,
+        { message: m.comments_errors_commentNotFound(), type: "error" },
+        { status: 400 },
+      );
+    const where = {
+      commentId_memberId_emoji: {
+        commentId: comment.id,
+        memberId: user.memberId,
+        emoji: form.data.emoji,
+      },
+    };
+    const data = {
+      commentId: comment.id,
+      memberId: user.memberId,
+      emoji: form.data.emoji,
+    };
+    switch (entityType) {
+      case "NEWS":
+        if (await prisma.articleCommentReaction.findUnique({ where }))
+          await prisma.articleCommentReaction.delete({ where });
+        else await prisma.articleCommentReaction.create({ data });
+        break;
+      case "EVENT":
+        if (await prisma.eventCommentReaction.findUnique({ where }))
+          await prisma.eventCommentReaction.delete({ where });
+        else await prisma.eventCommentReaction.create({ data });
+        break;
+    }
+    return message(form, { message: "", type: "hidden" });
+  };
+
+export const reportCommentAction =
+  (entityType: "NEWS" | "EVENT") =>
+  async ({
+    locals,
+    request,
+    params,
+  }: RequestEvent<Record<string, string>, string>) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(reportCommentSchema));
+    if (!form.valid) return fail(400, { form });
+    const comment = await findComment(
+      prisma,
+      entityType,
+      params["slug"],
+      form.data.commentId,
+    );
+    if (!comment || !user?.memberId)
+      return message(
+        form,
+        { message: m.comments_errors_commentNotFound(), type: "error" },
+        { status: 400 },
+      );
+    try {
+      await reportComment(
+        prisma,
+        entityType,
+        comment.id,
+        user.memberId,
+        form.data.reason,
+      );
+    } catch (e) {
+      return message(
+        form,
+        {
+          message: e instanceof Error ? e.message : String(e),
+          type: "error",
+        },
+        { status: 400 },
+      );
+    }
+    return message(form, {
+      message: m.comments_commentReported(),
+      type: "success",
+    });
+  };
@@ -0,0 +1,128 @@
+import { importEventCalendar } from "$lib/server/ics/importCalendars";
+import {
+  calendarSourceIdSchema,
+  calendarSourceSchema,
+  calendarTagRuleSchema,
+} from "$lib/server/ics/types";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import { z } from "zod";
+import type { Actions, PageServerLoad } from "./$types";
+
+const tagRuleIdSchema = z.object({
+  ruleId: z.string().uuid(),
+});
+
+export const load: PageServerLoad = async ({ locals }) => {
+  const { prisma, user } = locals;
+  authorize(apiNames.EVENT.IMPORT, user);
+  const [sources, tags] = await Promise.all([
+    prisma.eventCalendarSource.findMany({
+      orderBy: { name: "asc" },
+      include: {
+        tagRules: { include: { tag: true }, orderBy: { keyword: "asc" } },
+        _count: { select: { events: true } },
+      },
+    }),
+    prisma.tag.findMany({ orderBy: { name: "asc" } }),
+  ]);
+  return {
+    sources,
+    tags,
+    createForm: await superValidate(zod(calendarSourceSchema)),
+  };
+};
+
+export const actions: Actions = {
+  create: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.EVENT.IMPORT, user);
+    const form = await superValidate(request, zod(calendarSourceSchema));
+    if (!form.valid) return fail(400, { form });
+    if (!user.memberId)
+      throw error(401, m.admin_calendarImports_errors_notMember());
+    await prisma.eventCalendarSource.create({
+      data: { ...form.data, authorId: user.memberId },
+    });
+    return message(form, {
+      message: m.admin_calendarImports_created(),
+      type: "success",
+    });
+  },
+  toggle: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.EVENT.IMPORT, user);
+    const form = await superValidate(request, zod(calendarSourceIdSchema));
+    if (!form.valid) return fail(400, { form });
+    const source = await prisma.eventCalendarSource.findUniqueOrThrow({
+      where: { id: form.data.sourceId },
+    });
+    await prisma.eventCalendarSource.update({
+      where: { id: source.id },
+      data: { enabled: !source.enabled },
+    });
+    return { form };
+  },
+  import: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.EVENT.IMPORT, user);
+    const form = await superValidate(request, zod(calendarSourceIdSchema));
+    if (!form.valid) return fail(400, { form });
+    const source = await prisma.eventCalendarSource.findUniqueOrThrow({
+      where: { id: form.data.sourceId },
+      include: { tagRules: true },
+    });
+    try {
+      const result = await importEventCalendar(source);
+      return message(form, {
+        message: m.admin_calendarImports_imported(result),
+        type: "success",
+      });
+    } catch (e) {
+      return message(
+        form,
+        { message: (e as Error).message, type: "error" },
+        { status: 400 },
+      );
+    }
+  },
+  remove: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.EVENT.IMPORT, user);
+    const form = await superValidate(request, zod(calendarSourceIdSchema));
+    if (!form.valid) return fail(400, { form });
+    // the imported events are kept, but aren't updated anymore
+    await prisma.eventCalendarSource.delete({
+      where: { id: form.data.sourceId },
+    });
+    return message(form, {
+      message: m.admin_calendarImports_removed(),
+      type: "success",
+    });
+  },
+  addTagRule: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.EVENT.IMPORT, user);
+    const form = await superValidate(request, zod(calendarTagRuleSchema));
+    if (!form.valid) return fail(400, { form });
+    await prisma.eventCalendarTagRule.create({ data: form.data });
+    return message(form, {
+      message: m.admin_calendarImports_tagRuleAdded(),
+      type: "success",
+    });
+  },
+  removeTagRule: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.EVENT.IMPORT, user);
+    const form = await superValidate(request, zod(tagRuleIdSchema));
+    if (!form.valid) return fail(400, { form });
+    await prisma.eventCalendarTagRule.delete({
+      where: { id: form.data.ruleId },
+    });
+    return { form };
+  },
+};
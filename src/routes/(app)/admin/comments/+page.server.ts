@@ -0,0 +1,108 @@
+import {
+  dismissCommentReports,
+  endCommentMute,
+  getActiveCommentMutes,
+  getModeratedComments,
+  muteCommenter,
+  setCommentHidden,
+} from "$lib/server/comments/moderation";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import {
+  endCommentMuteSchema,
+  moderateCommentSchema,
+  muteCommenterSchema,
+} from "$lib/zod/comments";
+import * as m from "$paraglide/messages";
+import { error, fail, type RequestEvent } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import type { Actions, PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals }) => {
+  const { prisma, user } = locals;
+  authorize(apiNames.COMMENTS.MODERATE, user);
+  const [reported, hidden, mutes] = await Promise.all([
+    getModeratedComments(prisma, "reported"),
+    getModeratedComments(prisma, "hidden"),
+    getActiveCommentMutes(prisma),
+  ]);
+  return {
+    reported,
+    hidden,
+    mutes,
+    muteForm: await superValidate(zod(muteCommenterSchema)),
+  };
+};
+
+const moderatorId = ({ locals }: RequestEvent) => {
+  authorize(apiNames.COMMENTS.MODERATE, locals.user);
+  if (!locals.user.memberId)
+    throw error(401, m.admin_commentModeration_errors_notMember());
+  return locals.user.memberId;
+};
+
+const hideAction = (hidden: boolean) => async (event: RequestEvent) => {
+  const memberId = moderatorId(event);
+  const form = await superValidate(event.request, zod(moderateCommentSchema));
+  if (!form.valid) return fail(400, { form });
+  await setCommentHidden(
+    event.locals.prisma,
+    form.data.type,
+    form.data.commentId,
+    memberId,
+    hidden,
+  );
+  return message(form, {
+    message: hidden
+      ? m.admin_commentModeration_hiddenMessage()
+      : m.admin_commentModeration_unhiddenMessage(),
+    type: "success",
+  });
+};
+
+export const actions: Actions = {
+  hide: hideAction(true),
+  unhide: hideAction(false),
+  dismiss: async (event) => {
+    const memberId = moderatorId(event);
+    const form = await superValidate(event.request, zod(moderateCommentSchema));
+    if (!form.valid) return fail(400, { form });
+    await dismissCommentReports(
+      event.locals.prisma,
+      form.data.type,
+      form.data.commentId,
+      memberId,
+    );
+    return message(form, {
+      message: m.admin_commentModeration_dismissed(),
+      type: "success",
+    });
+  },
+  mute: async (event) => {
+    const memberId = moderatorId(event);
+    const form = await superValidate(event.request, zod(muteCommenterSchema));
+    if (!form.valid) return fail(400, { form });
+    await muteCommenter(
+      event.locals.prisma,
+      form.data.memberId,
+      memberId,
+      form.data.days,
+      form.data.reason,
+    );
+    return message(form, {
+      message: m.admin_commentModeration_muted(),
+      type: "success",
+    });
+  },
+  unmute: async (event) => {
+    moderatorId(event);
+    const form = await superValidate(event.request, zod(endCommentMuteSchema));
+    if (!form.valid) return fail(400, { form });
+    await endCommentMute(event.locals.prisma, form.data.muteId);
+    return message(form, {
+      message: m.admin_commentModeration_unmuted(),
+      type: "success",
+    });
+  },
+};
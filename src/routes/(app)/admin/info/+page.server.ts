@@ -14,7 +14,7 @@ export const load: PageServerLoad = async () => ({
 export const actions: Actions = {
   create: async (event) => {
     const { request, locals } = event;
-    const { prisma } = locals;
+    const { prisma, user } = locals;
     const form = await superValidate(request, zod(infoPageSchema));
     if (!form.valid) return fail(400, { form });
     const { name, markdown, markdownEn } = form.data;
@@ -23,6 +23,9 @@ export const actions: Actions = {
         name: slugify(name),
         markdown,
         markdownEn,
+        revisions: {
+          create: { markdown, markdownEn, editorId: user.memberId },
+        },
       },
     });
     throw redirect(
@@ -0,0 +1,54 @@
+import { screenSchema } from "$lib/signage/schema";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import { redirect } from "$lib/utils/redirect";
+import * as m from "$paraglide/messages";
+import { fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import { z } from "zod";
+import type { Actions, PageServerLoad } from "./$types";
+
+const removeScreenSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const load: PageServerLoad = async ({ locals }) => {
+  const { prisma, user } = locals;
+  authorize(apiNames.SIGNAGE.MANAGE, user);
+  const screens = await prisma.signageScreen.findMany({
+    orderBy: { name: "asc" },
+    include: { _count: { select: { slides: true } } },
+  });
+  return {
+    screens,
+    createForm: await superValidate(zod(screenSchema)),
+  };
+};
+
+export const actions: Actions = {
+  create: async (event) => {
+    const { request, locals } = event;
+    const { prisma, user } = locals;
+    authorize(apiNames.SIGNAGE.MANAGE, user);
+    const form = await superValidate(request, zod(screenSchema));
+    if (!form.valid) return fail(400, { form });
+    const screen = await prisma.signageScreen.create({ data: form.data });
+    throw redirect(
+      `/admin/signage/${screen.id}`,
+      { message: m.admin_signage_screenCreated(), type: "success" },
+      event,
+    );
+  },
+  remove: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.SIGNAGE.MANAGE, user);
+    const form = await superValidate(request, zod(removeScreenSchema));
+    if (!form.valid) return fail(400, { form });
+    await prisma.signageScreen.delete({ where: { id: form.data.id } });
+    return message(form, {
+      message: m.admin_signage_screenRemoved(),
+      type: "success",
+    });
+  },
+};
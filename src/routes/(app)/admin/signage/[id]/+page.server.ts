@@ -0,0 +1,105 @@
+import {
+  moveSlideSchema,
+  screenSchema,
+  slideIdSchema,
+  slideSchema,
+  updateSlideSchema,
+} from "$lib/signage/schema";
+import { addSignageSlide, moveSignageSlide } from "$lib/signage/server/slides";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate, withFiles } from "sveltekit-superforms/server";
+import type { Actions, PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+  const { prisma, user } = locals;
+  authorize(apiNames.SIGNAGE.MANAGE, user);
+  const screen = await prisma.signageScreen.findUnique({
+    where: { id: params.id },
+    include: { slides: { orderBy: { order: "asc" }, include: { tag: true } } },
+  });
+  if (!screen) throw error(404, m.admin_signage_errors_screenNotFound());
+  const tags = await prisma.tag.findMany({ orderBy: { name: "asc" } });
+  return {
+    screen,
+    tags,
+    screenForm: await superValidate(screen, zod(screenSchema)),
+    addSlideForm: await superValidate(zod(slideSchema)),
+    updateSlideForm: await superValidate(zod(updateSlideSchema)),
+    slideForm: await superValidate(zod(moveSlideSchema)),
+  };
+};
+
+export const actions: Actions = {
+  updateScreen: async ({ request, locals, params }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.SIGNAGE.MANAGE, user);
+    const form = await superValidate(request, zod(screenSchema));
+    if (!form.valid) return fail(400, { form });
+    await prisma.signageScreen.update({
+      where: { id: params.id },
+      data: form.data,
+    });
+    return message(form, {
+      message: m.admin_signage_screenUpdated(),
+      type: "success",
+    });
+  },
+  addSlide: async ({ request, locals, params }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.SIGNAGE.MANAGE, user);
+    const form = await superValidate(request, zod(slideSchema), {
+      allowFiles: true,
+    });
+    if (!form.valid) return fail(400, withFiles({ form }));
+    try {
+      await addSignageSlide(prisma, user, params.id, form.data);
+    } catch (e) {
+      form.data.image = null;
+      return message(
+        form,
+        { message: (e as Error).message, type: "error" },
+        { status: 400 },
+      );
+    }
+    form.data.image = null;
+    return message(form, {
+      message: m.admin_signage_slideAdded(),
+      type: "success",
+    });
+  },
+  updateSlide: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.SIGNAGE.MANAGE, user);
+    const form = await superValidate(request, zod(updateSlideSchema));
+    if (!form.valid) return fail(400, { form });
+    const { slideId, ...data } = form.data;
+    await prisma.signageSlide.update({ where: { id: slideId }, data });
+    return message(form, {
+      message: m.admin_signage_slideUpdated(),
+      type: "success",
+    });
+  },
+  moveSlide: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.SIGNAGE.MANAGE, user);
+    const form = await superValidate(request, zod(moveSlideSchema));
+    if (!form.valid) return fail(400, { form });
+    await moveSignageSlide(prisma, form.data.slideId, form.data.direction);
+    return { form };
+  },
+  removeSlide: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.SIGNAGE.MANAGE, user);
+    const form = await superValidate(request, zod(slideIdSchema));
+    if (!form.valid) return fail(400, { form });
+    await prisma.signageSlide.delete({ where: { id: form.data.slideId } });
+    return message(form, {
+      message: m.admin_signage_slideRemoved(),
+      type: "success",
+    });
+  },
+};
@@ -0,0 +1,14 @@
+import { saveDraftSchema } from "$lib/drafts/schema";
+import { saveDraft } from "$lib/drafts/server/drafts";
+import { error, json } from "@sveltejs/kit";
+import type { RequestHandler } from "./$types";
+
+// autosaves drafts, see DraftAutosave.svelte
+export const POST: RequestHandler = async ({ locals, request }) => {
+  const { prisma, user } = locals;
+  if (!user.memberId) throw error(401, "You have to be logged in");
+  const body = saveDraftSchema.safeParse(await request.json());
+  if (!body.success) throw error(400, "Invalid draft");
+  const id = await saveDraft(prisma, user.memberId, body.data);
+  return json({ id });
+};
@@ -1,3 +1,4 @@
+import { getEventReservations } from "$lib/events/getEvents";
 import { error } from "@sveltejs/kit";
 import dayjs from "dayjs";
 
@@ -17,7 +18,12 @@ export const load = async (event) => {
     },
   });
 
-  return { bookingRequests, bookables };
+  const eventReservations = await getEventReservations(
+    prisma,
+    dayjs().subtract(1, "week").toDate(),
+  );
+
+  return { bookingRequests, bookables, eventReservations };
 };
 
 export const actions = {
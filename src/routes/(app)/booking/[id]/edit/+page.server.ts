@@ -6,6 +6,7 @@ import * as m from "$paraglide/messages";
 import { isAuthorized } from "$lib/utils/authorization";
 import apiNames from "$lib/utils/apiNames";
 import { getBookingRequestOrThrow, getSuperValidatedForm } from "../../utils";
+import { getEventReservations } from "$lib/events/getEvents";
 
 export const load = async ({ locals, params }) => {
   const { prisma } = locals;
@@ -13,8 +14,9 @@ export const load = async ({ locals, params }) => {
 
   const bookingRequest = await getBookingRequestOrThrow(prisma, params.id);
   const form = await getSuperValidatedForm(bookingRequest);
+  const eventReservations = await getEventReservations(prisma);
 
-  return { bookables, form, booking: bookingRequest };
+  return { bookables, form, booking: bookingRequest, eventReservations };
 };
 
 export const actions = {
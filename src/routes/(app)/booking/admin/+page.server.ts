@@ -2,14 +2,20 @@ import apiNames from "$lib/utils/apiNames";
 import { authorize } from "$lib/utils/authorization";
 import type { PageServerLoad } from "./$types";
 import { actions, getUpcomingBookingRequests } from "../utils";
+import { getEventReservations } from "$lib/events/getEvents";
+import dayjs from "dayjs";
 
 export const load: PageServerLoad = async ({ locals }) => {
   const { prisma, user } = locals;
   authorize(apiNames.BOOKINGS.UPDATE, user);
 
   const bookingRequests = await getUpcomingBookingRequests(prisma);
+  const eventReservations = await getEventReservations(
+    prisma,
+    dayjs().subtract(1, "week").toDate(),
+  );
 
-  return { bookingRequests };
+  return { bookingRequests, eventReservations };
 };
 
 export { actions };
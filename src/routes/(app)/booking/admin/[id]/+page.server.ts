@@ -1,6 +1,7 @@
 import { authorize } from "$lib/utils/authorization";
 import apiNames from "$lib/utils/apiNames";
 import dayjs from "dayjs";
+import { getEventReservations } from "$lib/events/getEvents";
 import {
   actions,
   getUpcomingBookingRequests,
@@ -34,6 +35,10 @@ export const load = async ({ locals, params }) => {
     booking: bookingRequest,
     allBookingRequests,
     bookingRequests: await getUpcomingBookingRequests(prisma),
+    eventReservations: await getEventReservations(
+      prisma,
+      dayjs().subtract(1, "week").toDate(),
+    ),
   };
 };
 
@@ -11,6 +11,7 @@ import {
   type PrismaClient,
 } from "@prisma/client";
 import sendNotification from "$lib/utils/notifications";
+import { getEventReservations } from "$lib/events/getEvents";
 import { NotificationType } from "$lib/utils/notifications/types";
 
 export const load = async ({ locals }) => {
@@ -28,9 +29,13 @@ export const load = async ({ locals }) => {
       booker: true,
     },
   });
+  const eventReservations = await getEventReservations(
+    prisma,
+    dayjs().subtract(1, "week").toDate(),
+  );
   const form = await superValidate(zod(bookingSchema));
 
-  return { bookables, bookingRequests, form };
+  return { bookables, bookingRequests, eventReservations, form };
 };
 
 const sendNotificationToKM = async (
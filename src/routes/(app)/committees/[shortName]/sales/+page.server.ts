@@ -0,0 +1,26 @@
+import {
+  canSeeCommitteeSales,
+  getCommitteeSalesStatistics,
+} from "$lib/server/shop/getAnalytics";
+import { getYearOrThrowSvelteError } from "$lib/utils/url.server";
+import * as m from "$paraglide/messages";
+import { error } from "@sveltejs/kit";
+import type { PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+  const { user, prisma } = locals;
+  const committee = await prisma.committee.findUnique({
+    where: {
+      shortName: params.shortName,
+    },
+  });
+  if (!committee) throw error(404, m.committees_errors_committeeNotFound());
+  if (!(await canSeeCommitteeSales(user, committee.id)))
+    throw error(403, "Du har inte behörighet att se utskottets försäljning");
+  const year = getYearOrThrowSvelteError(url);
+  return {
+    committee,
+    year,
+    ...(await getCommitteeSalesStatistics(committee.id, year)),
+  };
+};
@@ -0,0 +1,26 @@
+import {
+  canSeeCommitteeSurveys,
+  getCommitteeSurveyComparison,
+} from "$lib/events/server/surveys";
+import { getSemesterOrThrowSvelteError } from "$lib/utils/url.server";
+import * as m from "$paraglide/messages";
+import { error } from "@sveltejs/kit";
+import type { PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+  const { user, prisma } = locals;
+  const committee = await prisma.committee.findUnique({
+    where: {
+      shortName: params.shortName,
+    },
+  });
+  if (!committee) throw error(404, m.committees_errors_committeeNotFound());
+  if (!(await canSeeCommitteeSurveys(user, committee.id)))
+    throw error(403, "Du har inte behörighet att se utskottets enkäter");
+  const semester = getSemesterOrThrowSvelteError(url);
+  return {
+    committee,
+    semester,
+    ...(await getCommitteeSurveyComparison(prisma, committee.id, semester)),
+  };
+};
@@ -1,6 +1,7 @@
 import { compareCommitteePositions } from "$lib/utils/committee-ordering/sort";
 import * as m from "$paraglide/messages";
-import type { PrismaClient } from "@prisma/client";
+import { BASIC_EVENT_FILTER } from "$lib/events/events";
+import type { Prisma, PrismaClient } from "@prisma/client";
 import { error, fail, type Actions } from "@sveltejs/kit";
 import { zod } from "sveltekit-superforms/adapters";
 import { message, superValidate, withFiles } from "sveltekit-superforms/server";
@@ -141,6 +142,42 @@ export const committeeLoad = async (
     error(500, m.committees_errors_fetchMarkdown());
   }
 
+  const now = new Date();
+  const eventSelect = {
+    id: true,
+    slug: true,
+    title: true,
+    startDatetime: true,
+    endDatetime: true,
+    isCancelled: true,
+  } satisfies Prisma.EventSelect;
+  const [upcomingEvents, pastEvents] = await Promise.all([
+    prisma.event.findMany({
+      where: {
+        ...BASIC_EVENT_FILTER(null),
+        hostCommittees: { some: { shortName } },
+        endDatetime: { gte: now },
+      },
+      orderBy: { startDatetime: "asc" },
+      take: 10,
+      select: eventSelect,
+    }),
+    // the past events of the selected year, like the mandates
+    prisma.event.findMany({
+      where: {
+        ...BASIC_EVENT_FILTER(null),
+        hostCommittees: { some: { shortName } },
+        endDatetime: { lt: now },
+        startDatetime: {
+          gte: firstDayOfYear,
+          lt: new Date(`${year + 1}-01-01`),
+        },
+      },
+      orderBy: { startDatetime: "desc" },
+      select: eventSelect,
+    }),
+  ]);
+
   const form = await superValidate(
     {
       ...committee,
@@ -160,6 +197,8 @@ export const committeeLoad = async (
     uniqueMemberCount: uniqueMembersInCommittee.value,
     numberOfMandates: numberOfMandates.value,
     markdown: markdown.value,
+    upcomingEvents,
+    pastEvents,
     form,
     year,
   };
@@ -0,0 +1,100 @@
+import { draftLink } from "$lib/drafts/drafts";
+import { discardDraftSchema } from "$lib/drafts/schema";
+import { discardDraft } from "$lib/drafts/server/drafts";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import type { Actions, PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals }) => {
+  const { prisma, user } = locals;
+  if (!user.memberId) throw error(401, m.drafts_errors_notLoggedIn());
+  const now = new Date();
+  const [drafts, scheduledArticles, scheduledEvents] = await Promise.all([
+    prisma.draft.findMany({
+      where: { memberId: user.memberId },
+      orderBy: { updatedAt: "desc" },
+      select: {
+        id: true,
+        type: true,
+        targetId: true,
+        title: true,
+        updatedAt: true,
+      },
+    }),
+    prisma.article.findMany({
+      where: {
+        author: { memberId: user.memberId },
+        publishedAt: { gt: now },
+        removedAt: null,
+      },
+      orderBy: { publishedAt: "asc" },
+      select: {
+        id: true,
+        slug: true,
+        header: true,
+        publishedAt: true,
+        notifyOnPublish: true,
+      },
+    }),
+    prisma.event.findMany({
+      where: {
+        authorId: user.memberId,
+        publishedAt: { gt: now },
+        removedAt: null,
+      },
+      orderBy: { publishedAt: "asc" },
+      select: {
+        id: true,
+        slug: true,
+        title: true,
+        publishedAt: true,
+        startDatetime: true,
+        notifyOnPublish: true,
+      },
+    }),
+  ]);
+
+  // drafts of edits are continued on the edit page of what they are drafts of
+  const targetIds = drafts.flatMap((draft) =>
+    draft.targetId ? [draft.targetId] : [],
+  );
+  const [targetArticles, targetEvents] = await Promise.all([
+    prisma.article.findMany({
+      where: { id: { in: targetIds } },
+      select: { id: true, slug: true },
+    }),
+    prisma.event.findMany({
+      where: { id: { in: targetIds } },
+      select: { id: true, slug: true },
+    }),
+  ]);
+  const slugs = new Map(
+    [...targetArticles, ...targetEvents].map(({ id, slug }) => [id, slug]),
+  );
+
+  return {
+    drafts: drafts.map((draft) => ({
+      ...draft,
+      isEdit: draft.targetId !== null,
+      link: draftLink(draft, slugs.get(draft.targetId ?? "") ?? null),
+    })),
+    scheduledArticles,
+    scheduledEvents,
+    discardForm: await superValidate(zod(discardDraftSchema)),
+  };
+};
+
+export const actions: Actions = {
+  discard: async ({ request, locals }) => {
+    const { prisma } = locals;
+    const form = await superValidate(request, zod(discardDraftSchema));
+    if (!form.valid) return fail(400, { form });
+    await discardDraft(prisma, form.data.draftId);
+    return message(form, {
+      message: m.drafts_discarded(),
+      type: "success",
+    });
+  },
+};
@@ -2,11 +2,17 @@ import { getAllTaggedMembers } from "$lib/utils/commentTagging";
 import {
   commentAction,
   commentSchema,
+  editCommentAction,
+  editCommentSchema,
+  reactCommentAction,
+  reactCommentSchema,
   removeCommentAction,
   removeCommentSchema,
+  reportCommentAction,
+  reportCommentSchema,
 } from "$lib/zod/comments";
-import { error } from "@sveltejs/kit";
-import { superValidate } from "sveltekit-superforms/server";
+import { error, fail, type RequestEvent } from "@sveltejs/kit";
+import { message, superValidate } from "sveltekit-superforms/server";
 import { zod } from "sveltekit-superforms/adapters";
 import { getEvent } from "$lib/events/getEvents";
 import type { Actions, PageServerLoad } from "./$types";
@@ -17,7 +23,28 @@ import {
   removeEventSchema,
 } from "$lib/events/server/removeEventAction";
 import * as m from "$paraglide/messages";
-import { interestedGoingSchema } from "$lib/events/schema";
+import {
+  interestedGoingSchema,
+  photoRemovalRequestSchema,
+  photoTagSchema,
+  registrationSchema,
+  type RegistrationSchema,
+} from "$lib/events/schema";
+import {
+  canSeeEventPhotos,
+  canUploadEventPhotos,
+  requestPhotoRemoval,
+  tagMemberInPhoto,
+  untagMemberInPhoto,
+} from "$lib/events/server/photos";
+import { isEventOrganizer } from "$lib/events/server/organizers";
+import {
+  cancelRegistration,
+  getRegistrationStatus,
+  registerForEvent,
+} from "$lib/events/server/registrations";
+import type { SuperValidated } from "sveltekit-superforms";
+import { publishingStatus } from "$lib/utils/scheduledPublishing";
 
 export const load: PageServerLoad = async ({ locals, params }) => {
   const { prisma, user } = locals;
@@ -27,11 +54,39 @@ export const load: PageServerLoad = async ({ locals, params }) => {
       message: m.events_errors_eventNotFound(),
     });
   }
+  const canEdit = await isEventOrganizer(user, event);
+  // scheduled events can only be previewed by their organizers
+  if (publishingStatus(event.publishedAt) === "scheduled" && !canEdit) {
+    throw error(404, {
+      message: m.events_errors_eventNotFound(),
+    });
+  }
   const allTaggedMembers = await getAllTaggedMembers(prisma, event.comments);
-  const canEdit =
-    isAuthorized(apiNames.EVENT.UPDATE, user) ||
-    event.authorId === user.memberId;
   const canDelete = isAuthorized(apiNames.EVENT.DELETE, user);
+  const registration = event.registrationEnabled
+    ? await getRegistrationStatus(event.id, user.memberId)
+    : null;
+  const survey = await prisma.eventSurvey.findUnique({
+    where: { eventId: event.id },
+    select: { sentAt: true },
+  });
+  const photos = canSeeEventPhotos(user)
+    ? await prisma.eventPhoto.findMany({
+        where: { eventId: event.id },
+        orderBy: { createdAt: "asc" },
+        include: { tags: { include: { member: true } } },
+      })
+    : [];
+  const photoRemovalRequests = user.memberId
+    ? await prisma.eventPhotoRemovalRequest.findMany({
+        where: {
+          memberId: user.memberId,
+          resolvedAt: null,
+          photo: { eventId: event.id },
+        },
+        select: { photoId: true },
+      })
+    : [];
   return {
     event,
     allTaggedMembers,
@@ -39,13 +94,132 @@ export const load: PageServerLoad = async ({ locals, params }) => {
     canDelete,
     commentForm: await superValidate(zod(commentSchema)),
     removeCommentForm: await superValidate(zod(removeCommentSchema)),
+    editCommentForm: await superValidate(zod(editCommentSchema)),
+    reactCommentForm: await superValidate(zod(reactCommentSchema)),
+    reportCommentForm: await superValidate(zod(reportCommentSchema)),
     removeEventForm: await superValidate(zod(removeEventSchema)),
     interestedGoingForm: await superValidate(zod(interestedGoingSchema)),
+    survey,
+    photos,
+    requestedPhotoRemovals: photoRemovalRequests.map((r) => r.photoId),
+    canUploadPhotos: canUploadEventPhotos(user),
+    photoTagForm: await superValidate(zod(photoTagSchema)),
+    photoRemovalRequestForm: await superValidate(
+      zod(photoRemovalRequestSchema),
+    ),
+    registration,
+    registrationForm: await superValidate(
+      {
+        answers: Object.fromEntries(
+          registration?.registration?.answers.map((a) => [
+            a.questionId,
+            a.answer,
+          ]) ?? [],
+        ),
+      },
+      zod(registrationSchema),
+    ),
   };
 };
 
+/**
+ * Runs a registration change for the logged in member, showing errors as a message on the form.
+ */
+const registrationFormAction =
+  (
+    change: (
+      eventId: string,
+      memberId: string,
+      form: SuperValidated<RegistrationSchema>,
+    ) => Promise<string>,
+  ) =>
+  async ({ request, locals, params }: RequestEvent<{ slug: string }>) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(registrationSchema));
+    if (!form.valid) return fail(400, { form });
+    if (!user.memberId) throw error(401, m.members_errors_notLoggedIn());
+    const event = await prisma.event.findUnique({
+      where: { slug: params.slug },
+      select: { id: true },
+    });
+    if (!event) throw error(404, m.events_errors_eventNotFound());
+    try {
+      return message(form, {
+        message: await change(event.id, user.memberId, form),
+        type: "success",
+      });
+    } catch (e) {
+      return message(
+        form,
+        {
+          message: e instanceof Error ? e.message : String(e),
+          type: "error",
+        },
+        { status: 400 },
+      );
+    }
+  };
+
 export const actions: Actions = {
   comment: commentAction("EVENT"),
   removeComment: removeCommentAction("EVENT"),
+  editComment: editCommentAction("EVENT"),
+  reactComment: reactCommentAction("EVENT"),
+  reportComment: reportCommentAction("EVENT"),
   removeEvent: removeEventAction,
+  register: registrationFormAction(async (eventId, memberId, form) => {
+    const registration = await registerForEvent(
+      eventId,
+      memberId,
+      form.data.answers,
+    );
+    return registration.isWaitlisted
+      ? m.events_registration_waitlisted()
+      : m.events_registration_registered();
+  }),
+  cancelRegistration: registrationFormAction(async (eventId, memberId) => {
+    await cancelRegistration(eventId, memberId);
+    return m.events_registration_cancelled();
+  }),
+  tagPhoto: async ({ request, locals }) => {
+    const form = await superValidate(request, zod(photoTagSchema));
+    if (!form.valid) return fail(400, { form });
+    await tagMemberInPhoto(
+      locals.prisma,
+      locals.user,
+      form.data.photoId,
+      form.data.memberId,
+    );
+    return message(form, {
+      message: m.events_photos_tagged(),
+      type: "success",
+    });
+  },
+  untagPhoto: async ({ request, locals }) => {
+    const form = await superValidate(request, zod(photoTagSchema));
+    if (!form.valid) return fail(400, { form });
+    await untagMemberInPhoto(
+      locals.prisma,
+      form.data.photoId,
+      form.data.memberId,
+    );
+    return message(form, {
+      message: m.events_photos_untagged(),
+      type: "success",
+    });
+  },
+  requestPhotoRemoval: async ({ request, locals }) => {
+    const form = await superValidate(request, zod(photoRemovalRequestSchema));
+    if (!form.valid) return fail(400, { form });
+    await requestPhotoRemoval(
+      locals.prisma,
+      locals.user,
+      form.data.photoId,
+      form.data.reason,
+    );
+    return message(form, {
+      message: m.events_photos_removalRequested(),
+      type: "success",
+    });
+  },
 };
@@ -1,31 +1,45 @@
 import { actionType, eventSchema } from "$lib/events/schema";
 import { updateEvent } from "$lib/events/server/actions";
-import apiNames from "$lib/utils/apiNames";
-import { authorize } from "$lib/utils/authorization";
+import { authorizeEventOrganizer } from "$lib/events/server/organizers";
 import * as m from "$paraglide/messages";
 import { error } from "@sveltejs/kit";
 import { zod } from "sveltekit-superforms/adapters";
 import { superValidate } from "sveltekit-superforms/server";
 import type { Actions, PageServerLoad } from "./$types";
 import { getAllTags } from "$lib/news/tags";
+import { getReservationOptions } from "$lib/events/getEvents";
 import { z } from "zod";
+import type { Weekday } from "$lib/utils/recurrence";
+import { getDraftData } from "$lib/drafts/server/drafts";
+import { publishingStatus } from "$lib/utils/scheduledPublishing";
 
-export const load: PageServerLoad = async ({ locals, params }) => {
+export const load: PageServerLoad = async ({ locals, params, url }) => {
   const { prisma, user } = locals;
 
   const allTags = await getAllTags(prisma, true);
+  const allCommittees = await prisma.committee.findMany({
+    orderBy: [{ name: "asc" }],
+    select: { id: true, name: true, nameEn: true },
+  });
+  const reservationOptions = await getReservationOptions(prisma);
   const event = await prisma.event.findUnique({
     where: {
       slug: params.slug,
     },
     include: {
       tags: true,
+      hostCommittees: { select: { id: true } },
+      reservedBookables: { select: { id: true } },
+      registrationQuestions: {
+        where: { removedAt: null },
+        orderBy: { order: "asc" },
+      },
     },
   });
   if (!event) {
     throw error(404, m.events_errors_eventNotFound());
   }
-  if (event.authorId !== user.memberId) authorize(apiNames.EVENT.UPDATE, user);
+  await authorizeEventOrganizer(user, event);
   const isRecurring = event.recurringParentId !== null;
   const recurringEvent = isRecurring
     ? await prisma.recurringEvent.findUnique({
@@ -39,17 +53,35 @@ export const load: PageServerLoad = async ({ locals, params }) => {
   }
   const completeEvent = {
     ...event,
+    hostCommitteeIds: event.hostCommittees.map((committee) => committee.id),
+    reservedBookableIds: event.reservedBookables.map((bookable) => bookable.id),
     isRecurring: isRecurring,
     recurringType: recurringEvent?.recurringType,
     recurringEndDatetime: recurringEvent?.endDatetime,
     separationCount: recurringEvent?.separationCount,
+    byWeekday: recurringEvent?.byWeekday as Weekday[] | undefined,
+    bySetPosition: recurringEvent?.bySetPosition,
+    exceptionDates: recurringEvent?.exceptionDates,
+    skipExamWeeks: recurringEvent?.skipExamWeeks,
+    // only scheduled events can be rescheduled, see updateEvent
+    publishAt:
+      publishingStatus(event.publishedAt) === "scheduled"
+        ? event.publishedAt
+        : null,
   };
+  const draft = await getDraftData(
+    prisma,
+    url.searchParams.get("draft"),
+    "EVENT",
+  );
   return {
     allTags,
+    allCommittees,
+    reservationOptions,
     event,
     recurringParentId: event?.recurringParentId,
     form: await superValidate(
-      completeEvent,
+      draft ?? completeEvent,
       zod(eventSchema.and(z.object({ editType: actionType }))),
     ),
   };
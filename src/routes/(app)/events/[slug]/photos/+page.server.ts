@@ -0,0 +1,103 @@
+import { PUBLIC_BUCKETS_FILES } from "$env/static/public";
+import {
+  photoRemovalResolutionSchema,
+  photoSchema,
+  uploadPhotosSchema,
+} from "$lib/events/schema";
+import {
+  canUploadEventPhotos,
+  removeEventPhoto,
+  resolvePhotoRemovalRequest,
+  uploadEventPhotos,
+} from "$lib/events/server/photos";
+import apiNames from "$lib/utils/apiNames";
+import { authorize, isAuthorized } from "$lib/utils/authorization";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate, withFiles } from "sveltekit-superforms/server";
+import type { Actions, PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+  const { prisma, user } = locals;
+  const policies = apiNames.FILES.BUCKET(PUBLIC_BUCKETS_FILES);
+  authorize(policies.READ, user);
+  const event = await prisma.event.findUnique({
+    where: { slug: params.slug },
+    select: { id: true, slug: true, title: true },
+  });
+  if (!event) throw error(404, m.events_errors_eventNotFound());
+  const photos = await prisma.eventPhoto.findMany({
+    where: { eventId: event.id },
+    orderBy: { createdAt: "asc" },
+    include: {
+      uploader: true,
+      // only the uploader and those who may remove any photo can see these
+      removalRequests: {
+        where: { resolvedAt: null },
+        include: { member: true },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+  return {
+    event,
+    photos,
+    canUpload: canUploadEventPhotos(user),
+    canRemoveAny: isAuthorized(policies.DELETE, user),
+    uploadForm: await superValidate(zod(uploadPhotosSchema)),
+    removePhotoForm: await superValidate(zod(photoSchema)),
+    resolveForm: await superValidate(zod(photoRemovalResolutionSchema)),
+  };
+};
+
+export const actions: Actions = {
+  upload: async ({ request, locals, params }) => {
+    const form = await superValidate(request, zod(uploadPhotosSchema), {
+      allowFiles: true,
+    });
+    if (!form.valid) return fail(400, withFiles({ form }));
+    const event = await locals.prisma.event.findUnique({
+      where: { slug: params.slug },
+      select: { id: true, slug: true },
+    });
+    if (!event) throw error(404, m.events_errors_eventNotFound());
+    const count = await uploadEventPhotos(
+      locals.prisma,
+      locals.user,
+      event,
+      form.data.photos,
+    );
+    form.data.photos = [];
+    return message(form, {
+      message: `${count} bilder uppladdade`,
+      type: "success",
+    });
+  },
+  removePhoto: async ({ request, locals }) => {
+    const form = await superValidate(request, zod(photoSchema));
+    if (!form.valid) return fail(400, { form });
+    await removeEventPhoto(locals.prisma, locals.user, form.data.photoId);
+    return message(form, {
+      message: "Bilden borttagen",
+      type: "success",
+    });
+  },
+  resolveRemovalRequest: async ({ request, locals }) => {
+    const form = await superValidate(
+      request,
+      zod(photoRemovalResolutionSchema),
+    );
+    if (!form.valid) return fail(400, { form });
+    await resolvePhotoRemovalRequest(
+      locals.prisma,
+      locals.user,
+      form.data.requestId,
+      form.data.removePhoto,
+    );
+    return message(form, {
+      message: form.data.removePhoto ? "Bilden borttagen" : "Begäran avfärdad",
+      type: "success",
+    });
+  },
+};
@@ -0,0 +1,82 @@
+import { messageRegistrantsSchema } from "$lib/events/schema";
+import { authorizeEventOrganizer } from "$lib/events/server/organizers";
+import {
+  cancelRegistration,
+  messageRegistrants,
+} from "$lib/events/server/registrations";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import { z } from "zod";
+import type { Actions, PageServerLoad } from "./$types";
+import { loadRegistrations } from "./loadRegistrations";
+
+const removeRegistrationSchema = z.object({
+  memberId: z.string().uuid(),
+});
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+  const { prisma, user } = locals;
+  const { event, registrations } = await loadRegistrations(
+    prisma,
+    user,
+    params.slug,
+  );
+  return {
+    event,
+    registrations,
+    messageForm: await superValidate(zod(messageRegistrantsSchema)),
+    removeRegistrationForm: await superValidate(zod(removeRegistrationSchema)),
+  };
+};
+
+const getOrganizedEvent = async (locals: App.Locals, slug: string) => {
+  const event = await locals.prisma.event.findUnique({
+    where: { slug },
+    select: { id: true, slug: true, title: true, authorId: true },
+  });
+  if (!event) throw error(404, m.events_errors_eventNotFound());
+  await authorizeEventOrganizer(locals.user, event);
+  return event;
+};
+
+export const actions: Actions = {
+  message: async ({ request, locals, params }) => {
+    const form = await superValidate(request, zod(messageRegistrantsSchema));
+    if (!form.valid) return fail(400, { form });
+    const event = await getOrganizedEvent(locals, params.slug);
+    if (!locals.user.memberId) throw error(401, m.members_errors_notLoggedIn());
+    const count = await messageRegistrants(
+      event,
+      locals.user.memberId,
+      form.data.message,
+      form.data.includeWaitlist,
+    );
+    return message(form, {
+      message: `Meddelandet skickades till ${count} personer`,
+      type: "success",
+    });
+  },
+  removeRegistration: async ({ request, locals, params }) => {
+    const form = await superValidate(request, zod(removeRegistrationSchema));
+    if (!form.valid) return fail(400, { form });
+    const event = await getOrganizedEvent(locals, params.slug);
+    try {
+      await cancelRegistration(event.id, form.data.memberId);
+    } catch (e) {
+      return message(
+        form,
+        {
+          message: e instanceof Error ? e.message : String(e),
+          type: "error",
+        },
+        { status: 400 },
+      );
+    }
+    return message(form, {
+      message: "Anmälan borttagen",
+      type: "success",
+    });
+  },
+};
@@ -0,0 +1,74 @@
+import { toCSV, toXLSX, type SpreadsheetRow } from "$lib/server/spreadsheet";
+import { getFullName } from "$lib/utils/client/member";
+import { error } from "@sveltejs/kit";
+import dayjs from "dayjs";
+import { loadRegistrations } from "../loadRegistrations";
+import type { RequestHandler } from "./$types";
+
+/**
+ * Exports the attendee list of an event with the answers to its questions.
+ * Query parameters:
+ * - format: "csv" (default) or "xlsx"
+ * - waitlist: "true" to include the ones on the waitlist
+ */
+export const GET: RequestHandler = async ({ locals, params, url }) => {
+  const { user, prisma } = locals;
+  const format = url.searchParams.get("format") ?? "csv";
+  if (format !== "csv" && format !== "xlsx")
+    throw error(400, "Formatet måste vara csv eller xlsx");
+  const includeWaitlist = url.searchParams.get("waitlist") === "true";
+  const { event, registrations } = await loadRegistrations(
+    prisma,
+    user,
+    params.slug,
+  );
+  const questions = event.registrationQuestions;
+
+  const rows: SpreadsheetRow[] = [
+    [
+      "Namn",
+      "Stil-id",
+      "Email",
+      "Matpreferens",
+      "Anmäld",
+      ...(includeWaitlist ? ["Väntelista"] : []),
+      ...questions.map((question) =>
+        question.removedAt !== null
+          ? `${question.title} (borttagen)`
+          : question.title,
+      ),
+    ],
+    ...registrations
+      .filter((registration) => includeWaitlist || !registration.isWaitlisted)
+      .map((registration) => [
+        getFullName(registration.member, { hideNickname: true }),
+        registration.member.studentId ?? "",
+        registration.member.email ?? "",
+        registration.member.foodPreference ?? "",
+        dayjs(registration.createdAt).format("YYYY-MM-DD HH:mm:ss"),
+        ...(includeWaitlist ? [registration.isWaitlisted ? "Ja" : ""] : []),
+        ...questions.map(
+          (question) =>
+            registration.answers.find((a) => a.questionId === question.id)
+              ?.answer ?? "",
+        ),
+      ]),
+  ];
+
+  const filename = encodeURIComponent(event.title);
+  if (format === "xlsx") {
+    return new Response(toXLSX(rows, event.title), {
+      headers: {
+        "Content-Type":
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename*=UTF-8''${filename}.xlsx`,
+      },
+    });
+  }
+  return new Response(toCSV(rows), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename*=UTF-8''${filename}.csv`,
+    },
+  });
+};
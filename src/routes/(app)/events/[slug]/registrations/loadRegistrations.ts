@@ -0,0 +1,30 @@
+import { authorizeEventOrganizer } from "$lib/events/server/organizers";
+import * as m from "$paraglide/messages";
+import type { PrismaClient } from "@prisma/client";
+import { error } from "@sveltejs/kit";
+import type { AuthUser } from "@zenstackhq/runtime";
+
+/**
+ * The registrations of an event for its organizers, with the ones on the waitlist last in the order they joined.
+ */
+export const loadRegistrations = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  slug: string,
+) => {
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    include: {
+      // including removed questions, since they might have answers
+      registrationQuestions: { orderBy: { order: "asc" } },
+    },
+  });
+  if (!event) throw error(404, m.events_errors_eventNotFound());
+  await authorizeEventOrganizer(user, event);
+  const registrations = await prisma.eventRegistration.findMany({
+    where: { eventId: event.id },
+    include: { member: true, answers: true },
+    orderBy: [{ isWaitlisted: "asc" }, { createdAt: "asc" }],
+  });
+  return { event, registrations };
+};
@@ -0,0 +1,65 @@
+import { surveyResponseSchema } from "$lib/events/schema";
+import { isEventOrganizer } from "$lib/events/server/organizers";
+import {
+  getSurveyStatus,
+  submitSurveyResponse,
+} from "$lib/events/server/surveys";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import type { Actions, PageServerLoad } from "./$types";
+
+const getSurveyEvent = async (locals: App.Locals, slug: string) => {
+  const event = await locals.prisma.event.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      slug: true,
+      title: true,
+      titleEn: true,
+      authorId: true,
+      startDatetime: true,
+      endDatetime: true,
+    },
+  });
+  if (!event) throw error(404, m.events_errors_eventNotFound());
+  if (!locals.user.memberId) throw error(401, m.members_errors_notLoggedIn());
+  return { event, memberId: locals.user.memberId };
+};
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+  const { event, memberId } = await getSurveyEvent(locals, params.slug);
+  const status = await getSurveyStatus(event.id, memberId);
+  if (!status) throw error(404, m.events_survey_errors_notFound());
+  return {
+    event,
+    ...status,
+    canEdit: await isEventOrganizer(locals.user, event),
+    form: await superValidate(zod(surveyResponseSchema)),
+  };
+};
+
+export const actions: Actions = {
+  default: async ({ request, locals, params }) => {
+    const form = await superValidate(request, zod(surveyResponseSchema));
+    if (!form.valid) return fail(400, { form });
+    const { event, memberId } = await getSurveyEvent(locals, params.slug);
+    try {
+      await submitSurveyResponse(event.id, memberId, form.data);
+    } catch (e) {
+      return message(
+        form,
+        {
+          message: e instanceof Error ? e.message : String(e),
+          type: "error",
+        },
+        { status: 400 },
+      );
+    }
+    return message(form, {
+      message: m.events_survey_thanks(),
+      type: "success",
+    });
+  },
+};
@@ -0,0 +1,112 @@
+import { surveySchema } from "$lib/events/schema";
+import { authorizeEventOrganizer } from "$lib/events/server/organizers";
+import {
+  getSurveyResults,
+  removeEventSurvey,
+  setEventSurvey,
+} from "$lib/events/server/surveys";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import { emptySchema } from "$lib/zod/schemas";
+import type { Actions, PageServerLoad } from "./$types";
+
+const getOrganizedEvent = async (locals: App.Locals, slug: string) => {
+  const event = await locals.prisma.event.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      slug: true,
+      title: true,
+      authorId: true,
+      endDatetime: true,
+    },
+  });
+  if (!event) throw error(404, m.events_errors_eventNotFound());
+  await authorizeEventOrganizer(locals.user, event);
+  return event;
+};
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+  const event = await getOrganizedEvent(locals, params.slug);
+  const results = await getSurveyResults(locals.prisma, event.id);
+  const form = await superValidate(
+    results
+      ? {
+          anonymous: results.survey.anonymous,
+          questions: results.survey.questions.map((question) => ({
+            id: question.id,
+            type: question.type as "RATING" | "TEXT",
+            title: question.title,
+            titleEn: question.titleEn,
+          })),
+        }
+      : {
+          questions: [
+            {
+              type: "RATING" as const,
+              title: "Vad tyckte du om evenemanget?",
+              titleEn: "What did you think of the event?",
+            },
+            {
+              type: "TEXT" as const,
+              title: "Något vi kan göra bättre?",
+              titleEn: "Anything we could do better?",
+            },
+          ],
+        },
+    zod(surveySchema),
+    { errors: false },
+  );
+  return {
+    event,
+    results,
+    form,
+    removeForm: await superValidate(zod(emptySchema)),
+  };
+};
+
+export const actions: Actions = {
+  save: async ({ request, locals, params }) => {
+    const form = await superValidate(request, zod(surveySchema));
+    if (!form.valid) return fail(400, { form });
+    const event = await getOrganizedEvent(locals, params.slug);
+    try {
+      await setEventSurvey(locals.prisma, event.id, form.data);
+    } catch (e) {
+      return message(
+        form,
+        {
+          message: e instanceof Error ? e.message : String(e),
+          type: "error",
+        },
+        { status: 400 },
+      );
+    }
+    return message(form, {
+      message: "Enkäten sparades",
+      type: "success",
+    });
+  },
+  remove: async ({ request, locals, params }) => {
+    const form = await superValidate(request, zod(emptySchema));
+    const event = await getOrganizedEvent(locals, params.slug);
+    try {
+      await removeEventSurvey(locals.prisma, event.id);
+    } catch (e) {
+      return message(
+        form,
+        {
+          message: e instanceof Error ? e.message : String(e),
+          type: "error",
+        },
+        { status: 400 },
+      );
+    }
+    return message(form, {
+      message: "Enkäten togs bort",
+      type: "success",
+    });
+  },
+};
@@ -5,16 +5,30 @@ import { zod } from "sveltekit-superforms/adapters";
 import { superValidate } from "sveltekit-superforms/server";
 import type { Actions, PageServerLoad } from "./$types";
 import { getAllTags } from "$lib/news/tags";
+import { getReservationOptions } from "$lib/events/getEvents";
 import { z } from "zod";
+import { getDraftData } from "$lib/drafts/server/drafts";
 
-export const load: PageServerLoad = async ({ locals }) => {
+export const load: PageServerLoad = async ({ locals, url }) => {
   const { prisma, member } = locals;
   const allTags = await getAllTags(prisma, true);
+  const allCommittees = await prisma.committee.findMany({
+    orderBy: [{ name: "asc" }],
+    select: { id: true, name: true, nameEn: true },
+  });
+  const reservationOptions = await getReservationOptions(prisma);
   if (!member) error(401, "Du måste vara inloggad för att skapa evenemang.");
+  const draft = await getDraftData(
+    prisma,
+    url.searchParams.get("draft"),
+    "EVENT",
+  );
   return {
     allTags,
+    allCommittees,
+    reservationOptions,
     form: await superValidate(
-      { organizer: `${member.firstName} ${member.lastName}` },
+      draft ?? { organizer: `${member.firstName} ${member.lastName}` },
       zod(eventSchema.and(z.object({ editType: actionType }))),
     ),
   };
@@ -12,6 +12,7 @@ export const GET = async ({ locals, setHeaders }) => {
         gte: dayjs().subtract(1, "month").toDate(),
       },
     },
+    include: { recurringEventParent: true },
   });
 
   return generateICS(events, setHeaders);
@@ -0,0 +1,9 @@
+import { generateICS } from "$lib/server/ics/calendar";
+import { getFeedContent } from "$lib/server/ics/feeds";
+import { error } from "@sveltejs/kit";
+
+export const GET = async ({ params, setHeaders }) => {
+  const content = await getFeedContent(params.token);
+  if (!content) throw error(404, "Calendar feed not found");
+  return generateICS(content.events, setHeaders, content.bookings);
+};
@@ -55,6 +55,7 @@ export const actions: Actions = {
       data: {
         name: name,
         ...form.data,
+        revisions: { create: { ...form.data, editorId: user?.memberId } },
       },
     });
     await prisma.accessPolicy.create({
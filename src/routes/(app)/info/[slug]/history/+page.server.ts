@@ -0,0 +1,63 @@
+import { restoreRevisionSchema } from "$lib/news/schema";
+import { canUpdateMarkdown } from "$lib/news/markdown/mutations.server";
+import {
+  getMarkdownHistory,
+  restoreMarkdownRevision,
+} from "$lib/news/server/revisions";
+import apiNames from "$lib/utils/apiNames";
+import { redirect } from "$lib/utils/redirect";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import type { Actions, PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+  const { prisma, user } = locals;
+  if (!canUpdateMarkdown(user, params.slug))
+    throw error(
+      403,
+      `${m.errors_missingPermissions()} ${apiNames.MARKDOWNS.PAGE(params.slug).UPDATE}`,
+    );
+  const page = await prisma.markdown.findUnique({
+    where: { name: params.slug },
+    select: { name: true },
+  });
+  if (!page) throw error(404, { message: "Not found" });
+  return {
+    slug: params.slug,
+    ...(await getMarkdownHistory(
+      params.slug,
+      url.searchParams.get("revision"),
+    )),
+    restoreForm: await superValidate(zod(restoreRevisionSchema)),
+  };
+};
+
+export const actions: Actions = {
+  restore: async (event) => {
+    const { request, locals, params } = event;
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(restoreRevisionSchema));
+    if (!form.valid) return fail(400, { form });
+    try {
+      await restoreMarkdownRevision(
+        user,
+        prisma,
+        params.slug,
+        form.data.revisionId,
+      );
+    } catch (e) {
+      return message(
+        form,
+        { message: (e as Error).message, type: "error" },
+        { status: 400 },
+      );
+    }
+    throw redirect(
+      `/info/${params.slug}/history`,
+      { message: m.news_revisions_restored(), type: "success" },
+      event,
+    );
+  },
+};
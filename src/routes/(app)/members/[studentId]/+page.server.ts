@@ -137,6 +137,7 @@ const updateSchema = memberSchema
     lastName: true,
     nickname: true,
     foodPreference: true,
+    birthday: true,
     classProgramme: true,
     classYear: true,
     nollningGroupId: true,
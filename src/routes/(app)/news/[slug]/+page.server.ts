@@ -10,8 +10,14 @@ import { redirect } from "$lib/utils/redirect";
 import {
   commentAction,
   commentSchema,
+  editCommentAction,
+  editCommentSchema,
+  reactCommentAction,
+  reactCommentSchema,
   removeCommentAction,
   removeCommentSchema,
+  reportCommentAction,
+  reportCommentSchema,
 } from "$lib/zod/comments";
 import * as m from "$paraglide/messages";
 import { error } from "@sveltejs/kit";
@@ -37,14 +43,19 @@ export const load: PageServerLoad = async ({ locals, params }) => {
       isAuthorized(apiNames.NEWS.UPDATE, user)) ||
     article.author.memberId === user.memberId;
   const canDelete = isAuthorized(apiNames.NEWS.DELETE, user);
+  const canSeeHistory = isAuthorized(apiNames.NEWS.UPDATE, user);
   return {
     article,
     allTaggedMembers,
     canEdit,
     canDelete,
+    canSeeHistory,
     likeForm: await superValidate(zod(likeSchema)),
     commentForm: await superValidate(zod(commentSchema)),
     removeCommentForm: await superValidate(zod(removeCommentSchema)),
+    editCommentForm: await superValidate(zod(editCommentSchema)),
+    reactCommentForm: await superValidate(zod(reactCommentSchema)),
+    reportCommentForm: await superValidate(zod(reportCommentSchema)),
   };
 };
 
@@ -53,6 +64,9 @@ export const actions: Actions = {
   dislike: likesAction(false),
   comment: commentAction("NEWS"),
   removeComment: removeCommentAction("NEWS"),
+  editComment: editCommentAction("NEWS"),
+  reactComment: reactCommentAction("NEWS"),
+  reportComment: reportCommentAction("NEWS"),
   removeArticle: async (event) => {
     const { locals, params } = event;
     const { prisma, user } = locals;
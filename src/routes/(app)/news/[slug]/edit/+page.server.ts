@@ -1,5 +1,7 @@
+import { getDraftData } from "$lib/drafts/server/drafts";
 import apiNames from "$lib/utils/apiNames";
-import { authorize } from "$lib/utils/authorization";
+import { authorize, isAuthorized } from "$lib/utils/authorization";
+import { publishingStatus } from "$lib/utils/scheduledPublishing";
 import * as m from "$paraglide/messages";
 import { error } from "@sveltejs/kit";
 import { zod } from "sveltekit-superforms/adapters";
@@ -10,7 +12,7 @@ import { updateArticle } from "$lib/news/server/actions";
 import { updateSchema } from "$lib/news/schema";
 import { getAllTags } from "$lib/news/tags";
 
-export const load: PageServerLoad = async ({ locals, params }) => {
+export const load: PageServerLoad = async ({ locals, params, url }) => {
   const { prisma, user } = locals;
 
   const allTags = await getAllTags(prisma, true);
@@ -66,10 +68,27 @@ export const load: PageServerLoad = async ({ locals, params }) => {
     memberWithMandtes,
   );
 
+  // only scheduled articles can be rescheduled, see updateArticle
+  const canSchedule =
+    isAuthorized(apiNames.NEWS.MANAGE, user) &&
+    publishingStatus(article.publishedAt) === "scheduled";
+  const draft = await getDraftData(
+    prisma,
+    url.searchParams.get("draft"),
+    "ARTICLE",
+  );
   return {
     allTags,
     authorOptions,
-    form: await superValidate(article, zod(updateSchema)),
+    articleId: article.id,
+    canSchedule,
+    form: await superValidate(
+      draft ?? {
+        ...article,
+        publishAt: canSchedule ? article.publishedAt : null,
+      },
+      zod(updateSchema),
+    ),
   };
 };
 
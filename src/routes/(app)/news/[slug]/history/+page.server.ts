@@ -0,0 +1,57 @@
+import { restoreRevisionSchema } from "$lib/news/schema";
+import {
+  getArticleHistory,
+  restoreArticleRevision,
+} from "$lib/news/server/revisions";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import { redirect } from "$lib/utils/redirect";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import type { Actions, PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+  const { prisma, user } = locals;
+  authorize(apiNames.NEWS.UPDATE, user);
+  const article = await prisma.article.findUnique({
+    where: { slug: params.slug },
+    select: { id: true, slug: true, header: true },
+  });
+  if (!article) throw error(404, m.news_errors_articleNotFound());
+  return {
+    article,
+    ...(await getArticleHistory(
+      prisma,
+      article.id,
+      url.searchParams.get("revision"),
+    )),
+    restoreForm: await superValidate(zod(restoreRevisionSchema)),
+  };
+};
+
+export const actions: Actions = {
+  restore: async (event) => {
+    const { request, locals } = event;
+    const { prisma, user } = locals;
+    authorize(apiNames.NEWS.UPDATE, user);
+    const form = await superValidate(request, zod(restoreRevisionSchema));
+    if (!form.valid) return fail(400, { form });
+    let slug: string;
+    try {
+      slug = await restoreArticleRevision(prisma, user, form.data.revisionId);
+    } catch (e) {
+      return message(
+        form,
+        { message: (e as Error).message, type: "error" },
+        { status: 400 },
+      );
+    }
+    throw redirect(
+      `/news/${slug}/history`,
+      { message: m.news_revisions_restored(), type: "success" },
+      event,
+    );
+  },
+};
@@ -1,8 +1,9 @@
 import { getArticleAuthorOptions } from "$lib/news/getArticles";
 import { createSchema } from "$lib/news/schema";
 import { createArticle } from "$lib/news/server/actions";
+import { getDraftData } from "$lib/drafts/server/drafts";
 import apiNames from "$lib/utils/apiNames";
-import { authorize } from "$lib/utils/authorization";
+import { authorize, isAuthorized } from "$lib/utils/authorization";
 import * as m from "$paraglide/messages";
 import { error } from "@sveltejs/kit";
 import { zod } from "sveltekit-superforms/adapters";
@@ -10,7 +11,7 @@ import { superValidate } from "sveltekit-superforms/server";
 import type { Actions, PageServerLoad } from "./$types";
 import { getAllTags } from "$lib/news/tags";
 
-export const load: PageServerLoad = async ({ locals }) => {
+export const load: PageServerLoad = async ({ locals, url }) => {
   const { prisma, user } = locals;
   authorize(apiNames.NEWS.CREATE, user);
 
@@ -41,11 +42,18 @@ export const load: PageServerLoad = async ({ locals }) => {
     prisma,
     currentMemberWithMandates,
   );
+  const draft = await getDraftData(
+    prisma,
+    url.searchParams.get("draft"),
+    "ARTICLE",
+  );
   return {
     allTags,
     authorOptions,
+    // the others submit their articles for review, see news/requests.ts
+    canSchedule: isAuthorized(apiNames.NEWS.MANAGE, user),
     form: await superValidate(
-      {
+      draft ?? {
         sendNotification: true,
         author: authorOptions[0],
       },
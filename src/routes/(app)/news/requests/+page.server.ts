@@ -0,0 +1,133 @@
+import { articleRequestSchema, articleReviewSchema } from "$lib/news/schema";
+import {
+  approveArticleRequest,
+  rejectArticleRequest,
+  requestArticleChanges,
+} from "$lib/news/server/requests";
+import apiNames from "$lib/utils/apiNames";
+import { authorize, isAuthorized } from "$lib/utils/authorization";
+import { redirect } from "$lib/utils/redirect";
+import * as m from "$paraglide/messages";
+import { fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import type { Actions, PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals }) => {
+  const { prisma, user } = locals;
+  authorize(apiNames.NEWS.CREATE, user);
+  const isReviewer = isAuthorized(apiNames.NEWS.MANAGE, user);
+  const include = {
+    request: { include: { handledBy: true } },
+    author: {
+      include: {
+        member: true,
+        mandate: { include: { position: true } },
+        customAuthor: true,
+      },
+    },
+    tags: true,
+  } as const;
+  const [queue, submissions] = await Promise.all([
+    isReviewer
+      ? prisma.article.findMany({
+          where: { status: "pending", request: { isNot: null } },
+          orderBy: { request: { submittedDatetime: "asc" } },
+          include,
+        })
+      : [],
+    prisma.article.findMany({
+      where: {
+        author: { memberId: user.memberId },
+        request: { isNot: null },
+      },
+      orderBy: { request: { submittedDatetime: "desc" } },
+      include,
+      take: 20,
+    }),
+  ]);
+  return {
+    isReviewer,
+    queue,
+    submissions,
+    approveForm: await superValidate(zod(articleRequestSchema)),
+    reviewForm: await superValidate(zod(articleReviewSchema)),
+  };
+};
+
+export const actions: Actions = {
+  approve: async (event) => {
+    const { request, locals } = event;
+    const { prisma, user } = locals;
+    authorize(apiNames.NEWS.MANAGE, user);
+    const form = await superValidate(request, zod(articleRequestSchema));
+    if (!form.valid) return fail(400, { form });
+    let slug: string;
+    try {
+      ({ slug } = await approveArticleRequest(
+        prisma,
+        form.data.articleId,
+        user.memberId!,
+      ));
+    } catch (e) {
+      return message(
+        form,
+        { message: (e as Error).message, type: "error" },
+        { status: 400 },
+      );
+    }
+    throw redirect(
+      `/news/${slug}`,
+      { message: m.news_requests_approved(), type: "success" },
+      event,
+    );
+  },
+  reject: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.NEWS.MANAGE, user);
+    const form = await superValidate(request, zod(articleReviewSchema));
+    if (!form.valid) return fail(400, { form });
+    try {
+      await rejectArticleRequest(
+        prisma,
+        form.data.articleId,
+        user.memberId!,
+        form.data.comment,
+      );
+    } catch (e) {
+      return message(
+        form,
+        { message: (e as Error).message, type: "error" },
+        { status: 400 },
+      );
+    }
+    return message(form, {
+      message: m.news_requests_rejected(),
+      type: "success",
+    });
+  },
+  requestChanges: async ({ request, locals }) => {
+    const { prisma, user } = locals;
+    authorize(apiNames.NEWS.MANAGE, user);
+    const form = await superValidate(request, zod(articleReviewSchema));
+    if (!form.valid) return fail(400, { form });
+    try {
+      await requestArticleChanges(
+        prisma,
+        form.data.articleId,
+        user.memberId!,
+        form.data.comment,
+      );
+    } catch (e) {
+      return message(
+        form,
+        { message: (e as Error).message, type: "error" },
+        { status: 400 },
+      );
+    }
+    return message(form, {
+      message: m.news_requests_changesRequested(),
+      type: "success",
+    });
+  },
+};
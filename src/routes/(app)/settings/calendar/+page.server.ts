@@ -0,0 +1,89 @@
+import { createFeedToken } from "$lib/server/ics/feeds";
+import { calendarFeedSchema } from "$lib/server/ics/types";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import { z } from "zod";
+
+const feedIdSchema = z.object({ id: z.string().uuid() });
+
+export const load = async ({ locals }) => {
+  const { user, prisma } = locals;
+  if (!user.memberId)
+    throw error(401, "Du måste logga in för att ändra inställningar");
+  const feeds = await prisma.calendarFeed.findMany({
+    where: { memberId: user.memberId },
+    orderBy: { createdAt: "asc" },
+  });
+  return {
+    feeds,
+    createForm: await superValidate(
+      {
+        name: m.setting_calendar_defaultName(),
+        language: locals.language,
+        includeGoing: true,
+        includeInterested: true,
+        includeTickets: true,
+      },
+      zod(calendarFeedSchema),
+      { errors: false },
+    ),
+  };
+};
+
+export const actions = {
+  save: async ({ locals, request }) => {
+    const { user, prisma } = locals;
+    if (!user.memberId) throw error(401);
+    const form = await superValidate(request, zod(calendarFeedSchema));
+    if (!form.valid) return fail(400, { form });
+    const { id, ...data } = form.data;
+    if (id) {
+      await prisma.calendarFeed.update({
+        where: { id, memberId: user.memberId },
+        data,
+      });
+      return message(form, {
+        message: m.setting_calendar_saved(),
+        type: "success",
+      });
+    }
+    await prisma.calendarFeed.create({
+      data: {
+        ...data,
+        memberId: user.memberId,
+        token: createFeedToken(),
+      },
+    });
+    return message(form, {
+      message: m.setting_calendar_created(),
+      type: "success",
+    });
+  },
+  regenerateToken: async ({ locals, request }) => {
+    const { user, prisma } = locals;
+    const form = await superValidate(request, zod(feedIdSchema));
+    if (!form.valid) return fail(400, { form });
+    await prisma.calendarFeed.update({
+      where: { id: form.data.id, memberId: user.memberId },
+      data: { token: createFeedToken() },
+    });
+    return message(form, {
+      message: m.setting_calendar_regenerated(),
+      type: "success",
+    });
+  },
+  delete: async ({ locals, request }) => {
+    const { user, prisma } = locals;
+    const form = await superValidate(request, zod(feedIdSchema));
+    if (!form.valid) return fail(400, { form });
+    await prisma.calendarFeed.delete({
+      where: { id: form.data.id, memberId: user.memberId },
+    });
+    return message(form, {
+      message: m.setting_calendar_deleted(),
+      type: "success",
+    });
+  },
+};
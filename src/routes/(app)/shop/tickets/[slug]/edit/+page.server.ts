@@ -5,7 +5,10 @@ import { redirect } from "$lib/utils/redirect";
 import { error, fail } from "@sveltejs/kit";
 import { message, superValidate } from "sveltekit-superforms/server";
 import { zod } from "sveltekit-superforms/adapters";
-import { updateTicket } from "$lib/server/shop/tickets/mutations";
+import {
+  getTicketsForAddonsAndBundles,
+  updateTicket,
+} from "$lib/server/shop/tickets/mutations";
 
 export const load = async ({ locals, params }) => {
   const { user } = locals;
@@ -23,6 +26,12 @@ export const load = async ({ locals, params }) => {
             },
           },
           accessPolicies: true,
+          priceTiers: true,
+          discountCodes: true,
+          releasePhases: {
+            orderBy: { startsAt: "asc" },
+          },
+          bundleItems: true,
         },
       },
       event: true,
@@ -58,11 +67,45 @@ export const load = async ({ locals, params }) => {
           type: q.type as QuestionType,
         })),
         accessPolicies: ticket.shoppable.accessPolicies,
+        priceTiers: ticket.shoppable.priceTiers.map((tier) => ({
+          role: tier.role,
+          price: tier.price / 100,
+        })),
+        discountCodes: ticket.shoppable.discountCodes.map((discountCode) => ({
+          id: discountCode.id,
+          code: discountCode.code,
+          discountPercentage: discountCode.discountPercentage,
+          discountAmount:
+            discountCode.discountAmount !== null
+              ? discountCode.discountAmount / 100
+              : null,
+          maxUses: discountCode.maxUses,
+          validFrom: discountCode.validFrom,
+          validTo: discountCode.validTo,
+        })),
+        releasePhases: ticket.shoppable.releasePhases.map((phase) => ({
+          name: phase.name,
+          nameEn: phase.nameEn,
+          role: phase.role,
+          startsAt: phase.startsAt,
+          stock: phase.stock,
+        })),
+        refundPolicy: ticket.shoppable.refundPolicy,
+        refundDeadline: ticket.shoppable.refundDeadline,
+        refundPercentageAfterDeadline:
+          ticket.shoppable.refundPercentageAfterDeadline,
+        addonToId: ticket.shoppable.addonToId,
+        bundleItemIds: ticket.shoppable.bundleItems.map(
+          (item) => item.shoppableId,
+        ),
       },
       zod(ticketSchema),
       { errors: false },
     ),
     event: ticket.event,
+    tickets: (await getTicketsForAddonsAndBundles(locals.prisma)).filter(
+      (t) => t.id !== ticket.id,
+    ),
   };
 };
 
@@ -1,12 +1,20 @@
 import { env } from "$env/dynamic/public";
 import {
-  moveQueueToCart,
-  withHandledNotificationQueue,
-} from "$lib/server/shop/addToCart/reservations";
-import authorizedPrismaClient from "$lib/server/authorizedPrisma";
-import { refundConsumable } from "$lib/server/shop/payments/stripeMethods";
-import type { Event, ItemQuestion, Shoppable, Ticket } from "@prisma/client";
-import { fail } from "@sveltejs/kit";
+  approveRefundRequest,
+  denyRefundRequest,
+} from "$lib/server/shop/inventory/refundRequests";
+import { refundConsumableWithChildren } from "$lib/server/shop/payments/refunds";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import type {
+  Event,
+  ItemQuestion,
+  PrismaClient,
+  Shoppable,
+  Ticket,
+} from "@prisma/client";
+import { error, fail } from "@sveltejs/kit";
+import type { AuthUser } from "@zenstackhq/runtime";
 import { zod } from "sveltekit-superforms/adapters";
 import { message, superValidate } from "sveltekit-superforms/server";
 import { z } from "zod";
@@ -31,6 +39,49 @@ export const load = async ({ locals, params }) => {
   );
   const consumablesInCart = consumables.filter((c) => c.purchasedAt === null);
   const reservations = ticket.shoppable.reservations;
+  const waitlist = ticket.waitlist;
+  const discountCodes = await prisma.shoppableDiscountCode.findMany({
+    where: {
+      shoppableId: params.slug,
+    },
+    include: {
+      _count: {
+        select: {
+          consumables: {
+            where: { purchasedAt: { not: null } },
+          },
+        },
+      },
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+  const transfers = await prisma.consumableTransfer.findMany({
+    where: {
+      consumable: {
+        shoppableId: params.slug,
+      },
+    },
+    include: {
+      fromMember: true,
+      toMember: true,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+  const refundRequests = await prisma.consumableRefundRequest.findMany({
+    where: {
+      shoppableId: params.slug,
+    },
+    include: {
+      member: true,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
   // Typing just so we can remove consumables and reservations from shoppable
   const shoppable: Omit<Shoppable, "consumables" | "reservations"> & {
     consumables?: unknown;
@@ -40,11 +91,13 @@ export const load = async ({ locals, params }) => {
   delete shoppable.reservations;
   const mergedTicket: ManagedTicket & {
     shoppable?: unknown;
+    waitlist?: unknown;
   } = {
     ...ticket.shoppable,
     ...ticket,
   };
   delete mergedTicket.shoppable;
+  delete mergedTicket.waitlist;
 
   const isStripeTestEnvironment = env.PUBLIC_STRIPE_KEY.startsWith("pk_test");
   const stripeIntentBaseUrl = isStripeTestEnvironment
@@ -55,10 +108,34 @@ export const load = async ({ locals, params }) => {
     purchasedConsumables,
     consumablesInCart,
     reservations,
+    waitlist,
+    discountCodes,
+    transfers,
+    refundRequests,
     stripeIntentBaseUrl, // referenced directly in ConsumableRow.svelte
   };
 };
 
+const refundRequestSchema = z.object({ requestId: z.string().uuid() });
+
+/**
+ * Refund requests are handled with the authorized prisma client, so who can manage the ticket has to be checked here.
+ */
+const authorizeRefundManager = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  shoppableId: string,
+) => {
+  const shoppable = await prisma.shoppable.findUnique({
+    where: { id: shoppableId },
+  });
+  if (!shoppable) throw error(404, "Biljetten hittades inte.");
+  if (shoppable.authorId !== user.memberId) {
+    // author can always manage
+    authorize(apiNames.WEBSHOP.MANAGE, user);
+  }
+};
+
 export const actions = {
   consume: async ({ locals, request, params }) => {
     const { prisma } = locals;
@@ -141,6 +218,11 @@ export const actions = {
         },
         include: {
           shoppable: true,
+          children: {
+            include: {
+              shoppable: true,
+            },
+          },
         },
       });
       if (!consumable) {
@@ -149,25 +231,13 @@ export const actions = {
           type: "error",
         });
       }
-      if (consumable.stripeIntentId) {
-        await refundConsumable(
-          consumable.stripeIntentId,
-          consumable.priceAtPurchase ?? consumable.shoppable.price, // to ensure correct refund amount if shoppable price has changed
-        );
+      if (consumable.isBundleItem) {
+        return message(form, {
+          message: "Biljetten ingår i ett paket, återbetala paketet istället.",
+          type: "error",
+        });
       }
-      await authorizedPrismaClient.consumable.delete({
-        where: {
-          id: consumable.id,
-        },
-      });
-      await withHandledNotificationQueue(
-        moveQueueToCart(
-          authorizedPrismaClient,
-          consumable.shoppableId,
-          1,
-          true,
-        ),
-      );
+      await refundConsumableWithChildren(consumable);
 
       return message(form, {
         message: "Biljetten har återbetalats.",
@@ -185,4 +255,41 @@ export const actions = {
       });
     }
   },
+  approveRefund: async ({ locals, request, params }) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(refundRequestSchema));
+    if (!form.valid) return fail(400, { form });
+    await authorizeRefundManager(prisma, user, params.slug);
+    try {
+      await approveRefundRequest(params.slug, form.data.requestId);
+    } catch (e) {
+      return message(form, {
+        message:
+          e instanceof Error ? e.message : "Kunde inte återbetala biljetten.",
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: "Biljetten har återbetalats.",
+      type: "success",
+    });
+  },
+  denyRefund: async ({ locals, request, params }) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(refundRequestSchema));
+    if (!form.valid) return fail(400, { form });
+    await authorizeRefundManager(prisma, user, params.slug);
+    try {
+      await denyRefundRequest(params.slug, form.data.requestId);
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : "Kunde inte neka begäran.",
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: "Begäran har nekats.",
+      type: "success",
+    });
+  },
 };
@@ -0,0 +1,38 @@
+import {
+  analyticsShoppableInclude,
+  getSalesStatistics,
+} from "$lib/server/shop/getAnalytics";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import { error } from "@sveltejs/kit";
+import type { PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+  const { user, prisma } = locals;
+  const ticket = await prisma.ticket.findUnique({
+    where: {
+      id: params.slug,
+    },
+    include: {
+      event: true,
+      shoppable: {
+        include: analyticsShoppableInclude,
+      },
+    },
+  });
+  if (!ticket) throw error(404, "Biljetten kunde inte hittas");
+  if (ticket.shoppable.authorId !== user.memberId) {
+    // author can always see the statistics
+    authorize(apiNames.WEBSHOP.MANAGE, user);
+  }
+  const [result] = await getSalesStatistics([ticket.shoppable]);
+  return {
+    ticket: {
+      id: ticket.id,
+      title: ticket.shoppable.title,
+      stock: ticket.stock,
+      event: ticket.event,
+    },
+    statistics: result!.statistics,
+  };
+};
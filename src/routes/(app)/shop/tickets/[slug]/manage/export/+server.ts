@@ -0,0 +1,102 @@
+import { toCSV, toXLSX, type SpreadsheetRow } from "$lib/server/spreadsheet";
+import { getFullName } from "$lib/utils/client/member";
+import type { ItemQuestion } from "@prisma/client";
+import { error } from "@sveltejs/kit";
+import dayjs from "dayjs";
+import { loadTicketData } from "../loadTicketData";
+import type { RequestHandler } from "./$types";
+
+type Consumables = Awaited<ReturnType<typeof loadTicketData>>["consumables"];
+
+/**
+ * Exports the guest list of a ticket, i.e. all purchased tickets with the owner's info and their answers to the questions.
+ * Query parameters:
+ * - format: "csv" (default) or "xlsx"
+ * - consumed: "true" to include a column with when each ticket was consumed
+ */
+export const GET: RequestHandler = async ({ locals, params, url }) => {
+  const { user, prisma } = locals;
+  const format = url.searchParams.get("format") ?? "csv";
+  if (format !== "csv" && format !== "xlsx")
+    throw error(400, "Formatet måste vara csv eller xlsx");
+  const includeConsumed = url.searchParams.get("consumed") === "true";
+  // the user's own client is used, so only answers they are allowed to read are included
+  const { ticket, consumables } = await loadTicketData(
+    prisma,
+    user,
+    params.slug,
+    true,
+  );
+  const rows = generateRows(
+    ticket.shoppable.questions,
+    consumables.filter((c) => c.purchasedAt !== null),
+    includeConsumed,
+  );
+  const filename = encodeURIComponent(ticket.shoppable.title);
+  if (format === "xlsx") {
+    return new Response(toXLSX(rows, ticket.shoppable.title), {
+      headers: {
+        "Content-Type":
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename*=UTF-8''${filename}.xlsx`,
+      },
+    });
+  }
+  return new Response(toCSV(rows), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename*=UTF-8''${filename}.csv`,
+    },
+  });
+};
+
+const generateRows = (
+  questions: ItemQuestion[],
+  consumables: Consumables,
+  includeConsumed: boolean,
+): SpreadsheetRow[] => {
+  const headers = [
+    "Namn",
+    "Stil-id",
+    "Email",
+    "Matpreferens",
+    "Phaddergrupp",
+    "Betalad mängd",
+    "Köpdatum",
+    ...(includeConsumed ? ["Förbrukad"] : []),
+    "Payment Intent id",
+    ...questions.map((question) =>
+      question.removedAt !== null
+        ? `${question.title} (borttagen)`
+        : question.title,
+    ),
+  ];
+  const rows = consumables.map((consumable) => {
+    const member = consumable.member;
+    return [
+      member ? getFullName(member, { hideNickname: true }) : "Anonym användare",
+      member?.studentId ?? "",
+      member ? (member.email ?? "") : (consumable.externalCustomerEmail ?? ""),
+      member?.foodPreference ?? "",
+      member?.phadderGroup?.name ?? "",
+      consumable.priceAtPurchase !== null
+        ? consumable.priceAtPurchase / 100
+        : "Okänt",
+      dayjs(consumable.purchasedAt).format("YYYY-MM-DD HH:mm:ss"),
+      ...(includeConsumed
+        ? [
+            consumable.consumedAt
+              ? dayjs(consumable.consumedAt).format("YYYY-MM-DD HH:mm:ss")
+              : "",
+          ]
+        : []),
+      consumable.stripeIntentId ?? "",
+      ...questions.map(
+        (question) =>
+          consumable.questionResponses.find((r) => r.questionId === question.id)
+            ?.answer ?? "",
+      ),
+    ];
+  });
+  return [headers, ...rows];
+};
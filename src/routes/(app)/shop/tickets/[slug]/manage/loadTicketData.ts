@@ -1,14 +1,18 @@
 import { phadderMandateFilter } from "$lib/nollning/groups/types";
 import apiNames from "$lib/utils/apiNames";
-import { authorize } from "$lib/utils/authorization";
+import { authorize, isAuthorized } from "$lib/utils/authorization";
 import type { PrismaClient } from "@prisma/client";
 import { error } from "@sveltejs/kit";
 import type { AuthUser } from "@zenstackhq/runtime";
 
+/**
+ * @param readOnly if the data is only read, in which case those who can read purchases can load it as well
+ */
 export const loadTicketData = async (
   prisma: PrismaClient,
   user: AuthUser,
   ticketId: string,
+  readOnly = false,
 ) => {
   const ticket = await prisma.ticket.findUnique({
     where: {
@@ -32,10 +36,21 @@ export const loadTicketData = async (
         },
       },
       event: true,
+      waitlist: {
+        orderBy: {
+          createdAt: "asc",
+        },
+        include: {
+          member: true,
+        },
+      },
     },
   });
   if (!ticket) throw error(404, "Ticket not found");
-  if (ticket.shoppable.authorId !== user.memberId) {
+  if (
+    ticket.shoppable.authorId !== user.memberId &&
+    !(readOnly && isAuthorized(apiNames.WEBSHOP.READ_PURCHASES, user))
+  ) {
     // author can always manage
     authorize(apiNames.WEBSHOP.MANAGE, user);
   }
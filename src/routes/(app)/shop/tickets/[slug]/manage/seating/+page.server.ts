@@ -0,0 +1,168 @@
+import {
+  getSeating,
+  runSeatingPlanner,
+  saveSeatAssignments,
+  saveSeatingTables,
+  setSeatingPublished,
+} from "$lib/server/shop/seating/seating";
+import {
+  seatAssignmentsSchema,
+  seatingTablesSchema,
+} from "$lib/server/shop/seating/types";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import type { PrismaClient } from "@prisma/client";
+import { error, fail } from "@sveltejs/kit";
+import type { AuthUser } from "@zenstackhq/runtime";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import { z } from "zod";
+
+const authorizeSeating = async (
+  prisma: PrismaClient,
+  user: AuthUser,
+  ticketId: string,
+) => {
+  const shoppable = await prisma.shoppable.findUnique({
+    where: { id: ticketId },
+  });
+  if (!shoppable) throw error(404, "Biljetten kunde inte hittas");
+  if (shoppable.authorId !== user.memberId) {
+    // author can always manage the seating
+    authorize(apiNames.WEBSHOP.MANAGE, user);
+  }
+};
+
+export const load = async ({ locals, params }) => {
+  const { user, prisma } = locals;
+  await authorizeSeating(prisma, user, params.slug);
+  const { ticket, guests } = await getSeating(prisma, params.slug);
+  const event = await prisma.event.findUniqueOrThrow({
+    where: { id: ticket.eventId },
+  });
+  return {
+    ticket: {
+      id: ticket.id,
+      title: ticket.shoppable.title,
+      seatingPublishedAt: ticket.seatingPublishedAt,
+      questions: ticket.shoppable.questions,
+      event,
+    },
+    tables: ticket.seatingTables,
+    guests,
+    tablesForm: await superValidate(
+      {
+        sitWithQuestionId: ticket.sitWithQuestionId,
+        tables: ticket.seatingTables.map((table) => ({
+          id: table.id,
+          name: table.name,
+          seatCount: table.seatCount,
+        })),
+      },
+      zod(seatingTablesSchema),
+      { errors: false },
+    ),
+    seatsForm: await superValidate(
+      {
+        seats: ticket.seatingTables.flatMap((table) =>
+          table.seats.map((seat) => ({
+            consumableId: seat.consumableId,
+            tableId: seat.tableId,
+            seatNumber: seat.seatNumber,
+          })),
+        ),
+      },
+      zod(seatAssignmentsSchema),
+      { errors: false },
+    ),
+  };
+};
+
+export const actions = {
+  saveTables: async ({ locals, request, params }) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(seatingTablesSchema));
+    if (!form.valid) return fail(400, { form });
+    await authorizeSeating(prisma, user, params.slug);
+    try {
+      const tables = await saveSeatingTables(prisma, params.slug, form.data);
+      // new tables get their ids, so saving again doesn't create them twice
+      form.data.tables = tables.map((table) => ({
+        id: table.id,
+        name: table.name,
+        seatCount: table.seatCount,
+      }));
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : "Kunde inte spara borden.",
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: "Borden har sparats.",
+      type: "success",
+    });
+  },
+  plan: async ({ locals, request, params }) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(z.object({})));
+    await authorizeSeating(prisma, user, params.slug);
+    try {
+      const unseated = await runSeatingPlanner(prisma, params.slug);
+      if (unseated > 0)
+        return message(form, {
+          message: `${unseated} personer fick inte plats, lägg till fler platser.`,
+          type: "error",
+        });
+    } catch (e) {
+      return message(form, {
+        message:
+          e instanceof Error ? e.message : "Kunde inte placera gästerna.",
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: "Alla gäster har placerats.",
+      type: "success",
+    });
+  },
+  saveSeats: async ({ locals, request, params }) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(seatAssignmentsSchema));
+    if (!form.valid) return fail(400, { form });
+    await authorizeSeating(prisma, user, params.slug);
+    try {
+      await saveSeatAssignments(prisma, params.slug, form.data.seats);
+    } catch (e) {
+      return message(form, {
+        message:
+          e instanceof Error ? e.message : "Kunde inte spara placeringen.",
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: "Placeringen har sparats.",
+      type: "success",
+    });
+  },
+  publish: async ({ locals, request, params }) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(z.object({})));
+    await authorizeSeating(prisma, user, params.slug);
+    await setSeatingPublished(prisma, params.slug, true);
+    return message(form, {
+      message: "Placeringen har publicerats.",
+      type: "success",
+    });
+  },
+  unpublish: async ({ locals, request, params }) => {
+    const { prisma, user } = locals;
+    const form = await superValidate(request, zod(z.object({})));
+    await authorizeSeating(prisma, user, params.slug);
+    await setSeatingPublished(prisma, params.slug, false);
+    return message(form, {
+      message: "Placeringen är inte längre publicerad.",
+      type: "success",
+    });
+  },
+};
@@ -3,3 +3,7 @@ import type { load } from "./+page.server";
 export type LoadData = Awaited<ReturnType<typeof load>>;
 export type ConsumableRowData = LoadData["purchasedConsumables"][number];
 export type ReservationData = LoadData["reservations"][number];
+export type WaitlistEntryData = LoadData["waitlist"][number];
+export type TransferData = LoadData["transfers"][number];
+export type RefundRequestData = LoadData["refundRequests"][number];
+export type DiscountCodeData = LoadData["discountCodes"][number];
@@ -0,0 +1,69 @@
+import { checkInConsumable } from "$lib/server/shop/tickets/checkIn";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { superValidate } from "sveltekit-superforms/server";
+import { checkInForm } from "$lib/utils/shop/types";
+import type { Actions, PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params }) => {
+  const { user, prisma } = locals;
+  authorize(apiNames.WEBSHOP.CONSUME, user);
+  const ticket = await prisma.ticket.findUnique({
+    where: {
+      id: params.slug,
+    },
+    include: {
+      shoppable: {
+        include: {
+          _count: {
+            select: {
+              consumables: {
+                where: { purchasedAt: { not: null } },
+              },
+            },
+          },
+        },
+      },
+      event: true,
+    },
+  });
+  if (!ticket) throw error(404, m.tickets_errors_ticketNotFound());
+  const consumedCount = await prisma.consumable.count({
+    where: {
+      shoppableId: ticket.id,
+      purchasedAt: { not: null },
+      consumedAt: { not: null },
+    },
+  });
+  return {
+    ticket: {
+      id: ticket.id,
+      title: ticket.shoppable.title,
+      event: ticket.event,
+    },
+    purchasedCount: ticket.shoppable._count.consumables,
+    consumedCount,
+    form: await superValidate(zod(checkInForm)),
+  };
+};
+
+export const actions: Actions = {
+  checkIn: async ({ locals, request, params }) => {
+    const { user, prisma } = locals;
+    authorize(apiNames.WEBSHOP.CONSUME, user);
+    const form = await superValidate(request, zod(checkInForm));
+    if (!form.valid) return fail(400, { form });
+    const result = await checkInConsumable(prisma, params.slug, form.data.code);
+    return {
+      form,
+      result: {
+        ...result,
+        // The time is formatted on the client, so it is shown in the scanner's timezone
+        scannedAt: new Date(),
+      },
+    };
+  },
+};
@@ -5,7 +5,10 @@ import { fail } from "@sveltejs/kit";
 import dayjs from "dayjs";
 import { message, superValidate } from "sveltekit-superforms/server";
 import { zod } from "sveltekit-superforms/adapters";
-import { createTicket } from "$lib/server/shop/tickets/mutations";
+import {
+  createTicket,
+  getTicketsForAddonsAndBundles,
+} from "$lib/server/shop/tickets/mutations";
 import { ticketSchema } from "$lib/utils/shop/types";
 
 export const load = async ({ locals }) => {
@@ -28,6 +31,7 @@ export const load = async ({ locals }) => {
       zod(ticketSchema),
       { errors: false },
     ),
+    tickets: await getTicketsForAddonsAndBundles(locals.prisma),
   };
 };
 
@@ -0,0 +1,132 @@
+import authorizedPrismaClient from "$lib/server/authorizedPrisma";
+import {
+  acceptTransfer,
+  declineTransfer,
+  isTransferRecipient,
+} from "$lib/server/shop/inventory/transfers";
+import apiNames from "$lib/utils/apiNames";
+import { authorize } from "$lib/utils/authorization";
+import { redirect } from "$lib/utils/redirect";
+import { acceptTransferForm, getTransferStatus } from "$lib/utils/shop/types";
+import * as m from "$paraglide/messages";
+import { error, fail } from "@sveltejs/kit";
+import { zod } from "sveltekit-superforms/adapters";
+import { message, superValidate } from "sveltekit-superforms/server";
+import type { Actions, PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+  const { user } = locals;
+  const token = url.searchParams.get("token") ?? undefined;
+  // the transfer can't be read with the user's client by non-members, the token in the link is what gives access to it
+  const transfer = await authorizedPrismaClient.consumableTransfer.findUnique({
+    where: { id: params.id },
+    include: {
+      fromMember: true,
+      consumable: {
+        include: {
+          shoppable: {
+            include: {
+              ticket: { include: { event: true } },
+              questions: {
+                where: { removedAt: null },
+                include: { options: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (
+    !transfer?.consumable.shoppable.ticket ||
+    !(
+      isTransferRecipient(user, transfer, token) ||
+      transfer.fromMemberId === user.memberId
+    )
+  )
+    throw error(404, m.inventory_transfer_errors_notFound());
+  const { shoppable } = transfer.consumable;
+  const questions = shoppable.questions.filter(
+    (q) => !q.forExternalsOnly || !user.memberId,
+  );
+  return {
+    transfer: {
+      id: transfer.id,
+      status: getTransferStatus(transfer),
+      fromMember: transfer.fromMember,
+      consumableId: transfer.consumableId,
+      createdAt: transfer.createdAt,
+    },
+    isRecipient: isTransferRecipient(user, transfer, token),
+    shoppable: {
+      title: shoppable.title,
+      description: shoppable.description,
+      event: shoppable.ticket!.event,
+    },
+    questions,
+    form: await superValidate(
+      {
+        answers: questions.map((q) => ({ questionId: q.id, answer: "" })),
+        token,
+      },
+      zod(acceptTransferForm),
+      { errors: false },
+    ),
+  };
+};
+
+export const actions: Actions = {
+  accept: async (event) => {
+    const { locals, request, params } = event;
+    const { user } = locals;
+    authorize(apiNames.WEBSHOP.PURCHASE, user);
+    const form = await superValidate(request, zod(acceptTransferForm));
+    if (!form.valid) return fail(400, { form });
+    let consumableId: string;
+    try {
+      const transfer = await acceptTransfer(
+        user,
+        params.id,
+        form.data.answers,
+        form.data.token,
+      );
+      consumableId = transfer.consumableId;
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : `${e}`,
+        type: "error",
+      });
+    }
+    if (!user.memberId) {
+      // non-members don't have an inventory page
+      return message(form, {
+        message: m.inventory_transfer_accepted(),
+        type: "success",
+      });
+    }
+    throw redirect(
+      `/shop/inventory/${consumableId}`,
+      {
+        message: m.inventory_transfer_accepted(),
+        type: "success",
+      },
+      event,
+    );
+  },
+  decline: async ({ locals, request, params }) => {
+    const { user } = locals;
+    const form = await superValidate(request, zod(acceptTransferForm));
+    try {
+      await declineTransfer(user, params.id, form.data.token);
+    } catch (e) {
+      return message(form, {
+        message: e instanceof Error ? e.message : `${e}`,
+        type: "error",
+      });
+    }
+    return message(form, {
+      message: m.inventory_transfer_declined(),
+      type: "success",
+    });
+  },
+};
@@ -1,3 +1,5 @@
+import { inventoryItemActions } from "$lib/server/shop/inventory/actions";
 import { inventoryItemLoadFunction } from "$lib/server/shop/inventory/getInventory";
 
 export const load = inventoryItemLoadFunction;
+export const actions = inventoryItemActions;
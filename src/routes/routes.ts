@@ -191,6 +191,27 @@ export const getRoutes = (): Route[] =>
           accessRequired: apiNames.ALERT,
           appBehaviour: "home-link",
         },
+        {
+          title: m.admin_calendarImports(),
+          path: "/admin/calendar-imports",
+          icon: "i-mdi-calendar-import",
+          accessRequired: apiNames.EVENT.IMPORT,
+          appBehaviour: "home-link",
+        },
+        {
+          title: m.admin_signage(),
+          path: "/admin/signage",
+          icon: "i-mdi-television",
+          accessRequired: apiNames.SIGNAGE.MANAGE,
+          appBehaviour: "home-link",
+        },
+        {
+          title: m.admin_commentModeration(),
+          path: "/admin/comments",
+          icon: "i-mdi-comment-alert",
+          accessRequired: apiNames.COMMENTS.MODERATE,
+          appBehaviour: "home-link",
+        },
         {
           title: m.linkShortener(),
           path: "/admin/links",
@@ -0,0 +1,12 @@
+import { loadSignageScreen } from "$lib/signage/server/loadScreen";
+import * as m from "$paraglide/messages";
+import { error } from "@sveltejs/kit";
+import type { PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = async ({ locals, params, depends }) => {
+  // the screen invalidates this every minute, see SIGNAGE_REFRESH_SECONDS
+  depends("signage");
+  const result = await loadSignageScreen(locals.prisma, params.slug);
+  if (!result) throw error(404, m.admin_signage_errors_screenNotFound());
+  return result;
+};